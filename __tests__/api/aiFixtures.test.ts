@@ -0,0 +1,310 @@
+/**
+ * AI client fixtures: recording a chat stream and a site generation from a
+ * stand-in Emergent API, and serving /api/chat and /api/generate from the
+ * recorded fixtures (fixtures/ai) in replay mode, without network access
+ */
+
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, NextRequest } from 'next/server';
+import { startAiUpstream, type AiUpstream, type AiUpstreamScript } from '../helpers/aiUpstream';
+
+interface JobState {
+    id: string;
+    projectId: string;
+    status: string;
+    error: string | null;
+    [field: string]: unknown;
+}
+
+let job: JobState | null;
+
+jest.mock('next/server', () => ({
+    ...jest.requireActual('next/server'),
+    after: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({
+    getCurrentUser: jest.fn(async () => ({
+        id: 'user_1',
+        auth0Id: 'auth0|user_1',
+        email: 'maria@example.com',
+        name: 'Maria Silva',
+        picture: null,
+        credits: 100,
+        role: 'USER',
+        isAdmin: false,
+        planId: 'basic',
+    })),
+}));
+
+jest.mock('@/lib/credits', () => ({
+    ...jest.requireActual('@/lib/credits'),
+    reserveCredits: jest.fn().mockResolvedValue({ success: true, holdId: 'hold_1', remaining: 60 }),
+    settleCredits: jest.fn().mockResolvedValue({ success: true }),
+    releaseCredits: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+jest.mock('@/lib/entitlements', () => ({
+    checkQuota: jest.fn().mockResolvedValue({ allowed: true }),
+    checkQuotas: jest.fn().mockResolvedValue(null),
+    toPlanLimitError: jest.fn(),
+}));
+
+jest.mock('@/lib/projectVersions', () => ({
+    recordVersion: jest.fn().mockResolvedValue({}),
+}));
+
+jest.mock('@/lib/prisma', () => {
+    const updateJob = async ({ data }: { data: Record<string, unknown> }) => {
+        job = { ...(job as JobState), ...data };
+        return { ...job };
+    };
+
+    const prisma = {
+        systemSetting: { findUnique: jest.fn().mockResolvedValue(null) },
+        conversation: {
+            findUnique: jest.fn().mockResolvedValue(null),
+            create: jest.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 'conv_1', status: 'ACTIVE', ...data })),
+            delete: jest.fn().mockResolvedValue({}),
+            update: jest.fn().mockResolvedValue({}),
+        },
+        message: {
+            findMany: jest.fn().mockResolvedValue([]),
+            create: jest.fn().mockResolvedValue({}),
+        },
+        project: {
+            create: jest.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 'proj_1', version: 1, ...data })),
+            update: jest.fn().mockResolvedValue({ id: 'proj_1', version: 1 }),
+        },
+        generationJob: {
+            create: jest.fn(async ({ data }: { data: { projectId: string } & Record<string, unknown> }) => {
+                job = {
+                    id: 'job_1',
+                    status: 'QUEUED',
+                    phase: 'queued',
+                    progress: 0,
+                    detail: null,
+                    filesTotal: 0,
+                    filesWritten: 0,
+                    error: null,
+                    createdAt: new Date(),
+                    updatedAt: new Date(),
+                    ...data,
+                };
+                return { ...job, project: { slug: 'loja-de-cafe', creditsCost: null } };
+            }),
+            findUniqueOrThrow: jest.fn(async () => ({ ...job, project: { name: 'Projeto de teste' } })),
+            updateMany: jest.fn(async ({ where, data }: { where: { status: string | { in: string[] } }; data: Record<string, unknown> }) => {
+                const statuses = typeof where.status === 'string' ? [where.status] : where.status.in;
+                if (!job || !statuses.includes(job.status)) return { count: 0 };
+                await updateJob({ data });
+                return { count: 1 };
+            }),
+            update: jest.fn(updateJob),
+        },
+        $transaction: jest.fn(),
+    };
+    prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+
+    return { prisma };
+});
+
+/** What the stand-in API answered when the fixtures were recorded */
+const UPSTREAM_SCRIPT: AiUpstreamScript = {
+    chatChunks: [
+        'Claro! ',
+        'Para uma landing page, ',
+        'comece pelo arquivo `app/page.tsx` ',
+        'com um título e um botão de contato.',
+    ],
+    chatUsage: { prompt_tokens: 86, completion_tokens: 24 },
+    files: {
+        'package.json': '{\n  "name": "loja-de-cafe",\n  "private": true,\n  "scripts": { "dev": "next dev" }\n}\n',
+        'app/layout.tsx': 'export default function RootLayout({ children }: { children: React.ReactNode }) {\n    return <html lang="pt-BR"><body>{children}</body></html>;\n}\n',
+        'app/page.tsx': 'export default function HomePage() {\n    return <main><h1>Café do Bairro</h1><a href="#contato">Fale conosco</a></main>;\n}\n',
+    },
+    preview: '<html><body><h1>Café do Bairro</h1></body></html>',
+};
+
+const CHAT_MESSAGE = 'Como começo uma landing page para minha cafeteria?';
+const GENERATE_PROMPT = 'Landing page para uma cafeteria de bairro, com cardápio e contato';
+const FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'ai');
+
+let upstream: AiUpstream;
+let chatRoute: typeof import('@/app/api/chat/route');
+let generateRoute: typeof import('@/app/api/generate/route');
+let credits: typeof import('@/lib/credits');
+
+beforeAll(async () => {
+    // Failed replays are logged on purpose
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    upstream = await startAiUpstream(UPSTREAM_SCRIPT);
+
+    // The Emergent endpoint is read when lib/constants is loaded
+    process.env.EMERGENT_API_URL = upstream.url;
+    process.env.EMERGENT_API_KEY = 'test-emergent-key';
+
+    chatRoute = await import('@/app/api/chat/route');
+    generateRoute = await import('@/app/api/generate/route');
+    credits = await import('@/lib/credits');
+});
+
+afterAll(async () => {
+    await upstream.close();
+    delete process.env.AI_CLIENT_MODE;
+    delete process.env.AI_FIXTURES_DIR;
+});
+
+beforeEach(() => {
+    job = null;
+});
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function post(url: string, body: unknown): NextRequest {
+    return new NextRequest(`http://localhost:3000${url}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+}
+
+/** Send a chat message and read the whole event stream */
+async function sendChat(message: string): Promise<string[]> {
+    const response = await chatRoute.POST(post('/api/chat', { message }));
+    expect(response.status).toBe(200);
+
+    const body = await response.text();
+    return body.split('\n\n').filter(Boolean).map((event) => event.replace(/^data: /, ''));
+}
+
+/** Start a generation and run its job the way after() would */
+async function generate(prompt: string): Promise<JobState> {
+    const response = await generateRoute.POST(post('/api/generate', { prompt }));
+    expect(response.status).toBe(202);
+
+    const [task] = jest.mocked(after).mock.calls.at(-1) ?? [];
+    await (task as () => Promise<void>)();
+
+    return job as JobState;
+}
+
+/** Fixture files of a directory, without their recording time */
+async function readFixtures(dir: string): Promise<Record<string, unknown>> {
+    const names = (await readdir(dir)).filter((name) => name.endsWith('.json')).sort();
+    const entries = await Promise.all(names.map(async (name) => {
+        const { recordedAt: _recordedAt, ...fixture } = JSON.parse(await readFile(path.join(dir, name), 'utf8'));
+        return [name, fixture] as const;
+    }));
+
+    return Object.fromEntries(entries);
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('record mode', () => {
+    let recordDir: string;
+
+    beforeAll(async () => {
+        recordDir = await mkdtemp(path.join(tmpdir(), 'ai-fixtures-'));
+        process.env.AI_CLIENT_MODE = 'record';
+        process.env.AI_FIXTURES_DIR = recordDir;
+    });
+
+    afterAll(async () => {
+        await rm(recordDir, { recursive: true, force: true });
+        delete process.env.AI_FIXTURES_DIR;
+    });
+
+    it('saves the stream chunks and the generation as the committed fixtures', async () => {
+        const events = await sendChat(CHAT_MESSAGE);
+        expect(events.at(-1)).toBe('[DONE]');
+        expect((await generate(GENERATE_PROMPT)).status).toBe('COMPLETED');
+
+        expect(upstream.requests.map((request) => request.path)).toEqual(['/chat/completions', '/generate']);
+        expect(await readFixtures(recordDir)).toEqual(await readFixtures(FIXTURES_DIR));
+    });
+});
+
+describe('replay mode', () => {
+    let fetchSpy: jest.SpyInstance;
+
+    beforeAll(() => {
+        process.env.AI_CLIENT_MODE = 'replay';
+    });
+
+    beforeEach(() => {
+        fetchSpy = jest.spyOn(global, 'fetch').mockRejectedValue(new Error('Network access in replay mode'));
+    });
+
+    afterEach(() => {
+        expect(fetchSpy).not.toHaveBeenCalled();
+        fetchSpy.mockRestore();
+    });
+
+    it('POST /api/chat streams the recorded chunks and charges the recorded usage', async () => {
+        const events = await sendChat(CHAT_MESSAGE);
+
+        expect(events).toEqual([
+            ...UPSTREAM_SCRIPT.chatChunks.map((content) => JSON.stringify({ content })),
+            '[DONE]',
+        ]);
+
+        // 86 prompt + 24 completion tokens cost 0.0079 at emergent-1 prices,
+        // raised to the minimum charge
+        expect(credits.settleCredits).toHaveBeenCalledWith('hold_1', 0.01, expect.any(String), expect.objectContaining({
+            model: 'emergent-1',
+            promptTokens: 86,
+            completionTokens: 24,
+        }));
+    });
+
+    it('POST /api/chat fails the stream and releases the hold for an unrecorded request', async () => {
+        const events = await sendChat('Uma pergunta que nunca foi gravada');
+
+        expect(events).toEqual([JSON.stringify({ error: 'Stream error' })]);
+        expect(credits.settleCredits).not.toHaveBeenCalled();
+        expect(credits.releaseCredits).toHaveBeenCalledWith('hold_1', 'error');
+    });
+
+    it('POST /api/generate completes the job with the recorded files', async () => {
+        const result = await generate(GENERATE_PROMPT);
+
+        expect(result).toMatchObject({ status: 'COMPLETED', filesTotal: 3, filesWritten: 3, error: null });
+        expect(credits.settleCredits).toHaveBeenCalledWith('hold_1', expect.any(Number), expect.any(String), expect.objectContaining({
+            model: 'emergent-1',
+        }));
+
+        const { prisma } = jest.requireMock('@/lib/prisma');
+        expect(prisma.project.update).toHaveBeenCalledWith({
+            where: { id: 'proj_1' },
+            data: { files: UPSTREAM_SCRIPT.files },
+        });
+    });
+
+    it('POST /api/generate charges nothing when the project cannot be saved', async () => {
+        const { recordVersion } = jest.requireMock('@/lib/projectVersions');
+        recordVersion.mockRejectedValueOnce(new Error('Connection lost'));
+
+        const result = await generate(GENERATE_PROMPT);
+
+        expect(result).toMatchObject({ status: 'FAILED', error: 'Connection lost' });
+        expect(credits.settleCredits).not.toHaveBeenCalled();
+        expect(credits.releaseCredits).toHaveBeenCalledWith('hold_1', 'generation failed');
+    });
+
+    it('POST /api/generate fails the job and releases the hold for an unrecorded prompt', async () => {
+        const result = await generate('Loja virtual de roupas que nunca foi gravada');
+
+        expect(result.status).toBe('FAILED');
+        expect(result.error).toContain('No AI fixture for this generate request');
+        expect(credits.releaseCredits).toHaveBeenCalledWith('hold_1', 'generation failed');
+    });
+});
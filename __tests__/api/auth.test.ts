@@ -0,0 +1,197 @@
+/**
+ * Login flow against a stand-in OIDC issuer: authorization code + PKCE,
+ * sealed state cookie, ID token nonce, and the ways the callback must fail
+ */
+
+import { NextRequest, type NextResponse } from 'next/server';
+import { startOidcIssuer, type OidcIssuer } from '../helpers/oidcIssuer';
+
+jest.mock('@/lib/prisma', () => ({
+    prisma: {
+        user: { findUnique: jest.fn().mockResolvedValue(null) },
+        authSession: { create: jest.fn().mockResolvedValue({}) },
+    },
+}));
+
+const CLIENT_ID = 'test-client';
+const CLIENT_SECRET = 'test-client-secret';
+const APP_URL = 'http://localhost:3000';
+const TRANSACTION_COOKIE = 'appAuthTxn';
+const SESSION_COOKIE = 'appSession';
+
+let issuer: OidcIssuer;
+let route: typeof import('@/app/api/auth/[...auth0]/route');
+let session: typeof import('@/lib/session');
+
+beforeAll(async () => {
+    // Rejected callbacks are logged on purpose
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    issuer = await startOidcIssuer(CLIENT_ID, CLIENT_SECRET);
+
+    // The route reads its configuration when loaded
+    process.env.AUTH0_ISSUER_BASE_URL = issuer.url;
+    process.env.AUTH0_CLIENT_ID = CLIENT_ID;
+    process.env.AUTH0_CLIENT_SECRET = CLIENT_SECRET;
+    process.env.AUTH0_BASE_URL = APP_URL;
+    process.env.AUTH0_SECRET = 'test-secret-that-is-at-least-32-characters';
+
+    route = await import('@/app/api/auth/[...auth0]/route');
+    session = await import('@/lib/session');
+});
+
+afterAll(async () => {
+    await issuer.close();
+});
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function call(path: string, cookies: Record<string, string> = {}): Promise<NextResponse> {
+    const cookie = Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join('; ');
+    const request = new NextRequest(new URL(path, APP_URL), { headers: cookie ? { cookie } : {} });
+    const action = new URL(path, APP_URL).pathname.split('/').pop() ?? '';
+
+    return route.GET(request, { params: Promise.resolve({ auth0: [action] }) }) as Promise<NextResponse>;
+}
+
+async function login(returnTo = '/dashboard/projects') {
+    const response = await call(`/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`);
+    const authorizeUrl = new URL(response.headers.get('location') ?? '');
+    const transaction = response.cookies.get(TRANSACTION_COOKIE)?.value ?? '';
+
+    return { response, authorizeUrl, transaction, state: authorizeUrl.searchParams.get('state') ?? '' };
+}
+
+function callback(params: Record<string, string>, transaction?: string) {
+    const query = new URLSearchParams(params).toString();
+    return call(`/api/auth/callback?${query}`, transaction ? { [TRANSACTION_COOKIE]: transaction } : {});
+}
+
+function expectAuthFailed(response: NextResponse) {
+    expect(response.headers.get('location')).toBe(`${APP_URL}/?error=auth_failed`);
+    expect(response.cookies.get(SESSION_COOKIE)).toBeUndefined();
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('GET /api/auth/login', () => {
+    it('redirects to the issuer with a PKCE S256 challenge, state and nonce', async () => {
+        const { response, authorizeUrl, transaction } = await login();
+
+        expect(response.status).toBe(307);
+        expect(`${authorizeUrl.origin}${authorizeUrl.pathname}`).toBe(`${issuer.url}/authorize`);
+        expect(authorizeUrl.searchParams.get('response_type')).toBe('code');
+        expect(authorizeUrl.searchParams.get('code_challenge_method')).toBe('S256');
+        expect(authorizeUrl.searchParams.get('code_challenge')).toMatch(/^[\w-]{43}$/);
+        expect(authorizeUrl.searchParams.get('state')).toBeTruthy();
+        expect(authorizeUrl.searchParams.get('nonce')).toBeTruthy();
+        expect(authorizeUrl.searchParams.get('redirect_uri')).toBe(`${APP_URL}/api/auth/callback`);
+
+        // The verifier only travels inside the sealed cookie
+        expect(transaction).toBeTruthy();
+        expect(transaction).not.toContain(authorizeUrl.searchParams.get('state'));
+    });
+
+    it('drops a returnTo pointing to another origin', async () => {
+        const first = await login('//evil.example.com/steal');
+        const code = issuer.authorize(first.authorizeUrl);
+        const response = await callback({ code, state: first.state }, first.transaction);
+
+        expect(response.headers.get('location')).toBe(`${APP_URL}/dashboard`);
+    });
+});
+
+describe('GET /api/auth/callback', () => {
+    it('exchanges the code with the PKCE verifier and opens a session', async () => {
+        const { authorizeUrl, transaction, state } = await login();
+        const code = issuer.authorize(authorizeUrl);
+
+        const response = await callback({ code, state }, transaction);
+
+        expect(response.headers.get('location')).toBe(`${APP_URL}/dashboard/projects`);
+        expect(issuer.tokenRequests.at(-1)).toMatchObject({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: `${APP_URL}/api/auth/callback`,
+        });
+
+        const sealed = response.cookies.get(SESSION_COOKIE)?.value ?? '';
+        const unsealed = await session.unsealSession(sealed);
+        expect(unsealed?.session.user).toMatchObject({ sub: 'auth0|test-user', email: 'maria@example.com' });
+        expect(unsealed?.session.refreshable).toBe(true);
+
+        // The login transaction is single use
+        expect(response.cookies.get(TRANSACTION_COOKIE)?.value).toBe('');
+    });
+
+    it('fails when the state does not match the transaction cookie', async () => {
+        const { authorizeUrl, transaction } = await login();
+        const code = issuer.authorize(authorizeUrl);
+
+        expectAuthFailed(await callback({ code, state: 'forged-state' }, transaction));
+        expect(issuer.tokenRequests.some((request) => request.code === code)).toBe(false);
+    });
+
+    it('fails without the transaction cookie', async () => {
+        const { authorizeUrl, state } = await login();
+        const code = issuer.authorize(authorizeUrl);
+
+        expectAuthFailed(await callback({ code, state }));
+    });
+
+    it('fails with a tampered transaction cookie', async () => {
+        const { authorizeUrl, transaction, state } = await login();
+        const code = issuer.authorize(authorizeUrl);
+        const tampered = `${transaction.slice(0, -4)}AAAA`;
+
+        expectAuthFailed(await callback({ code, state }, tampered));
+    });
+
+    it('fails when the transaction has expired', async () => {
+        const { authorizeUrl, transaction, state } = await login();
+        const code = issuer.authorize(authorizeUrl);
+        const now = Date.now();
+        const spy = jest.spyOn(Date, 'now').mockReturnValue(now + 11 * 60 * 1000);
+
+        try {
+            expectAuthFailed(await callback({ code, state }, transaction));
+        } finally {
+            spy.mockRestore();
+        }
+    });
+
+    it('fails when the code was issued for another PKCE challenge', async () => {
+        // Code from one login attempt, state and verifier from another
+        const victim = await login();
+        const attacker = await login();
+        const code = issuer.authorize(victim.authorizeUrl);
+
+        expectAuthFailed(await callback({ code, state: attacker.state }, attacker.transaction));
+    });
+
+    it('fails when the ID token carries another nonce', async () => {
+        const { authorizeUrl, transaction, state } = await login();
+        const code = issuer.authorize(authorizeUrl);
+        issuer.overrideNextNonce('replayed-nonce');
+
+        expectAuthFailed(await callback({ code, state }, transaction));
+    });
+
+    it('fails when a code is used twice', async () => {
+        const { authorizeUrl, transaction, state } = await login();
+        const code = issuer.authorize(authorizeUrl);
+
+        expect((await callback({ code, state }, transaction)).cookies.get(SESSION_COOKIE)).toBeDefined();
+        expectAuthFailed(await callback({ code, state }, transaction));
+    });
+
+    it('fails when the issuer returns an error', async () => {
+        const { transaction, state } = await login();
+
+        expectAuthFailed(await callback({ error: 'access_denied', state }, transaction));
+    });
+});
@@ -0,0 +1,357 @@
+/**
+ * Pix and boleto lifecycles through the fake payment provider: voucher
+ * issuance, confirmation and expiry, and redelivered webhooks
+ */
+
+import { NextRequest } from 'next/server';
+import type { Payment } from '@prisma/client';
+import { POST as createPaymentRoute } from '@/app/api/billing/payments/route';
+import { GET as getPaymentRoute } from '@/app/api/billing/payments/[id]/route';
+import { POST as paymentWebhookRoute } from '@/app/api/webhooks/payments/[provider]/route';
+import { grantCredits } from '@/lib/credits';
+import { issueInvoice } from '@/lib/invoices';
+
+type StoredPayment = Pick<
+    Payment,
+    | 'id'
+    | 'userId'
+    | 'provider'
+    | 'method'
+    | 'productType'
+    | 'productId'
+    | 'amount'
+    | 'currency'
+    | 'status'
+    | 'providerPaymentId'
+    | 'expiresAt'
+    | 'paidAt'
+>;
+
+const payments = new Map<string, StoredPayment>();
+const recordedEvents = new Set<string>();
+const grantedKeys = new Set<string>();
+
+jest.mock('@/lib/auth', () => ({
+    getCurrentUser: jest.fn(async () => ({ id: 'user_1', email: 'maria@example.com', name: 'Maria Silva' })),
+}));
+
+jest.mock('@/lib/prisma', () => ({
+    prisma: {
+        payment: {
+            create: jest.fn(async ({ data }: { data: Partial<StoredPayment> }) => {
+                const payment = {
+                    id: `pay_${payments.size + 1}`,
+                    status: 'PENDING',
+                    providerPaymentId: null,
+                    expiresAt: null,
+                    paidAt: null,
+                    ...data,
+                } as StoredPayment;
+                payments.set(payment.id, payment);
+                return { ...payment };
+            }),
+            update: jest.fn(async ({ where, data }: { where: { id: string }; data: Partial<StoredPayment> }) => {
+                const payment = { ...payments.get(where.id), ...data } as StoredPayment;
+                payments.set(where.id, payment);
+                return { ...payment };
+            }),
+            updateMany: jest.fn(
+                async ({ where, data }: {
+                    where: { id: string; status: string | { not: string } };
+                    data: Partial<StoredPayment>;
+                }) => {
+                    const payment = payments.get(where.id);
+                    const matches = payment && (typeof where.status === 'string'
+                        ? payment.status === where.status
+                        : payment.status !== where.status.not);
+
+                    if (!payment || !matches) return { count: 0 };
+                    payments.set(where.id, { ...payment, ...data });
+                    return { count: 1 };
+                }
+            ),
+            findUnique: jest.fn(async ({ where }: {
+                where: { provider_providerPaymentId: { provider: string; providerPaymentId: string } };
+            }) => {
+                const { provider, providerPaymentId } = where.provider_providerPaymentId;
+                const payment = [...payments.values()].find(
+                    (p) => p.provider === provider && p.providerPaymentId === providerPaymentId
+                );
+                return payment ? { ...payment } : null;
+            }),
+            findUniqueOrThrow: jest.fn(async ({ where }: { where: { id: string } }) => ({ ...payments.get(where.id) })),
+            findFirst: jest.fn(async ({ where }: { where: { id: string; userId: string } }) => {
+                const payment = payments.get(where.id);
+                return payment?.userId === where.userId ? { ...payment } : null;
+            }),
+        },
+        webhookEvent: {
+            findUnique: jest.fn(async ({ where }: { where: { provider_eventId: { eventId: string } } }) =>
+                recordedEvents.has(where.provider_eventId.eventId) ? { id: 'recorded' } : null
+            ),
+            create: jest.fn(async ({ data }: { data: { eventId: string } }) => {
+                recordedEvents.add(data.eventId);
+                return data;
+            }),
+        },
+        creditTransaction: {
+            findUnique: jest.fn(async ({ where }: { where: { idempotencyKey: string } }) =>
+                grantedKeys.has(where.idempotencyKey) ? { id: 'granted' } : null
+            ),
+        },
+        auditLog: { create: jest.fn().mockResolvedValue({}) },
+    },
+}));
+
+jest.mock('@/lib/credits', () => ({
+    grantCredits: jest.fn(async (...[, , , , options]: [string, number, string, string, { idempotencyKey: string }]) => {
+        grantedKeys.add(options.idempotencyKey);
+        return { success: true, balance: 0 };
+    }),
+}));
+
+jest.mock('@/lib/invoices', () => ({
+    issueInvoice: jest.fn().mockResolvedValue({}),
+}));
+
+const WEBHOOK_SECRET = 'fake-webhook-secret';
+const APP_URL = 'http://localhost:3000';
+
+beforeAll(() => {
+    process.env.PAYMENT_PROVIDER = 'fake';
+    process.env.FAKE_PAYMENTS_WEBHOOK_SECRET = WEBHOOK_SECRET;
+});
+
+beforeEach(() => {
+    payments.clear();
+    recordedEvents.clear();
+    grantedKeys.clear();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+});
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Pin the clock (Date only: request bodies still need real timers) */
+function setNow(time: number) {
+    jest.useFakeTimers({
+        now: time,
+        doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'],
+    });
+}
+
+async function createPayment(body: Record<string, unknown>) {
+    const response = await createPaymentRoute(new NextRequest(`${APP_URL}/api/billing/payments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    }));
+
+    expect(response.status).toBe(201);
+    return (await response.json()).data as StoredPayment & { pixCode: string | null; boletoNumber: string | null };
+}
+
+async function poll(id: string) {
+    const response = await getPaymentRoute(new NextRequest(`${APP_URL}/api/billing/payments/${id}`), {
+        params: Promise.resolve({ id }),
+    });
+
+    expect(response.status).toBe(200);
+    return (await response.json()).data as StoredPayment;
+}
+
+function webhook(body: Record<string, unknown>, secret = WEBHOOK_SECRET) {
+    return paymentWebhookRoute(new NextRequest(`${APP_URL}/api/webhooks/payments/fake`, {
+        method: 'POST',
+        headers: { 'x-webhook-secret': secret },
+        body: JSON.stringify(body),
+    }), { params: Promise.resolve({ provider: 'fake' }) });
+}
+
+async function deliver(body: Record<string, unknown>) {
+    const response = await webhook(body);
+
+    expect(response.status).toBe(200);
+    return (await response.json()).outcome as string;
+}
+
+const pixPack = { method: 'PIX', productType: 'pack', productId: 'pack-200' };
+
+const boletoPack = {
+    method: 'BOLETO',
+    productType: 'pack',
+    productId: 'pack-50',
+    taxId: '529.982.247-25',
+    address: { line1: 'Rua das Flores, 100', city: 'São Paulo', state: 'sp', postalCode: '01001-000' },
+};
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Pix payment', () => {
+    it('issues a pending Pix voucher that expires in 30 minutes', async () => {
+        const now = Date.now();
+        setNow(now);
+
+        const payment = await createPayment(pixPack);
+
+        expect(payment).toMatchObject({ status: 'PENDING', provider: 'fake', amount: 69.9, providerPaymentId: `fake_${payment.id}` });
+        expect(payment.pixCode).toContain(`fake_${payment.id}`);
+        expect(new Date(payment.expiresAt ?? 0).getTime()).toBe(now + 30 * 60 * 1000);
+        expect(grantCredits).not.toHaveBeenCalled();
+    });
+
+    it('grants the pack and issues the invoice once paid', async () => {
+        const payment = await createPayment(pixPack);
+
+        expect(await deliver({ paymentId: payment.providerPaymentId, status: 'PAID' })).toBe('processed');
+
+        expect(await poll(payment.id)).toMatchObject({ status: 'PAID' });
+        expect(grantCredits).toHaveBeenCalledWith('user_1', 200, 'PURCHASE', 'Pacote 200 purchase', expect.objectContaining({
+            idempotencyKey: `payment:${payment.id}`,
+            referenceId: payment.providerPaymentId,
+        }));
+        expect(issueInvoice).toHaveBeenCalledWith(expect.objectContaining({
+            source: 'credit_pack',
+            paymentMethod: 'pix',
+            referenceType: 'payment',
+            referenceId: payment.id,
+        }));
+    });
+
+    it('applies a redelivered confirmation once', async () => {
+        const payment = await createPayment(pixPack);
+        const confirmation = { id: 'evt_1', paymentId: payment.providerPaymentId, status: 'PAID' };
+
+        expect(await deliver(confirmation)).toBe('processed');
+        expect(await deliver(confirmation)).toBe('duplicate');
+
+        expect(grantCredits).toHaveBeenCalledTimes(1);
+        expect(issueInvoice).toHaveBeenCalledTimes(1);
+    });
+
+    it('expires when polled after the voucher lapses', async () => {
+        const payment = await createPayment(pixPack);
+        setNow(new Date(payment.expiresAt ?? 0).getTime() + 1000);
+
+        expect(await poll(payment.id)).toMatchObject({ status: 'EXPIRED' });
+        expect(grantCredits).not.toHaveBeenCalled();
+    });
+
+    it('still confirms a payment made just before it was expired locally', async () => {
+        const payment = await createPayment(pixPack);
+
+        expect(await deliver({ paymentId: payment.providerPaymentId, status: 'EXPIRED' })).toBe('processed');
+        expect(await poll(payment.id)).toMatchObject({ status: 'EXPIRED' });
+
+        expect(await deliver({ paymentId: payment.providerPaymentId, status: 'PAID' })).toBe('processed');
+        expect(await poll(payment.id)).toMatchObject({ status: 'PAID' });
+        expect(grantCredits).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not reopen a paid payment on a late expiry', async () => {
+        const payment = await createPayment(pixPack);
+
+        await deliver({ paymentId: payment.providerPaymentId, status: 'PAID' });
+        await deliver({ paymentId: payment.providerPaymentId, status: 'EXPIRED' });
+
+        expect(await poll(payment.id)).toMatchObject({ status: 'PAID' });
+
+        // Fulfillment may rerun, but under the payment's idempotency key
+        const keys = jest.mocked(grantCredits).mock.calls.map(([, , , , options]) => options?.idempotencyKey);
+        expect(new Set(keys)).toEqual(new Set([`payment:${payment.id}`]));
+    });
+
+    it('fails the confirmation when the grant fails, and applies its redelivery', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.mocked(grantCredits).mockResolvedValueOnce({ success: false, balance: 0 });
+        const payment = await createPayment(pixPack);
+        const confirmation = { id: 'evt_1', paymentId: payment.providerPaymentId, status: 'PAID' };
+
+        expect((await webhook(confirmation)).status).toBe(500);
+        expect(recordedEvents.size).toBe(0);
+
+        expect(await deliver(confirmation)).toBe('processed');
+        expect(grantCredits).toHaveBeenCalledTimes(2);
+        expect(grantedKeys).toEqual(new Set([`payment:${payment.id}`]));
+    });
+
+    it('retries a failed grant on the next status poll', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.mocked(grantCredits).mockResolvedValueOnce({ success: false, balance: 0 });
+        const payment = await createPayment(pixPack);
+
+        expect((await webhook({ paymentId: payment.providerPaymentId, status: 'PAID' })).status).toBe(500);
+
+        expect(await poll(payment.id)).toMatchObject({ status: 'PAID' });
+        expect(grantedKeys).toEqual(new Set([`payment:${payment.id}`]));
+
+        // Fulfilled: later polls grant nothing more
+        await poll(payment.id);
+        expect(grantCredits).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('Boleto payment', () => {
+    it('requires the payer CPF/CNPJ and address', async () => {
+        const { taxId: _taxId, ...withoutTaxId } = boletoPack;
+        const response = await createPaymentRoute(new NextRequest(`${APP_URL}/api/billing/payments`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(withoutTaxId),
+        }));
+
+        expect(response.status).toBe(400);
+    });
+
+    it('issues a boleto valid for 3 days and grants the pack once paid', async () => {
+        const payment = await createPayment(boletoPack);
+
+        expect(payment.status).toBe('PENDING');
+        expect(payment.boletoNumber).toBeTruthy();
+        expect(new Date(payment.expiresAt ?? 0).getTime()).toBeGreaterThan(Date.now() + 2 * 24 * 60 * 60 * 1000);
+
+        expect(await deliver({ paymentId: payment.providerPaymentId, status: 'PAID' })).toBe('processed');
+
+        expect(await poll(payment.id)).toMatchObject({ status: 'PAID' });
+        expect(grantCredits).toHaveBeenCalledWith('user_1', 50, 'PURCHASE', 'Pacote 50 purchase', expect.anything());
+        expect(issueInvoice).toHaveBeenCalledWith(expect.objectContaining({ paymentMethod: 'boleto' }));
+    });
+
+    it('stays pending while the boleto is still valid', async () => {
+        const payment = await createPayment(boletoPack);
+        setNow(Date.now() + 24 * 60 * 60 * 1000);
+
+        expect(await poll(payment.id)).toMatchObject({ status: 'PENDING' });
+    });
+
+    it('expires through the provider webhook', async () => {
+        const payment = await createPayment(boletoPack);
+
+        expect(await deliver({ paymentId: payment.providerPaymentId, status: 'EXPIRED' })).toBe('processed');
+
+        expect(await poll(payment.id)).toMatchObject({ status: 'EXPIRED' });
+        expect(grantCredits).not.toHaveBeenCalled();
+        expect(issueInvoice).not.toHaveBeenCalled();
+    });
+});
+
+describe('POST /api/webhooks/payments/fake', () => {
+    it('rejects deliveries without the webhook secret', async () => {
+        const payment = await createPayment(pixPack);
+        const response = await webhook({ paymentId: payment.providerPaymentId, status: 'PAID' }, 'wrong-secret');
+
+        expect(response.status).toBe(400);
+        expect(await poll(payment.id)).toMatchObject({ status: 'PENDING' });
+    });
+
+    it('ignores events for unknown payments', async () => {
+        expect(await deliver({ paymentId: 'fake_unknown', status: 'PAID' })).toBe('ignored');
+    });
+});
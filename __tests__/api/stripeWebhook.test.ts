@@ -0,0 +1,304 @@
+/**
+ * Stripe webhook deliveries replayed from signed fixtures: signature checks,
+ * credit pack checkout, subscription invoices, refunds, subscription sync
+ * and redelivered events
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/webhooks/stripe/route';
+import { grantCredits } from '@/lib/credits';
+import { issueInvoice } from '@/lib/invoices';
+import { prisma } from '@/lib/prisma';
+import {
+    loadStripeFixture,
+    signStripePayload,
+    STRIPE_FIXTURE_SECRET,
+    STRIPE_FIXTURE_TIME,
+} from '../helpers/stripeFixtures';
+
+interface TestUser {
+    id: string;
+    email: string;
+    credits: number;
+    planId: string;
+    stripeCustomerId: string | null;
+    stripeSubscriptionId: string | null;
+}
+
+let user: TestUser;
+let recordedEvents: Set<string>;
+
+jest.mock('@/lib/prisma', () => ({
+    prisma: {
+        user: {
+            findUnique: jest.fn(async ({ where }: { where: { id?: string; stripeCustomerId?: string } }) => {
+                const match = where.id ? where.id === user.id : where.stripeCustomerId === user.stripeCustomerId;
+                return match ? { ...user } : null;
+            }),
+            update: jest.fn(async ({ data }: { data: Partial<TestUser> }) => {
+                user = { ...user, ...data };
+                return { ...user };
+            }),
+        },
+        webhookEvent: {
+            findUnique: jest.fn(async ({ where }: { where: { provider_eventId: { eventId: string } } }) =>
+                recordedEvents.has(where.provider_eventId.eventId) ? { id: 'recorded' } : null
+            ),
+            create: jest.fn(async ({ data }: { data: { eventId: string } }) => {
+                recordedEvents.add(data.eventId);
+                return data;
+            }),
+        },
+        creditTransaction: {
+            findFirst: jest.fn(),
+            aggregate: jest.fn(),
+        },
+    },
+}));
+
+jest.mock('@/lib/credits', () => ({
+    grantCredits: jest.fn().mockResolvedValue({ success: true }),
+}));
+
+jest.mock('@/lib/invoices', () => ({
+    issueInvoice: jest.fn().mockResolvedValue({}),
+}));
+
+beforeAll(() => {
+    process.env.STRIPE_WEBHOOK_SECRET = STRIPE_FIXTURE_SECRET;
+});
+
+beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(STRIPE_FIXTURE_TIME);
+
+    user = {
+        id: 'user_fixture',
+        email: 'maria@example.com',
+        credits: 20,
+        planId: 'free',
+        stripeCustomerId: 'cus_fixture',
+        stripeSubscriptionId: null,
+    };
+    recordedEvents = new Set();
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function deliver(payload: string, signature: string | null) {
+    const request = new NextRequest('http://localhost:3000/api/webhooks/stripe', {
+        method: 'POST',
+        headers: signature ? { 'stripe-signature': signature } : {},
+        body: payload,
+    });
+
+    return POST(request);
+}
+
+async function deliverFixture(name: string) {
+    const { payload, signature } = loadStripeFixture(name);
+    const response = await deliver(payload, signature);
+
+    expect(response.status).toBe(200);
+    return (await response.json()).outcome as string;
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('POST /api/webhooks/stripe signature', () => {
+    it('rejects a delivery without a signature', async () => {
+        const { payload } = loadStripeFixture('checkout.session.completed');
+
+        expect((await deliver(payload, null)).status).toBe(400);
+    });
+
+    it('rejects a body that differs from the signed one', async () => {
+        const { payload, signature } = loadStripeFixture('checkout.session.completed');
+        const tampered = payload.replace('"pack-200"', '"pack-1000"');
+
+        expect((await deliver(tampered, signature)).status).toBe(400);
+        expect(grantCredits).not.toHaveBeenCalled();
+    });
+
+    it('rejects a signature made with another secret', async () => {
+        const { payload } = loadStripeFixture('checkout.session.completed');
+        const signature = signStripePayload(payload, 'whsec_other', STRIPE_FIXTURE_TIME / 1000);
+
+        expect((await deliver(payload, signature)).status).toBe(400);
+    });
+
+    it('rejects a replay outside the tolerance window', async () => {
+        jest.spyOn(Date, 'now').mockReturnValue(STRIPE_FIXTURE_TIME + 10 * 60 * 1000);
+        const { payload, signature } = loadStripeFixture('checkout.session.completed');
+
+        expect((await deliver(payload, signature)).status).toBe(400);
+    });
+});
+
+describe('POST /api/webhooks/stripe checkout.session.completed', () => {
+    it('grants the credit pack and issues its invoice', async () => {
+        expect(await deliverFixture('checkout.session.completed')).toBe('processed');
+
+        expect(grantCredits).toHaveBeenCalledWith('user_fixture', 200, 'PURCHASE', 'Pacote 200 purchase', expect.objectContaining({
+            idempotencyKey: 'stripe:purchase:pi_fixture_pack_200',
+            referenceId: 'pi_fixture_pack_200',
+            referenceType: 'payment',
+        }));
+        expect(issueInvoice).toHaveBeenCalledWith(expect.objectContaining({
+            userId: 'user_fixture',
+            source: 'credit_pack',
+            amount: 69.9,
+            currency: 'BRL',
+            referenceType: 'stripe_payment',
+            referenceId: 'pi_fixture_pack_200',
+        }));
+    });
+
+    it('applies a redelivered event once', async () => {
+        expect(await deliverFixture('checkout.session.completed')).toBe('processed');
+        expect(await deliverFixture('checkout.session.completed')).toBe('duplicate');
+
+        expect(grantCredits).toHaveBeenCalledTimes(1);
+        expect(issueInvoice).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails without recording the event when the grant fails, so it is redelivered', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.mocked(grantCredits).mockResolvedValueOnce({ success: false, balance: 0 });
+        const { payload, signature } = loadStripeFixture('checkout.session.completed');
+
+        expect((await deliver(payload, signature)).status).toBe(500);
+        expect(issueInvoice).not.toHaveBeenCalled();
+
+        expect(await deliverFixture('checkout.session.completed')).toBe('processed');
+        expect(grantCredits).toHaveBeenCalledTimes(2);
+        expect(issueInvoice).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('POST /api/webhooks/stripe invoice.paid', () => {
+    it('issues the invoice for the subscription period', async () => {
+        expect(await deliverFixture('invoice.paid')).toBe('processed');
+
+        expect(issueInvoice).toHaveBeenCalledWith({
+            userId: 'user_fixture',
+            source: 'subscription',
+            description: 'Assinatura Basic - mensal',
+            amount: 29.9,
+            currency: 'BRL',
+            paymentMethod: 'card',
+            referenceType: 'stripe_invoice',
+            referenceId: 'in_fixture_basic_october',
+            issuedAt: new Date(1759999990 * 1000),
+        });
+        expect(grantCredits).not.toHaveBeenCalled();
+    });
+});
+
+describe('POST /api/webhooks/stripe charge.refunded', () => {
+    it('reverses the refunded share of the pack credits', async () => {
+        jest.mocked(prisma.creditTransaction.findFirst).mockResolvedValue({
+            id: 'tx_purchase',
+            userId: 'user_fixture',
+            amount: 200,
+        } as never);
+        jest.mocked(prisma.creditTransaction.aggregate).mockResolvedValue({ _sum: { amount: null } } as never);
+
+        expect(await deliverFixture('charge.refunded')).toBe('processed');
+
+        expect(grantCredits).toHaveBeenCalledWith('user_fixture', -100, 'REFUND', 'Credit pack refund', expect.objectContaining({
+            idempotencyKey: 'stripe:refund:ch_fixture_pack_200:3495',
+            referenceId: 'pi_fixture_pack_200',
+        }));
+    });
+
+    it('fails without recording the event when the reversal fails', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.mocked(prisma.creditTransaction.findFirst).mockResolvedValue({
+            id: 'tx_purchase',
+            userId: 'user_fixture',
+            amount: 200,
+        } as never);
+        jest.mocked(prisma.creditTransaction.aggregate).mockResolvedValue({ _sum: { amount: null } } as never);
+        jest.mocked(grantCredits).mockResolvedValueOnce({ success: false, balance: 0 });
+        const { payload, signature } = loadStripeFixture('charge.refunded');
+
+        expect((await deliver(payload, signature)).status).toBe(500);
+        expect(recordedEvents.size).toBe(0);
+    });
+
+    it('reverses nothing more when that share was already reversed', async () => {
+        jest.mocked(prisma.creditTransaction.findFirst).mockResolvedValue({
+            id: 'tx_purchase',
+            userId: 'user_fixture',
+            amount: 200,
+        } as never);
+        jest.mocked(prisma.creditTransaction.aggregate).mockResolvedValue({ _sum: { amount: -100 } } as never);
+
+        expect(await deliverFixture('charge.refunded')).toBe('processed');
+        expect(grantCredits).not.toHaveBeenCalled();
+    });
+
+    it('ignores charges that did not buy a credit pack', async () => {
+        jest.mocked(prisma.creditTransaction.findFirst).mockResolvedValue(null);
+
+        expect(await deliverFixture('charge.refunded')).toBe('processed');
+        expect(grantCredits).not.toHaveBeenCalled();
+    });
+});
+
+describe('POST /api/webhooks/stripe subscription sync', () => {
+    it('switches to the subscribed plan and grants its allowance', async () => {
+        expect(await deliverFixture('customer.subscription.created')).toBe('processed');
+
+        expect(user).toMatchObject({
+            planId: 'basic',
+            stripeSubscriptionId: 'sub_fixture',
+        });
+        expect(grantCredits).toHaveBeenCalledWith('user_fixture', 500, 'REFILL', 'Basic subscription credits', expect.objectContaining({
+            idempotencyKey: 'stripe:subscription:sub_fixture:1759999990',
+        }));
+    });
+
+    it('fails without recording the event when the allowance grant fails', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.mocked(grantCredits).mockResolvedValueOnce({ success: false, balance: 0 });
+        const { payload, signature } = loadStripeFixture('customer.subscription.created');
+
+        expect((await deliver(payload, signature)).status).toBe(500);
+        expect(recordedEvents.size).toBe(0);
+    });
+
+    it('grants nothing on an upgrade to an unlimited plan', async () => {
+        user = { ...user, planId: 'basic', stripeSubscriptionId: 'sub_fixture' };
+
+        expect(await deliverFixture('customer.subscription.updated')).toBe('processed');
+
+        expect(user.planId).toBe('pro');
+        expect(grantCredits).toHaveBeenCalledWith('user_fixture', 0, 'REFILL', 'Pro subscription credits', expect.anything());
+    });
+
+    it('ignores the end of a subscription the user has replaced', async () => {
+        user = { ...user, planId: 'basic', stripeSubscriptionId: 'sub_newer' };
+
+        expect(await deliverFixture('customer.subscription.deleted')).toBe('processed');
+
+        expect(user).toMatchObject({ planId: 'basic', stripeSubscriptionId: 'sub_newer' });
+    });
+
+    it('moves back to the free plan when the subscription ends', async () => {
+        user = { ...user, planId: 'pro', stripeSubscriptionId: 'sub_fixture' };
+
+        expect(await deliverFixture('customer.subscription.deleted')).toBe('processed');
+
+        expect(user).toMatchObject({ planId: 'free', stripeSubscriptionId: null, subscriptionStatus: 'canceled' });
+        expect(grantCredits).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * Stand-in Emergent API
+ * Local HTTP server answering /chat/completions (JSON or server-sent events)
+ * and /generate with scripted responses. Used to record the AI fixtures under
+ * fixtures/ai without calling the real API.
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AiUpstreamScript {
+    /** Content chunks of every chat completion, streamed one per event */
+    chatChunks: string[];
+    /** Usage reported in the final stream event */
+    chatUsage: { prompt_tokens: number; completion_tokens: number };
+    /** Files returned by /generate */
+    files: Record<string, string>;
+    preview?: string;
+}
+
+export interface AiUpstream {
+    /** Base URL to use as EMERGENT_API_URL */
+    url: string;
+    /** Request bodies received, by endpoint */
+    requests: Array<{ path: string; body: Record<string, unknown> }>;
+    close: () => Promise<void>;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+async function readJson(request: IncomingMessage): Promise<Record<string, unknown>> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) chunks.push(chunk as Buffer);
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+}
+
+// =============================================================================
+// SERVER
+// =============================================================================
+
+export async function startAiUpstream(script: AiUpstreamScript): Promise<AiUpstream> {
+    const requests: AiUpstream['requests'] = [];
+
+    const server: Server = createServer(async (request, response) => {
+        const body = await readJson(request);
+        requests.push({ path: request.url ?? '', body });
+
+        if (request.method === 'POST' && request.url === '/chat/completions') {
+            if (body.stream) {
+                response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                for (const content of script.chatChunks) {
+                    response.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content } }] })}\n\n`);
+                }
+                response.write(`data: ${JSON.stringify({ choices: [], usage: script.chatUsage })}\n\n`);
+                response.end('data: [DONE]\n\n');
+                return;
+            }
+
+            response.writeHead(200, { 'Content-Type': 'application/json' });
+            response.end(JSON.stringify({
+                id: 'chatcmpl-upstream',
+                choices: [{ index: 0, message: { role: 'assistant', content: script.chatChunks.join('') }, finishReason: 'stop' }],
+                usage: {
+                    promptTokens: script.chatUsage.prompt_tokens,
+                    completionTokens: script.chatUsage.completion_tokens,
+                    totalTokens: script.chatUsage.prompt_tokens + script.chatUsage.completion_tokens,
+                },
+            }));
+            return;
+        }
+
+        if (request.method === 'POST' && request.url === '/generate') {
+            response.writeHead(200, { 'Content-Type': 'application/json' });
+            response.end(JSON.stringify({ success: true, data: { files: script.files, preview: script.preview } }));
+            return;
+        }
+
+        response.writeHead(404, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ error: 'not_found' }));
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+    };
+}
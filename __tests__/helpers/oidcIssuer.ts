@@ -0,0 +1,167 @@
+/**
+ * Stand-in OIDC Issuer
+ * Local HTTP server with Auth0-style paths (/authorize, /oauth/token,
+ * /userinfo) for testing the login flow without Auth0. The authorize step is
+ * driven by the test instead of a browser: `authorize(url)` plays the user
+ * logging in and returns the code the issuer would redirect back with.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface IssuerUser {
+    sub: string;
+    email: string;
+    name: string;
+    picture?: string;
+}
+
+interface PendingCode {
+    redirectUri: string;
+    codeChallenge: string;
+    nonce: string;
+    user: IssuerUser;
+}
+
+export interface OidcIssuer {
+    /** Base URL to use as AUTH0_ISSUER_BASE_URL */
+    url: string;
+    /** Approve an /authorize URL built by the app and return the issued code */
+    authorize: (authorizeUrl: string | URL, user?: IssuerUser) => string;
+    /** Nonce to put in the next ID token instead of the requested one */
+    overrideNextNonce: (nonce: string) => void;
+    /** Token requests received, for assertions */
+    tokenRequests: Record<string, string>[];
+    close: () => Promise<void>;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export const DEFAULT_ISSUER_USER: IssuerUser = {
+    sub: 'auth0|test-user',
+    email: 'maria@example.com',
+    name: 'Maria Silva',
+};
+
+function base64Url(value: Buffer | string): string {
+    return Buffer.from(value).toString('base64url');
+}
+
+/** Unsigned JWT: the app reads the nonce from the token endpoint response only */
+function idToken(claims: Record<string, unknown>): string {
+    return [base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' })), base64Url(JSON.stringify(claims)), ''].join('.');
+}
+
+async function readBody(request: IncomingMessage): Promise<Record<string, string>> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks).toString('utf8');
+
+    return request.headers['content-type']?.includes('json')
+        ? JSON.parse(raw)
+        : Object.fromEntries(new URLSearchParams(raw));
+}
+
+// =============================================================================
+// SERVER
+// =============================================================================
+
+/**
+ * Start an issuer for a client. Codes are single use and bound to the PKCE
+ * challenge, client and redirect URI of the authorize request.
+ */
+export async function startOidcIssuer(clientId: string, clientSecret: string): Promise<OidcIssuer> {
+    const codes = new Map<string, PendingCode>();
+    const accessTokens = new Map<string, IssuerUser>();
+    const tokenRequests: Record<string, string>[] = [];
+    let nextNonce: string | null = null;
+
+    const server: Server = createServer(async (request, response) => {
+        const send = (status: number, body: unknown) => {
+            response.writeHead(status, { 'Content-Type': 'application/json' });
+            response.end(JSON.stringify(body));
+        };
+
+        if (request.method === 'POST' && request.url === '/oauth/token') {
+            const body = await readBody(request);
+            tokenRequests.push(body);
+
+            const pending = codes.get(body.code ?? '');
+            codes.delete(body.code ?? '');
+
+            if (body.client_id !== clientId || body.client_secret !== clientSecret) {
+                return send(401, { error: 'invalid_client' });
+            }
+            if (body.grant_type !== 'authorization_code' || !pending) {
+                return send(400, { error: 'invalid_grant', error_description: 'Unknown or used code' });
+            }
+            if (pending.redirectUri !== body.redirect_uri) {
+                return send(400, { error: 'invalid_grant', error_description: 'redirect_uri mismatch' });
+            }
+            const challenge = base64Url(createHash('sha256').update(body.code_verifier ?? '').digest());
+            if (challenge !== pending.codeChallenge) {
+                return send(400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+            }
+
+            const accessToken = base64Url(randomBytes(24));
+            accessTokens.set(accessToken, pending.user);
+            const nonce = nextNonce ?? pending.nonce;
+            nextNonce = null;
+
+            return send(200, {
+                access_token: accessToken,
+                refresh_token: base64Url(randomBytes(24)),
+                id_token: idToken({ sub: pending.user.sub, aud: clientId, nonce }),
+                token_type: 'Bearer',
+                expires_in: 3600,
+            });
+        }
+
+        if (request.method === 'GET' && request.url === '/userinfo') {
+            const token = request.headers.authorization?.replace(/^Bearer /, '') ?? '';
+            const user = accessTokens.get(token);
+            return user ? send(200, user) : send(401, { error: 'invalid_token' });
+        }
+
+        send(404, { error: 'not_found' });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const url = `http://127.0.0.1:${port}`;
+
+    return {
+        url,
+        tokenRequests,
+        authorize(authorizeUrl, user = DEFAULT_ISSUER_USER) {
+            const params = new URL(authorizeUrl).searchParams;
+
+            if (params.get('response_type') !== 'code' || params.get('client_id') !== clientId) {
+                throw new Error('Issuer only supports the authorization code flow for its client');
+            }
+            if (params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+                throw new Error('Issuer requires a PKCE S256 challenge');
+            }
+
+            const code = base64Url(randomBytes(16));
+            codes.set(code, {
+                redirectUri: params.get('redirect_uri') ?? '',
+                codeChallenge: params.get('code_challenge') ?? '',
+                nonce: params.get('nonce') ?? '',
+                user,
+            });
+            return code;
+        },
+        overrideNextNonce(nonce) {
+            nextNonce = nonce;
+        },
+        close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+    };
+}
@@ -0,0 +1,50 @@
+/**
+ * Stripe Event Fixtures
+ * Webhook payloads under fixtures/stripe, each with the Stripe-Signature header
+ * it was delivered with (fixtures/stripe/signatures.json). The raw file bytes
+ * are what was signed, so edit a fixture only together with its signature:
+ * re-sign it with `signStripePayload` and the recorded secret and timestamp.
+ */
+
+import { createHmac } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'stripe');
+
+const recorded = JSON.parse(readFileSync(path.join(FIXTURES_DIR, 'signatures.json'), 'utf8')) as {
+    secret: string;
+    timestamp: number;
+    signatures: Record<string, string>;
+};
+
+/** Webhook secret the fixtures were signed with (STRIPE_WEBHOOK_SECRET) */
+export const STRIPE_FIXTURE_SECRET = recorded.secret;
+
+/** Signing time of the fixtures, in ms; verification must run close to it */
+export const STRIPE_FIXTURE_TIME = recorded.timestamp * 1000;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function signStripePayload(payload: string, secret: string, timestamp: number): string {
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Raw body and signature header of a recorded event, by file name without `.json`
+ */
+export function loadStripeFixture(name: string): { payload: string; signature: string } {
+    const signature = recorded.signatures[name];
+    if (!signature) {
+        throw new Error(`No recorded signature for Stripe fixture ${name}`);
+    }
+
+    return { payload: readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf8'), signature };
+}
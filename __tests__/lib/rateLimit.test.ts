@@ -0,0 +1,188 @@
+/**
+ * Sliding-window rate limits on the in-memory backend: plan budgets, the
+ * API key override, and the 429 response with Retry-After
+ */
+
+import { NextRequest } from 'next/server';
+import { GET as getCredits } from '@/app/api/credits/route';
+import { getCurrentUser, type AppUser } from '@/lib/auth';
+import {
+    checkRateLimit,
+    createMemoryBackend,
+    rateLimitHeaders,
+    setRateLimitBackend,
+    type RateLimitBackend,
+} from '@/lib/rateLimit';
+
+jest.mock('@/lib/auth', () => ({
+    getCurrentUser: jest.fn(),
+    addCredits: jest.fn(),
+}));
+
+jest.mock('@/lib/prisma', () => ({
+    prisma: {},
+}));
+
+const WINDOW_MS = 60_000;
+
+/** Start of a window, so tests control how far into it each request lands */
+const WINDOW_START = 1_760_000_040_000;
+
+const freeUser: AppUser = {
+    id: 'user_1',
+    auth0Id: 'auth0|user_1',
+    email: 'maria@example.com',
+    name: 'Maria Silva',
+    picture: null,
+    credits: 10,
+    role: 'USER',
+    isAdmin: false,
+    planId: 'free',
+};
+
+let clock: number;
+
+beforeEach(() => {
+    setRateLimitBackend(createMemoryBackend());
+    clock = WINDOW_START;
+    jest.spyOn(Date, 'now').mockImplementation(() => clock);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    setRateLimitBackend(null);
+});
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Send requests until one is rejected; returns how many got through */
+async function exhaust(user: AppUser, bucket: 'chat' | 'generate' | 'credits' = 'chat'): Promise<number> {
+    for (let allowed = 0; allowed < 1000; allowed++) {
+        const result = await checkRateLimit(user, bucket);
+        if (!result?.success) return allowed;
+    }
+    throw new Error('Rate limit never reached');
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('checkRateLimit', () => {
+    it('allows the plan budget per window, then rejects', async () => {
+        const first = await checkRateLimit(freeUser, 'chat');
+        expect(first).toEqual({ success: true, limit: 20, remaining: 19, reset: WINDOW_START + WINDOW_MS });
+
+        expect(await exhaust(freeUser)).toBe(19);
+        expect(await checkRateLimit(freeUser, 'chat')).toMatchObject({ success: false, remaining: 0 });
+    });
+
+    it('uses the budget of the user plan', async () => {
+        expect(await exhaust({ ...freeUser, planId: 'basic' })).toBe(60);
+    });
+
+    it('weights the previous window by how much of it still overlaps', async () => {
+        expect(await exhaust(freeUser)).toBe(20);
+
+        // Halfway through the next window, half of the previous 20 still count
+        clock = WINDOW_START + WINDOW_MS + WINDOW_MS / 2;
+        expect(await exhaust(freeUser)).toBe(10);
+
+        // Two windows later nothing carries over
+        clock = WINDOW_START + 3 * WINDOW_MS;
+        expect(await exhaust(freeUser)).toBe(20);
+    });
+
+    it('keeps separate budgets per bucket and per user', async () => {
+        expect(await exhaust(freeUser, 'chat')).toBe(20);
+
+        expect(await checkRateLimit(freeUser, 'generate')).toMatchObject({ success: true });
+        expect(await checkRateLimit({ ...freeUser, id: 'user_2' }, 'chat')).toMatchObject({ success: true });
+    });
+
+    it('applies the API key rateLimit instead of the plan budget', async () => {
+        const apiKey = { id: 'key_1', userId: freeUser.id, scopes: ['read' as const], rateLimit: 5 };
+
+        expect(await exhaust({ ...freeUser, apiKey })).toBe(5);
+
+        // The key has its own counter: the session budget is untouched
+        expect(await checkRateLimit(freeUser, 'chat')).toMatchObject({ success: true, remaining: 19 });
+    });
+
+    it('lets an API key go above the plan budget', async () => {
+        const apiKey = { id: 'key_2', userId: freeUser.id, scopes: ['read' as const], rateLimit: 100 };
+
+        expect(await exhaust({ ...freeUser, apiKey })).toBe(100);
+    });
+
+    it('does not limit admins', async () => {
+        expect(await checkRateLimit({ ...freeUser, isAdmin: true }, 'chat')).toBeNull();
+    });
+
+    it('fails open when the backend is unavailable', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        const broken: RateLimitBackend = {
+            id: 'broken',
+            limit: () => Promise.reject(new Error('connection refused')),
+        };
+        setRateLimitBackend(broken);
+
+        expect(await checkRateLimit(freeUser, 'chat')).toBeNull();
+    });
+});
+
+describe('rateLimitHeaders', () => {
+    it('reports the budget without Retry-After while requests are allowed', () => {
+        const headers = rateLimitHeaders({ success: true, limit: 20, remaining: 7, reset: WINDOW_START + WINDOW_MS });
+
+        expect(headers).toEqual({
+            'X-RateLimit-Limit': '20',
+            'X-RateLimit-Remaining': '7',
+            'X-RateLimit-Reset': String((WINDOW_START + WINDOW_MS) / 1000),
+        });
+    });
+
+    it('adds Retry-After in seconds until the window resets', () => {
+        clock = WINDOW_START + 45_500;
+        const headers = rateLimitHeaders({ success: false, limit: 20, remaining: 0, reset: WINDOW_START + WINDOW_MS });
+
+        expect(headers['Retry-After']).toBe('15');
+    });
+});
+
+describe('GET /api/credits rate limit', () => {
+    const request = () => new NextRequest('http://localhost:3000/api/credits');
+
+    it('answers 429 with Retry-After once the budget is spent', async () => {
+        jest.mocked(getCurrentUser).mockResolvedValue(freeUser);
+
+        for (let i = 0; i < 20; i++) {
+            expect((await getCredits(request())).status).toBe(200);
+        }
+
+        clock = WINDOW_START + 20_000;
+        const response = await getCredits(request());
+
+        expect(response.status).toBe(429);
+        expect(response.headers.get('Retry-After')).toBe('40');
+        expect(response.headers.get('X-RateLimit-Limit')).toBe('20');
+        expect(response.headers.get('X-RateLimit-Remaining')).toBe('0');
+        expect(await response.json()).toEqual({ error: 'Too many requests' });
+    });
+
+    it('answers 429 after the API key budget even when the plan allows more', async () => {
+        const apiKey = { id: 'key_3', userId: freeUser.id, scopes: ['read' as const], rateLimit: 3 };
+        jest.mocked(getCurrentUser).mockResolvedValue({ ...freeUser, apiKey });
+
+        for (let i = 0; i < 3; i++) {
+            expect((await getCredits(request())).status).toBe(200);
+        }
+
+        const response = await getCredits(request());
+        expect(response.status).toBe(429);
+        expect(response.headers.get('X-RateLimit-Limit')).toBe('3');
+        expect(response.headers.get('Retry-After')).toBe('60');
+    });
+});
@@ -0,0 +1,187 @@
+/**
+ * Plan allowance refills: the amount granted under each plan's refill rule,
+ * the balance cap, the refill period in the São Paulo timezone, and runs
+ * repeated within the same period
+ */
+
+import {
+    calculateRefillAmount,
+    getRefillPeriodKey,
+    runCreditRefill,
+} from '@/lib/refills';
+
+interface StoredUser {
+    id: string;
+    planId: string;
+    credits: number;
+}
+
+interface StoredTransaction {
+    userId: string;
+    amount: number;
+    balance: number;
+    idempotencyKey: string;
+}
+
+const users = new Map<string, StoredUser>();
+const transactions = new Map<string, StoredTransaction>();
+
+jest.mock('@/lib/prisma', () => {
+    const prisma = {
+        user: {
+            findMany: jest.fn(async ({ where, cursor }: {
+                where: { planId: { in: string[] }; id?: { in: string[] } };
+                cursor?: { id: string };
+            }) => {
+                if (cursor) return [];
+                return [...users.values()]
+                    .filter((user) => where.planId.in.includes(user.planId))
+                    .filter((user) => !where.id || where.id.in.includes(user.id))
+                    .map((user) => ({ ...user }));
+            }),
+            findUniqueOrThrow: jest.fn(async ({ where }: { where: { id: string } }) => ({ ...users.get(where.id) })),
+            update: jest.fn(async ({ where, data }: { where: { id: string }; data: { credits: { increment: number } } }) => {
+                const user = users.get(where.id) as StoredUser;
+                user.credits += data.credits.increment;
+                return { ...user };
+            }),
+            updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        },
+        creditTransaction: {
+            findUnique: jest.fn(async ({ where }: { where: { idempotencyKey: string } }) =>
+                transactions.has(where.idempotencyKey) ? { id: where.idempotencyKey } : null
+            ),
+            create: jest.fn(async ({ data }: { data: StoredTransaction }) => {
+                if (transactions.has(data.idempotencyKey)) {
+                    throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+                }
+                transactions.set(data.idempotencyKey, data);
+                return data;
+            }),
+        },
+        $transaction: jest.fn(),
+    };
+    prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+
+    return { prisma };
+});
+
+/** Midday in São Paulo, 2026-10-19 */
+const NOW = new Date('2026-10-19T15:00:00Z');
+
+beforeEach(() => {
+    users.clear();
+    transactions.clear();
+
+    for (const user of [
+        { id: 'user_low', planId: 'free', credits: 2 },
+        { id: 'user_cap', planId: 'free', credits: 5 },
+        { id: 'user_basic', planId: 'basic', credits: 40 },
+    ]) {
+        users.set(user.id, user);
+    }
+});
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('calculateRefillAmount', () => {
+    it('adds the allowance on rollover plans, up to the cap', () => {
+        expect(calculateRefillAmount('free', 1, 2)).toBe(1);
+        expect(calculateRefillAmount('free', 1, 4.5)).toBe(0.5);
+        expect(calculateRefillAmount('basic', 500, 800)).toBe(200);
+    });
+
+    it('grants nothing at or above the cap', () => {
+        expect(calculateRefillAmount('free', 1, 5)).toBe(0);
+        expect(calculateRefillAmount('free', 1, 12)).toBe(0);
+    });
+
+    it('tops up to the allowance on plans without rollover', () => {
+        expect(calculateRefillAmount('enterprise', 100, 30)).toBe(70);
+        expect(calculateRefillAmount('enterprise', 100, 150)).toBe(0);
+    });
+
+    it('grants nothing for unlimited or empty allowances', () => {
+        expect(calculateRefillAmount('pro', Infinity, 0)).toBe(0);
+        expect(calculateRefillAmount('basic', 0, 0)).toBe(0);
+    });
+});
+
+describe('getRefillPeriodKey', () => {
+    it('uses the São Paulo date', () => {
+        // Still September 30th in São Paulo
+        const night = new Date('2026-10-01T02:00:00Z');
+
+        expect(getRefillPeriodKey('daily', night)).toBe('2026-09-30');
+        expect(getRefillPeriodKey('monthly', night)).toBe('2026-09');
+    });
+});
+
+describe('runCreditRefill', () => {
+    it('refills each user on a plan with a daily allowance', async () => {
+        const summary = await runCreditRefill({ period: 'daily', now: NOW });
+
+        expect(summary).toMatchObject({
+            periodKey: '2026-10-19',
+            processed: 2,
+            refilled: 1,
+            alreadyRefilled: 0,
+            totalCredits: 1,
+            errors: 0,
+        });
+        expect(users.get('user_low')?.credits).toBe(3);
+        expect(users.get('user_basic')?.credits).toBe(40);
+    });
+
+    it('marks a user at the cap as handled without granting', async () => {
+        await runCreditRefill({ period: 'daily', now: NOW });
+
+        expect(users.get('user_cap')?.credits).toBe(5);
+        expect(transactions.get('refill:daily:2026-10-19:user_cap')).toMatchObject({ amount: 0, balance: 5 });
+    });
+
+    it('grants nothing on a second run in the same period', async () => {
+        await runCreditRefill({ period: 'daily', now: NOW });
+        const summary = await runCreditRefill({ period: 'daily', now: new Date(NOW.getTime() + 60 * 60 * 1000) });
+
+        expect(summary).toMatchObject({ processed: 2, refilled: 0, alreadyRefilled: 2, totalCredits: 0 });
+        expect(users.get('user_low')?.credits).toBe(3);
+        expect(transactions.size).toBe(2);
+    });
+
+    it('refills again in the next period', async () => {
+        await runCreditRefill({ period: 'daily', now: NOW });
+        const summary = await runCreditRefill({ period: 'daily', now: new Date(NOW.getTime() + 24 * 60 * 60 * 1000) });
+
+        expect(summary).toMatchObject({ periodKey: '2026-10-20', refilled: 1, totalCredits: 1 });
+        expect(users.get('user_low')?.credits).toBe(4);
+    });
+
+    it('counts a user refilled by an overlapping run as already refilled', async () => {
+        const { prisma } = jest.requireMock('@/lib/prisma');
+        prisma.creditTransaction.findUnique.mockResolvedValueOnce(null);
+        transactions.set('refill:daily:2026-10-19:user_low', {
+            userId: 'user_low',
+            amount: 1,
+            balance: 3,
+            idempotencyKey: 'refill:daily:2026-10-19:user_low',
+        });
+
+        const summary = await runCreditRefill({ period: 'daily', now: NOW, userIds: ['user_low'] });
+
+        expect(summary).toMatchObject({ processed: 1, refilled: 0, alreadyRefilled: 1, errors: 0 });
+    });
+
+    it('lists the grants of a dry run without writing them', async () => {
+        const summary = await runCreditRefill({ period: 'daily', now: NOW, dryRun: true });
+
+        expect(summary.grants).toEqual([
+            { userId: 'user_low', planId: 'free', previousBalance: 2, amount: 1, newBalance: 3 },
+            { userId: 'user_cap', planId: 'free', previousBalance: 5, amount: 0, newBalance: 5 },
+        ]);
+        expect(users.get('user_low')?.credits).toBe(2);
+        expect(transactions.size).toBe(0);
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * Admin AI Settings API Route
+ * Reads and replaces the AI providers/models configuration (SystemSetting `ai`)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { AI_SETTINGS_KEY, getAiSettings, invalidateAiSettings, listModels } from '@/lib/aiModels';
+import { prisma } from '@/lib/prisma';
+import { aiSettingsSchema } from '@/lib/schemas';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/admin/ai
+ * Current settings and the models they resolve to
+ */
+export async function GET() {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'admin' });
+        if (!user?.isAdmin) {
+            return NextResponse.json(
+                { error: 'Admin access required' },
+                { status: 403 }
+            );
+        }
+
+        invalidateAiSettings();
+        const [settings, models] = await Promise.all([getAiSettings(), listModels(user)]);
+
+        return NextResponse.json({
+            success: true,
+            data: { settings, ...models },
+        });
+    } catch (error) {
+        console.error('[Admin AI API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/admin/ai
+ * Replace the settings. API keys are never stored: providers name an env variable.
+ */
+export async function PUT(request: NextRequest) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'admin' });
+        if (!user?.isAdmin) {
+            return NextResponse.json(
+                { error: 'Admin access required' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = aiSettingsSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const settings = validatedData.data;
+
+        // Every model must point at a configured or built-in provider
+        const providerIds = new Set(['emergent', 'fake', ...Object.keys(settings.providers)]);
+        const orphanModels = Object.entries(settings.models)
+            .filter(([, model]) => !providerIds.has(model.provider))
+            .map(([id]) => id);
+
+        if (orphanModels.length > 0) {
+            return NextResponse.json(
+                { error: 'Unknown provider for models', models: orphanModels },
+                { status: 400 }
+            );
+        }
+
+        await prisma.systemSetting.upsert({
+            where: { key: AI_SETTINGS_KEY },
+            create: {
+                key: AI_SETTINGS_KEY,
+                value: settings,
+                description: 'AI providers and models',
+            },
+            update: { value: settings },
+        });
+        invalidateAiSettings();
+
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: 'ai.settings.update',
+                entityType: 'system_setting',
+                entityId: AI_SETTINGS_KEY,
+                details: {
+                    providers: Object.keys(settings.providers),
+                    models: Object.keys(settings.models),
+                    defaults: settings.defaults,
+                },
+            },
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: { settings, ...(await listModels(user)) },
+        });
+    } catch (error) {
+        console.error('[Admin AI API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
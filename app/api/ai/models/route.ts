@@ -0,0 +1,39 @@
+/**
+ * AI Models API Route
+ * Lists the models the current user can select
+ */
+
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { listModels } from '@/lib/aiModels';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/ai/models
+ * Models available on the user's plan and the default of each capability
+ */
+export async function GET() {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: await listModels(user),
+        });
+    } catch (error) {
+        console.error('[AI Models API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
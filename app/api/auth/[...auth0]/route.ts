@@ -4,9 +4,36 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import {
+    destroySessionTokens,
+    getSessionRole,
+    resolveSession,
+    revokeSession,
+    storeSessionTokens,
+} from '@/lib/auth';
+import {
+    SESSION_COOKIE_NAME,
+    SESSION_COOKIE_OPTIONS,
+    createSessionId,
+    sealSession,
+    unsealSession,
+    type Session,
+} from '@/lib/session';
+import {
+    AUTH_SCOPE,
+    AUTH_TRANSACTION_COOKIE_NAME,
+    AUTH_TRANSACTION_COOKIE_OPTIONS,
+    createAuthTransaction,
+    getIdTokenNonce,
+    getIssuerEndpoints,
+    sanitizeReturnTo,
+    sealAuthTransaction,
+    timingSafeEqual,
+    verifyAuthTransaction,
+} from '@/lib/oauth';
 
 // Auth0 v4 uses a different approach - we redirect to Auth0 Universal Login
-const AUTH0_DOMAIN = process.env.AUTH0_ISSUER_BASE_URL?.replace('https://', '') ?? '';
+const ISSUER = getIssuerEndpoints();
 const AUTH0_CLIENT_ID = process.env.AUTH0_CLIENT_ID ?? '';
 const AUTH0_CLIENT_SECRET = process.env.AUTH0_CLIENT_SECRET ?? '';
 const APP_BASE_URL = process.env.AUTH0_BASE_URL ?? 'http://localhost:3000';
@@ -36,53 +63,103 @@ export async function GET(
 }
 
 /**
- * Handle login - redirect to Auth0 Universal Login
+ * Handle login - redirect to Auth0 Universal Login (authorization code + PKCE)
  */
-function handleLogin(request: NextRequest) {
-    const returnTo = request.nextUrl.searchParams.get('returnTo') ?? '/dashboard';
+async function handleLogin(request: NextRequest) {
+    const returnTo = sanitizeReturnTo(request.nextUrl.searchParams.get('returnTo'), APP_BASE_URL);
+    const { transaction, codeChallenge } = await createAuthTransaction(returnTo);
 
-    const authUrl = new URL(`https://${AUTH0_DOMAIN}/authorize`);
+    const authUrl = new URL(ISSUER.authorize);
     authUrl.searchParams.set('response_type', 'code');
     authUrl.searchParams.set('client_id', AUTH0_CLIENT_ID);
     authUrl.searchParams.set('redirect_uri', `${APP_BASE_URL}/api/auth/callback`);
-    authUrl.searchParams.set('scope', 'openid profile email');
-    authUrl.searchParams.set('state', encodeURIComponent(returnTo));
+    authUrl.searchParams.set('scope', AUTH_SCOPE);
+    authUrl.searchParams.set('state', transaction.state);
+    authUrl.searchParams.set('nonce', transaction.nonce);
+    authUrl.searchParams.set('code_challenge', codeChallenge);
+    authUrl.searchParams.set('code_challenge_method', 'S256');
 
-    return NextResponse.redirect(authUrl);
+    // Remember state + verifier until the callback
+    const response = NextResponse.redirect(authUrl);
+    response.cookies.set(
+        AUTH_TRANSACTION_COOKIE_NAME,
+        await sealAuthTransaction(transaction),
+        AUTH_TRANSACTION_COOKIE_OPTIONS
+    );
+
+    return response;
 }
 
 /**
- * Handle logout - redirect to Auth0 logout
+ * Handle logout - revoke the session and redirect to Auth0 logout
  */
-function handleLogout(request: NextRequest) {
-    const returnTo = request.nextUrl.searchParams.get('returnTo') ?? '/';
+async function handleLogout(request: NextRequest) {
+    const returnTo = sanitizeReturnTo(request.nextUrl.searchParams.get('returnTo'), APP_BASE_URL, '/');
 
-    const logoutUrl = new URL(`https://${AUTH0_DOMAIN}/v2/logout`);
+    const logoutUrl = new URL(ISSUER.logout);
     logoutUrl.searchParams.set('client_id', AUTH0_CLIENT_ID);
     logoutUrl.searchParams.set('returnTo', `${APP_BASE_URL}${returnTo}`);
 
+    // Revoke server-side so a copied cookie stops working too
+    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
+    if (sessionCookie) {
+        const unsealed = await unsealSession(sessionCookie.value);
+        if (unsealed) {
+            await Promise.all([
+                revokeSession(unsealed.session),
+                destroySessionTokens(unsealed.session.sid),
+            ]).catch((error) => {
+                console.error('Session revocation failed:', error);
+            });
+        }
+    }
+
     // Clear the session cookie
     const response = NextResponse.redirect(logoutUrl);
-    response.cookies.delete('appSession');
+    response.cookies.delete(SESSION_COOKIE_NAME);
 
     return response;
 }
 
 /**
- * Handle callback - exchange code for tokens
+ * Redirect to the home page with an auth error and drop the login transaction
+ */
+function authFailed(reason: string) {
+    console.error(`Auth callback rejected: ${reason}`);
+
+    const response = NextResponse.redirect(new URL('/?error=auth_failed', APP_BASE_URL));
+    response.cookies.delete({ name: AUTH_TRANSACTION_COOKIE_NAME, path: AUTH_TRANSACTION_COOKIE_OPTIONS.path });
+    return response;
+}
+
+/**
+ * Handle callback - verify state and exchange code (+ PKCE verifier) for tokens
  */
 async function handleCallback(request: NextRequest) {
     const code = request.nextUrl.searchParams.get('code');
     const state = request.nextUrl.searchParams.get('state');
-    const returnTo = state ? decodeURIComponent(state) : '/dashboard';
+
+    if (request.nextUrl.searchParams.get('error')) {
+        return authFailed(`issuer error ${request.nextUrl.searchParams.get('error')}`);
+    }
 
     if (!code) {
         return NextResponse.redirect(new URL('/api/auth/login', APP_BASE_URL));
     }
 
+    // CSRF: state must match the one we issued for this browser
+    const transaction = await verifyAuthTransaction(
+        request.cookies.get(AUTH_TRANSACTION_COOKIE_NAME)?.value,
+        state
+    );
+
+    if (!transaction) {
+        return authFailed('missing, expired or mismatched state');
+    }
+
     try {
         // Exchange code for tokens
-        const tokenResponse = await fetch(`https://${AUTH0_DOMAIN}/oauth/token`, {
+        const tokenResponse = await fetch(ISSUER.token, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
@@ -90,74 +167,95 @@ async function handleCallback(request: NextRequest) {
                 client_id: AUTH0_CLIENT_ID,
                 client_secret: AUTH0_CLIENT_SECRET,
                 code,
+                code_verifier: transaction.codeVerifier,
                 redirect_uri: `${APP_BASE_URL}/api/auth/callback`,
             }),
         });
 
         if (!tokenResponse.ok) {
-            console.error('Token exchange failed');
-            return NextResponse.redirect(new URL('/?error=auth_failed', APP_BASE_URL));
+            return authFailed(`token exchange failed with HTTP ${tokenResponse.status}`);
         }
 
         const tokens = await tokenResponse.json();
 
+        // Replay protection: the ID token must carry our nonce
+        const nonce = getIdTokenNonce(tokens.id_token);
+        if (!nonce || !timingSafeEqual(nonce, transaction.nonce)) {
+            return authFailed('ID token nonce mismatch');
+        }
+
         // Get user info
-        const userInfoResponse = await fetch(`https://${AUTH0_DOMAIN}/userinfo`, {
+        const userInfoResponse = await fetch(ISSUER.userInfo, {
             headers: { Authorization: `Bearer ${tokens.access_token}` },
         });
 
         const userInfo = await userInfoResponse.json();
 
         // Create session data
-        const sessionData = {
+        const sessionData: Session = {
+            sid: createSessionId(),
             user: {
                 sub: userInfo.sub,
                 email: userInfo.email,
                 name: userInfo.name,
                 picture: userInfo.picture,
             },
+            role: await getSessionRole(userInfo.email),
             accessToken: tokens.access_token,
+            issuedAt: Date.now(),
             expiresAt: Date.now() + tokens.expires_in * 1000,
         };
 
-        // Set session cookie
-        const response = NextResponse.redirect(new URL(returnTo, APP_BASE_URL));
-        response.cookies.set('appSession', Buffer.from(JSON.stringify(sessionData)).toString('base64'), {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            sameSite: 'lax',
-            maxAge: 60 * 60 * 24 * 7, // 7 days
-            path: '/',
-        });
+        // Keep the refresh token server-side so the session can be renewed silently
+        if (tokens.refresh_token) {
+            try {
+                await storeSessionTokens(sessionData, tokens.refresh_token);
+                sessionData.refreshable = true;
+            } catch (error) {
+                console.error('Storing refresh token failed:', error);
+            }
+        }
+
+        // Set sealed session cookie; returnTo was sanitized at login
+        const response = NextResponse.redirect(new URL(transaction.returnTo, APP_BASE_URL));
+        response.cookies.set(SESSION_COOKIE_NAME, await sealSession(sessionData), SESSION_COOKIE_OPTIONS);
+        response.cookies.delete({ name: AUTH_TRANSACTION_COOKIE_NAME, path: AUTH_TRANSACTION_COOKIE_OPTIONS.path });
 
         return response;
     } catch (error) {
         console.error('Callback error:', error);
-        return NextResponse.redirect(new URL('/?error=auth_failed', APP_BASE_URL));
+        return authFailed('unexpected error');
     }
 }
 
 /**
- * Handle /me - return current user info
+ * Handle /me - return current user info, renewing the session when close to expiry
  */
-function handleMe(request: NextRequest) {
-    const sessionCookie = request.cookies.get('appSession');
+async function handleMe(request: NextRequest) {
+    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
 
     if (!sessionCookie) {
         return NextResponse.json({ user: null });
     }
 
-    try {
-        const session = JSON.parse(Buffer.from(sessionCookie.value, 'base64').toString());
+    const resolved = await resolveSession(sessionCookie.value);
 
-        if (session.expiresAt < Date.now()) {
-            return NextResponse.json({ user: null });
-        }
+    if (!resolved) {
+        // Drop tampered, expired or revoked cookies
+        const response = NextResponse.json({ user: null });
+        response.cookies.delete(SESSION_COOKIE_NAME);
+        return response;
+    }
 
-        return NextResponse.json({ user: session.user });
-    } catch {
-        return NextResponse.json({ user: null });
+    const { session, changed } = resolved;
+    const response = NextResponse.json({ user: session.user, expiresAt: session.expiresAt });
+
+    // Re-seal rotated-secret or renewed sessions
+    if (changed) {
+        response.cookies.set(SESSION_COOKIE_NAME, await sealSession(session), SESSION_COOKIE_OPTIONS);
     }
+
+    return response;
 }
 
 export async function POST(
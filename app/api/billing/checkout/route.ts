@@ -0,0 +1,87 @@
+/**
+ * Billing Checkout API Route
+ * Starts a Stripe Checkout session for a plan subscription
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { ensureStripeCustomer } from '@/lib/billing';
+import { PLANS } from '@/lib/constants';
+import { prisma } from '@/lib/prisma';
+import { checkoutSchema } from '@/lib/schemas';
+import { createSubscriptionCheckout, getPlanPriceId } from '@/lib/stripe';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * POST /api/billing/checkout
+ * Create a Checkout session and return its URL
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = checkoutSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const plan = PLANS.find((p) => p.id === validatedData.data.planId);
+        const priceId = plan ? getPlanPriceId(plan) : null;
+
+        if (!plan || plan.priceMonthly === 0 || !priceId) {
+            return NextResponse.json(
+                { error: 'Plan is not available for purchase' },
+                { status: 400 }
+            );
+        }
+
+        // Plan changes for subscribers go through the customer portal
+        const { stripeSubscriptionId } = await prisma.user.findUniqueOrThrow({
+            where: { id: user.id },
+            select: { stripeSubscriptionId: true },
+        });
+
+        if (stripeSubscriptionId) {
+            return NextResponse.json(
+                { error: 'Subscription already active. Use the billing portal to change plans.' },
+                { status: 409 }
+            );
+        }
+
+        const customerId = await ensureStripeCustomer(user);
+        const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? request.nextUrl.origin;
+
+        const session = await createSubscriptionCheckout({
+            userId: user.id,
+            customerId,
+            priceId,
+            successUrl: `${appUrl}/settings?checkout=success`,
+            cancelUrl: `${appUrl}/pricing`,
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: { url: session.url },
+        });
+    } catch (error) {
+        console.error('[Billing API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,82 @@
+/**
+ * Credit Packs API Route
+ * Lists the credit packs and starts a Stripe Checkout for a one-off purchase
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { ensureStripeCustomer } from '@/lib/billing';
+import { CREDIT_PACKS } from '@/lib/constants';
+import { creditPackCheckoutSchema } from '@/lib/schemas';
+import { createCreditPackCheckout } from '@/lib/stripe';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/billing/packs
+ * List the credit packs available for purchase
+ */
+export async function GET() {
+    return NextResponse.json({
+        success: true,
+        data: CREDIT_PACKS,
+    });
+}
+
+/**
+ * POST /api/billing/packs
+ * Create a Checkout session for a credit pack and return its URL
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = creditPackCheckoutSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const pack = CREDIT_PACKS.find((p) => p.id === validatedData.data.packId);
+        if (!pack) {
+            return NextResponse.json(
+                { error: 'Credit pack not found' },
+                { status: 404 }
+            );
+        }
+
+        const customerId = await ensureStripeCustomer(user);
+        const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? request.nextUrl.origin;
+
+        const session = await createCreditPackCheckout({
+            userId: user.id,
+            customerId,
+            pack,
+            successUrl: `${appUrl}/settings?checkout=success`,
+            cancelUrl: `${appUrl}/pricing`,
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: { url: session.url },
+        });
+    } catch (error) {
+        console.error('[Billing API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
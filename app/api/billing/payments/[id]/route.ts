@@ -0,0 +1,56 @@
+/**
+ * Payment Route
+ * Status polling for a Pix / boleto payment
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { syncPayment } from '@/lib/payments';
+import { prisma } from '@/lib/prisma';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/billing/payments/:id
+ * Current payment status; pending payments are refreshed with the provider
+ * and expired once their voucher lapses
+ */
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const payment = await prisma.payment.findFirst({
+            where: { id, userId: user.id },
+        });
+
+        if (!payment) {
+            return NextResponse.json(
+                { error: 'Payment not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: await syncPayment(payment),
+        });
+    } catch (error) {
+        console.error('[Payments API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,100 @@
+/**
+ * Payments API Route
+ * Creates Pix / boleto payments for credit packs or a prepaid plan month
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { createPayment, getPaymentProduct, getPaymentProvider } from '@/lib/payments';
+import { prisma } from '@/lib/prisma';
+import { paymentSchema } from '@/lib/schemas';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * POST /api/billing/payments
+ * Issue a Pix QR code or boleto; credits are granted once the payment is confirmed
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = paymentSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { method, productType, productId, taxId, address } = validatedData.data;
+
+        const provider = getPaymentProvider();
+        if (!provider || !provider.methods.includes(method)) {
+            return NextResponse.json(
+                { error: 'Payment method not available' },
+                { status: 400 }
+            );
+        }
+
+        const product = getPaymentProduct(productType, productId);
+        if (!product) {
+            return NextResponse.json(
+                { error: 'Product not found' },
+                { status: 404 }
+            );
+        }
+
+        if (productType === 'plan') {
+            const { stripeSubscriptionId } = await prisma.user.findUniqueOrThrow({
+                where: { id: user.id },
+                select: { stripeSubscriptionId: true },
+            });
+
+            if (stripeSubscriptionId) {
+                return NextResponse.json(
+                    { error: 'Subscription already active. Use the billing portal to change plans.' },
+                    { status: 409 }
+                );
+            }
+        }
+
+        const payment = await createPayment(provider, user.id, method, product, {
+            name: user.name ?? user.email,
+            email: user.email,
+            taxId,
+            address,
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: 'payment.create',
+                entityType: 'payment',
+                entityId: payment.id,
+                details: { method, productType, productId, amount: payment.amount },
+            },
+        });
+
+        return NextResponse.json(
+            { success: true, data: payment },
+            { status: 201 }
+        );
+    } catch (error) {
+        console.error('[Payments API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * Billing Portal API Route
+ * Opens the Stripe customer portal (payment method, invoices, cancel, switch plan)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { createPortalSession } from '@/lib/stripe';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * POST /api/billing/portal
+ * Create a portal session and return its URL
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { stripeCustomerId } = await prisma.user.findUniqueOrThrow({
+            where: { id: user.id },
+            select: { stripeCustomerId: true },
+        });
+
+        if (!stripeCustomerId) {
+            return NextResponse.json(
+                { error: 'No billing account. Subscribe to a plan first.' },
+                { status: 404 }
+            );
+        }
+
+        const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? request.nextUrl.origin;
+        const session = await createPortalSession({
+            customerId: stripeCustomerId,
+            returnUrl: `${appUrl}/settings`,
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: { url: session.url },
+        });
+    } catch (error) {
+        console.error('[Billing API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
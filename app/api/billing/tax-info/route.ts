@@ -0,0 +1,96 @@
+/**
+ * Tax Info API Route
+ * CPF/CNPJ and legal name printed on the user's invoices
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { taxInfoSchema } from '@/lib/schemas';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/billing/tax-info
+ */
+export async function GET() {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const taxInfo = await prisma.user.findUniqueOrThrow({
+            where: { id: user.id },
+            select: { legalName: true, taxId: true },
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: taxInfo,
+        });
+    } catch (error) {
+        console.error('[Tax Info API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/billing/tax-info
+ * Applies to invoices issued from now on; past invoices keep their snapshot
+ */
+export async function PUT(request: NextRequest) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = taxInfoSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const taxInfo = await prisma.user.update({
+            where: { id: user.id },
+            data: validatedData.data,
+            select: { legalName: true, taxId: true },
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: 'user.taxInfo.update',
+                entityType: 'user',
+                entityId: user.id,
+            },
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: taxInfo,
+        });
+    } catch (error) {
+        console.error('[Tax Info API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,103 @@
+/**
+ * Conversation Retention API Route
+ * Runs the plan history retention job (cron) and lets admins preview it (dry run)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, isCronRequest } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { runConversationRetention } from '@/lib/retention';
+import { conversationRetentionSchema } from '@/lib/schemas';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/chat/retention
+ * Cron entry point: archive, delete and restore conversations for every user
+ */
+export async function GET(request: NextRequest) {
+    try {
+        if (!isCronRequest(request)) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const summary = await runConversationRetention();
+
+        console.log(
+            `[Retention API] ${summary.archived} archived, ${summary.deleted} deleted ` +
+            `(${summary.deletedMessages} messages), ${summary.restored} restored, ${summary.errors} errors`
+        );
+
+        return NextResponse.json({
+            success: summary.errors === 0,
+            data: summary,
+        });
+    } catch (error) {
+        console.error('[Retention API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/chat/retention
+ * Admin: preview (dryRun, default) or run the retention job, optionally for some users
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'admin' });
+        if (!user?.isAdmin) {
+            return NextResponse.json(
+                { error: 'Admin access required' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = conversationRetentionSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { dryRun, userIds } = validatedData.data;
+        const summary = await runConversationRetention({ dryRun, userIds });
+
+        // Log admin action (previews included, they expose conversation titles)
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: dryRun ? 'conversations.retention.preview' : 'conversations.retention',
+                entityType: 'conversation',
+                details: {
+                    userIds: userIds ?? null,
+                    archived: summary.archived,
+                    deleted: summary.deleted,
+                    deletedMessages: summary.deletedMessages,
+                    restored: summary.restored,
+                },
+            },
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: summary,
+        });
+    } catch (error) {
+        console.error('[Retention API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -4,10 +4,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getCurrentUser, deductCredits } from '@/lib/auth';
-import { emergent } from '@/lib/emergent';
-import { CREDIT_COSTS } from '@/lib/constants';
+import { getCurrentUser } from '@/lib/auth';
+import { calculateChatCost, reserveCredits, settleCredits, releaseCredits } from '@/lib/credits';
+import { emergent, countMessageTokens, estimateTokens } from '@/lib/emergent';
+import { checkQuota, toPlanLimitError } from '@/lib/entitlements';
+import { CHAT_MAX_COMPLETION_TOKENS } from '@/lib/constants';
+import { resolveModel } from '@/lib/aiModels';
 import { prisma } from '@/lib/prisma';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rateLimit';
+import { getPendingDeletions } from '@/lib/retention';
 
 // =============================================================================
 // TYPES
@@ -16,6 +21,8 @@ import { prisma } from '@/lib/prisma';
 interface ChatRequestBody {
     conversationId?: string;
     message: string;
+    /** Model id (see GET /api/ai/models); defaults to the configured chat model */
+    model?: string;
     attachments?: Array<{
         type: string;
         name: string;
@@ -32,9 +39,14 @@ interface ChatRequestBody {
  * Send a message and get AI response (streaming)
  */
 export async function POST(request: NextRequest) {
+    let holdId: string | null = null;
+    const releaseHold = async (reason: string) => {
+        if (holdId) await releaseCredits(holdId, reason);
+    };
+
     try {
         // Authenticate user
-        const user = await getCurrentUser();
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
         if (!user) {
             return NextResponse.json(
                 { error: 'Authentication required' },
@@ -42,9 +54,18 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        const rateLimit = await checkRateLimit(user, 'chat');
+        if (rateLimit && !rateLimit.success) {
+            return NextResponse.json(
+                { error: 'Too many requests' },
+                { status: 429, headers: rateLimitHeaders(rateLimit) }
+            );
+        }
+
         // Parse request body
         const body: ChatRequestBody = await request.json();
-        const { conversationId, message, attachments = [] } = body;
+        const { conversationId, message, model: modelId, attachments = [] } = body;
+        const idempotencyKey = request.headers.get('idempotency-key');
 
         if (!message?.trim()) {
             return NextResponse.json(
@@ -53,17 +74,39 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Calculate credit cost
-        const hasAttachments = attachments.length > 0;
-        const creditCost = hasAttachments
-            ? CREDIT_COSTS.chat.withDocument
-            : CREDIT_COSTS.chat.simple;
+        // Daily message allowance of the plan
+        const chatQuota = await checkQuota(user, 'chatMessagesPerDay');
+        if (!chatQuota.allowed) {
+            return NextResponse.json(toPlanLimitError(chatQuota), { status: 403 });
+        }
 
-        // Check and deduct credits (admins bypass)
+        // Requested model, if the plan allows it
+        const resolution = await resolveModel(user, modelId, 'chat');
+        if (!resolution.success) {
+            return resolution.reason === 'plan_not_allowed'
+                ? NextResponse.json(
+                    { error: 'Model not available on your plan', model: modelId },
+                    { status: 403 }
+                )
+                : NextResponse.json(
+                    { error: 'Unknown model', model: modelId },
+                    { status: 400 }
+                );
+        }
+        const { model } = resolution;
+
+        // Lower bound of the credit hold: this message alone plus a full completion
+        const messageTokens = estimateTokens(message);
+        const minimumCost = calculateChatCost(
+            { promptTokens: messageTokens, completionTokens: CHAT_MAX_COMPLETION_TOKENS },
+            model.pricing
+        );
+
+        // Check credits up front (admins bypass)
         if (!user.isAdmin) {
-            if (user.credits < creditCost) {
+            if (user.credits < minimumCost) {
                 return NextResponse.json(
-                    { error: 'Insufficient credits', required: creditCost, available: user.credits },
+                    { error: 'Insufficient credits', required: minimumCost, available: user.credits },
                     { status: 402 }
                 );
             }
@@ -77,6 +120,15 @@ export async function POST(request: NextRequest) {
             });
         }
 
+        // Archived conversations are read-only until they are deleted
+        if (conversation && conversation.status !== 'ACTIVE') {
+            return NextResponse.json(
+                { error: 'Conversation is archived' },
+                { status: 409 }
+            );
+        }
+
+        const isNewConversation = !conversation;
         if (!conversation) {
             conversation = await prisma.conversation.create({
                 data: {
@@ -86,23 +138,6 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        // Save user message
-        await prisma.message.create({
-            data: {
-                conversationId: conversation.id,
-                role: 'USER',
-                content: message,
-                attachments: attachments,
-            },
-        });
-
-        // Deduct credits before API call
-        await deductCredits(
-            user.id,
-            creditCost,
-            `Chat message in conversation ${conversation.id}`
-        );
-
         // Get conversation history for context
         const previousMessages = await prisma.message.findMany({
             where: { conversationId: conversation.id },
@@ -114,6 +149,7 @@ export async function POST(request: NextRequest) {
             role: msg.role.toLowerCase() as 'user' | 'assistant' | 'system',
             content: msg.content,
         }));
+        messages.push({ role: 'user', content: message });
 
         // Add system prompt
         messages.unshift({
@@ -121,6 +157,66 @@ export async function POST(request: NextRequest) {
             content: `Você é um assistente de IA avançado da PlataformaIA. Você ajuda usuários a criar aplicações web, escrever código, e responder perguntas técnicas. Seja prestativo, preciso e forneça exemplos de código quando apropriado. Responda em português brasileiro.`,
         });
 
+        // Hold the most this response can cost; settled with the real usage
+        const maxCost = calculateChatCost(
+            { promptTokens: countMessageTokens(messages), completionTokens: CHAT_MAX_COMPLETION_TOKENS },
+            model.pricing
+        );
+
+        if (!user.isAdmin) {
+            const reservation = await reserveCredits(
+                user.id,
+                maxCost,
+                `Chat message in conversation ${conversation.id}`,
+                {
+                    idempotencyKey: idempotencyKey ? `chat:${user.id}:${idempotencyKey}` : undefined,
+                    referenceId: conversation.id,
+                    referenceType: 'conversation',
+                }
+            );
+
+            if (!reservation.success) {
+                // Nothing was sent: don't leave an empty conversation behind
+                if (isNewConversation) {
+                    await prisma.conversation.delete({ where: { id: conversation.id } });
+                }
+
+                return reservation.reason === 'insufficient_credits'
+                    ? NextResponse.json(
+                        { error: 'Insufficient credits', required: maxCost, available: reservation.remaining },
+                        { status: 402 }
+                    )
+                    : NextResponse.json(
+                        {
+                            error: reservation.reason === 'in_progress'
+                                ? 'Request in progress'
+                                : reservation.reason === 'hold_finalized'
+                                    ? 'Idempotency-Key was already used for a finished request'
+                                    : 'Could not reserve credits',
+                        },
+                        { status: reservation.reason === 'error' ? 500 : 409 }
+                    );
+            }
+
+            holdId = reservation.holdId ?? null;
+        }
+
+        // Save user message once the credits are reserved, so a refused
+        // request does not count against the daily message allowance
+        await prisma.message.create({
+            data: {
+                conversationId: conversation.id,
+                role: 'USER',
+                content: message,
+                attachments: attachments,
+                tokens: messageTokens,
+            },
+        });
+
+        // Client disconnects cancel the upstream completion
+        const upstream = new AbortController();
+        const signal = AbortSignal.any([request.signal, upstream.signal]);
+
         // Create streaming response
         const encoder = new TextEncoder();
         const stream = new ReadableStream({
@@ -128,10 +224,34 @@ export async function POST(request: NextRequest) {
                 try {
                     let fullResponse = '';
 
-                    // Stream from Emergent API
-                    for await (const chunk of emergent.chatStream({ messages, stream: true })) {
-                        fullResponse += chunk;
-                        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content: chunk })}\n\n`));
+                    // Stream from Emergent API; the generator returns token usage when done
+                    const chatStream = emergent.chatStream({
+                        messages,
+                        model: model.id,
+                        maxTokens: CHAT_MAX_COMPLETION_TOKENS,
+                        stream: true,
+                    }, { signal });
+                    let next = await chatStream.next();
+                    while (!next.done) {
+                        fullResponse += next.value;
+                        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content: next.value })}\n\n`));
+                        next = await chatStream.next();
+                    }
+                    const usage = next.value;
+                    const cost = calculateChatCost(usage, model.pricing);
+
+                    // Charge the real cost now that the response is complete. A hold
+                    // that is no longer pending (expired) leaves this response unpaid.
+                    if (holdId) {
+                        const settlement = await settleCredits(
+                            holdId,
+                            cost,
+                            `Chat message in conversation ${conversation.id}`,
+                            { model: model.id, ...usage, cost }
+                        );
+                        if (!settlement.success) {
+                            throw new Error(`Could not settle credit hold ${holdId}: ${settlement.reason}`);
+                        }
                     }
 
                     // Save assistant response
@@ -140,14 +260,17 @@ export async function POST(request: NextRequest) {
                             conversationId: conversation.id,
                             role: 'ASSISTANT',
                             content: fullResponse,
+                            model: model.id,
+                            tokens: usage.completionTokens,
                         },
                     });
 
-                    // Update conversation message count
+                    // Update conversation message count and token usage
                     await prisma.conversation.update({
                         where: { id: conversation.id },
                         data: {
                             messageCount: { increment: 2 },
+                            totalTokens: { increment: usage.totalTokens },
                             updatedAt: new Date(),
                         },
                     });
@@ -156,13 +279,23 @@ export async function POST(request: NextRequest) {
                     controller.enqueue(encoder.encode('data: [DONE]\n\n'));
                     controller.close();
                 } catch (error) {
+                    if (signal.aborted) {
+                        await releaseHold('aborted');
+                        return;
+                    }
                     console.error('[Chat API] Stream error:', error);
+                    await releaseHold('error');
                     controller.enqueue(
                         encoder.encode(`data: ${JSON.stringify({ error: 'Stream error' })}\n\n`)
                     );
                     controller.close();
                 }
             },
+            async cancel() {
+                // Client disconnected before the response finished
+                upstream.abort();
+                await releaseHold('aborted');
+            },
         });
 
         return new Response(stream, {
@@ -175,6 +308,7 @@ export async function POST(request: NextRequest) {
         });
     } catch (error) {
         console.error('[Chat API] Error:', error);
+        await releaseHold('error');
         return NextResponse.json(
             { error: 'Internal server error' },
             { status: 500 }
@@ -188,7 +322,7 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
     try {
-        const user = await getCurrentUser();
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
         if (!user) {
             return NextResponse.json(
                 { error: 'Authentication required' },
@@ -196,6 +330,14 @@ export async function GET(request: NextRequest) {
             );
         }
 
+        const rateLimit = await checkRateLimit(user, 'chat');
+        if (rateLimit && !rateLimit.success) {
+            return NextResponse.json(
+                { error: 'Too many requests' },
+                { status: 429, headers: rateLimitHeaders(rateLimit) }
+            );
+        }
+
         const { searchParams } = new URL(request.url);
         const conversationId = searchParams.get('conversationId');
 
@@ -233,7 +375,10 @@ export async function GET(request: NextRequest) {
                 },
             });
 
-            return NextResponse.json({ conversations });
+            // Conversations past the plan's history window, pending deletion
+            const pendingDeletion = await getPendingDeletions(user.id);
+
+            return NextResponse.json({ conversations, pendingDeletion });
         }
     } catch (error) {
         console.error('[Chat API] Error:', error);
@@ -0,0 +1,111 @@
+/**
+ * Credit Refill API Route
+ * Runs the plan allowance refill (cron) and lets admins preview it (dry run)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, isCronRequest } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { runCreditRefill, type RefillPeriod } from '@/lib/refills';
+import { creditRefillSchema } from '@/lib/schemas';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/credits/refill?period=daily|monthly
+ * Cron entry point: refill every eligible user for the current period
+ */
+export async function GET(request: NextRequest) {
+    try {
+        if (!isCronRequest(request)) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const period = request.nextUrl.searchParams.get('period');
+        if (period !== 'daily' && period !== 'monthly') {
+            return NextResponse.json(
+                { error: 'Invalid period. Must be: daily or monthly' },
+                { status: 400 }
+            );
+        }
+
+        const summary = await runCreditRefill({ period: period as RefillPeriod });
+
+        console.log(
+            `[Refill API] ${summary.period} ${summary.periodKey}: ` +
+            `${summary.refilled}/${summary.processed} refilled, ${summary.totalCredits} credits, ${summary.errors} errors`
+        );
+
+        return NextResponse.json({
+            success: summary.errors === 0,
+            data: summary,
+        });
+    } catch (error) {
+        console.error('[Refill API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/credits/refill
+ * Admin: preview (dryRun, default) or run a refill, optionally for some users
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'admin' });
+        if (!user?.isAdmin) {
+            return NextResponse.json(
+                { error: 'Admin access required' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = creditRefillSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { period, dryRun, userIds } = validatedData.data;
+        const summary = await runCreditRefill({ period, dryRun, userIds });
+
+        // Log admin action (previews included, they expose balances)
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: dryRun ? 'credits.refill.preview' : 'credits.refill',
+                entityType: 'credits',
+                details: {
+                    period,
+                    periodKey: summary.periodKey,
+                    userIds: userIds ?? null,
+                    refilled: summary.refilled,
+                    totalCredits: summary.totalCredits,
+                },
+            },
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: summary,
+        });
+    } catch (error) {
+        console.error('[Refill API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
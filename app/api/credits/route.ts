@@ -6,6 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser, addCredits } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rateLimit';
 
 // =============================================================================
 // HELPERS
@@ -21,8 +22,9 @@ function checkIsAdmin(email: string, role: string): boolean {
     return role === 'ADMIN' || ADMIN_EMAILS.includes(email.toLowerCase());
 }
 
-function formatCredits(credits: number, isAdmin: boolean): string {
-    return isAdmin ? '∞' : credits.toFixed(2);
+/** Admins and unlimited plans have an infinite balance */
+function formatCredits(credits: number): string {
+    return Number.isFinite(credits) ? credits.toFixed(2) : '∞';
 }
 
 // =============================================================================
@@ -35,7 +37,7 @@ function formatCredits(credits: number, isAdmin: boolean): string {
  */
 export async function GET(request: NextRequest) {
     try {
-        const user = await getCurrentUser();
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
         if (!user) {
             return NextResponse.json(
                 { error: 'Authentication required' },
@@ -43,6 +45,14 @@ export async function GET(request: NextRequest) {
             );
         }
 
+        const rateLimit = await checkRateLimit(user, 'credits');
+        if (rateLimit && !rateLimit.success) {
+            return NextResponse.json(
+                { error: 'Too many requests' },
+                { status: 429, headers: rateLimitHeaders(rateLimit) }
+            );
+        }
+
         const { searchParams } = new URL(request.url);
         const includeHistory = searchParams.get('history') === 'true';
         const page = parseInt(searchParams.get('page') ?? '1', 10);
@@ -51,7 +61,7 @@ export async function GET(request: NextRequest) {
         // Get current balance
         const balance = {
             credits: user.credits,
-            displayCredits: formatCredits(user.credits, user.isAdmin),
+            displayCredits: formatCredits(user.credits),
             isAdmin: user.isAdmin,
         };
 
@@ -113,7 +123,7 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
     try {
-        const user = await getCurrentUser();
+        const user = await getCurrentUser({ apiKeyScope: 'admin' });
 
         // Check webhook secret for automated credit additions
         const webhookSecret = request.headers.get('x-webhook-secret');
@@ -196,7 +206,7 @@ export async function POST(request: NextRequest) {
  */
 export async function PATCH(request: NextRequest) {
     try {
-        const user = await getCurrentUser();
+        const user = await getCurrentUser({ apiKeyScope: 'admin' });
         if (!user) {
             return NextResponse.json(
                 { error: 'Authentication required' },
@@ -0,0 +1,134 @@
+/**
+ * Generation Job Events Route
+ * Server-sent events with the progress of a generation job. The current state
+ * is sent on connect, so clients can reconnect at any time (EventSource does
+ * so automatically) without missing the outcome.
+ *
+ * Events: `progress` (snapshot), then `completed` or `failed` (final snapshot)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getGenerationJob, isJobActive, type GenerationJobSnapshot } from '@/lib/generationJobs';
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+export const maxDuration = 300;
+
+/** How often the job row is checked for changes */
+const POLL_INTERVAL_MS = 1_000;
+
+/** Comment line that keeps idle proxies from closing the stream */
+const KEEPALIVE_MS = 15_000;
+
+/** Streams end before the function limit; the client reconnects */
+const MAX_STREAM_MS = 240_000;
+
+/** Reconnection delay suggested to EventSource */
+const RETRY_MS = 2_000;
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/generate/jobs/:id/events
+ * Stream job progress until it completes or fails
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const initial = await getGenerationJob(user.id, id);
+
+        if (!initial) {
+            return NextResponse.json(
+                { error: 'Job not found' },
+                { status: 404 }
+            );
+        }
+
+        const encoder = new TextEncoder();
+        const send = (event: string, job: GenerationJobSnapshot) =>
+            encoder.encode(`event: ${event}\ndata: ${JSON.stringify(job)}\n\n`);
+        const finalEvent = (job: GenerationJobSnapshot) => (job.status === 'COMPLETED' ? 'completed' : 'failed');
+        // Heartbeats touch updatedAt without progress; only real changes are sent
+        const progressKey = (job: GenerationJobSnapshot) =>
+            `${job.status}:${job.phase}:${job.progress}:${job.filesWritten}:${job.detail ?? ''}`;
+
+        const stream = new ReadableStream({
+            async start(controller) {
+                controller.enqueue(encoder.encode(`retry: ${RETRY_MS}\n\n`));
+
+                if (!isJobActive(initial)) {
+                    controller.enqueue(send(finalEvent(initial), initial));
+                    controller.close();
+                    return;
+                }
+
+                controller.enqueue(send('progress', initial));
+
+                const startedAt = Date.now();
+                let lastSentAt = startedAt;
+                let lastKey = progressKey(initial);
+
+                try {
+                    while (!request.signal.aborted && Date.now() - startedAt < MAX_STREAM_MS) {
+                        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+                        if (request.signal.aborted) break;
+
+                        const job = await getGenerationJob(user.id, id);
+                        if (!job) break;
+
+                        if (!isJobActive(job)) {
+                            controller.enqueue(send(finalEvent(job), job));
+                            break;
+                        }
+
+                        if (progressKey(job) !== lastKey) {
+                            controller.enqueue(send('progress', job));
+                            lastKey = progressKey(job);
+                            lastSentAt = Date.now();
+                        } else if (Date.now() - lastSentAt >= KEEPALIVE_MS) {
+                            controller.enqueue(encoder.encode(': keepalive\n\n'));
+                            lastSentAt = Date.now();
+                        }
+                    }
+
+                    controller.close();
+                } catch (error) {
+                    if (!request.signal.aborted) {
+                        console.error('[Generation Jobs API] Stream error:', error);
+                        controller.error(error);
+                    }
+                }
+            },
+        });
+
+        return new Response(stream, {
+            headers: {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive',
+            },
+        });
+    } catch (error) {
+        console.error('[Generation Jobs API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
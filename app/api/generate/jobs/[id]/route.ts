@@ -0,0 +1,49 @@
+/**
+ * Generation Job API Route
+ * Current state of a single generation job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getGenerationJob } from '@/lib/generationJobs';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/generate/jobs/:id
+ * Job phase, progress and, once finished, its outcome
+ */
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const job = await getGenerationJob(user.id, id);
+
+        if (!job) {
+            return NextResponse.json(
+                { error: 'Job not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: job });
+    } catch (error) {
+        console.error('[Generation Jobs API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
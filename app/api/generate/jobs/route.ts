@@ -0,0 +1,38 @@
+/**
+ * Generation Jobs API Route
+ * Lists the user's running generation jobs (to resume them after a refresh)
+ */
+
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { listActiveGenerationJobs } from '@/lib/generationJobs';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/generate/jobs
+ * Queued and running jobs, newest first
+ */
+export async function GET() {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const jobs = await listActiveGenerationJobs(user.id);
+
+        return NextResponse.json({ success: true, data: jobs });
+    } catch (error) {
+        console.error('[Generation Jobs API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,14 +1,26 @@
 /**
  * Generate API Route
- * Handles AI-powered code/site generation using Emergent API
+ * Starts AI-powered site generation jobs (see lib/generationJobs); progress is
+ * streamed by /api/generate/jobs/[id]/events
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { getCurrentUser, deductCredits } from '@/lib/auth';
-import { emergent } from '@/lib/emergent';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { reserveCredits, releaseCredits } from '@/lib/credits';
+import { CREDIT_COSTS } from '@/lib/constants';
+import { resolveModel } from '@/lib/aiModels';
+import { checkQuotas, toPlanLimitError } from '@/lib/entitlements';
+import { createGenerationJob, runGenerationJob } from '@/lib/generationJobs';
 import { prisma } from '@/lib/prisma';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rateLimit';
 import { generateRequestSchema } from '@/lib/schemas';
-import { slugify } from '@/lib/utils';
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+/** Generation jobs run after the response, within this function's lifetime */
+export const maxDuration = 300;
 
 // =============================================================================
 // ROUTE HANDLERS
@@ -16,12 +28,14 @@ import { slugify } from '@/lib/utils';
 
 /**
  * POST /api/generate
- * Generate a new project from a prompt
+ * Start generating a new project from a prompt (202 with the job)
  */
 export async function POST(request: NextRequest) {
+    let holdId: string | null = null;
+
     try {
         // Authenticate user
-        const user = await getCurrentUser();
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
         if (!user) {
             return NextResponse.json(
                 { error: 'Authentication required' },
@@ -29,6 +43,14 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        const rateLimit = await checkRateLimit(user, 'generate');
+        if (rateLimit && !rateLimit.success) {
+            return NextResponse.json(
+                { error: 'Too many requests' },
+                { status: 429, headers: rateLimitHeaders(rateLimit) }
+            );
+        }
+
         // Parse and validate request body
         const body = await request.json();
         const validatedData = generateRequestSchema.safeParse(body);
@@ -42,75 +64,93 @@ export async function POST(request: NextRequest) {
 
         const { prompt, options } = validatedData.data;
 
-        // Generate using Emergent API
-        const result = await emergent.generate({ prompt, options });
+        // Requested model, if the plan allows it
+        const resolution = await resolveModel(user, options?.model, 'generate');
+        if (!resolution.success) {
+            return resolution.reason === 'plan_not_allowed'
+                ? NextResponse.json(
+                    { error: 'Model not available on your plan', model: options?.model },
+                    { status: 403 }
+                )
+                : NextResponse.json(
+                    { error: 'Unknown model', model: options?.model },
+                    { status: 400 }
+                );
+        }
 
-        if (!result.success) {
-            return NextResponse.json(
-                { error: result.error ?? 'Generation failed' },
-                { status: 500 }
-            );
+        // Each generation creates a project and uses one of the month's sites
+        const exceeded = await checkQuotas(user, ['projects', 'sitesPerMonth']);
+        if (exceeded) {
+            return NextResponse.json(toPlanLimitError(exceeded), { status: 403 });
         }
 
-        // Check and deduct credits (admins bypass)
+        // Hold the most a generation can cost before spending compute (admins bypass)
         if (!user.isAdmin) {
-            if (user.credits < result.estimatedCost) {
-                return NextResponse.json(
-                    {
-                        error: 'Insufficient credits',
-                        required: result.estimatedCost,
-                        available: user.credits,
-                    },
-                    { status: 402 }
-                );
-            }
-        }
+            const maxCost = CREDIT_COSTS.siteGeneration.advanced;
+            const idempotencyKey = request.headers.get('idempotency-key');
+            const reservation = await reserveCredits(
+                user.id,
+                maxCost,
+                'Site generation',
+                {
+                    idempotencyKey: idempotencyKey ? `generate:${user.id}:${idempotencyKey}` : undefined,
+                    referenceType: 'project',
+                }
+            );
 
-        // Create project in database
-        const projectName = `Projeto ${new Date().toLocaleDateString('pt-BR')}`;
-        const baseSlug = slugify(prompt.slice(0, 50));
-        const timestamp = Date.now().toString(36);
-        const slug = `${baseSlug}-${timestamp}`;
+            if (!reservation.success) {
+                return reservation.reason === 'insufficient_credits'
+                    ? NextResponse.json(
+                        {
+                            error: 'Insufficient credits',
+                            required: maxCost,
+                            available: reservation.remaining,
+                        },
+                        { status: 402 }
+                    )
+                    : NextResponse.json(
+                        {
+                            error: reservation.reason === 'in_progress'
+                                ? 'Request in progress'
+                                : reservation.reason === 'hold_finalized'
+                                    ? 'Idempotency-Key was already used for a finished request'
+                                    : 'Could not reserve credits',
+                        },
+                        { status: reservation.reason === 'error' ? 500 : 409 }
+                    );
+            }
 
-        // Convert files array to object
-        const filesObject: Record<string, string> = {};
-        for (const file of result.files) {
-            filesObject[file.path] = file.content;
+            holdId = reservation.holdId ?? null;
         }
 
-        const project = await prisma.project.create({
-            data: {
-                userId: user.id,
-                name: projectName,
-                slug,
-                description: prompt.slice(0, 500),
-                prompt,
-                techStack: options ?? {},
-                files: filesObject,
-                status: 'READY',
-                creditsCost: result.estimatedCost,
-            },
+        // Create the project and queue the job; it runs after the response
+        const { model: _model, ...generationOptions } = options ?? {};
+        const job = await createGenerationJob({
+            userId: user.id,
+            prompt,
+            options: generationOptions,
+            model: resolution.model.id,
+            holdId,
         });
 
-        // Deduct credits after successful generation
-        await deductCredits(
-            user.id,
-            result.estimatedCost,
-            `Site generation: ${projectName} (${project.id})`
-        );
+        after(() => runGenerationJob(job.id));
 
-        return NextResponse.json({
-            success: true,
-            data: {
-                projectId: project.id,
-                slug: project.slug,
-                files: result.files,
-                preview: result.preview,
-                creditsCost: result.estimatedCost,
+        return NextResponse.json(
+            {
+                success: true,
+                data: {
+                    jobId: job.id,
+                    projectId: job.projectId,
+                    slug: job.projectSlug,
+                    job,
+                    eventsUrl: `/api/generate/jobs/${job.id}/events`,
+                },
             },
-        });
+            { status: 202 }
+        );
     } catch (error) {
         console.error('[Generate API] Error:', error);
+        if (holdId) await releaseCredits(holdId, 'error');
         return NextResponse.json(
             { error: 'Internal server error' },
             { status: 500 }
@@ -124,7 +164,7 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
     try {
-        const user = await getCurrentUser();
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
         if (!user) {
             return NextResponse.json(
                 { error: 'Authentication required' },
@@ -132,6 +172,14 @@ export async function GET(request: NextRequest) {
             );
         }
 
+        const rateLimit = await checkRateLimit(user, 'generate');
+        if (rateLimit && !rateLimit.success) {
+            return NextResponse.json(
+                { error: 'Too many requests' },
+                { status: 429, headers: rateLimitHeaders(rateLimit) }
+            );
+        }
+
         const { searchParams } = new URL(request.url);
         const projectId = searchParams.get('projectId');
 
@@ -149,7 +197,9 @@ export async function GET(request: NextRequest) {
                 name: true,
                 slug: true,
                 status: true,
+                failureReason: true,
                 files: true,
+                version: true,
                 previewUrl: true,
                 createdAt: true,
             },
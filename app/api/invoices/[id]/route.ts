@@ -0,0 +1,138 @@
+/**
+ * Invoice Route
+ * Download a receipt (HTML or PDF) and record its NFS-e number
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { formatInvoiceNumber, renderInvoiceHtml, renderInvoicePdf } from '@/lib/invoices';
+import { prisma } from '@/lib/prisma';
+import { nfseUpdateSchema } from '@/lib/schemas';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/invoices/:id?format=pdf|html
+ * Receipt as a download (PDF) or a printable page (HTML, default)
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const invoice = await prisma.invoice.findUnique({ where: { id } });
+
+        if (!invoice || (invoice.userId !== user.id && !user.isAdmin)) {
+            return NextResponse.json(
+                { error: 'Invoice not found' },
+                { status: 404 }
+            );
+        }
+
+        const filename = `recibo-${formatInvoiceNumber(invoice)}`;
+
+        if (request.nextUrl.searchParams.get('format') === 'pdf') {
+            return new NextResponse(renderInvoicePdf(invoice), {
+                headers: {
+                    'Content-Type': 'application/pdf',
+                    'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+                    'Cache-Control': 'private, no-store',
+                },
+            });
+        }
+
+        return new NextResponse(renderInvoiceHtml(invoice), {
+            headers: {
+                'Content-Type': 'text/html; charset=utf-8',
+                'Content-Disposition': `inline; filename="${filename}.html"`,
+                'Cache-Control': 'private, no-store',
+            },
+        });
+    } catch (error) {
+        console.error('[Invoices API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PATCH /api/invoices/:id
+ * Admin: record the NFS-e issued by accounting for this invoice
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'admin' });
+        if (!user?.isAdmin) {
+            return NextResponse.json(
+                { error: 'Admin access required' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = nfseUpdateSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { id } = await params;
+        const existing = await prisma.invoice.findUnique({ where: { id } });
+
+        if (!existing) {
+            return NextResponse.json(
+                { error: 'Invoice not found' },
+                { status: 404 }
+            );
+        }
+
+        const invoice = await prisma.invoice.update({
+            where: { id },
+            data: {
+                nfseStatus: 'ISSUED',
+                nfseNumber: validatedData.data.nfseNumber,
+                nfseIssuedAt: new Date(),
+            },
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: 'invoice.nfse',
+                entityType: 'invoice',
+                entityId: id,
+                details: { nfseNumber: invoice.nfseNumber, previous: existing.nfseNumber },
+            },
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: invoice,
+        });
+    } catch (error) {
+        console.error('[Invoices API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
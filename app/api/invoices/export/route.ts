@@ -0,0 +1,77 @@
+/**
+ * NFS-e Export API Route
+ * Admin: hand pending invoices to accounting for NFS-e issuance
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { exportInvoicesForNfse, toNfseCsv } from '@/lib/invoices';
+import { prisma } from '@/lib/prisma';
+import { nfseExportSchema } from '@/lib/schemas';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * POST /api/invoices/export
+ * Preview (dryRun, default) or export invoices without an NFS-e as JSON or CSV.
+ * Exported invoices are marked so the next export skips them.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'admin' });
+        if (!user?.isAdmin) {
+            return NextResponse.json(
+                { error: 'Admin access required' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = nfseExportSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { from, to, format, dryRun } = validatedData.data;
+        const records = await exportInvoicesForNfse({ from, to, dryRun });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: dryRun ? 'invoice.export.preview' : 'invoice.export',
+                entityType: 'invoice',
+                details: {
+                    from: from?.toISOString() ?? null,
+                    to: to?.toISOString() ?? null,
+                    count: records.length,
+                },
+            },
+        });
+
+        if (format === 'csv') {
+            return new NextResponse(toNfseCsv(records), {
+                headers: {
+                    'Content-Type': 'text/csv; charset=utf-8',
+                    'Content-Disposition': 'attachment; filename="nfse-export.csv"',
+                },
+            });
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: { dryRun, count: records.length, records },
+        });
+    } catch (error) {
+        console.error('[Invoices API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * Invoices API Route
+ * The current user's invoices, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { formatInvoiceNumber } from '@/lib/invoices';
+import { prisma } from '@/lib/prisma';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/invoices
+ * List invoices (paginated)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const page = Math.max(1, parseInt(searchParams.get('page') ?? '1', 10) || 1);
+        const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') ?? '20', 10) || 20));
+
+        const [invoices, totalCount] = await Promise.all([
+            prisma.invoice.findMany({
+                where: { userId: user.id },
+                orderBy: { issuedAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.invoice.count({ where: { userId: user.id } }),
+        ]);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                invoices: invoices.map((invoice) => ({
+                    id: invoice.id,
+                    number: formatInvoiceNumber(invoice),
+                    source: invoice.source,
+                    description: invoice.description,
+                    amount: invoice.amount,
+                    currency: invoice.currency,
+                    paymentMethod: invoice.paymentMethod,
+                    nfseStatus: invoice.nfseStatus,
+                    nfseNumber: invoice.nfseNumber,
+                    issuedAt: invoice.issuedAt,
+                })),
+                pagination: {
+                    page,
+                    pageSize: limit,
+                    totalItems: totalCount,
+                    totalPages: Math.ceil(totalCount / limit),
+                    hasNext: page * limit < totalCount,
+                    hasPrev: page > 1,
+                },
+            },
+        });
+    } catch (error) {
+        console.error('[Invoices API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * API Key Route
+ * Revoke a single API key (session only, like creating one)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { revokeApiKey } from '@/lib/apiKeys';
+import { prisma } from '@/lib/prisma';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * DELETE /api/keys/:id
+ * Revoke an API key; it stops working immediately
+ */
+export async function DELETE(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const revoked = await revokeApiKey(user.id, id);
+
+        if (!revoked) {
+            return NextResponse.json(
+                { error: 'API key not found' },
+                { status: 404 }
+            );
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: 'apiKey.revoke',
+                entityType: 'apiKey',
+                entityId: id,
+            },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[API Keys] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * API Keys Route
+ * Create and list API keys for programmatic access
+ * Session only: an API key cannot be used to create or list keys
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { createApiKey, listApiKeys, planHasApiAccess } from '@/lib/apiKeys';
+import { prisma } from '@/lib/prisma';
+import { createApiKeySchema } from '@/lib/schemas';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/keys
+ * List the current user's API keys (never includes the key itself)
+ */
+export async function GET() {
+    try {
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const keys = await listApiKeys(user.id);
+
+        return NextResponse.json({
+            keys,
+            canCreate: user.isAdmin || planHasApiAccess(user.planId),
+        });
+    } catch (error) {
+        console.error('[API Keys] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/keys
+ * Create a new API key. The full key is returned only in this response.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        // Key management needs a browser session, not another API key
+        const user = await getCurrentUser();
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        if (!user.isAdmin && !planHasApiAccess(user.planId)) {
+            return NextResponse.json(
+                { error: 'API access is not included in your plan' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = createApiKeySchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        // Only admins may issue admin-scoped keys
+        if (validatedData.data.scopes.includes('admin') && !user.isAdmin) {
+            return NextResponse.json(
+                { error: 'Admin scope requires admin access' },
+                { status: 403 }
+            );
+        }
+
+        const { apiKey, key } = await createApiKey(user.id, validatedData.data);
+
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: 'apiKey.create',
+                entityType: 'apiKey',
+                entityId: apiKey.id,
+                details: { name: apiKey.name, scopes: apiKey.scopes },
+            },
+        });
+
+        return NextResponse.json(
+            {
+                success: true,
+                data: { apiKey, key },
+            },
+            { status: 201 }
+        );
+    } catch (error) {
+        console.error('[API Keys] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
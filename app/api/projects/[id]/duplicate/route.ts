@@ -0,0 +1,79 @@
+/**
+ * Project Duplicate API Route
+ * Copy a project's current files into a new project
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { checkQuota, toPlanLimitError } from '@/lib/entitlements';
+import { prisma } from '@/lib/prisma';
+import { duplicateProject } from '@/lib/projects';
+import { duplicateProjectSchema } from '@/lib/schemas';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * POST /api/projects/:id/duplicate
+ * Optional `{ name }` for the copy (201 with the new project)
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const validatedData = duplicateProjectSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const quota = await checkQuota(user, 'projects');
+        if (!quota.allowed) {
+            return NextResponse.json(toPlanLimitError(quota), { status: 403 });
+        }
+
+        const { id } = await params;
+        const result = await duplicateProject(user.id, id, validatedData.data.name);
+
+        if (!result.success) {
+            return result.reason === 'not_found'
+                ? NextResponse.json({ error: 'Project not found' }, { status: 404 })
+                : NextResponse.json({ error: 'Project is still generating' }, { status: 409 });
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: 'project.duplicate',
+                entityType: 'project',
+                entityId: result.project.id,
+                details: { sourceProjectId: id },
+            },
+        });
+
+        return NextResponse.json(
+            { success: true, data: result.project },
+            { status: 201 }
+        );
+    } catch (error) {
+        console.error('[Projects API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,168 @@
+/**
+ * Project Files API Route
+ * Read a project's files and save changes to them. The ETag is the project
+ * version; saves must send it back (If-Match or `baseVersion`) and fail with
+ * 412 if someone saved in between.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getFilesSize, type ProjectFiles } from '@/lib/projectFiles';
+import { updateProjectFiles } from '@/lib/projectVersions';
+import { updateProjectFilesSchema } from '@/lib/schemas';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toEtag(version: number): string {
+    return `"${version}"`;
+}
+
+/**
+ * Version from an If-Match header (`"3"` or `W/"3"`), or undefined
+ */
+function parseIfMatch(header: string | null): number | undefined {
+    const match = header?.trim().match(/^(?:W\/)?"(\d+)"$/);
+    return match?.[1] ? Number(match[1]) : undefined;
+}
+
+const fileErrors = {
+    invalid_path: { error: 'Invalid file path', status: 400 },
+    not_found: { error: 'File not found', status: 404 },
+    already_exists: { error: 'File already exists', status: 409 },
+} as const;
+
+const limitErrors = {
+    file_too_large: 'File too large',
+    project_too_large: 'Project too large',
+    too_many_files: 'Too many files',
+} as const;
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/projects/:id/files
+ */
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const project = await prisma.project.findFirst({
+            where: { id, userId: user.id, deletedAt: null },
+            select: { files: true, version: true },
+        });
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: true, data: { files: project.files as ProjectFiles, version: project.version } },
+            { headers: { ETag: toEtag(project.version) } }
+        );
+    } catch (error) {
+        console.error('[Files API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PATCH /api/projects/:id/files
+ * Apply create/update/rename/delete operations, in order, as the next version
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = updateProjectFilesSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { operations, message } = validatedData.data;
+        const baseVersion = parseIfMatch(request.headers.get('if-match')) ?? validatedData.data.baseVersion;
+
+        if (baseVersion === undefined) {
+            return NextResponse.json(
+                { error: 'If-Match header or baseVersion required' },
+                { status: 428 }
+            );
+        }
+
+        const { id } = await params;
+        const result = await updateProjectFiles(user.id, id, { baseVersion, operations, message });
+
+        if (!result.success) {
+            switch (result.reason) {
+                case 'not_found':
+                    return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+                case 'version_conflict':
+                    return NextResponse.json(
+                        { error: 'Project changed since it was loaded', version: result.version },
+                        { status: 412, headers: { ETag: toEtag(result.version) } }
+                    );
+                case 'invalid_operation': {
+                    const { error, status } = fileErrors[result.error.reason];
+                    return NextResponse.json({ error, path: result.error.path }, { status });
+                }
+                case 'limit_exceeded':
+                    return NextResponse.json(
+                        { error: limitErrors[result.violation.reason], ...result.violation },
+                        { status: 413 }
+                    );
+            }
+        }
+
+        return NextResponse.json(
+            {
+                success: true,
+                data: {
+                    version: result.version,
+                    fileCount: Object.keys(result.files).length,
+                    size: getFilesSize(result.files),
+                },
+            },
+            { headers: { ETag: toEtag(result.version) } }
+        );
+    } catch (error) {
+        console.error('[Files API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
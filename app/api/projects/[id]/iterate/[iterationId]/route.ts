@@ -0,0 +1,106 @@
+/**
+ * Project Iteration API Route
+ * Apply or discard a proposed patch
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { applyIteration, discardIteration } from '@/lib/projectIterations';
+import { prisma } from '@/lib/prisma';
+import { iterationActionSchema } from '@/lib/schemas';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const limitErrors = {
+    file_too_large: 'File too large',
+    project_too_large: 'Project too large',
+    too_many_files: 'Too many files',
+} as const;
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * PATCH /api/projects/:id/iterate/:iterationId
+ * `{ action: 'apply' }` writes the patch as the next project version;
+ * `{ action: 'discard' }` rejects it
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; iterationId: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = iterationActionSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { id, iterationId } = await params;
+        const { action } = validatedData.data;
+        const result = action === 'apply'
+            ? await applyIteration(user.id, id, iterationId)
+            : await discardIteration(user.id, id, iterationId);
+
+        if (!result.success) {
+            switch (result.reason) {
+                case 'not_found':
+                    return NextResponse.json({ error: 'Iteration not found' }, { status: 404 });
+                case 'not_pending':
+                    return NextResponse.json({ error: 'Iteration already reviewed' }, { status: 409 });
+                case 'version_conflict':
+                    return NextResponse.json(
+                        { error: 'Project changed since the patch was proposed' },
+                        { status: 409 }
+                    );
+                case 'limit_exceeded':
+                    return NextResponse.json(
+                        { error: limitErrors[result.violation.reason], ...result.violation },
+                        { status: 413 }
+                    );
+            }
+        }
+
+        if (action === 'apply') {
+            await prisma.auditLog.create({
+                data: {
+                    userId: user.id,
+                    action: 'project.iteration.apply',
+                    entityType: 'project',
+                    entityId: id,
+                    details: { iterationId, version: result.version },
+                },
+            });
+        }
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                iteration: result.iteration,
+                files: result.files,
+                version: result.version,
+            },
+        });
+    } catch (error) {
+        console.error('[Iterate API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
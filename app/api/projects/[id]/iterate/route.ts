@@ -0,0 +1,254 @@
+/**
+ * Project Iterate API Route
+ * "Modify my project": the AI proposes a patch to the project's files for
+ * review in the editor. Each proposal is charged on its own.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { calculateChatCost, reserveCredits, settleCredits, releaseCredits } from '@/lib/credits';
+import { emergent, estimateTokens } from '@/lib/emergent';
+import { CREDIT_COSTS, ITERATION_MAX_COMPLETION_TOKENS, ITERATION_MAX_CONTEXT_CHARS } from '@/lib/constants';
+import { resolveModel } from '@/lib/aiModels';
+import { prisma } from '@/lib/prisma';
+import { getFilesSize, reviewChanges, type ProjectFiles } from '@/lib/projectFiles';
+import { createIteration, deleteIteration, listIterations } from '@/lib/projectIterations';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rateLimit';
+import { iterateProjectSchema } from '@/lib/schemas';
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+export const maxDuration = 300;
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * POST /api/projects/:id/iterate
+ * Propose a patch for an instruction (201 with the pending iteration)
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    let holdId: string | null = null;
+
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const rateLimit = await checkRateLimit(user, 'generate');
+        if (rateLimit && !rateLimit.success) {
+            return NextResponse.json(
+                { error: 'Too many requests' },
+                { status: 429, headers: rateLimitHeaders(rateLimit) }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = iterateProjectSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { instruction, model: modelId } = validatedData.data;
+        const { id } = await params;
+
+        const project = await prisma.project.findFirst({
+            where: { id, userId: user.id, deletedAt: null },
+            select: { id: true, status: true, files: true, version: true },
+        });
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        if (project.status === 'GENERATING') {
+            return NextResponse.json(
+                { error: 'Project is still generating' },
+                { status: 409 }
+            );
+        }
+
+        const files = (project.files ?? {}) as ProjectFiles;
+        const contextSize = getFilesSize(files);
+        if (contextSize > ITERATION_MAX_CONTEXT_CHARS) {
+            return NextResponse.json(
+                { error: 'Project too large to iterate', size: contextSize, limit: ITERATION_MAX_CONTEXT_CHARS },
+                { status: 413 }
+            );
+        }
+
+        // Requested model, if the plan allows it
+        const resolution = await resolveModel(user, modelId, 'generate');
+        if (!resolution.success) {
+            return resolution.reason === 'plan_not_allowed'
+                ? NextResponse.json(
+                    { error: 'Model not available on your plan', model: modelId },
+                    { status: 403 }
+                )
+                : NextResponse.json(
+                    { error: 'Unknown model', model: modelId },
+                    { status: 400 }
+                );
+        }
+        const { model } = resolution;
+
+        // Hold the most this patch can cost: all files as context plus a full completion
+        if (!user.isAdmin) {
+            const maxCost = Math.max(
+                CREDIT_COSTS.code.generate,
+                calculateChatCost(
+                    {
+                        promptTokens: estimateTokens(instruction) + Math.ceil(contextSize / 4),
+                        completionTokens: ITERATION_MAX_COMPLETION_TOKENS,
+                    },
+                    model.pricing
+                )
+            );
+            const idempotencyKey = request.headers.get('idempotency-key');
+            const reservation = await reserveCredits(
+                user.id,
+                maxCost,
+                `Project iteration (${project.id})`,
+                {
+                    idempotencyKey: idempotencyKey ? `iterate:${user.id}:${idempotencyKey}` : undefined,
+                    referenceId: project.id,
+                    referenceType: 'project',
+                }
+            );
+
+            if (!reservation.success) {
+                return reservation.reason === 'insufficient_credits'
+                    ? NextResponse.json(
+                        { error: 'Insufficient credits', required: maxCost, available: reservation.remaining },
+                        { status: 402 }
+                    )
+                    : NextResponse.json(
+                        {
+                            error: reservation.reason === 'in_progress'
+                                ? 'Request in progress'
+                                : reservation.reason === 'hold_finalized'
+                                    ? 'Idempotency-Key was already used for a finished request'
+                                    : 'Could not reserve credits',
+                        },
+                        { status: reservation.reason === 'error' ? 500 : 409 }
+                    );
+            }
+
+            holdId = reservation.holdId ?? null;
+        }
+
+        let result;
+        try {
+            result = await emergent.iterate(
+                { instruction, files, model: model.id },
+                { signal: request.signal }
+            );
+        } catch (error) {
+            if (holdId) await releaseCredits(holdId, 'iteration failed');
+            return NextResponse.json(
+                { error: 'Iteration failed', details: error instanceof Error ? error.message : undefined },
+                { status: 502 }
+            );
+        }
+
+        const review = reviewChanges(files, result.changes);
+        if (review.problems.length > 0 || review.changes.length === 0) {
+            if (holdId) await releaseCredits(holdId, 'no usable changes');
+            return NextResponse.json(
+                review.problems.length > 0
+                    ? { error: 'Model proposed invalid changes', details: review.problems }
+                    : { error: 'No changes proposed', summary: result.summary },
+                { status: 422 }
+            );
+        }
+
+        const cost = Math.max(CREDIT_COSTS.code.generate, calculateChatCost(result.usage, model.pricing));
+
+        const iteration = await createIteration({
+            projectId: project.id,
+            userId: user.id,
+            instruction,
+            summary: result.summary,
+            changes: review.changes,
+            model: result.model,
+            baseVersion: project.version,
+            creditsCost: cost,
+            tokens: result.usage.totalTokens,
+        });
+
+        // Charge the real cost and return the rest of the hold, once the patch
+        // is stored. A hold that is no longer pending (expired) leaves this
+        // patch unpaid, so it is dropped.
+        if (holdId) {
+            const settlement = await settleCredits(
+                holdId,
+                cost,
+                `Project iteration (${project.id})`,
+                { model: result.model, ...result.usage, cost }
+            );
+            if (!settlement.success) {
+                await deleteIteration(iteration.id);
+                await releaseCredits(holdId, 'error');
+                return settlement.reason === 'not_pending'
+                    ? NextResponse.json({ error: 'Credit hold is no longer pending' }, { status: 409 })
+                    : NextResponse.json({ error: 'Could not charge credits' }, { status: 500 });
+            }
+        }
+
+        return NextResponse.json({ success: true, data: iteration }, { status: 201 });
+    } catch (error) {
+        console.error('[Iterate API] Error:', error);
+        if (holdId) await releaseCredits(holdId, 'error');
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * GET /api/projects/:id/iterate
+ * Latest iterations of the project, newest first
+ */
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const iterations = await listIterations(user.id, id);
+
+        return NextResponse.json({ success: true, data: iterations });
+    } catch (error) {
+        console.error('[Iterate API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
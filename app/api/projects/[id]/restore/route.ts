@@ -0,0 +1,65 @@
+/**
+ * Project Restore API Route
+ * Take a project back out of the trash
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { checkQuota, toPlanLimitError } from '@/lib/entitlements';
+import { prisma } from '@/lib/prisma';
+import { restoreProject } from '@/lib/projects';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * POST /api/projects/:id/restore
+ * Restored projects count against the plan's project limit again
+ */
+export async function POST(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const quota = await checkQuota(user, 'projects');
+        if (!quota.allowed) {
+            return NextResponse.json(toPlanLimitError(quota), { status: 403 });
+        }
+
+        const { id } = await params;
+        const project = await restoreProject(user.id, id);
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found in trash' },
+                { status: 404 }
+            );
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: 'project.restore',
+                entityType: 'project',
+                entityId: id,
+            },
+        });
+
+        return NextResponse.json({ success: true, data: project });
+    } catch (error) {
+        console.error('[Projects API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,144 @@
+/**
+ * Project API Route
+ * Get, update and move a project to the trash
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getProject, trashProject, updateProject } from '@/lib/projects';
+import { updateProjectSchema } from '@/lib/schemas';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/projects/:id
+ * Project with its files (also while in the trash)
+ */
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const project = await getProject(user.id, id);
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: project });
+    } catch (error) {
+        console.error('[Projects API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PATCH /api/projects/:id
+ * Update name, description or visibility
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = updateProjectSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { id } = await params;
+        const project = await updateProject(user.id, id, validatedData.data);
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: project });
+    } catch (error) {
+        console.error('[Projects API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/projects/:id
+ * Move to the trash (restorable until it is purged)
+ */
+export async function DELETE(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const result = await trashProject(user.id, id);
+
+        if (!result.success) {
+            return result.reason === 'not_found'
+                ? NextResponse.json({ error: 'Project not found' }, { status: 404 })
+                : NextResponse.json({ error: 'Project is still generating' }, { status: 409 });
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: 'project.trash',
+                entityType: 'project',
+                entityId: id,
+                details: { purgeAfter: result.project.purgeAfter?.toISOString() ?? null },
+            },
+        });
+
+        return NextResponse.json({ success: true, data: result.project });
+    } catch (error) {
+        console.error('[Projects API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,162 @@
+/**
+ * Project Version API Route
+ * A version's files; restore it or branch it into a new project
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { checkQuota, toPlanLimitError } from '@/lib/entitlements';
+import { prisma } from '@/lib/prisma';
+import { branchFromVersion, getVersion, restoreVersion } from '@/lib/projectVersions';
+import { versionActionSchema } from '@/lib/schemas';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function parseVersion(value: string): number | null {
+    if (!/^\d+$/.test(value)) return null;
+    const version = Number(value);
+    return version > 0 ? version : null;
+}
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/projects/:id/versions/:version
+ */
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string; version: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id, version: versionParam } = await params;
+        const version = parseVersion(versionParam);
+        const detail = version === null ? null : await getVersion(user.id, id, version);
+
+        if (!detail) {
+            return NextResponse.json(
+                { error: 'Version not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: detail });
+    } catch (error) {
+        console.error('[Versions API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/projects/:id/versions/:version
+ * `{ action: 'restore' }` writes the version's files as the next version;
+ * `{ action: 'branch' }` copies them into a new project
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; version: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'write' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const validatedData = versionActionSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { id, version: versionParam } = await params;
+        const version = parseVersion(versionParam);
+        if (version === null) {
+            return NextResponse.json(
+                { error: 'Version not found' },
+                { status: 404 }
+            );
+        }
+
+        const { action, expectedVersion } = validatedData.data;
+
+        if (action === 'branch') {
+            const quota = await checkQuota(user, 'projects');
+            if (!quota.allowed) {
+                return NextResponse.json(toPlanLimitError(quota), { status: 403 });
+            }
+
+            const branch = await branchFromVersion(user.id, id, version);
+            if (!branch.success) {
+                return NextResponse.json(
+                    { error: 'Version not found' },
+                    { status: 404 }
+                );
+            }
+
+            await prisma.auditLog.create({
+                data: {
+                    userId: user.id,
+                    action: 'project.version.branch',
+                    entityType: 'project',
+                    entityId: branch.projectId,
+                    details: { sourceProjectId: id, version },
+                },
+            });
+
+            return NextResponse.json(
+                { success: true, data: { projectId: branch.projectId, slug: branch.slug } },
+                { status: 201 }
+            );
+        }
+
+        const result = await restoreVersion(user.id, id, version, expectedVersion);
+
+        if (!result.success) {
+            return result.reason === 'not_found'
+                ? NextResponse.json({ error: 'Version not found' }, { status: 404 })
+                : NextResponse.json({ error: 'Project changed since it was loaded' }, { status: 409 });
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: 'project.version.restore',
+                entityType: 'project',
+                entityId: id,
+                details: { restoredVersion: version, version: result.version },
+            },
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: { files: result.files, version: result.version },
+        });
+    } catch (error) {
+        console.error('[Versions API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * Project Version Diff API Route
+ * File-by-file changes between two versions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { diffVersions } from '@/lib/projectVersions';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function parseVersion(value: string | null): number | null {
+    if (value === null || !/^\d+$/.test(value)) return null;
+    const version = Number(value);
+    return version > 0 ? version : null;
+}
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/projects/:id/versions/diff?from=2&to=5
+ * `to` defaults to the current version
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const from = parseVersion(searchParams.get('from'));
+        const to = searchParams.has('to') ? parseVersion(searchParams.get('to')) : undefined;
+
+        if (from === null || to === null) {
+            return NextResponse.json(
+                { error: 'Invalid versions' },
+                { status: 400 }
+            );
+        }
+
+        const { id } = await params;
+        const diff = await diffVersions(user.id, id, from, to);
+
+        if (!diff) {
+            return NextResponse.json(
+                { error: 'Version not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, data: diff });
+    } catch (error) {
+        console.error('[Versions API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
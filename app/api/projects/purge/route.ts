@@ -0,0 +1,88 @@
+/**
+ * Project Purge API Route
+ * Permanently deletes projects that have been in the trash for longer than
+ * PROJECT_TRASH_RETENTION_DAYS (cron); admins can preview it (dry run)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, isCronRequest } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { purgeTrashedProjects } from '@/lib/projects';
+import { projectPurgeSchema } from '@/lib/schemas';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/projects/purge
+ * Cron entry point
+ */
+export async function GET(request: NextRequest) {
+    try {
+        if (!isCronRequest(request)) {
+            return NextResponse.json(
+                { error: 'Unauthorized' },
+                { status: 401 }
+            );
+        }
+
+        const summary = await purgeTrashedProjects();
+
+        console.log(`[Purge API] ${summary.purged} projects purged (trashed before ${summary.cutoff.toISOString()})`);
+
+        return NextResponse.json({ success: true, data: summary });
+    } catch (error) {
+        console.error('[Purge API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/projects/purge
+ * Admin: preview (dryRun, default) or run the purge
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'admin' });
+        if (!user?.isAdmin) {
+            return NextResponse.json(
+                { error: 'Admin access required' },
+                { status: 403 }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const validatedData = projectPurgeSchema.safeParse(body);
+
+        if (!validatedData.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedData.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const { dryRun } = validatedData.data;
+        const summary = await purgeTrashedProjects({ dryRun });
+
+        await prisma.auditLog.create({
+            data: {
+                userId: user.id,
+                action: dryRun ? 'projects.purge.preview' : 'projects.purge',
+                entityType: 'project',
+                details: { purged: summary.purged, cutoff: summary.cutoff.toISOString() },
+            },
+        });
+
+        return NextResponse.json({ success: true, data: summary });
+    } catch (error) {
+        console.error('[Purge API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
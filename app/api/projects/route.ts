@@ -0,0 +1,49 @@
+/**
+ * Projects API Route
+ * The current user's projects, or their trash
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { listProjects } from '@/lib/projects';
+import { projectListQuerySchema } from '@/lib/schemas';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * GET /api/projects?view=trash&status=READY&search=loja&sort=name&order=asc&page=1&limit=20
+ * List projects (paginated)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getCurrentUser({ apiKeyScope: 'read' });
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const validatedQuery = projectListQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+        if (!validatedQuery.success) {
+            return NextResponse.json(
+                { error: 'Invalid request', details: validatedQuery.error.format() },
+                { status: 400 }
+            );
+        }
+
+        const data = await listProjects(user.id, validatedQuery.data);
+
+        return NextResponse.json({ success: true, data });
+    } catch (error) {
+        console.error('[Projects API] Error:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * Payment Provider Webhook Route
+ * Payment confirmations from providers without a dedicated endpoint
+ * (Stripe events arrive on /api/webhooks/stripe)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaymentProvider, handlePaymentEvent } from '@/lib/payments';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * POST /api/webhooks/payments/:provider
+ * Non-2xx responses make the provider retry the delivery
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ provider: string }> }
+) {
+    const { provider: providerId } = await params;
+    const provider = getPaymentProvider(providerId);
+
+    if (!provider?.parseWebhook) {
+        return NextResponse.json(
+            { error: 'Unknown payment provider' },
+            { status: 404 }
+        );
+    }
+
+    // Signatures are computed over the exact raw body
+    const payload = await request.text();
+    const event = await provider.parseWebhook(payload, request.headers);
+
+    if (!event) {
+        return NextResponse.json(
+            { error: 'Invalid webhook' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const outcome = await handlePaymentEvent(provider.id, event);
+
+        return NextResponse.json({ received: true, outcome });
+    } catch (error) {
+        console.error(`[Payments Webhook] Error handling ${provider.id} event ${event.eventId}:`, error);
+        return NextResponse.json(
+            { error: 'Webhook handler failed' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,46 @@
+/**
+ * Stripe Webhook Route
+ * Verifies the Stripe-Signature header and applies subscription events
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { handleStripeEvent } from '@/lib/billing';
+import { verifyWebhookEvent } from '@/lib/stripe';
+
+// =============================================================================
+// ROUTE HANDLERS
+// =============================================================================
+
+/**
+ * POST /api/webhooks/stripe
+ * Non-2xx responses make Stripe retry the delivery
+ */
+export async function POST(request: NextRequest) {
+    // Signature is computed over the exact raw body
+    const payload = await request.text();
+
+    const event = await verifyWebhookEvent(
+        payload,
+        request.headers.get('stripe-signature'),
+        process.env.STRIPE_WEBHOOK_SECRET ?? ''
+    );
+
+    if (!event) {
+        return NextResponse.json(
+            { error: 'Invalid signature' },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const outcome = await handleStripeEvent(event);
+
+        return NextResponse.json({ received: true, outcome });
+    } catch (error) {
+        console.error(`[Stripe Webhook] Error handling ${event.type} (${event.id}):`, error);
+        return NextResponse.json(
+            { error: 'Webhook handler failed' },
+            { status: 500 }
+        );
+    }
+}
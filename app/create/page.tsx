@@ -20,13 +20,14 @@ import {
     BarChart,
     Loader2,
     CheckCircle,
-    AlertCircle,
+    RotateCw,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { GlowCard } from '@/components/ui/GlowCard';
 import { NeonButton } from '@/components/ui/NeonButton';
 import { CREDIT_COSTS } from '@/lib/constants';
+import { useGenerationJob, type GenerationJobItem } from '@/hooks/useGenerationJob';
 
 // =============================================================================
 // TYPES
@@ -61,6 +62,16 @@ const featureOptions: TechOption[] = [
     { id: 'database', name: 'Database', icon: Database },
 ];
 
+const phaseLabels: Record<GenerationJobItem['phase'], string> = {
+    queued: 'Na fila...',
+    planning: 'Planejando o projeto...',
+    generating: 'Gerando código com IA...',
+    writing: 'Gravando arquivos...',
+    validating: 'Validando arquivos...',
+    completed: 'Projeto pronto!',
+    failed: 'Falha na geração',
+};
+
 const promptExamples = [
     'Crie um landing page para uma startup de SaaS com hero section, features, pricing e FAQ',
     'Faça um dashboard de analytics com gráficos, tabelas e filtros',
@@ -80,8 +91,24 @@ export default function CreatePage() {
     const [selectedFramework, setSelectedFramework] = React.useState('nextjs');
     const [selectedStyling, setSelectedStyling] = React.useState('tailwind');
     const [selectedFeatures, setSelectedFeatures] = React.useState<string[]>([]);
-    const [isGenerating, setIsGenerating] = React.useState(false);
-    const [progress, setProgress] = React.useState(0);
+    const { job, startGeneration, reset, isRunning, isResumed, isStarting } = useGenerationJob();
+
+    const isGenerating = isStarting || isRunning;
+    const progress = job?.progress ?? 0;
+
+    // Outcome of the job: open the editor, or report the failure
+    React.useEffect(() => {
+        if (job?.status === 'COMPLETED') {
+            toast.success('Projeto criado com sucesso!');
+            const timeout = setTimeout(() => router.push(`/editor/${job.projectId}`), 500);
+            return () => clearTimeout(timeout);
+        }
+        if (job?.status === 'FAILED') {
+            toast.error(job.error ?? 'Erro ao gerar projeto');
+            reset();
+        }
+        return undefined;
+    }, [job?.status, job?.projectId, job?.error, router, reset]);
 
     // Toggle feature selection
     const toggleFeature = (featureId: string) => {
@@ -106,49 +133,17 @@ export default function CreatePage() {
             return;
         }
 
-        setIsGenerating(true);
-        setProgress(0);
-
-        // Simulate progress
-        const progressInterval = setInterval(() => {
-            setProgress((prev) => Math.min(prev + Math.random() * 10, 90));
-        }, 500);
-
         try {
-            const res = await fetch('/api/generate', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    prompt: prompt.trim(),
-                    options: {
-                        framework: selectedFramework,
-                        styling: selectedStyling,
-                        features: selectedFeatures,
-                    },
-                }),
+            await startGeneration({
+                prompt: prompt.trim(),
+                options: {
+                    framework: selectedFramework,
+                    styling: selectedStyling,
+                    features: selectedFeatures,
+                },
             });
-
-            clearInterval(progressInterval);
-
-            if (!res.ok) {
-                const error = await res.json();
-                throw new Error(error.error ?? 'Falha na geração');
-            }
-
-            const data = await res.json();
-            setProgress(100);
-
-            toast.success('Projeto criado com sucesso!');
-
-            // Redirect to editor
-            setTimeout(() => {
-                router.push(`/editor/${data.data.projectId}`);
-            }, 500);
         } catch (error) {
-            clearInterval(progressInterval);
             toast.error((error as Error).message ?? 'Erro ao gerar projeto');
-            setIsGenerating(false);
-            setProgress(0);
         }
     };
 
@@ -326,13 +321,19 @@ export default function CreatePage() {
                     </NeonButton>
                 </div>
 
-                {/* Progress bar */}
-                {isGenerating && (
+                {/* Progress of the generation job */}
+                {job && (
                     <motion.div
                         initial={{ opacity: 0, height: 0 }}
                         animate={{ opacity: 1, height: 'auto' }}
                         className="pt-4"
                     >
+                        {isResumed && (
+                            <div className="mb-3 flex items-center gap-2 text-xs text-neon-400">
+                                <RotateCw className="w-3.5 h-3.5" />
+                                Retomando a geração em andamento
+                            </div>
+                        )}
                         <div className="flex items-center justify-between text-sm text-gray-400 mb-2">
                             <span>Gerando seu projeto...</span>
                             <span>{Math.round(progress)}%</span>
@@ -346,29 +347,17 @@ export default function CreatePage() {
                             />
                         </div>
                         <div className="mt-4 flex items-center gap-2 text-sm text-gray-400">
-                            {progress < 30 && (
-                                <>
-                                    <Loader2 className="w-4 h-4 animate-spin text-neon-400" />
-                                    Analisando prompt...
-                                </>
-                            )}
-                            {progress >= 30 && progress < 60 && (
-                                <>
-                                    <Loader2 className="w-4 h-4 animate-spin text-neon-400" />
-                                    Gerando estrutura...
-                                </>
-                            )}
-                            {progress >= 60 && progress < 90 && (
-                                <>
-                                    <Loader2 className="w-4 h-4 animate-spin text-neon-400" />
-                                    Criando componentes...
-                                </>
+                            {job.status === 'COMPLETED' ? (
+                                <CheckCircle className="w-4 h-4 text-green-400" />
+                            ) : (
+                                <Loader2 className="w-4 h-4 animate-spin text-neon-400" />
                             )}
-                            {progress >= 90 && (
-                                <>
-                                    <CheckCircle className="w-4 h-4 text-green-400" />
-                                    Finalizando...
-                                </>
+                            {phaseLabels[job.phase]}
+                            {job.phase === 'writing' && job.filesTotal > 0 && (
+                                <span className="text-gray-500">
+                                    {job.filesWritten}/{job.filesTotal}
+                                    {job.detail && ` · ${job.detail}`}
+                                </span>
                             )}
                         </div>
                     </motion.div>
@@ -18,9 +18,11 @@ import {
     User,
     Loader2,
     X,
+    Archive,
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { cn } from '@/lib/utils';
+import Link from 'next/link';
+import { cn, formatDate } from '@/lib/utils';
 import { GlowCard } from '@/components/ui/GlowCard';
 import { NeonButton } from '@/components/ui/NeonButton';
 import ReactMarkdown from 'react-markdown';
@@ -45,6 +47,12 @@ interface Conversation {
     updatedAt: string;
 }
 
+interface PendingDeletion {
+    id: string;
+    title: string;
+    deleteAfter: string;
+}
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
@@ -55,6 +63,7 @@ export default function ChatPage() {
 
     // State
     const [conversations, setConversations] = React.useState<Conversation[]>([]);
+    const [pendingDeletion, setPendingDeletion] = React.useState<PendingDeletion[]>([]);
     const [currentConversationId, setCurrentConversationId] = React.useState<string | null>(initialConversationId);
     const [messages, setMessages] = React.useState<Message[]>([]);
     const [input, setInput] = React.useState('');
@@ -79,6 +88,7 @@ export default function ChatPage() {
                 if (res.ok) {
                     const data = await res.json();
                     setConversations(data.conversations ?? []);
+                    setPendingDeletion(data.pendingDeletion ?? []);
                 }
             } catch (error) {
                 console.error('Failed to load conversations:', error);
@@ -117,6 +127,9 @@ export default function ChatPage() {
         loadMessages();
     }, [currentConversationId]);
 
+    // Archived conversations are read-only until deleted
+    const archivedConversation = pendingDeletion.find((conv) => conv.id === currentConversationId);
+
     // Scroll to bottom when messages change
     React.useEffect(() => {
         scrollToBottom();
@@ -124,7 +137,7 @@ export default function ChatPage() {
 
     // Send message
     const sendMessage = async () => {
-        if (!input.trim() || isSending) return;
+        if (!input.trim() || isSending || archivedConversation) return;
 
         const userMessage: Message = {
             id: `temp-${Date.now()}`,
@@ -223,6 +236,7 @@ export default function ChatPage() {
             if (convRes.ok) {
                 const data = await convRes.json();
                 setConversations(data.conversations ?? []);
+                setPendingDeletion(data.pendingDeletion ?? []);
             }
         } catch (error) {
             if ((error as Error).name === 'AbortError') return;
@@ -292,6 +306,33 @@ export default function ChatPage() {
                         ))
                     )}
                 </div>
+
+                {/* Conversations past the plan's history window */}
+                {pendingDeletion.length > 0 && (
+                    <div className="p-2 border-t border-white/10 max-h-64 overflow-y-auto">
+                        <p className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-yellow-400">
+                            <Archive className="w-3.5 h-3.5" />
+                            Arquivadas · serão excluídas
+                        </p>
+                        {pendingDeletion.map((conv) => (
+                            <button
+                                key={conv.id}
+                                onClick={() => setCurrentConversationId(conv.id)}
+                                className={cn(
+                                    'w-full flex flex-col gap-0.5 p-3 rounded-lg text-left transition-colors',
+                                    currentConversationId === conv.id
+                                        ? 'bg-yellow-500/10 text-yellow-400'
+                                        : 'hover:bg-white/5 text-gray-500'
+                                )}
+                            >
+                                <span className="text-sm truncate">{conv.title}</span>
+                                <span className="text-xs text-gray-500">
+                                    Exclusão em {formatDate(conv.deleteAfter)}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+                )}
             </GlowCard>
 
             {/* Chat area */}
@@ -371,6 +412,16 @@ export default function ChatPage() {
 
                 {/* Input area */}
                 <div className="p-4 border-t border-white/10">
+                    {archivedConversation && (
+                        <p className="text-sm text-yellow-400 mb-3 text-center">
+                            Esta conversa saiu do histórico do seu plano e será excluída em{' '}
+                            {formatDate(archivedConversation.deleteAfter)}.{' '}
+                            <Link href="/pricing" className="underline hover:text-yellow-300">
+                                Faça upgrade
+                            </Link>{' '}
+                            para mantê-la.
+                        </p>
+                    )}
                     <div className="flex gap-2">
                         <textarea
                             ref={inputRef}
@@ -378,6 +429,7 @@ export default function ChatPage() {
                             onChange={(e) => setInput(e.target.value)}
                             onKeyDown={handleKeyDown}
                             placeholder="Digite sua mensagem..."
+                            disabled={Boolean(archivedConversation)}
                             rows={1}
                             className="flex-1 min-h-[44px] max-h-32 px-4 py-3 rounded-xl bg-white/5 border border-white/10
                        text-white placeholder:text-gray-500 resize-none
@@ -385,7 +437,7 @@ export default function ChatPage() {
                         />
                         <NeonButton
                             onClick={sendMessage}
-                            disabled={!input.trim() || isSending}
+                            disabled={!input.trim() || isSending || Boolean(archivedConversation)}
                             size="icon"
                             className="h-[44px] w-[44px]"
                         >
@@ -16,10 +16,11 @@ import {
     Zap,
 } from 'lucide-react';
 import { getCurrentUser } from '@/lib/auth';
+import { getEntitlements, type QuotaCheck, type QuotaKey } from '@/lib/entitlements';
 import { prisma } from '@/lib/prisma';
 import { GlowCard, CardHeader, CardTitle, CardContent } from '@/components/ui/GlowCard';
 import { NeonButton } from '@/components/ui/NeonButton';
-import { formatRelativeTime } from '@/lib/utils';
+import { cn, formatRelativeTime } from '@/lib/utils';
 
 // =============================================================================
 // METADATA
@@ -30,6 +31,16 @@ export const metadata = {
     description: 'Gerencie seus projetos e conversas com IA',
 };
 
+// =============================================================================
+// DATA
+// =============================================================================
+
+const quotaLabels: Record<QuotaKey, string> = {
+    projects: 'Projetos',
+    sitesPerMonth: 'Sites gerados este mês',
+    chatMessagesPerDay: 'Mensagens de chat hoje',
+};
+
 // =============================================================================
 // DATA FETCHING
 // =============================================================================
@@ -131,6 +142,36 @@ function StatCard({
     );
 }
 
+function QuotaBar({ check }: { check: QuotaCheck }) {
+    const percent = check.limit ? Math.min(100, (check.used / check.limit) * 100) : 0;
+
+    return (
+        <div>
+            <div className="flex items-center justify-between text-sm mb-2">
+                <span className="text-gray-400">{quotaLabels[check.quota]}</span>
+                <span className={cn('font-medium', check.allowed ? 'text-white' : 'text-red-400')}>
+                    {check.limit === null ? `${check.used} · Ilimitado` : `${check.used} / ${check.limit}`}
+                </span>
+            </div>
+            <div className="h-2 rounded-full bg-white/5 overflow-hidden">
+                <div
+                    className={cn(
+                        'h-full rounded-full transition-all',
+                        check.limit === null
+                            ? 'bg-neon-500/30'
+                            : percent >= 100
+                                ? 'bg-red-500'
+                                : percent >= 80
+                                    ? 'bg-yellow-500'
+                                    : 'bg-neon-500'
+                    )}
+                    style={{ width: check.limit === null ? '100%' : `${percent}%` }}
+                />
+            </div>
+        </div>
+    );
+}
+
 function QuickActionCard({
     icon: Icon,
     title,
@@ -178,7 +219,11 @@ export default async function DashboardPage() {
         return null;
     }
 
-    const data = await getDashboardData(user.id);
+    const [data, entitlements] = await Promise.all([
+        getDashboardData(user.id),
+        getEntitlements(user),
+    ]);
+    const upgrade = entitlements.quotas.find((check) => check.upgrade)?.upgrade;
 
     return (
         <div className="space-y-8">
@@ -231,6 +276,30 @@ export default async function DashboardPage() {
                 />
             </div>
 
+            {/* Plan usage */}
+            <GlowCard variant="default" padding="default">
+                <CardHeader>
+                    <div className="flex items-center justify-between">
+                        <CardTitle>Uso do Plano {entitlements.plan.name}</CardTitle>
+                        {upgrade && (
+                            <Link
+                                href={upgrade.url}
+                                className="text-sm text-neon-400 hover:text-neon-300 transition-colors"
+                            >
+                                Fazer upgrade
+                            </Link>
+                        )}
+                    </div>
+                </CardHeader>
+                <CardContent className="mt-4">
+                    <div className="grid md:grid-cols-3 gap-6">
+                        {entitlements.quotas.map((check) => (
+                            <QuotaBar key={check.quota} check={check} />
+                        ))}
+                    </div>
+                </CardContent>
+            </GlowCard>
+
             {/* Quick actions */}
             <div>
                 <h2 className="text-xl font-semibold text-white mb-4">Ações Rápidas</h2>
@@ -22,11 +22,15 @@ import {
     RefreshCw,
     Settings,
     Loader2,
+    History,
+    Wand2,
     X,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { GlowCard } from '@/components/ui/GlowCard';
 import { NeonButton } from '@/components/ui/NeonButton';
+import { IterationPanel } from '@/components/editor/IterationPanel';
+import { VersionHistoryPanel } from '@/components/editor/VersionHistoryPanel';
 import Editor from '@monaco-editor/react';
 
 // =============================================================================
@@ -41,17 +45,57 @@ interface FileNode {
     content?: string;
 }
 
+/** Unsaved editor content kept in localStorage until it is saved */
+interface EditorDraft {
+    path: string;
+    content: string;
+    version: number;
+    updatedAt: string;
+}
+
 interface Project {
     id: string;
     name: string;
     files: Record<string, string>;
     previewUrl?: string;
+    version: number;
 }
 
 // =============================================================================
 // HELPERS
 // =============================================================================
 
+const DRAFT_SAVE_DELAY = 500;
+
+function draftKey(projectId: string): string {
+    return `editor-draft:${projectId}`;
+}
+
+function readDraft(projectId: string): EditorDraft | null {
+    try {
+        const raw = localStorage.getItem(draftKey(projectId));
+        return raw ? (JSON.parse(raw) as EditorDraft) : null;
+    } catch {
+        return null;
+    }
+}
+
+function writeDraft(projectId: string, draft: EditorDraft) {
+    try {
+        localStorage.setItem(draftKey(projectId), JSON.stringify(draft));
+    } catch {
+        // Storage full or disabled: recovery is best effort
+    }
+}
+
+function clearDraft(projectId: string) {
+    try {
+        localStorage.removeItem(draftKey(projectId));
+    } catch {
+        // Ignore
+    }
+}
+
 function getFileIcon(filename: string) {
     const ext = filename.split('.').pop()?.toLowerCase();
     switch (ext) {
@@ -219,6 +263,8 @@ export default function EditorPage() {
     const [fileContent, setFileContent] = React.useState('');
     const [isDirty, setIsDirty] = React.useState(false);
     const [showPreview, setShowPreview] = React.useState(true);
+    const [showIterations, setShowIterations] = React.useState(false);
+    const [showHistory, setShowHistory] = React.useState(false);
 
     // File tree
     const fileTree = React.useMemo(() => {
@@ -230,19 +276,20 @@ export default function EditorPage() {
     React.useEffect(() => {
         async function loadProject() {
             try {
-                const res = await fetch(`/api/generate?projectId=${projectId}`);
+                const res = await fetch(`/api/projects/${projectId}`);
                 if (!res.ok) throw new Error('Project not found');
 
-                const data = await res.json();
+                const { data: loaded } = await res.json();
                 setProject({
-                    id: data.project.id,
-                    name: data.project.name,
-                    files: data.project.files ?? {},
-                    previewUrl: data.project.previewUrl,
+                    id: loaded.id,
+                    name: loaded.name,
+                    files: loaded.files ?? {},
+                    previewUrl: loaded.previewUrl ?? undefined,
+                    version: loaded.version,
                 });
 
                 // Select first file
-                const files = data.project.files;
+                const files = loaded.files;
                 if (files) {
                     const firstFile = Object.keys(files)[0];
                     if (firstFile) {
@@ -255,6 +302,36 @@ export default function EditorPage() {
                         setFileContent(files[firstFile]);
                     }
                 }
+
+                // Offer to recover edits that were never saved
+                const draft = readDraft(projectId);
+                if (draft && files?.[draft.path] !== undefined && files[draft.path] !== draft.content) {
+                    toast(`Você tem alterações não salvas em ${draft.path}`, {
+                        description: draft.version !== loaded.version
+                            ? 'O projeto mudou desde então; revise antes de salvar.'
+                            : undefined,
+                        duration: Infinity,
+                        action: {
+                            label: 'Recuperar',
+                            onClick: () => {
+                                setSelectedFile({
+                                    name: draft.path.split('/').pop() ?? draft.path,
+                                    path: draft.path,
+                                    type: 'file',
+                                    content: files[draft.path],
+                                });
+                                setFileContent(draft.content);
+                                setIsDirty(true);
+                            },
+                        },
+                        cancel: {
+                            label: 'Descartar',
+                            onClick: () => clearDraft(projectId),
+                        },
+                    });
+                } else if (draft) {
+                    clearDraft(projectId);
+                }
             } catch {
                 toast.error('Projeto não encontrado');
                 router.push('/dashboard/projects');
@@ -273,6 +350,7 @@ export default function EditorPage() {
                 if (!confirm('Você tem alterações não salvas. Deseja continuar?')) {
                     return;
                 }
+                clearDraft(projectId);
             }
             setSelectedFile(node);
             setFileContent(node.content ?? '');
@@ -288,22 +366,97 @@ export default function EditorPage() {
         }
     };
 
-    // Save file
+    // Keep unsaved edits in local storage so a reload or crash can recover them
+    React.useEffect(() => {
+        if (!isDirty || !selectedFile || !project) return;
+
+        const timer = setTimeout(() => {
+            writeDraft(project.id, {
+                path: selectedFile.path,
+                content: fileContent,
+                version: project.version,
+                updatedAt: new Date().toISOString(),
+            });
+        }, DRAFT_SAVE_DELAY);
+
+        return () => clearTimeout(timer);
+    }, [isDirty, fileContent, selectedFile, project]);
+
+    // Warn before leaving with unsaved edits
+    React.useEffect(() => {
+        if (!isDirty) return;
+
+        const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+            e.preventDefault();
+        };
+
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [isDirty]);
+
+    // Save file (each save is a new project version)
     const handleSave = async () => {
         if (!selectedFile || !project) return;
 
         try {
-            // Update project files
+            const exists = project.files[selectedFile.path] !== undefined;
+            const res = await fetch(`/api/projects/${project.id}/files`, {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'If-Match': `"${project.version}"`,
+                },
+                body: JSON.stringify({
+                    operations: [{
+                        action: exists ? 'update' : 'create',
+                        path: selectedFile.path,
+                        content: fileContent,
+                    }],
+                }),
+            });
+            const body = await res.json();
+
+            if (res.status === 412) {
+                toast.error('O projeto foi alterado em outra sessão. Recarregue a página; suas alterações ficam guardadas.');
+                return;
+            }
+            if (res.status === 413) {
+                toast.error('Arquivo ou projeto excede o tamanho máximo permitido');
+                return;
+            }
+            if (!res.ok) throw new Error(body.error ?? 'Save failed');
+
             const updatedFiles = { ...project.files, [selectedFile.path]: fileContent };
-            setProject({ ...project, files: updatedFiles });
+            setProject({ ...project, files: updatedFiles, version: body.data.version });
             setSelectedFile({ ...selectedFile, content: fileContent });
             setIsDirty(false);
+            clearDraft(project.id);
             toast.success('Arquivo salvo!');
         } catch {
             toast.error('Erro ao salvar arquivo');
         }
     };
 
+    // Load the files of an applied AI iteration or restored version
+    const handleFilesReplaced = (files: Record<string, string>, version: number) => {
+        if (!project) return;
+
+        setProject({ ...project, files, version });
+        setIsDirty(false);
+        clearDraft(project.id);
+
+        if (selectedFile) {
+            const content = files[selectedFile.path];
+            if (content === undefined) {
+                setSelectedFile(null);
+                setFileContent('');
+            } else {
+                setSelectedFile({ ...selectedFile, content });
+                setFileContent(content);
+            }
+        }
+    };
+
     // Keyboard shortcuts
     React.useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -315,7 +468,7 @@ export default function EditorPage() {
 
         document.addEventListener('keydown', handleKeyDown);
         return () => document.removeEventListener('keydown', handleKeyDown);
-    }, [selectedFile, fileContent]);
+    }, [project, selectedFile, fileContent]);
 
     if (isLoading) {
         return (
@@ -338,6 +491,7 @@ export default function EditorPage() {
             <div className="flex items-center justify-between px-4 py-2 glass border-b border-white/10 mb-4 rounded-xl">
                 <div className="flex items-center gap-4">
                     <h1 className="text-lg font-semibold text-white">{project.name}</h1>
+                    <span className="text-xs text-gray-500">v{project.version}</span>
                     {selectedFile && (
                         <span className="text-sm text-gray-400">
                             {selectedFile.path}
@@ -347,6 +501,22 @@ export default function EditorPage() {
                 </div>
 
                 <div className="flex items-center gap-2">
+                    <NeonButton
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setShowIterations(!showIterations)}
+                    >
+                        <Wand2 className="w-4 h-4 mr-2" />
+                        Modificar com IA
+                    </NeonButton>
+                    <NeonButton
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setShowHistory(!showHistory)}
+                    >
+                        <History className="w-4 h-4 mr-2" />
+                        Histórico
+                    </NeonButton>
                     <NeonButton
                         variant="ghost"
                         size="sm"
@@ -371,6 +541,29 @@ export default function EditorPage() {
                 </div>
             </div>
 
+            {/* AI iterations */}
+            {showIterations && (
+                <IterationPanel
+                    projectId={project.id}
+                    version={project.version}
+                    hasUnsavedChanges={isDirty}
+                    onApplied={handleFilesReplaced}
+                    onClose={() => setShowIterations(false)}
+                />
+            )}
+
+            {/* Version history */}
+            {showHistory && (
+                <VersionHistoryPanel
+                    projectId={project.id}
+                    version={project.version}
+                    hasUnsavedChanges={isDirty}
+                    onRestored={handleFilesReplaced}
+                    onBranched={(branchId) => router.push(`/editor/${branchId}`)}
+                    onClose={() => setShowHistory(false)}
+                />
+            )}
+
             {/* Main content */}
             <div className="flex-1 flex gap-4 min-h-0">
                 {/* File tree */}
@@ -1,14 +1,16 @@
 /**
  * Pricing Page
- * Subscription plans with pricing cards
+ * Subscription plans with pricing cards and one-off credit packs
  */
 
 import Link from 'next/link';
-import { Check, X, Sparkles, Zap, Crown, Building2 } from 'lucide-react';
+import { Check, X, Sparkles, Zap, Crown, Building2, Coins } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { GlowCard } from '@/components/ui/GlowCard';
 import { NeonButton } from '@/components/ui/NeonButton';
-import { PLANS } from '@/lib/constants';
+import { CheckoutButton } from '@/components/billing/CheckoutButton';
+import { PixPaymentButton } from '@/components/billing/PixPaymentButton';
+import { CHAT_MODEL_PRICING, CREDIT_PACKS, DEFAULT_CHAT_MODEL, PLANS } from '@/lib/constants';
 import { formatCurrency } from '@/lib/utils';
 
 // =============================================================================
@@ -31,6 +33,9 @@ const planIcons: Record<string, React.ElementType> = {
     ENTERPRISE: Building2,
 };
 
+/** Per-token chat prices shown in the FAQ (credits per 1,000 tokens) */
+const chatPricing = CHAT_MODEL_PRICING[DEFAULT_CHAT_MODEL];
+
 // =============================================================================
 // PAGE
 // =============================================================================
@@ -144,20 +149,88 @@ export default function PricingPage() {
                                 </ul>
 
                                 {/* CTA button */}
-                                <Link href="/api/auth/login" className="mt-auto">
-                                    <NeonButton
-                                        variant={plan.isPopular ? 'default' : 'ghost'}
-                                        className="w-full"
-                                    >
-                                        {plan.priceMonthly === 0 ? 'Começar Grátis' : 'Assinar Agora'}
-                                    </NeonButton>
-                                </Link>
+                                {plan.priceMonthly === 0 ? (
+                                    <Link href="/api/auth/login" className="mt-auto">
+                                        <NeonButton variant="ghost" className="w-full">
+                                            Começar Grátis
+                                        </NeonButton>
+                                    </Link>
+                                ) : (
+                                    <div className="mt-auto space-y-2">
+                                        <CheckoutButton
+                                            planId={plan.id}
+                                            variant={plan.isPopular ? 'default' : 'ghost'}
+                                            className="w-full"
+                                        >
+                                            Assinar Agora
+                                        </CheckoutButton>
+                                        <PixPaymentButton
+                                            productType="plan"
+                                            productId={plan.id}
+                                            variant="ghost"
+                                            size="sm"
+                                            className="w-full"
+                                        >
+                                            Pagar 1 mês com Pix
+                                        </PixPaymentButton>
+                                    </div>
+                                )}
                             </div>
                         </GlowCard>
                     );
                 })}
             </div>
 
+            {/* Credit packs */}
+            <div className="max-w-5xl mx-auto mt-20">
+                <div className="text-center mb-8">
+                    <h2 className="text-2xl font-bold text-white mb-2">
+                        Pacotes de Créditos
+                    </h2>
+                    <p className="text-gray-400">
+                        Precisa de mais? Compre créditos avulsos, sem assinatura. Eles não expiram.
+                    </p>
+                </div>
+
+                <div className="grid md:grid-cols-3 gap-6">
+                    {CREDIT_PACKS.map((pack) => (
+                        <GlowCard
+                            key={pack.id}
+                            variant={pack.isPopular ? 'neon' : 'default'}
+                            padding="default"
+                            hover="lift"
+                            className="flex flex-col items-center text-center"
+                        >
+                            <div className="w-10 h-10 rounded-xl bg-neon-500/20 flex items-center justify-center mb-3">
+                                <Coins className="w-5 h-5 text-neon-400" />
+                            </div>
+                            <p className="text-3xl font-bold text-neon-400">{pack.credits}</p>
+                            <p className="text-sm text-gray-400 mb-4">créditos</p>
+                            <p className="text-xl font-semibold text-white mb-6">
+                                {formatCurrency(pack.price, pack.currency)}
+                            </p>
+                            <div className="w-full mt-auto space-y-2">
+                                <CheckoutButton
+                                    packId={pack.id}
+                                    variant={pack.isPopular ? 'default' : 'ghost'}
+                                    className="w-full"
+                                >
+                                    Comprar com Cartão
+                                </CheckoutButton>
+                                <PixPaymentButton
+                                    productType="pack"
+                                    productId={pack.id}
+                                    variant="ghost"
+                                    className="w-full"
+                                >
+                                    Pagar com Pix
+                                </PixPaymentButton>
+                            </div>
+                        </GlowCard>
+                    ))}
+                </div>
+            </div>
+
             {/* FAQ section */}
             <div className="max-w-3xl mx-auto mt-20">
                 <h2 className="text-2xl font-bold text-white text-center mb-8">
@@ -170,9 +243,11 @@ export default function PricingPage() {
                             Como funcionam os créditos?
                         </h3>
                         <p className="text-gray-400 text-sm">
-                            Créditos são usados para interações com a IA. Cada mensagem no chat
-                            custa cerca de 0.30 créditos, e a criação de sites varia de 2 a 10
-                            créditos dependendo da complexidade.
+                            Créditos são usados para interações com a IA. No chat, cada resposta é
+                            cobrada pelos tokens usados: no modelo padrão, {chatPricing.prompt} crédito
+                            por 1.000 tokens enviados (sua mensagem e o histórico da conversa) e{' '}
+                            {chatPricing.completion} crédito por 1.000 tokens gerados na resposta.
+                            A criação de sites varia de 2 a 10 créditos dependendo da complexidade.
                         </p>
                     </GlowCard>
 
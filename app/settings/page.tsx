@@ -23,6 +23,9 @@ import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { GlowCard, CardHeader, CardTitle, CardContent } from '@/components/ui/GlowCard';
 import { NeonButton } from '@/components/ui/NeonButton';
+import { ApiKeysTab } from '@/components/settings/ApiKeysTab';
+import { InvoicesPanel } from '@/components/settings/InvoicesPanel';
+import { useBilling } from '@/hooks/useBilling';
 import { useUser } from '@/hooks/useUser';
 import { useUserStore } from '@/stores/userStore';
 
@@ -30,7 +33,7 @@ import { useUserStore } from '@/stores/userStore';
 // TYPES
 // =============================================================================
 
-type SettingsTab = 'profile' | 'appearance' | 'notifications' | 'security' | 'billing';
+type SettingsTab = 'profile' | 'appearance' | 'notifications' | 'security' | 'billing' | 'apiKeys';
 
 interface TabItem {
     id: SettingsTab;
@@ -48,6 +51,7 @@ const tabs: TabItem[] = [
     { id: 'notifications', name: 'Notificações', icon: Bell },
     { id: 'security', name: 'Segurança', icon: Shield },
     { id: 'billing', name: 'Cobrança', icon: CreditCard },
+    { id: 'apiKeys', name: 'Chaves de API', icon: Key },
 ];
 
 // =============================================================================
@@ -59,6 +63,7 @@ export default function SettingsPage() {
     const { preferences, updatePreferences } = useUserStore();
     const [activeTab, setActiveTab] = React.useState<SettingsTab>('profile');
     const [isSaving, setIsSaving] = React.useState(false);
+    const { openPortal, isRedirecting } = useBilling();
 
     // Save preferences
     const handleSave = async () => {
@@ -74,6 +79,15 @@ export default function SettingsPage() {
         }
     };
 
+    // Open the Stripe customer portal
+    const handleOpenPortal = async () => {
+        try {
+            await openPortal();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Erro ao abrir portal de cobrança');
+        }
+    };
+
     return (
         <div className="max-w-5xl mx-auto">
             <h1 className="text-3xl font-bold text-white mb-8">Configurações</h1>
@@ -365,6 +379,7 @@ export default function SettingsPage() {
                             initial={{ opacity: 0, y: 10 }}
                             animate={{ opacity: 1, y: 0 }}
                             transition={{ duration: 0.2 }}
+                            className="space-y-6"
                         >
                             <GlowCard variant="default" padding="default">
                                 <CardHeader>
@@ -380,9 +395,19 @@ export default function SettingsPage() {
                                                     {user?.isAdmin ? 'Admin (Ilimitado)' : 'Free'}
                                                 </p>
                                             </div>
-                                            <NeonButton size="sm" asChild>
-                                                <a href="/pricing">Fazer Upgrade</a>
-                                            </NeonButton>
+                                            <div className="flex items-center gap-2">
+                                                <NeonButton
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={handleOpenPortal}
+                                                    loading={isRedirecting}
+                                                >
+                                                    Gerenciar Assinatura
+                                                </NeonButton>
+                                                <NeonButton size="sm" asChild>
+                                                    <a href="/pricing">Fazer Upgrade</a>
+                                                </NeonButton>
+                                            </div>
                                         </div>
                                     </div>
 
@@ -400,15 +425,31 @@ export default function SettingsPage() {
                                     </div>
                                 </CardContent>
                             </GlowCard>
+
+                            <InvoicesPanel />
                         </motion.div>
                     )}
 
-                    {/* Save button */}
-                    <div className="flex justify-end">
-                        <NeonButton onClick={handleSave} loading={isSaving}>
-                            Salvar Alterações
-                        </NeonButton>
-                    </div>
+                    {/* API Keys Tab */}
+                    {activeTab === 'apiKeys' && (
+                        <motion.div
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ duration: 0.2 }}
+                            className="space-y-6"
+                        >
+                            <ApiKeysTab isAdmin={user?.isAdmin ?? false} />
+                        </motion.div>
+                    )}
+
+                    {/* Save button (API keys and billing data are saved by their own forms) */}
+                    {activeTab !== 'apiKeys' && activeTab !== 'billing' && (
+                        <div className="flex justify-end">
+                            <NeonButton onClick={handleSave} loading={isSaving}>
+                                Salvar Alterações
+                            </NeonButton>
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
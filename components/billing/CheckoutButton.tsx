@@ -0,0 +1,46 @@
+/**
+ * Checkout Button
+ * Pricing CTA that starts a Stripe Checkout for a plan or a credit pack
+ */
+
+'use client';
+
+import * as React from 'react';
+import { toast } from 'sonner';
+import { NeonButton, type ButtonProps } from '@/components/ui/NeonButton';
+import { useBilling } from '@/hooks/useBilling';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type CheckoutButtonProps = Omit<ButtonProps, 'onClick' | 'loading'> &
+    ({ planId: string; packId?: never } | { packId: string; planId?: never });
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function CheckoutButton({ planId, packId, children, ...props }: CheckoutButtonProps) {
+    const { startCheckout, buyCreditPack, isRedirecting } = useBilling();
+
+    const handleClick = async () => {
+        try {
+            if (packId) {
+                await buyCreditPack(packId);
+            } else if (planId) {
+                await startCheckout(planId);
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Erro ao iniciar pagamento');
+        }
+    };
+
+    return (
+        <NeonButton {...props} onClick={handleClick} loading={isRedirecting}>
+            {children}
+        </NeonButton>
+    );
+}
+
+export default CheckoutButton;
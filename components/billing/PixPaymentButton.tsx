@@ -0,0 +1,174 @@
+/**
+ * Pix Payment Button
+ * Pays a credit pack or a plan month with Pix: shows the QR code and the
+ * copia-e-cola code, and waits for the payment confirmation
+ */
+
+'use client';
+
+import * as React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Check, Copy, Clock, QrCode, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { copyToClipboard, formatCurrency } from '@/lib/utils';
+import { GlowCard, CardHeader, CardTitle, CardContent } from '@/components/ui/GlowCard';
+import { NeonButton, type ButtonProps } from '@/components/ui/NeonButton';
+import { usePixPayment, type PaymentItem } from '@/hooks/usePixPayment';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface PixPaymentButtonProps extends Omit<ButtonProps, 'onClick' | 'loading'> {
+    productType: PaymentItem['productType'];
+    productId: string;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function useCountdown(expiresAt: string | null): string | null {
+    const [now, setNow] = React.useState(() => Date.now());
+
+    React.useEffect(() => {
+        if (!expiresAt) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [expiresAt]);
+
+    if (!expiresAt) return null;
+
+    const seconds = Math.max(0, Math.floor((new Date(expiresAt).getTime() - now) / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// =============================================================================
+// PIX DIALOG
+// =============================================================================
+
+function PixDialog({ payment, onClose }: { payment: PaymentItem; onClose: () => void }) {
+    const [copied, setCopied] = React.useState(false);
+    const countdown = useCountdown(payment.status === 'PENDING' ? payment.expiresAt : null);
+
+    const handleCopy = async () => {
+        if (payment.pixCode && (await copyToClipboard(payment.pixCode))) {
+            setCopied(true);
+            toast.success('Código Pix copiado!');
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="pix-payment-title"
+        >
+            <motion.div
+                initial={{ scale: 0.95, y: 10 }}
+                animate={{ scale: 1, y: 0 }}
+                exit={{ scale: 0.95, y: 10 }}
+                className="w-full max-w-md"
+            >
+                <GlowCard variant="neon" padding="default">
+                    <CardHeader>
+                        <CardTitle id="pix-payment-title">
+                            Pagar {formatCurrency(payment.amount, payment.currency)} com Pix
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="mt-4 space-y-4">
+                        {payment.status === 'PAID' ? (
+                            <div className="flex flex-col items-center gap-3 py-6 text-center">
+                                <Check className="w-12 h-12 text-neon-400" />
+                                <p className="text-white font-semibold">Pagamento confirmado!</p>
+                                <p className="text-sm text-gray-400">Seus créditos já estão disponíveis.</p>
+                            </div>
+                        ) : payment.status === 'PENDING' ? (
+                            <>
+                                {payment.pixQrCodeUrl ? (
+                                    <img
+                                        src={payment.pixQrCodeUrl}
+                                        alt="QR code Pix"
+                                        className="mx-auto w-48 h-48 rounded-lg bg-white p-2"
+                                    />
+                                ) : (
+                                    <div className="mx-auto w-48 h-48 rounded-lg bg-white/5 flex items-center justify-center">
+                                        <QrCode className="w-16 h-16 text-gray-600" />
+                                    </div>
+                                )}
+
+                                <p className="text-sm text-gray-400 text-center">
+                                    Escaneie o QR code ou use o Pix copia e cola no app do seu banco.
+                                </p>
+
+                                <div className="flex items-center gap-2">
+                                    <code className="flex-1 px-3 py-2.5 rounded-lg bg-black/50 border border-white/10 text-neon-400 text-xs font-mono break-all line-clamp-3">
+                                        {payment.pixCode}
+                                    </code>
+                                    <NeonButton variant="ghost" size="icon" onClick={handleCopy} aria-label="Copiar código Pix">
+                                        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                                    </NeonButton>
+                                </div>
+
+                                {countdown && (
+                                    <p className="flex items-center justify-center gap-2 text-sm text-gray-500">
+                                        <Clock className="w-4 h-4" />
+                                        Aguardando pagamento · expira em {countdown}
+                                    </p>
+                                )}
+                            </>
+                        ) : (
+                            <div className="flex flex-col items-center gap-3 py-6 text-center">
+                                <XCircle className="w-12 h-12 text-red-400" />
+                                <p className="text-white font-semibold">
+                                    {payment.status === 'EXPIRED' ? 'O código Pix expirou' : 'Pagamento não concluído'}
+                                </p>
+                                <p className="text-sm text-gray-400">Gere um novo código para tentar novamente.</p>
+                            </div>
+                        )}
+
+                        <div className="flex justify-end">
+                            <NeonButton variant={payment.status === 'PAID' ? 'default' : 'ghost'} onClick={onClose}>
+                                {payment.status === 'PAID' ? 'Concluir' : 'Fechar'}
+                            </NeonButton>
+                        </div>
+                    </CardContent>
+                </GlowCard>
+            </motion.div>
+        </motion.div>
+    );
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function PixPaymentButton({ productType, productId, children, ...props }: PixPaymentButtonProps) {
+    const { payment, createPixPayment, reset, isCreating } = usePixPayment();
+
+    const handleClick = async () => {
+        try {
+            await createPixPayment(productType, productId);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Erro ao gerar Pix');
+        }
+    };
+
+    return (
+        <>
+            <NeonButton {...props} onClick={handleClick} loading={isCreating}>
+                {children}
+            </NeonButton>
+
+            <AnimatePresence>
+                {payment && <PixDialog payment={payment} onClose={reset} />}
+            </AnimatePresence>
+        </>
+    );
+}
+
+export default PixPaymentButton;
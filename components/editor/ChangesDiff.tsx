@@ -0,0 +1,126 @@
+/**
+ * Changes Diff
+ * List of changed files next to a side-by-side diff of the selected one
+ * (AI patches, version comparisons)
+ */
+
+'use client';
+
+import * as React from 'react';
+import { FileMinus, FilePen, FilePlus, type LucideIcon } from 'lucide-react';
+import { DiffEditor } from '@monaco-editor/react';
+import { cn } from '@/lib/utils';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface FileDiff {
+    action: 'create' | 'update' | 'delete';
+    path: string;
+    previous: string | null;
+    content: string | null;
+}
+
+interface ChangesDiffProps {
+    changes: FileDiff[];
+    className?: string;
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const actionStyles: Record<FileDiff['action'], { icon: LucideIcon; label: string; className: string }> = {
+    create: { icon: FilePlus, label: 'Novo', className: 'text-green-400' },
+    update: { icon: FilePen, label: 'Alterado', className: 'text-yellow-400' },
+    delete: { icon: FileMinus, label: 'Removido', className: 'text-red-400' },
+};
+
+function getLanguage(path: string): string {
+    const ext = path.split('.').pop()?.toLowerCase() ?? '';
+    const langMap: Record<string, string> = {
+        js: 'javascript',
+        jsx: 'javascript',
+        ts: 'typescript',
+        tsx: 'typescript',
+        json: 'json',
+        css: 'css',
+        html: 'html',
+        md: 'markdown',
+    };
+    return langMap[ext] ?? 'plaintext';
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function ChangesDiff({ changes, className }: ChangesDiffProps) {
+    const [selectedPath, setSelectedPath] = React.useState<string | null>(changes[0]?.path ?? null);
+
+    // Select the first file whenever another set of changes is shown
+    React.useEffect(() => {
+        setSelectedPath(changes[0]?.path ?? null);
+    }, [changes]);
+
+    const selectedChange = changes.find((change) => change.path === selectedPath) ?? null;
+
+    if (changes.length === 0) {
+        return (
+            <div className={cn('flex items-center justify-center text-sm text-gray-500', className)}>
+                Nenhuma diferença entre as versões
+            </div>
+        );
+    }
+
+    return (
+        <div className={cn('flex gap-3', className)}>
+            {/* Changed files */}
+            <div className="w-56 overflow-y-auto space-y-0.5">
+                {changes.map((change) => {
+                    const style = actionStyles[change.action];
+                    return (
+                        <button
+                            key={change.path}
+                            onClick={() => setSelectedPath(change.path)}
+                            className={cn(
+                                'w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left text-sm transition-colors',
+                                selectedPath === change.path
+                                    ? 'bg-neon-500/10 text-neon-400'
+                                    : 'text-gray-400 hover:bg-white/5 hover:text-white'
+                            )}
+                            title={style.label}
+                        >
+                            <style.icon className={cn('w-4 h-4 flex-shrink-0', style.className)} />
+                            <span className="truncate">{change.path}</span>
+                        </button>
+                    );
+                })}
+            </div>
+
+            {/* Diff of the selected file */}
+            <div className="flex-1 rounded-lg overflow-hidden border border-white/10">
+                {selectedChange && (
+                    <DiffEditor
+                        height="100%"
+                        language={getLanguage(selectedChange.path)}
+                        original={selectedChange.previous ?? ''}
+                        modified={selectedChange.content ?? ''}
+                        theme="vs-dark"
+                        options={{
+                            readOnly: true,
+                            fontSize: 13,
+                            renderSideBySide: true,
+                            minimap: { enabled: false },
+                            scrollBeyondLastLine: false,
+                            automaticLayout: true,
+                        }}
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default ChangesDiff;
@@ -0,0 +1,228 @@
+/**
+ * Iteration Panel
+ * "Modify my project" in the editor: sends an instruction to the AI, shows the
+ * proposed patch as a file-by-file diff and applies or discards it
+ */
+
+'use client';
+
+import * as React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Check, Loader2, Wand2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { GlowCard } from '@/components/ui/GlowCard';
+import { NeonButton } from '@/components/ui/NeonButton';
+import { ChangesDiff, type FileDiff } from './ChangesDiff';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface Iteration {
+    id: string;
+    instruction: string;
+    summary: string | null;
+    changes: FileDiff[];
+    status: 'PENDING' | 'APPLIED' | 'DISCARDED';
+    baseVersion: number;
+    creditsCost: number;
+}
+
+interface IterationPanelProps {
+    projectId: string;
+    /** Current project version; patches made against another one are stale */
+    version: number;
+    /** The editor has unsaved changes that applying would overwrite */
+    hasUnsavedChanges?: boolean;
+    onApplied: (files: Record<string, string>, version: number) => void;
+    onClose: () => void;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function IterationPanel({
+    projectId,
+    version,
+    hasUnsavedChanges = false,
+    onApplied,
+    onClose,
+}: IterationPanelProps) {
+    const [instruction, setInstruction] = React.useState('');
+    const [iteration, setIteration] = React.useState<Iteration | null>(null);
+    const [isProposing, setIsProposing] = React.useState(false);
+    const [isReviewing, setIsReviewing] = React.useState(false);
+
+    const isStale = iteration !== null && iteration.baseVersion !== version;
+
+    // Resume the latest patch still waiting for review
+    React.useEffect(() => {
+        fetch(`/api/projects/${projectId}/iterate`)
+            .then((res) => (res.ok ? res.json() : null))
+            .then((body) => {
+                const pending = (body?.data as Iteration[] | undefined)?.find((item) => item.status === 'PENDING');
+                if (pending) setIteration(pending);
+            })
+            .catch(() => undefined);
+    }, [projectId]);
+
+    const handlePropose = async () => {
+        if (!instruction.trim()) return;
+
+        setIsProposing(true);
+        try {
+            const res = await fetch(`/api/projects/${projectId}/iterate`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ instruction: instruction.trim() }),
+            });
+            const body = await res.json();
+
+            if (!res.ok) {
+                throw new Error(
+                    res.status === 402
+                        ? 'Créditos insuficientes'
+                        : res.status === 422
+                            ? 'A IA não propôs alterações aplicáveis'
+                            : body.error ?? 'Falha ao gerar alterações'
+                );
+            }
+
+            setIteration(body.data as Iteration);
+            setInstruction('');
+        } catch (error) {
+            toast.error((error as Error).message);
+        } finally {
+            setIsProposing(false);
+        }
+    };
+
+    const handleReview = async (action: 'apply' | 'discard') => {
+        if (!iteration) return;
+        if (action === 'apply' && hasUnsavedChanges
+            && !confirm('Você tem alterações não salvas que serão substituídas. Deseja continuar?')) {
+            return;
+        }
+
+        setIsReviewing(true);
+        try {
+            const res = await fetch(`/api/projects/${projectId}/iterate/${iteration.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ action }),
+            });
+            const body = await res.json();
+
+            if (!res.ok) {
+                throw new Error(
+                    res.status === 409 && action === 'apply'
+                        ? 'O projeto mudou desde que as alterações foram propostas'
+                        : body.error ?? 'Falha ao revisar alterações'
+                );
+            }
+
+            if (action === 'apply') {
+                onApplied(body.data.files, body.data.version);
+                toast.success(`Alterações aplicadas (versão ${body.data.version})`);
+            } else {
+                toast.success('Alterações descartadas');
+            }
+            setIteration(null);
+        } catch (error) {
+            toast.error((error as Error).message);
+        } finally {
+            setIsReviewing(false);
+        }
+    };
+
+    return (
+        <GlowCard variant="default" padding="sm" className="mb-4">
+            {/* Instruction */}
+            <div className="flex items-center gap-2">
+                <Wand2 className="w-4 h-4 text-neon-400 flex-shrink-0" />
+                <input
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') handlePropose();
+                    }}
+                    placeholder="Ex: Adicione uma seção de depoimentos na página inicial"
+                    disabled={isProposing || iteration !== null}
+                    className="flex-1 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm
+                     text-white placeholder:text-gray-500
+                     focus:outline-none focus:border-neon-500/50 disabled:opacity-50"
+                />
+                <NeonButton
+                    size="sm"
+                    onClick={handlePropose}
+                    disabled={!instruction.trim() || isProposing || iteration !== null}
+                >
+                    {isProposing ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                        <Wand2 className="w-4 h-4 mr-2" />
+                    )}
+                    Modificar com IA
+                </NeonButton>
+                <button className="p-1 hover:bg-white/5 rounded" onClick={onClose}>
+                    <X className="w-4 h-4 text-gray-500" />
+                </button>
+            </div>
+
+            {/* Review */}
+            <AnimatePresence>
+                {iteration && (
+                    <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        className="mt-4 space-y-3"
+                    >
+                        <div className="flex items-start justify-between gap-4">
+                            <div>
+                                <p className="text-sm text-white">{iteration.instruction}</p>
+                                {iteration.summary && (
+                                    <p className="text-xs text-gray-400 mt-1">{iteration.summary}</p>
+                                )}
+                                <p className="text-xs text-gray-500 mt-1">
+                                    {iteration.changes.length} arquivo(s) · {iteration.creditsCost.toFixed(2)} créditos
+                                    {isStale && (
+                                        <span className="text-yellow-400"> · feito sobre uma versão anterior</span>
+                                    )}
+                                </p>
+                            </div>
+                            <div className="flex gap-2 flex-shrink-0">
+                                <NeonButton
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleReview('discard')}
+                                    disabled={isReviewing}
+                                >
+                                    <X className="w-4 h-4 mr-2" />
+                                    Descartar
+                                </NeonButton>
+                                <NeonButton
+                                    size="sm"
+                                    onClick={() => handleReview('apply')}
+                                    disabled={isReviewing || isStale}
+                                >
+                                    {isReviewing ? (
+                                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                    ) : (
+                                        <Check className="w-4 h-4 mr-2" />
+                                    )}
+                                    Aplicar alterações
+                                </NeonButton>
+                            </div>
+                        </div>
+
+                        <ChangesDiff changes={iteration.changes} className="h-80" />
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </GlowCard>
+    );
+}
+
+export default IterationPanel;
@@ -0,0 +1,286 @@
+/**
+ * Version History Panel
+ * Project versions with who made them (AI or user), a diff between any two
+ * versions, and restoring or copying an old version into a new project
+ */
+
+'use client';
+
+import * as React from 'react';
+import { Bot, GitBranch, History, Loader2, RotateCcw, User, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { GlowCard } from '@/components/ui/GlowCard';
+import { NeonButton } from '@/components/ui/NeonButton';
+import { ChangesDiff, type FileDiff } from './ChangesDiff';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface ProjectVersion {
+    version: number;
+    source: 'GENERATION' | 'ITERATION' | 'MANUAL' | 'RESTORE' | 'BRANCH';
+    authorKind: 'ai' | 'human';
+    author: { id: string; name: string | null } | null;
+    message: string | null;
+    parentVersion: number | null;
+    fileCount: number;
+    createdAt: string;
+}
+
+interface VersionHistoryPanelProps {
+    projectId: string;
+    /** Current project version */
+    version: number;
+    /** The editor has unsaved changes that restoring would overwrite */
+    hasUnsavedChanges?: boolean;
+    onRestored: (files: Record<string, string>, version: number) => void;
+    onBranched: (projectId: string) => void;
+    onClose: () => void;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function describeSource(item: ProjectVersion): string {
+    switch (item.source) {
+        case 'GENERATION':
+            return 'Gerado pela IA';
+        case 'ITERATION':
+            return 'Modificado pela IA';
+        case 'MANUAL':
+            return 'Salvo no editor';
+        case 'RESTORE':
+            return `Restaurado da v${item.parentVersion}`;
+        case 'BRANCH':
+            return `Copiado de ${item.message ?? `v${item.parentVersion}`}`;
+    }
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function VersionHistoryPanel({
+    projectId,
+    version,
+    hasUnsavedChanges = false,
+    onRestored,
+    onBranched,
+    onClose,
+}: VersionHistoryPanelProps) {
+    const [versions, setVersions] = React.useState<ProjectVersion[]>([]);
+    const [isLoading, setIsLoading] = React.useState(true);
+    const [selected, setSelected] = React.useState<number | null>(null);
+    const [compareTo, setCompareTo] = React.useState(version);
+    const [changes, setChanges] = React.useState<FileDiff[] | null>(null);
+    const [isBusy, setIsBusy] = React.useState(false);
+
+    // Reload whenever the project gets a new version
+    React.useEffect(() => {
+        setIsLoading(true);
+        setCompareTo(version);
+        fetch(`/api/projects/${projectId}/versions`)
+            .then((res) => (res.ok ? res.json() : null))
+            .then((body) => setVersions((body?.data as ProjectVersion[] | undefined) ?? []))
+            .catch(() => toast.error('Erro ao carregar o histórico'))
+            .finally(() => setIsLoading(false));
+    }, [projectId, version]);
+
+    // Diff of the selected version against the compared one
+    React.useEffect(() => {
+        setChanges(null);
+        if (selected === null) return;
+
+        fetch(`/api/projects/${projectId}/versions/diff?from=${selected}&to=${compareTo}`)
+            .then((res) => (res.ok ? res.json() : Promise.reject(new Error())))
+            .then((body) => setChanges(body.data.changes as FileDiff[]))
+            .catch(() => toast.error('Erro ao comparar versões'));
+    }, [projectId, selected, compareTo]);
+
+    const handleRestore = async () => {
+        if (selected === null) return;
+        if (hasUnsavedChanges
+            && !confirm('Você tem alterações não salvas que serão substituídas. Deseja continuar?')) {
+            return;
+        }
+
+        setIsBusy(true);
+        try {
+            const res = await fetch(`/api/projects/${projectId}/versions/${selected}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ action: 'restore', expectedVersion: version }),
+            });
+            const body = await res.json();
+
+            if (!res.ok) {
+                throw new Error(
+                    res.status === 409
+                        ? 'O projeto mudou desde que foi aberto. Recarregue a página.'
+                        : body.error ?? 'Erro ao restaurar versão'
+                );
+            }
+
+            onRestored(body.data.files, body.data.version);
+            setSelected(null);
+            toast.success(`Versão ${selected} restaurada como versão ${body.data.version}`);
+        } catch (error) {
+            toast.error((error as Error).message);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleBranch = async () => {
+        if (selected === null) return;
+
+        setIsBusy(true);
+        try {
+            const res = await fetch(`/api/projects/${projectId}/versions/${selected}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ action: 'branch' }),
+            });
+            const body = await res.json();
+
+            if (!res.ok) {
+                throw new Error(
+                    res.status === 403
+                        ? 'Você atingiu o limite de projetos do seu plano'
+                        : body.error ?? 'Erro ao copiar versão'
+                );
+            }
+
+            toast.success('Novo projeto criado a partir da versão');
+            onBranched(body.data.projectId);
+        } catch (error) {
+            toast.error((error as Error).message);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <GlowCard variant="default" padding="sm" className="mb-4">
+            {/* Header */}
+            <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                    <History className="w-4 h-4 text-neon-400" />
+                    <h2 className="text-sm font-medium text-white">Histórico de versões</h2>
+                </div>
+                <button className="p-1 hover:bg-white/5 rounded" onClick={onClose}>
+                    <X className="w-4 h-4 text-gray-500" />
+                </button>
+            </div>
+
+            <div className="flex gap-4 h-80">
+                {/* Versions */}
+                <div className="w-72 overflow-y-auto space-y-1">
+                    {isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="w-5 h-5 text-neon-400 animate-spin" />
+                        </div>
+                    ) : versions.length === 0 ? (
+                        <p className="text-sm text-gray-500 px-2">Nenhuma versão registrada ainda</p>
+                    ) : (
+                        versions.map((item) => (
+                            <button
+                                key={item.version}
+                                onClick={() => setSelected(item.version)}
+                                className={cn(
+                                    'w-full px-3 py-2 rounded-lg text-left transition-colors',
+                                    selected === item.version
+                                        ? 'bg-neon-500/10 border border-neon-500/30'
+                                        : 'hover:bg-white/5 border border-transparent'
+                                )}
+                            >
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-sm font-medium text-white">
+                                        v{item.version}
+                                        {item.version === version && (
+                                            <span className="ml-2 text-xs text-neon-400">atual</span>
+                                        )}
+                                    </span>
+                                    <span className="flex items-center gap-1 text-xs text-gray-400">
+                                        {item.authorKind === 'ai' ? (
+                                            <Bot className="w-3 h-3" />
+                                        ) : (
+                                            <User className="w-3 h-3" />
+                                        )}
+                                        {item.authorKind === 'ai' ? 'IA' : item.author?.name ?? 'Você'}
+                                    </span>
+                                </div>
+                                <p className="text-xs text-gray-400 mt-0.5">{describeSource(item)}</p>
+                                {item.message && item.source !== 'BRANCH' && (
+                                    <p className="text-xs text-gray-500 mt-0.5 truncate">{item.message}</p>
+                                )}
+                                <p className="text-xs text-gray-600 mt-0.5">
+                                    {new Date(item.createdAt).toLocaleString('pt-BR')} · {item.fileCount} arquivo(s)
+                                </p>
+                            </button>
+                        ))
+                    )}
+                </div>
+
+                {/* Comparison */}
+                <div className="flex-1 flex flex-col min-w-0">
+                    {selected === null ? (
+                        <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+                            Selecione uma versão para comparar
+                        </div>
+                    ) : (
+                        <>
+                            <div className="flex items-center justify-between gap-4 mb-3">
+                                <div className="flex items-center gap-2 text-sm text-gray-400">
+                                    <span>v{selected} comparada com</span>
+                                    <select
+                                        value={compareTo}
+                                        onChange={(e) => setCompareTo(Number(e.target.value))}
+                                        className="px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-white
+                                         focus:outline-none focus:border-neon-500/50"
+                                    >
+                                        {versions.map((item) => (
+                                            <option key={item.version} value={item.version}>
+                                                v{item.version}{item.version === version ? ' (atual)' : ''}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className="flex gap-2">
+                                    <NeonButton variant="ghost" size="sm" onClick={handleBranch} disabled={isBusy}>
+                                        <GitBranch className="w-4 h-4 mr-2" />
+                                        Criar cópia
+                                    </NeonButton>
+                                    <NeonButton
+                                        size="sm"
+                                        onClick={handleRestore}
+                                        disabled={isBusy || selected === version}
+                                    >
+                                        {isBusy ? (
+                                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                        ) : (
+                                            <RotateCcw className="w-4 h-4 mr-2" />
+                                        )}
+                                        Restaurar
+                                    </NeonButton>
+                                </div>
+                            </div>
+                            {changes ? (
+                                <ChangesDiff changes={changes} className="flex-1 min-h-0" />
+                            ) : (
+                                <div className="flex-1 flex justify-center items-center">
+                                    <Loader2 className="w-5 h-5 text-neon-400 animate-spin" />
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </GlowCard>
+    );
+}
+
+export default VersionHistoryPanel;
@@ -15,3 +15,19 @@ export { Sidebar } from './common/Sidebar';
 
 // 3D Components
 export { ParticleBackground } from './3d/ParticleBackground';
+
+// Billing Components
+export { CheckoutButton } from './billing/CheckoutButton';
+export { PixPaymentButton } from './billing/PixPaymentButton';
+
+// Settings Components
+export { InvoicesPanel } from './settings/InvoicesPanel';
+export { ApiKeysTab } from './settings/ApiKeysTab';
+
+// Editor Components
+export { ChangesDiff } from './editor/ChangesDiff';
+export { IterationPanel } from './editor/IterationPanel';
+export { VersionHistoryPanel } from './editor/VersionHistoryPanel';
+
+// Project Components
+export { ProjectsBrowser } from './projects/ProjectsBrowser';
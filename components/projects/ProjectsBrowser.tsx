@@ -0,0 +1,428 @@
+/**
+ * Projects Browser
+ * Projects page body: search, filters, sorting and pages over the user's
+ * projects, the trash view, and rename/duplicate/delete/restore actions
+ */
+
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import {
+    FolderOpen,
+    Plus,
+    Clock,
+    ExternalLink,
+    Trash2,
+    Edit2,
+    Copy,
+    Pencil,
+    RotateCcw,
+    Search,
+    ChevronLeft,
+    ChevronRight,
+    Loader2,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { cn, formatDate, formatRelativeTime } from '@/lib/utils';
+import { PROJECT_TRASH_RETENTION_DAYS } from '@/lib/constants';
+import { GlowCard } from '@/components/ui/GlowCard';
+import { NeonButton } from '@/components/ui/NeonButton';
+import { useProjects, type ProjectFilters, type ProjectItem } from '@/hooks/useProjects';
+
+// =============================================================================
+// DATA
+// =============================================================================
+
+const statusBadges: Record<ProjectItem['status'], { bg: string; text: string; label: string }> = {
+    READY: { bg: 'bg-green-500/20', text: 'text-green-400', label: 'Pronto' },
+    DEPLOYED: { bg: 'bg-blue-500/20', text: 'text-blue-400', label: 'Publicado' },
+    GENERATING: { bg: 'bg-yellow-500/20', text: 'text-yellow-400', label: 'Gerando' },
+    FAILED: { bg: 'bg-red-500/20', text: 'text-red-400', label: 'Erro' },
+    ARCHIVED: { bg: 'bg-gray-500/20', text: 'text-gray-400', label: 'Arquivado' },
+    DRAFT: { bg: 'bg-gray-500/20', text: 'text-gray-400', label: 'Rascunho' },
+};
+
+const sortOptions: { value: string; label: string }[] = [
+    { value: 'updatedAt:desc', label: 'Atualizados recentemente' },
+    { value: 'createdAt:desc', label: 'Mais novos' },
+    { value: 'createdAt:asc', label: 'Mais antigos' },
+    { value: 'name:asc', label: 'Nome (A-Z)' },
+];
+
+const SEARCH_DELAY = 300;
+
+// =============================================================================
+// SUB-COMPONENTS
+// =============================================================================
+
+function StatusBadge({ status }: { status: ProjectItem['status'] }) {
+    const { bg, text, label } = statusBadges[status] ?? statusBadges.DRAFT;
+
+    return (
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${bg} ${text}`}>
+            {label}
+        </span>
+    );
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function ProjectsBrowser() {
+    const [view, setView] = React.useState<'active' | 'trash'>('active');
+    const [searchInput, setSearchInput] = React.useState('');
+    const [search, setSearch] = React.useState('');
+    const [status, setStatus] = React.useState<ProjectFilters['status']>();
+    const [sort, setSort] = React.useState('updatedAt:desc');
+    const [page, setPage] = React.useState(1);
+    const [busyId, setBusyId] = React.useState<string | null>(null);
+
+    // Search as the user types, without a request per key
+    React.useEffect(() => {
+        const timer = setTimeout(() => {
+            setSearch(searchInput.trim());
+            setPage(1);
+        }, SEARCH_DELAY);
+        return () => clearTimeout(timer);
+    }, [searchInput]);
+
+    const [sortField, sortOrder] = sort.split(':') as [ProjectFilters['sort'], ProjectFilters['order']];
+    const { projects, pagination, isLoading, rename, duplicate, trash, restore } = useProjects({
+        view,
+        search,
+        status,
+        sort: sortField,
+        order: sortOrder,
+        page,
+    });
+
+    const runAction = async (id: string, action: () => Promise<void>) => {
+        setBusyId(id);
+        try {
+            await action();
+        } catch (error) {
+            toast.error((error as Error).message);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleRename = (project: ProjectItem) => {
+        const name = prompt('Novo nome do projeto', project.name)?.trim();
+        if (!name || name === project.name) return;
+
+        runAction(project.id, async () => {
+            await rename(project.id, name);
+            toast.success('Projeto renomeado');
+        });
+    };
+
+    const handleDuplicate = (project: ProjectItem) => {
+        runAction(project.id, async () => {
+            const copy = await duplicate(project.id);
+            toast.success(`Cópia criada: ${copy.name}`);
+        });
+    };
+
+    const handleTrash = (project: ProjectItem) => {
+        runAction(project.id, async () => {
+            await trash(project.id);
+            toast.success('Projeto movido para a lixeira', {
+                action: {
+                    label: 'Desfazer',
+                    onClick: () => {
+                        restore(project.id).catch((error: Error) => toast.error(error.message));
+                    },
+                },
+            });
+        });
+    };
+
+    const handleRestore = (project: ProjectItem) => {
+        runAction(project.id, async () => {
+            await restore(project.id);
+            toast.success('Projeto restaurado');
+        });
+    };
+
+    const changeView = (next: 'active' | 'trash') => {
+        setView(next);
+        setPage(1);
+    };
+
+    const totalItems = pagination?.totalItems ?? 0;
+    const hasFilters = search !== '' || status !== undefined;
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold text-white mb-2">
+                        {view === 'trash' ? 'Lixeira' : 'Meus Projetos'}
+                    </h1>
+                    <p className="text-gray-400">
+                        {totalItems} projeto{totalItems !== 1 ? 's' : ''}
+                        {view === 'trash' && ` · removidos definitivamente após ${PROJECT_TRASH_RETENTION_DAYS} dias`}
+                    </p>
+                </div>
+                <Link href="/create">
+                    <NeonButton className="gap-2">
+                        <Plus className="w-5 h-5" />
+                        Novo Projeto
+                    </NeonButton>
+                </Link>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-3">
+                <div className="flex rounded-lg bg-white/5 p-1">
+                    {(['active', 'trash'] as const).map((item) => (
+                        <button
+                            key={item}
+                            onClick={() => changeView(item)}
+                            className={cn(
+                                'px-3 py-1.5 rounded-md text-sm transition-colors',
+                                view === item ? 'bg-neon-500/20 text-neon-400' : 'text-gray-400 hover:text-white'
+                            )}
+                        >
+                            {item === 'active' ? 'Projetos' : 'Lixeira'}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="relative flex-1 min-w-[200px]">
+                    <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
+                        placeholder="Buscar por nome ou descrição"
+                        className="w-full pl-9 pr-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm
+                         text-white placeholder:text-gray-500 focus:outline-none focus:border-neon-500/50"
+                    />
+                </div>
+
+                <select
+                    value={status ?? ''}
+                    onChange={(e) => {
+                        setStatus((e.target.value || undefined) as ProjectFilters['status']);
+                        setPage(1);
+                    }}
+                    className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm text-white
+                     focus:outline-none focus:border-neon-500/50"
+                >
+                    <option value="">Todos os status</option>
+                    {Object.entries(statusBadges).map(([value, { label }]) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+
+                <select
+                    value={sort}
+                    onChange={(e) => {
+                        setSort(e.target.value);
+                        setPage(1);
+                    }}
+                    className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm text-white
+                     focus:outline-none focus:border-neon-500/50"
+                >
+                    {sortOptions.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {/* Loading */}
+            {isLoading && projects.length === 0 && (
+                <div className="flex justify-center py-16">
+                    <Loader2 className="w-8 h-8 text-neon-400 animate-spin" />
+                </div>
+            )}
+
+            {/* Empty state */}
+            {!isLoading && projects.length === 0 && (
+                <GlowCard variant="outline" padding="lg" className="text-center">
+                    {view === 'trash' ? (
+                        <>
+                            <Trash2 className="w-16 h-16 text-gray-500 mx-auto mb-4" />
+                            <h2 className="text-xl font-semibold text-white mb-2">A lixeira está vazia</h2>
+                            <p className="text-gray-400">
+                                Projetos excluídos ficam aqui por {PROJECT_TRASH_RETENTION_DAYS} dias
+                            </p>
+                        </>
+                    ) : hasFilters ? (
+                        <>
+                            <Search className="w-16 h-16 text-gray-500 mx-auto mb-4" />
+                            <h2 className="text-xl font-semibold text-white mb-2">Nenhum projeto encontrado</h2>
+                            <p className="text-gray-400">Tente outra busca ou filtro</p>
+                        </>
+                    ) : (
+                        <>
+                            <FolderOpen className="w-16 h-16 text-gray-500 mx-auto mb-4" />
+                            <h2 className="text-xl font-semibold text-white mb-2">
+                                Nenhum projeto ainda
+                            </h2>
+                            <p className="text-gray-400 mb-6">
+                                Crie seu primeiro projeto com IA em segundos
+                            </p>
+                            <Link href="/create">
+                                <NeonButton className="gap-2">
+                                    <Plus className="w-5 h-5" />
+                                    Criar Primeiro Projeto
+                                </NeonButton>
+                            </Link>
+                        </>
+                    )}
+                </GlowCard>
+            )}
+
+            {/* Projects grid */}
+            {projects.length > 0 && (
+                <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {projects.map((project) => (
+                        <GlowCard
+                            key={project.id}
+                            variant="default"
+                            padding="none"
+                            hover="lift"
+                            className={cn('group overflow-hidden', busyId === project.id && 'opacity-60')}
+                        >
+                            {/* Thumbnail */}
+                            <div className="h-40 bg-gradient-to-br from-neon-500/10 to-purple-500/10 relative">
+                                <div className="absolute inset-0 flex items-center justify-center">
+                                    <FolderOpen className="w-12 h-12 text-neon-400/50" />
+                                </div>
+                                {/* Actions overlay */}
+                                {view === 'active' && (
+                                    <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                                        <Link href={`/editor/${project.id}`}>
+                                            <NeonButton size="sm" variant="ghost">
+                                                <Edit2 className="w-4 h-4 mr-1" />
+                                                Editar
+                                            </NeonButton>
+                                        </Link>
+                                        {project.previewUrl && (
+                                            <a
+                                                href={project.previewUrl}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                            >
+                                                <NeonButton size="sm" variant="ghost">
+                                                    <ExternalLink className="w-4 h-4 mr-1" />
+                                                    Ver
+                                                </NeonButton>
+                                            </a>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Content */}
+                            <div className="p-4">
+                                <div className="flex items-start justify-between gap-2 mb-2">
+                                    <h3 className="text-lg font-semibold text-white truncate flex-1">
+                                        {project.name}
+                                    </h3>
+                                    <StatusBadge status={project.status} />
+                                </div>
+
+                                {project.description && (
+                                    <p className="text-sm text-gray-400 line-clamp-2 mb-3">
+                                        {project.description}
+                                    </p>
+                                )}
+
+                                <div className="flex items-center justify-between text-xs text-gray-500">
+                                    {view === 'trash' && project.purgeAfter ? (
+                                        <span className="flex items-center gap-1">
+                                            <Trash2 className="w-3 h-3" />
+                                            Removido em {formatDate(project.purgeAfter)}
+                                        </span>
+                                    ) : (
+                                        <span className="flex items-center gap-1">
+                                            <Clock className="w-3 h-3" />
+                                            {formatRelativeTime(project.updatedAt)}
+                                        </span>
+                                    )}
+
+                                    {view === 'trash' ? (
+                                        <button
+                                            onClick={() => handleRestore(project)}
+                                            disabled={busyId === project.id}
+                                            className="flex items-center gap-1 text-neon-400 hover:text-neon-300 transition-colors"
+                                        >
+                                            <RotateCcw className="w-3 h-3" />
+                                            Restaurar
+                                        </button>
+                                    ) : (
+                                        <div className="flex items-center gap-1">
+                                            <button
+                                                onClick={() => handleRename(project)}
+                                                disabled={busyId === project.id}
+                                                className="p-1.5 rounded hover:bg-white/5 hover:text-white transition-colors"
+                                                title="Renomear"
+                                            >
+                                                <Pencil className="w-3.5 h-3.5" />
+                                            </button>
+                                            <button
+                                                onClick={() => handleDuplicate(project)}
+                                                disabled={busyId === project.id || project.status === 'GENERATING'}
+                                                className="p-1.5 rounded hover:bg-white/5 hover:text-white transition-colors"
+                                                title="Duplicar"
+                                            >
+                                                <Copy className="w-3.5 h-3.5" />
+                                            </button>
+                                            <button
+                                                onClick={() => handleTrash(project)}
+                                                disabled={busyId === project.id || project.status === 'GENERATING'}
+                                                className="p-1.5 rounded hover:bg-white/5 hover:text-red-400 transition-colors"
+                                                title="Mover para a lixeira"
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                            <Link
+                                                href={`/editor/${project.id}`}
+                                                className="ml-2 text-neon-400 hover:text-neon-300 transition-colors"
+                                            >
+                                                Abrir →
+                                            </Link>
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        </GlowCard>
+                    ))}
+                </div>
+            )}
+
+            {/* Pagination */}
+            {pagination && pagination.totalPages > 1 && (
+                <div className="flex items-center justify-center gap-4">
+                    <NeonButton
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPage(page - 1)}
+                        disabled={!pagination.hasPrev}
+                    >
+                        <ChevronLeft className="w-4 h-4" />
+                    </NeonButton>
+                    <span className="text-sm text-gray-400">
+                        Página {pagination.page} de {pagination.totalPages}
+                    </span>
+                    <NeonButton
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPage(page + 1)}
+                        disabled={!pagination.hasNext}
+                    >
+                        <ChevronRight className="w-4 h-4" />
+                    </NeonButton>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default ProjectsBrowser;
@@ -0,0 +1,352 @@
+/**
+ * API Keys Tab
+ * Settings panel to create, inspect and revoke API keys
+ */
+
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Key, Copy, Trash2, AlertTriangle, Check, Lock } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn, copyToClipboard, formatDate, formatNumber, formatRelativeTime } from '@/lib/utils';
+import { createApiKeySchema, formatZodErrors } from '@/lib/schemas';
+import { GlowCard, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/GlowCard';
+import { NeonButton } from '@/components/ui/NeonButton';
+import { Input } from '@/components/ui/Input';
+import { useApiKeys, type ApiKeyItem } from '@/hooks/useApiKeys';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type Scope = ApiKeyItem['scopes'][number];
+
+interface ApiKeysTabProps {
+    /** Admins may issue admin-scoped keys */
+    isAdmin: boolean;
+}
+
+// =============================================================================
+// DATA
+// =============================================================================
+
+const scopeOptions: Array<{ id: Scope; name: string; desc: string; adminOnly?: boolean }> = [
+    { id: 'read', name: 'Leitura', desc: 'Consultar projetos, conversas e créditos' },
+    { id: 'write', name: 'Escrita', desc: 'Gerar sites e enviar mensagens (consome créditos)' },
+    { id: 'admin', name: 'Admin', desc: 'Operações administrativas', adminOnly: true },
+];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function getKeyStatus(key: ApiKeyItem): { label: string; className: string } {
+    if (!key.isActive) {
+        return { label: 'Revogada', className: 'bg-red-500/20 text-red-400' };
+    }
+    if (key.expiresAt && new Date(key.expiresAt).getTime() < Date.now()) {
+        return { label: 'Expirada', className: 'bg-yellow-500/20 text-yellow-400' };
+    }
+    return { label: 'Ativa', className: 'bg-green-500/20 text-green-400' };
+}
+
+// =============================================================================
+// REVEAL DIALOG
+// =============================================================================
+
+function RevealKeyDialog({ apiKey, onClose }: { apiKey: string; onClose: () => void }) {
+    const [copied, setCopied] = React.useState(false);
+
+    const handleCopy = async () => {
+        if (await copyToClipboard(apiKey)) {
+            setCopied(true);
+            toast.success('Chave copiada!');
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="reveal-key-title"
+        >
+            <motion.div
+                initial={{ scale: 0.95, y: 10 }}
+                animate={{ scale: 1, y: 0 }}
+                exit={{ scale: 0.95, y: 10 }}
+                className="w-full max-w-lg"
+            >
+                <GlowCard variant="neon" padding="default">
+                    <CardHeader>
+                        <CardTitle id="reveal-key-title">Sua nova chave de API</CardTitle>
+                    </CardHeader>
+                    <CardContent className="mt-4 space-y-4">
+                        <div className="flex items-start gap-3 p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/30">
+                            <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0" />
+                            <p className="text-sm text-yellow-200">
+                                Copie e guarde esta chave agora. Por segurança, ela não será exibida novamente.
+                            </p>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <code className="flex-1 px-3 py-2.5 rounded-lg bg-black/50 border border-white/10 text-neon-400 text-sm font-mono break-all">
+                                {apiKey}
+                            </code>
+                            <NeonButton variant="ghost" size="icon" onClick={handleCopy} aria-label="Copiar chave">
+                                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                            </NeonButton>
+                        </div>
+
+                        <div className="flex justify-end">
+                            <NeonButton onClick={onClose}>Entendi, já copiei</NeonButton>
+                        </div>
+                    </CardContent>
+                </GlowCard>
+            </motion.div>
+        </motion.div>
+    );
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function ApiKeysTab({ isAdmin }: ApiKeysTabProps) {
+    const { keys, canCreate, isLoading, createKey, revokeKey } = useApiKeys();
+
+    // Form state
+    const [name, setName] = React.useState('');
+    const [scopes, setScopes] = React.useState<Scope[]>(['read']);
+    const [expiresAt, setExpiresAt] = React.useState('');
+    const [errors, setErrors] = React.useState<Record<string, string>>({});
+    const [isCreating, setIsCreating] = React.useState(false);
+    const [revealedKey, setRevealedKey] = React.useState<string | null>(null);
+
+    const toggleScope = (scope: Scope) => {
+        setScopes((prev) =>
+            prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+        );
+    };
+
+    // Create key
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const parsed = createApiKeySchema.safeParse({
+            name: name.trim(),
+            scopes,
+            expiresAt: expiresAt ? `${expiresAt}T23:59:59` : undefined,
+        });
+
+        if (!parsed.success) {
+            setErrors(formatZodErrors(parsed.error));
+            return;
+        }
+
+        setErrors({});
+        setIsCreating(true);
+        try {
+            const key = await createKey(parsed.data);
+            setRevealedKey(key);
+            setName('');
+            setScopes(['read']);
+            setExpiresAt('');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Erro ao criar chave');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    // Revoke key
+    const handleRevoke = async (key: ApiKeyItem) => {
+        if (!confirm(`Revogar a chave "${key.name}"? Aplicações que a utilizam deixarão de funcionar.`)) {
+            return;
+        }
+
+        try {
+            await revokeKey(key.id);
+            toast.success('Chave revogada');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Erro ao revogar chave');
+        }
+    };
+
+    return (
+        <>
+            {/* Create */}
+            <GlowCard variant="default" padding="default">
+                <CardHeader>
+                    <CardTitle>Chaves de API</CardTitle>
+                    <CardDescription>
+                        Use chaves de API para acessar a plataforma programaticamente com o cabeçalho{' '}
+                        <code className="text-neon-400">Authorization: Bearer</code>.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="mt-6">
+                    {!canCreate && !isLoading ? (
+                        <div className="flex items-center justify-between p-4 rounded-lg bg-white/5">
+                            <div className="flex items-center gap-3">
+                                <Lock className="w-5 h-5 text-gray-400" />
+                                <div>
+                                    <p className="text-sm font-medium text-white">Acesso à API não incluído</p>
+                                    <p className="text-xs text-gray-500">Disponível nos planos Pro e Enterprise</p>
+                                </div>
+                            </div>
+                            <NeonButton size="sm" asChild>
+                                <Link href="/pricing">Fazer Upgrade</Link>
+                            </NeonButton>
+                        </div>
+                    ) : (
+                        <form onSubmit={handleCreate} className="space-y-5">
+                            <Input
+                                label="Nome"
+                                placeholder="Ex.: Integração CI"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                error={errors.name}
+                            />
+
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300 mb-3">
+                                    Escopos
+                                </label>
+                                <div className="grid sm:grid-cols-3 gap-3">
+                                    {scopeOptions
+                                        .filter((option) => !option.adminOnly || isAdmin)
+                                        .map((option) => (
+                                            <button
+                                                key={option.id}
+                                                type="button"
+                                                onClick={() => toggleScope(option.id)}
+                                                className={cn(
+                                                    'px-4 py-3 rounded-lg border text-left transition-colors',
+                                                    scopes.includes(option.id)
+                                                        ? 'bg-neon-500/10 border-neon-500/50 text-neon-400'
+                                                        : 'bg-white/5 border-white/10 text-gray-400 hover:border-white/20'
+                                                )}
+                                            >
+                                                <p className="text-sm font-medium">{option.name}</p>
+                                                <p className="text-xs text-gray-500 mt-0.5">{option.desc}</p>
+                                            </button>
+                                        ))}
+                                </div>
+                                {errors.scopes && (
+                                    <p className="text-xs text-red-400 mt-2">{errors.scopes}</p>
+                                )}
+                            </div>
+
+                            <Input
+                                type="date"
+                                label="Expira em (opcional)"
+                                value={expiresAt}
+                                onChange={(e) => setExpiresAt(e.target.value)}
+                                error={errors.expiresAt}
+                                helperText="Deixe em branco para uma chave sem expiração"
+                            />
+
+                            <div className="flex justify-end">
+                                <NeonButton type="submit" loading={isCreating} className="gap-2">
+                                    <Key className="w-4 h-4" />
+                                    Criar Chave
+                                </NeonButton>
+                            </div>
+                        </form>
+                    )}
+                </CardContent>
+            </GlowCard>
+
+            {/* List */}
+            <GlowCard variant="default" padding="default">
+                <CardHeader>
+                    <CardTitle>Suas chaves</CardTitle>
+                </CardHeader>
+                <CardContent className="mt-4">
+                    {keys.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center py-6">
+                            {isLoading ? 'Carregando...' : 'Nenhuma chave criada ainda'}
+                        </p>
+                    ) : (
+                        <div className="space-y-3">
+                            {keys.map((key) => {
+                                const status = getKeyStatus(key);
+
+                                return (
+                                    <div
+                                        key={key.id}
+                                        className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 rounded-lg bg-white/5"
+                                    >
+                                        <div className="min-w-0">
+                                            <div className="flex items-center gap-2 mb-1">
+                                                <p className="text-sm font-medium text-white truncate">{key.name}</p>
+                                                <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', status.className)}>
+                                                    {status.label}
+                                                </span>
+                                            </div>
+                                            <p className="text-xs font-mono text-gray-400">{key.keyPrefix}••••••••</p>
+                                            <div className="flex flex-wrap gap-1 mt-2">
+                                                {key.scopes.map((scope) => (
+                                                    <span
+                                                        key={scope}
+                                                        className="px-2 py-0.5 rounded bg-neon-500/10 text-neon-400 text-xs"
+                                                    >
+                                                        {scope}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        </div>
+
+                                        <div className="flex items-center gap-6 text-xs text-gray-500">
+                                            <div>
+                                                <p>Último uso</p>
+                                                <p className="text-gray-300">
+                                                    {key.lastUsedAt ? formatRelativeTime(key.lastUsedAt) : 'Nunca'}
+                                                </p>
+                                            </div>
+                                            <div>
+                                                <p>Requisições</p>
+                                                <p className="text-gray-300">{formatNumber(key.requestCount)}</p>
+                                            </div>
+                                            <div>
+                                                <p>Expira</p>
+                                                <p className="text-gray-300">
+                                                    {key.expiresAt ? formatDate(key.expiresAt) : 'Nunca'}
+                                                </p>
+                                            </div>
+                                            {key.isActive && (
+                                                <NeonButton
+                                                    variant="ghost"
+                                                    size="icon-sm"
+                                                    onClick={() => handleRevoke(key)}
+                                                    aria-label={`Revogar ${key.name}`}
+                                                    className="text-red-400 border-red-500/30 hover:bg-red-500/10"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </NeonButton>
+                                            )}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </CardContent>
+            </GlowCard>
+
+            {/* Reveal-once dialog */}
+            <AnimatePresence>
+                {revealedKey && (
+                    <RevealKeyDialog apiKey={revealedKey} onClose={() => setRevealedKey(null)} />
+                )}
+            </AnimatePresence>
+        </>
+    );
+}
+
+export default ApiKeysTab;
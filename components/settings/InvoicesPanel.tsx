@@ -0,0 +1,180 @@
+/**
+ * Invoices Panel
+ * Billing tab section: CPF/CNPJ for invoices and receipt downloads
+ */
+
+'use client';
+
+import * as React from 'react';
+import { FileText, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn, formatCurrency, formatDate, formatTaxId } from '@/lib/utils';
+import { taxInfoSchema, formatZodErrors } from '@/lib/schemas';
+import { GlowCard, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/GlowCard';
+import { NeonButton } from '@/components/ui/NeonButton';
+import { Input } from '@/components/ui/Input';
+import { useInvoices, type InvoiceItem } from '@/hooks/useInvoices';
+
+// =============================================================================
+// DATA
+// =============================================================================
+
+const paymentMethodLabels: Record<InvoiceItem['paymentMethod'], string> = {
+    card: 'Cartão',
+    pix: 'Pix',
+    boleto: 'Boleto',
+};
+
+const nfseStatusBadges: Record<InvoiceItem['nfseStatus'], { label: string; className: string }> = {
+    PENDING: { label: 'NFS-e pendente', className: 'bg-yellow-500/20 text-yellow-400' },
+    EXPORTED: { label: 'NFS-e em emissão', className: 'bg-blue-500/20 text-blue-400' },
+    ISSUED: { label: 'NFS-e emitida', className: 'bg-green-500/20 text-green-400' },
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function InvoicesPanel() {
+    const { invoices, taxInfo, isLoading, saveTaxInfo, getReceiptUrl } = useInvoices();
+
+    // Form state
+    const [legalName, setLegalName] = React.useState('');
+    const [taxId, setTaxId] = React.useState('');
+    const [errors, setErrors] = React.useState<Record<string, string>>({});
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    // Fill the form once the saved data arrives
+    React.useEffect(() => {
+        if (taxInfo) {
+            setLegalName(taxInfo.legalName ?? '');
+            setTaxId(taxInfo.taxId ? formatTaxId(taxInfo.taxId) : '');
+        }
+    }, [taxInfo]);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const parsed = taxInfoSchema.safeParse({ legalName, taxId });
+        if (!parsed.success) {
+            setErrors(formatZodErrors(parsed.error));
+            return;
+        }
+
+        setErrors({});
+        setIsSaving(true);
+        try {
+            await saveTaxInfo(parsed.data);
+            setTaxId(formatTaxId(parsed.data.taxId));
+            toast.success('Dados fiscais salvos!');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Erro ao salvar dados fiscais');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <>
+            {/* Fiscal data */}
+            <GlowCard variant="default" padding="default">
+                <CardHeader>
+                    <CardTitle>Dados Fiscais</CardTitle>
+                    <CardDescription>
+                        Usados nos recibos e na emissão da NFS-e. Alterações valem para as próximas cobranças.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="mt-6">
+                    <form onSubmit={handleSave} className="space-y-5">
+                        <div className="grid md:grid-cols-2 gap-4">
+                            <Input
+                                label="Nome completo ou razão social"
+                                value={legalName}
+                                onChange={(e) => setLegalName(e.target.value)}
+                                error={errors.legalName}
+                            />
+                            <Input
+                                label="CPF ou CNPJ"
+                                placeholder="000.000.000-00"
+                                inputMode="numeric"
+                                value={taxId}
+                                onChange={(e) => setTaxId(e.target.value)}
+                                error={errors.taxId}
+                            />
+                        </div>
+
+                        <div className="flex justify-end">
+                            <NeonButton type="submit" size="sm" loading={isSaving}>
+                                Salvar Dados Fiscais
+                            </NeonButton>
+                        </div>
+                    </form>
+                </CardContent>
+            </GlowCard>
+
+            {/* Invoices */}
+            <GlowCard variant="default" padding="default">
+                <CardHeader>
+                    <CardTitle>Recibos</CardTitle>
+                </CardHeader>
+                <CardContent className="mt-4">
+                    {invoices.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center py-6">
+                            {isLoading ? 'Carregando...' : 'Nenhuma cobrança ainda'}
+                        </p>
+                    ) : (
+                        <div className="space-y-3">
+                            {invoices.map((invoice) => {
+                                const nfse = nfseStatusBadges[invoice.nfseStatus];
+
+                                return (
+                                    <div
+                                        key={invoice.id}
+                                        className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 rounded-lg bg-white/5"
+                                    >
+                                        <div className="flex items-start gap-3 min-w-0">
+                                            <FileText className="w-5 h-5 text-gray-400 flex-shrink-0 mt-0.5" />
+                                            <div className="min-w-0">
+                                                <div className="flex items-center gap-2 mb-1">
+                                                    <p className="text-sm font-medium text-white truncate">
+                                                        {invoice.description}
+                                                    </p>
+                                                    <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', nfse.className)}>
+                                                        {invoice.nfseNumber ? `NFS-e ${invoice.nfseNumber}` : nfse.label}
+                                                    </span>
+                                                </div>
+                                                <p className="text-xs text-gray-500">
+                                                    Nº {invoice.number} · {formatDate(invoice.issuedAt)} ·{' '}
+                                                    {paymentMethodLabels[invoice.paymentMethod]}
+                                                </p>
+                                            </div>
+                                        </div>
+
+                                        <div className="flex items-center gap-3">
+                                            <p className="text-sm font-semibold text-white">
+                                                {formatCurrency(invoice.amount, invoice.currency)}
+                                            </p>
+                                            <NeonButton variant="ghost" size="sm" asChild>
+                                                <a href={getReceiptUrl(invoice.id, 'html')} target="_blank" rel="noopener noreferrer">
+                                                    Ver
+                                                </a>
+                                            </NeonButton>
+                                            <NeonButton variant="ghost" size="sm" asChild className="gap-2">
+                                                <a href={getReceiptUrl(invoice.id, 'pdf')} download>
+                                                    <Download className="w-4 h-4" />
+                                                    PDF
+                                                </a>
+                                            </NeonButton>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </CardContent>
+            </GlowCard>
+        </>
+    );
+}
+
+export default InvoicesPanel;
@@ -5,3 +5,9 @@
 
 export { useUser } from './useUser';
 export { useCredits } from './useCredits';
+export { useApiKeys } from './useApiKeys';
+export { useBilling } from './useBilling';
+export { usePixPayment } from './usePixPayment';
+export { useInvoices } from './useInvoices';
+export { useGenerationJob } from './useGenerationJob';
+export { useProjects } from './useProjects';
@@ -0,0 +1,119 @@
+/**
+ * useApiKeys Hook
+ * List, create and revoke the current user's API keys
+ */
+
+'use client';
+
+import * as React from 'react';
+import useSWR from 'swr';
+import type { CreateApiKeyFormData } from '@/lib/schemas';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ApiKeyItem {
+    id: string;
+    name: string;
+    keyPrefix: string;
+    scopes: Array<'read' | 'write' | 'admin'>;
+    rateLimit: number;
+    isActive: boolean;
+    lastUsedAt: string | null;
+    requestCount: number;
+    expiresAt: string | null;
+    createdAt: string;
+}
+
+interface ApiKeysData {
+    keys: ApiKeyItem[];
+    canCreate: boolean;
+}
+
+interface UseApiKeysReturn {
+    /** Keys, newest first (including revoked ones) */
+    keys: ApiKeyItem[];
+    /** Whether the user's plan allows creating keys */
+    canCreate: boolean;
+    /** Whether data is loading */
+    isLoading: boolean;
+    /** Error if any */
+    error: Error | undefined;
+    /** Create a key; resolves to the full key, shown only once */
+    createKey: (data: CreateApiKeyFormData) => Promise<string>;
+    /** Revoke a key */
+    revokeKey: (id: string) => Promise<void>;
+}
+
+// =============================================================================
+// FETCHER
+// =============================================================================
+
+const fetcher = async (url: string): Promise<ApiKeysData> => {
+    const res = await fetch(url);
+    if (!res.ok) {
+        throw new Error('Failed to fetch API keys');
+    }
+    return res.json();
+};
+
+// =============================================================================
+// HOOK
+// =============================================================================
+
+/**
+ * useApiKeys - API key management for the settings page
+ *
+ * @example
+ * const { keys, canCreate, createKey, revokeKey } = useApiKeys();
+ */
+export function useApiKeys(): UseApiKeysReturn {
+    const { data, error, isLoading, mutate } = useSWR<ApiKeysData>('/api/keys', fetcher, {
+        revalidateOnFocus: true,
+    });
+
+    const createKey = React.useCallback(
+        async (input: CreateApiKeyFormData): Promise<string> => {
+            const res = await fetch('/api/keys', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(input),
+            });
+            const body = await res.json();
+
+            if (!res.ok) {
+                throw new Error(body.error ?? 'Failed to create API key');
+            }
+
+            await mutate();
+            return body.data.key as string;
+        },
+        [mutate]
+    );
+
+    const revokeKey = React.useCallback(
+        async (id: string): Promise<void> => {
+            const res = await fetch(`/api/keys/${id}`, { method: 'DELETE' });
+
+            if (!res.ok) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error ?? 'Failed to revoke API key');
+            }
+
+            await mutate();
+        },
+        [mutate]
+    );
+
+    return {
+        keys: data?.keys ?? [],
+        canCreate: data?.canCreate ?? false,
+        isLoading,
+        error,
+        createKey,
+        revokeKey,
+    };
+}
+
+export default useApiKeys;
@@ -0,0 +1,93 @@
+/**
+ * useBilling Hook
+ * Redirect to Stripe Checkout (plans and credit packs) or the customer portal
+ */
+
+'use client';
+
+import * as React from 'react';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface UseBillingReturn {
+    /** Start a subscription checkout for a plan (redirects to login when signed out) */
+    startCheckout: (planId: string) => Promise<void>;
+    /** Start a one-off checkout for a credit pack */
+    buyCreditPack: (packId: string) => Promise<void>;
+    /** Open the customer portal */
+    openPortal: () => Promise<void>;
+    /** A redirect is in progress */
+    isRedirecting: boolean;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+async function requestRedirectUrl(url: string, body?: unknown): Promise<string | null> {
+    const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (res.status === 401) {
+        return null;
+    }
+
+    const data = await res.json();
+    if (!res.ok || !data.data?.url) {
+        throw new Error(data.error ?? 'Billing request failed');
+    }
+
+    return data.data.url as string;
+}
+
+// =============================================================================
+// HOOK
+// =============================================================================
+
+/**
+ * useBilling - Stripe redirects for the pricing and settings pages
+ */
+export function useBilling(): UseBillingReturn {
+    const [isRedirecting, setIsRedirecting] = React.useState(false);
+
+    const redirect = React.useCallback(async (url: string, body?: unknown) => {
+        setIsRedirecting(true);
+        try {
+            const target = await requestRedirectUrl(url, body);
+            window.location.href =
+                target ?? `/api/auth/login?returnTo=${encodeURIComponent(window.location.pathname)}`;
+        } catch (error) {
+            setIsRedirecting(false);
+            throw error;
+        }
+    }, []);
+
+    const startCheckout = React.useCallback(
+        (planId: string) => redirect('/api/billing/checkout', { planId }),
+        [redirect]
+    );
+
+    const buyCreditPack = React.useCallback(
+        (packId: string) => redirect('/api/billing/packs', { packId }),
+        [redirect]
+    );
+
+    const openPortal = React.useCallback(
+        () => redirect('/api/billing/portal'),
+        [redirect]
+    );
+
+    return {
+        startCheckout,
+        buyCreditPack,
+        openPortal,
+        isRedirecting,
+    };
+}
+
+export default useBilling;
@@ -0,0 +1,179 @@
+/**
+ * useGenerationJob Hook
+ * Start a site generation job and follow its progress events, resuming the
+ * user's running job after a page refresh
+ */
+
+'use client';
+
+import * as React from 'react';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type GenerationPhase =
+    | 'queued'
+    | 'planning'
+    | 'generating'
+    | 'writing'
+    | 'validating'
+    | 'completed'
+    | 'failed';
+
+export interface GenerationJobItem {
+    id: string;
+    projectId: string;
+    projectSlug: string;
+    status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+    phase: GenerationPhase;
+    progress: number;
+    detail: string | null;
+    filesTotal: number;
+    filesWritten: number;
+    model: string;
+    error: string | null;
+    creditsCost: number | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface StartGenerationInput {
+    prompt: string;
+    options?: {
+        framework?: string;
+        styling?: string;
+        features?: string[];
+        theme?: 'light' | 'dark';
+        model?: string;
+    };
+}
+
+interface UseGenerationJobReturn {
+    /** Job being followed (running or just finished) */
+    job: GenerationJobItem | null;
+    /** Start a new generation; resolves once the job is queued */
+    startGeneration: (input: StartGenerationInput) => Promise<void>;
+    /** Stop following the current job */
+    reset: () => void;
+    /** The job is queued or running */
+    isRunning: boolean;
+    /** A running job was picked up on load */
+    isResumed: boolean;
+    /** The job is being created */
+    isStarting: boolean;
+}
+
+// =============================================================================
+// HOOK
+// =============================================================================
+
+/**
+ * useGenerationJob - Generation progress for the create page
+ *
+ * @example
+ * const { job, startGeneration } = useGenerationJob();
+ * await startGeneration({ prompt, options: { framework: 'nextjs' } });
+ */
+export function useGenerationJob(): UseGenerationJobReturn {
+    const [job, setJob] = React.useState<GenerationJobItem | null>(null);
+    const [isResumed, setIsResumed] = React.useState(false);
+    const [isStarting, setIsStarting] = React.useState(false);
+    const sourceRef = React.useRef<EventSource | null>(null);
+
+    const close = React.useCallback(() => {
+        sourceRef.current?.close();
+        sourceRef.current = null;
+    }, []);
+
+    // Follow a job's events; EventSource reconnects by itself on network errors
+    const follow = React.useCallback(
+        (initial: GenerationJobItem) => {
+            close();
+            setJob(initial);
+
+            const source = new EventSource(`/api/generate/jobs/${initial.id}/events`);
+            sourceRef.current = source;
+
+            const update = (event: MessageEvent<string>) => {
+                setJob(JSON.parse(event.data) as GenerationJobItem);
+            };
+            const finish = (event: MessageEvent<string>) => {
+                update(event);
+                close();
+            };
+
+            source.addEventListener('progress', update);
+            source.addEventListener('completed', finish);
+            source.addEventListener('failed', finish);
+        },
+        [close]
+    );
+
+    // Resume the newest running job, if any
+    React.useEffect(() => {
+        let cancelled = false;
+
+        fetch('/api/generate/jobs')
+            .then((res) => (res.ok ? res.json() : null))
+            .then((body) => {
+                const running = (body?.data as GenerationJobItem[] | undefined)?.[0];
+                if (running && !cancelled && !sourceRef.current) {
+                    setIsResumed(true);
+                    follow(running);
+                }
+            })
+            .catch(() => undefined);
+
+        return () => {
+            cancelled = true;
+            close();
+        };
+    }, [follow, close]);
+
+    const startGeneration = React.useCallback(
+        async (input: StartGenerationInput) => {
+            setIsStarting(true);
+            try {
+                const res = await fetch('/api/generate', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(input),
+                });
+
+                if (res.status === 401) {
+                    window.location.href = `/api/auth/login?returnTo=${encodeURIComponent(window.location.pathname)}`;
+                    return;
+                }
+
+                const body = await res.json();
+                if (!res.ok) {
+                    throw new Error(body.error ?? 'Failed to start generation');
+                }
+
+                setIsResumed(false);
+                follow(body.data.job as GenerationJobItem);
+            } finally {
+                setIsStarting(false);
+            }
+        },
+        [follow]
+    );
+
+    const reset = React.useCallback(() => {
+        close();
+        setJob(null);
+        setIsResumed(false);
+    }, [close]);
+
+    return {
+        job,
+        startGeneration,
+        reset,
+        isRunning: job?.status === 'QUEUED' || job?.status === 'RUNNING',
+        isResumed,
+        isStarting,
+    };
+}
+
+export default useGenerationJob;
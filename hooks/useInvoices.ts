@@ -0,0 +1,111 @@
+/**
+ * useInvoices Hook
+ * The user's invoices and the fiscal data (CPF/CNPJ) printed on them
+ */
+
+'use client';
+
+import * as React from 'react';
+import useSWR from 'swr';
+import type { TaxInfoFormData } from '@/lib/schemas';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface InvoiceItem {
+    id: string;
+    number: string;
+    source: 'subscription' | 'credit_pack' | 'plan_prepaid';
+    description: string;
+    amount: number;
+    currency: string;
+    paymentMethod: 'card' | 'pix' | 'boleto';
+    nfseStatus: 'PENDING' | 'EXPORTED' | 'ISSUED';
+    nfseNumber: string | null;
+    issuedAt: string;
+}
+
+interface TaxInfo {
+    legalName: string | null;
+    taxId: string | null;
+}
+
+interface UseInvoicesReturn {
+    /** Invoices, newest first */
+    invoices: InvoiceItem[];
+    /** Saved CPF/CNPJ and legal name */
+    taxInfo: TaxInfo | undefined;
+    /** Whether data is loading */
+    isLoading: boolean;
+    /** Error if any */
+    error: Error | undefined;
+    /** Save CPF/CNPJ and legal name for future invoices */
+    saveTaxInfo: (data: TaxInfoFormData) => Promise<void>;
+    /** Receipt download URL */
+    getReceiptUrl: (id: string, format: 'pdf' | 'html') => string;
+}
+
+// =============================================================================
+// FETCHER
+// =============================================================================
+
+const fetcher = async <T,>(url: string): Promise<T> => {
+    const res = await fetch(url);
+    if (!res.ok) {
+        throw new Error('Failed to fetch billing data');
+    }
+    const body = await res.json();
+    return body.data;
+};
+
+// =============================================================================
+// HOOK
+// =============================================================================
+
+/**
+ * useInvoices - Invoices panel of the settings billing tab
+ *
+ * @example
+ * const { invoices, taxInfo, saveTaxInfo, getReceiptUrl } = useInvoices();
+ */
+export function useInvoices(): UseInvoicesReturn {
+    const invoicesQuery = useSWR<{ invoices: InvoiceItem[] }>('/api/invoices', fetcher);
+    const taxInfoQuery = useSWR<TaxInfo>('/api/billing/tax-info', fetcher);
+
+    const { mutate: mutateTaxInfo } = taxInfoQuery;
+
+    const saveTaxInfo = React.useCallback(
+        async (input: TaxInfoFormData): Promise<void> => {
+            const res = await fetch('/api/billing/tax-info', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(input),
+            });
+            const body = await res.json();
+
+            if (!res.ok) {
+                throw new Error(body.error ?? 'Failed to save tax info');
+            }
+
+            await mutateTaxInfo(body.data, { revalidate: false });
+        },
+        [mutateTaxInfo]
+    );
+
+    const getReceiptUrl = React.useCallback(
+        (id: string, format: 'pdf' | 'html') => `/api/invoices/${id}?format=${format}`,
+        []
+    );
+
+    return {
+        invoices: invoicesQuery.data?.invoices ?? [],
+        taxInfo: taxInfoQuery.data,
+        isLoading: invoicesQuery.isLoading || taxInfoQuery.isLoading,
+        error: invoicesQuery.error ?? taxInfoQuery.error,
+        saveTaxInfo,
+        getReceiptUrl,
+    };
+}
+
+export default useInvoices;
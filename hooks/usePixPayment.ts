@@ -0,0 +1,124 @@
+/**
+ * usePixPayment Hook
+ * Issue a Pix payment and poll its status until it is paid or expires
+ */
+
+'use client';
+
+import * as React from 'react';
+import useSWR, { useSWRConfig } from 'swr';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PaymentItem {
+    id: string;
+    method: 'PIX' | 'BOLETO';
+    status: 'PENDING' | 'PAID' | 'FAILED' | 'EXPIRED' | 'CANCELED';
+    productType: 'pack' | 'plan';
+    productId: string;
+    amount: number;
+    currency: string;
+    pixCode: string | null;
+    pixQrCodeUrl: string | null;
+    expiresAt: string | null;
+    paidAt: string | null;
+}
+
+interface UsePixPaymentReturn {
+    /** Payment being tracked, refreshed while pending */
+    payment: PaymentItem | null;
+    /** Issue a Pix QR code for a credit pack or a plan month */
+    createPixPayment: (productType: PaymentItem['productType'], productId: string) => Promise<void>;
+    /** Stop tracking the current payment */
+    reset: () => void;
+    /** A payment is being created */
+    isCreating: boolean;
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const POLL_INTERVAL_MS = 3000;
+
+// =============================================================================
+// FETCHER
+// =============================================================================
+
+const fetcher = async (url: string): Promise<PaymentItem> => {
+    const res = await fetch(url);
+    if (!res.ok) {
+        throw new Error('Failed to fetch payment');
+    }
+    const body = await res.json();
+    return body.data;
+};
+
+// =============================================================================
+// HOOK
+// =============================================================================
+
+/**
+ * usePixPayment - Pix checkout for the pricing page
+ *
+ * @example
+ * const { payment, createPixPayment } = usePixPayment();
+ * await createPixPayment('pack', 'pack-200');
+ */
+export function usePixPayment(): UsePixPaymentReturn {
+    const [paymentId, setPaymentId] = React.useState<string | null>(null);
+    const [isCreating, setIsCreating] = React.useState(false);
+
+    const { mutate } = useSWRConfig();
+    const { data } = useSWR<PaymentItem>(
+        paymentId ? `/api/billing/payments/${paymentId}` : null,
+        fetcher,
+        {
+            refreshInterval: (latest) => (!latest || latest.status === 'PENDING' ? POLL_INTERVAL_MS : 0),
+            revalidateOnFocus: true,
+        }
+    );
+
+    const createPixPayment = React.useCallback(
+        async (productType: PaymentItem['productType'], productId: string) => {
+            setIsCreating(true);
+            try {
+                const res = await fetch('/api/billing/payments', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ method: 'PIX', productType, productId }),
+                });
+
+                if (res.status === 401) {
+                    window.location.href = `/api/auth/login?returnTo=${encodeURIComponent(window.location.pathname)}`;
+                    return;
+                }
+
+                const body = await res.json();
+                if (!res.ok) {
+                    throw new Error(body.error ?? 'Failed to create payment');
+                }
+
+                const payment = body.data as PaymentItem;
+                await mutate(`/api/billing/payments/${payment.id}`, payment, { revalidate: false });
+                setPaymentId(payment.id);
+            } finally {
+                setIsCreating(false);
+            }
+        },
+        [mutate]
+    );
+
+    const reset = React.useCallback(() => setPaymentId(null), []);
+
+    return {
+        payment: paymentId ? data ?? null : null,
+        createPixPayment,
+        reset,
+        isCreating,
+    };
+}
+
+export default usePixPayment;
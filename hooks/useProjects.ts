@@ -0,0 +1,157 @@
+/**
+ * useProjects Hook
+ * The user's projects (or trash) with filters, and the actions on them
+ */
+
+'use client';
+
+import * as React from 'react';
+import useSWR from 'swr';
+import type { ProjectListQuery } from '@/lib/schemas';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ProjectItem {
+    id: string;
+    name: string;
+    slug: string;
+    description: string | null;
+    status: 'DRAFT' | 'GENERATING' | 'READY' | 'DEPLOYED' | 'ARCHIVED' | 'FAILED';
+    isPublic: boolean;
+    previewUrl: string | null;
+    deployedUrl: string | null;
+    version: number;
+    createdAt: string;
+    updatedAt: string;
+    deletedAt: string | null;
+    purgeAfter: string | null;
+}
+
+interface ProjectListResponse {
+    projects: ProjectItem[];
+    pagination: {
+        page: number;
+        pageSize: number;
+        totalItems: number;
+        totalPages: number;
+        hasNext: boolean;
+        hasPrev: boolean;
+    };
+}
+
+export type ProjectFilters = Partial<ProjectListQuery>;
+
+interface UseProjectsReturn {
+    projects: ProjectItem[];
+    pagination: ProjectListResponse['pagination'] | undefined;
+    /** Whether data is loading */
+    isLoading: boolean;
+    /** Error if any */
+    error: Error | undefined;
+    rename: (id: string, name: string) => Promise<void>;
+    /** Returns the copy */
+    duplicate: (id: string) => Promise<ProjectItem>;
+    /** Move to the trash */
+    trash: (id: string) => Promise<void>;
+    /** Take out of the trash */
+    restore: (id: string) => Promise<void>;
+}
+
+// =============================================================================
+// FETCHER
+// =============================================================================
+
+const fetcher = async <T,>(url: string): Promise<T> => {
+    const res = await fetch(url);
+    if (!res.ok) {
+        throw new Error('Failed to fetch projects');
+    }
+    const body = await res.json();
+    return body.data;
+};
+
+async function send<T>(url: string, method: string, payload?: unknown): Promise<T> {
+    const res = await fetch(url, {
+        method,
+        headers: payload ? { 'Content-Type': 'application/json' } : undefined,
+        body: payload ? JSON.stringify(payload) : undefined,
+    });
+    const body = await res.json();
+
+    if (!res.ok) {
+        throw new Error(body.error ?? 'Request failed');
+    }
+
+    return body.data;
+}
+
+// =============================================================================
+// HOOK
+// =============================================================================
+
+/**
+ * useProjects - Projects page (list and trash)
+ *
+ * @example
+ * const { projects, pagination, duplicate, trash } = useProjects({ search: 'loja', page: 1 });
+ */
+export function useProjects(filters: ProjectFilters = {}): UseProjectsReturn {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+        if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+
+    const { data, error, isLoading, mutate } = useSWR<ProjectListResponse>(
+        `/api/projects?${params.toString()}`,
+        fetcher,
+        { keepPreviousData: true }
+    );
+
+    const rename = React.useCallback(
+        async (id: string, name: string): Promise<void> => {
+            await send(`/api/projects/${id}`, 'PATCH', { name });
+            await mutate();
+        },
+        [mutate]
+    );
+
+    const duplicate = React.useCallback(
+        async (id: string): Promise<ProjectItem> => {
+            const copy = await send<ProjectItem>(`/api/projects/${id}/duplicate`, 'POST', {});
+            await mutate();
+            return copy;
+        },
+        [mutate]
+    );
+
+    const trash = React.useCallback(
+        async (id: string): Promise<void> => {
+            await send(`/api/projects/${id}`, 'DELETE');
+            await mutate();
+        },
+        [mutate]
+    );
+
+    const restore = React.useCallback(
+        async (id: string): Promise<void> => {
+            await send(`/api/projects/${id}/restore`, 'POST');
+            await mutate();
+        },
+        [mutate]
+    );
+
+    return {
+        projects: data?.projects ?? [],
+        pagination: data?.pagination,
+        isLoading,
+        error,
+        rename,
+        duplicate,
+        trash,
+        restore,
+    };
+}
+
+export default useProjects;
@@ -20,6 +20,12 @@ interface Auth0User {
     picture?: string;
 }
 
+interface MeResponse {
+    user: Auth0User | null;
+    /** Access token expiry (ms since epoch) */
+    expiresAt?: number;
+}
+
 interface UseUserReturn {
     user: UserState | null;
     isLoading: boolean;
@@ -28,6 +34,25 @@ interface UseUserReturn {
     refresh: () => Promise<void>;
 }
 
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+/**
+ * Re-check /api/auth/me this long before the session expires so the server
+ * renews it silently (mirrors SESSION_RENEW_BEFORE_MS in lib/auth)
+ */
+const SESSION_REFRESH_LEAD_MS = 4 * 60 * 1000;
+const MIN_REFRESH_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Poll interval derived from the current session expiry (0 = no polling)
+ */
+function getRefreshInterval(data?: MeResponse): number {
+    if (!data?.user || !data.expiresAt) return 0;
+    return Math.max(data.expiresAt - Date.now() - SESSION_REFRESH_LEAD_MS, MIN_REFRESH_INTERVAL_MS);
+}
+
 // =============================================================================
 // FETCHER
 // =============================================================================
@@ -45,12 +70,13 @@ async function fetcher(url: string) {
 export function useUser(): UseUserReturn {
     const { user: storeUser, setUser, clearUser } = useUserStore();
 
-    // Fetch user from API
-    const { data, error, isLoading, mutate } = useSWR<{ user: Auth0User | null }>(
+    // Fetch user from API; polling just before expiry renews the session cookie
+    const { data, error, isLoading, mutate } = useSWR<MeResponse>(
         '/api/auth/me',
         fetcher,
         {
-            revalidateOnFocus: false,
+            refreshInterval: getRefreshInterval,
+            revalidateOnFocus: true,
             revalidateOnReconnect: true,
             dedupingInterval: 60000, // 1 minute
         }
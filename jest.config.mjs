@@ -0,0 +1,19 @@
+import nextJest from 'next/jest.js';
+
+const createJestConfig = nextJest({
+    // Load next.config.mjs and .env files in the test environment
+    dir: './',
+});
+
+/** @type {import('jest').Config} */
+const config = {
+    // Route handlers and lib modules run on the server
+    testEnvironment: 'node',
+    testMatch: ['<rootDir>/__tests__/**/*.test.ts'],
+    moduleNameMapper: {
+        '^@/(.*)$': '<rootDir>/$1',
+    },
+    clearMocks: true,
+};
+
+export default createJestConfig(config);
@@ -0,0 +1,194 @@
+/**
+ * AI Client Modes
+ * AI_CLIENT_MODE selects how the AI client reaches providers:
+ * - live: call the model's provider
+ * - mock: answer with the deterministic fake provider
+ * - record: call the provider and save each request/response pair as a fixture
+ * - replay: answer from fixtures only, failing on requests that were never recorded
+ * Fixtures are JSON files in AI_FIXTURES_DIR (default `fixtures/ai`), named by
+ * operation and a hash of the model and request. Streams keep every chunk.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { AiProvider } from './aiProviders';
+import type { ChatUsage } from './emergent';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AiClientMode = 'live' | 'mock' | 'record' | 'replay';
+
+type FixtureOperation = 'chat' | 'stream' | 'generate' | 'iterate' | 'embed';
+
+interface Fixture<T = unknown> {
+    operation: FixtureOperation;
+    model: string;
+    request: unknown;
+    response: T;
+    recordedAt: string;
+}
+
+/**
+ * Recorded stream: the chunks in order, then the usage the generator returned
+ */
+interface StreamFixture {
+    chunks: string[];
+    usage: ChatUsage;
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const AI_CLIENT_MODES: AiClientMode[] = ['live', 'mock', 'record', 'replay'];
+
+/**
+ * Mode from AI_CLIENT_MODE (default: live)
+ */
+export function getAiClientMode(): AiClientMode {
+    const mode = process.env.AI_CLIENT_MODE?.toLowerCase();
+
+    if (!mode) return 'live';
+    if (AI_CLIENT_MODES.includes(mode as AiClientMode)) return mode as AiClientMode;
+
+    throw new Error(`Invalid AI_CLIENT_MODE "${mode}". Must be: ${AI_CLIENT_MODES.join(', ')}`);
+}
+
+function getFixturesDir(): string {
+    return path.resolve(process.cwd(), process.env.AI_FIXTURES_DIR ?? 'fixtures/ai');
+}
+
+// =============================================================================
+// FIXTURE FILES
+// =============================================================================
+
+/**
+ * JSON with sorted object keys, so equal requests hash equally
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function getFixturePath(operation: FixtureOperation, model: string, request: unknown): string {
+    const hash = createHash('sha256')
+        .update(stableStringify({ operation, model, request }))
+        .digest('hex')
+        .slice(0, 16);
+
+    return path.join(getFixturesDir(), `${operation}-${hash}.json`);
+}
+
+async function saveFixture<T>(operation: FixtureOperation, model: string, request: unknown, response: T): Promise<void> {
+    const fixture: Fixture<T> = { operation, model, request, response, recordedAt: new Date().toISOString() };
+    const file = getFixturePath(operation, model, request);
+
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+}
+
+async function loadFixture<T>(operation: FixtureOperation, model: string, request: unknown): Promise<T> {
+    const file = getFixturePath(operation, model, request);
+
+    try {
+        const fixture = JSON.parse(await readFile(file, 'utf8')) as Fixture<T>;
+        return fixture.response;
+    } catch (error) {
+        if ((error as { code?: string } | null)?.code === 'ENOENT') {
+            throw new Error(`No AI fixture for this ${operation} request (${path.relative(process.cwd(), file)}); record it with AI_CLIENT_MODE=record`);
+        }
+        throw error;
+    }
+}
+
+// =============================================================================
+// PROVIDER WRAPPERS
+// =============================================================================
+
+/**
+ * Call the provider and save every successful response as a fixture
+ */
+export function recordingProvider(provider: AiProvider): AiProvider {
+    return {
+        type: provider.type,
+
+        async chatComplete(config, request, options) {
+            const response = await provider.chatComplete(config, request, options);
+            await saveFixture('chat', request.model, request, response);
+            return response;
+        },
+
+        async *chatStream(config, request, options) {
+            const chunks: string[] = [];
+            const stream = provider.chatStream(config, request, options);
+
+            let next = await stream.next();
+            while (!next.done) {
+                chunks.push(next.value);
+                yield next.value;
+                next = await stream.next();
+            }
+
+            const fixture: StreamFixture = { chunks, usage: next.value };
+            await saveFixture('stream', request.model, request, fixture);
+            return next.value;
+        },
+
+        async generate(config, request, model, options) {
+            const response = await provider.generate(config, request, model, options);
+            await saveFixture('generate', model, request, response);
+            return response;
+        },
+
+        async iterate(config, request, options) {
+            const response = await provider.iterate(config, request, options);
+            await saveFixture('iterate', request.model, request, response);
+            return response;
+        },
+
+        async embed(config, request, options) {
+            const response = await provider.embed(config, request, options);
+            await saveFixture('embed', request.model, request, response);
+            return response;
+        },
+    };
+}
+
+/**
+ * Answer from recorded fixtures without touching the network
+ */
+export function replayProvider(provider: AiProvider): AiProvider {
+    return {
+        type: provider.type,
+
+        chatComplete: (_config, request) => loadFixture('chat', request.model, request),
+
+        async *chatStream(_config, request, options) {
+            const fixture = await loadFixture<StreamFixture>('stream', request.model, request);
+
+            for (const chunk of fixture.chunks) {
+                options?.signal?.throwIfAborted();
+                yield chunk;
+            }
+
+            return fixture.usage;
+        },
+
+        generate: (_config, request, model) => loadFixture('generate', model, request),
+
+        iterate: (_config, request) => loadFixture('iterate', request.model, request),
+
+        embed: (_config, request) => loadFixture('embed', request.model, request),
+    };
+}
@@ -0,0 +1,263 @@
+/**
+ * AI Models
+ * Registry of the models the AI client can route to. Built-in Emergent models
+ * come from constants; providers and extra models are configured by admins in
+ * the `ai` SystemSetting. Models added there are "Custom AI Models", available
+ * only to plans that include that feature.
+ */
+
+import { prisma } from './prisma';
+import { PLANS, CHAT_MODEL_PRICING, DEFAULT_CHAT_MODEL } from './constants';
+import { aiSettingsSchema, type AiSettingsData } from './schemas';
+import { getDefaultEmergentConfig, type AiProviderConfig } from './aiProviders';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AiCapability = 'chat' | 'generate' | 'embed';
+
+/**
+ * Credits per 1K tokens
+ */
+export interface ModelPricing {
+    prompt: number;
+    completion: number;
+}
+
+export interface ResolvedModel {
+    id: string;
+    label: string;
+    provider: AiProviderConfig;
+    /** Model name sent to the provider */
+    upstreamModel: string;
+    capabilities: AiCapability[];
+    pricing: ModelPricing;
+    /** Configured in SystemSetting rather than built in */
+    custom: boolean;
+}
+
+export type ModelResolution =
+    | { success: true; model: ResolvedModel }
+    | { success: false; reason: 'unknown_model' | 'plan_not_allowed' };
+
+interface ModelSubject {
+    planId: string;
+    isAdmin: boolean;
+}
+
+type ModelSettings = AiSettingsData['models'][string];
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+export const AI_SETTINGS_KEY = 'ai';
+
+/** Settings are re-read from the database at most this often per instance */
+const SETTINGS_TTL_MS = 30_000;
+
+const CUSTOM_MODELS_FEATURE = 'Custom AI Models';
+
+const BUILT_IN_MODELS: Record<string, ModelSettings> = {
+    'emergent-1': {
+        provider: 'emergent',
+        label: 'Emergent 1',
+        capabilities: ['chat', 'generate'],
+        pricing: CHAT_MODEL_PRICING['emergent-1'],
+        enabled: true,
+    },
+    'emergent-1-mini': {
+        provider: 'emergent',
+        label: 'Emergent 1 Mini',
+        capabilities: ['chat'],
+        pricing: CHAT_MODEL_PRICING['emergent-1-mini'],
+        enabled: true,
+    },
+    'emergent-embed-1': {
+        provider: 'emergent',
+        label: 'Emergent Embeddings',
+        capabilities: ['embed'],
+        enabled: true,
+    },
+};
+
+const BUILT_IN_DEFAULTS: Record<AiCapability, string> = {
+    chat: DEFAULT_CHAT_MODEL,
+    generate: 'emergent-1',
+    embed: 'emergent-embed-1',
+};
+
+// =============================================================================
+// SETTINGS
+// =============================================================================
+
+let cachedSettings: { value: AiSettingsData; expiresAt: number } | null = null;
+
+const EMPTY_SETTINGS: AiSettingsData = { providers: {}, models: {}, defaults: {} };
+
+/**
+ * Admin-configured providers and models. Invalid settings are ignored
+ * (built-ins only) rather than breaking every AI request.
+ */
+export async function getAiSettings(): Promise<AiSettingsData> {
+    if (cachedSettings && cachedSettings.expiresAt > Date.now()) {
+        return cachedSettings.value;
+    }
+
+    let value = EMPTY_SETTINGS;
+
+    try {
+        const setting = await prisma.systemSetting.findUnique({ where: { key: AI_SETTINGS_KEY } });
+        if (setting) {
+            const parsed = aiSettingsSchema.safeParse(setting.value);
+            if (parsed.success) {
+                value = parsed.data;
+            } else {
+                console.error('[AI Models] Invalid AI settings, using built-in models:', parsed.error.format());
+            }
+        }
+    } catch (error) {
+        console.error('[AI Models] Error loading AI settings:', error);
+    }
+
+    cachedSettings = { value, expiresAt: Date.now() + SETTINGS_TTL_MS };
+    return value;
+}
+
+/**
+ * Drop the cached settings (after an admin update)
+ */
+export function invalidateAiSettings(): void {
+    cachedSettings = null;
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+function resolveProvider(id: string, settings: AiSettingsData): AiProviderConfig | null {
+    const configured = settings.providers[id];
+    const emergent = getDefaultEmergentConfig();
+
+    if (!configured) {
+        if (id === 'emergent') return emergent;
+        if (id === 'fake') return { id, type: 'fake', baseUrl: '', apiKey: '', timeoutMs: emergent.timeoutMs };
+        return null;
+    }
+
+    const baseUrl = (configured.baseUrl ?? (configured.type === 'emergent' ? emergent.baseUrl : '')).replace(/\/+$/, '');
+
+    // The platform key only goes to the Emergent API itself; any other host
+    // must name its own key, or it could collect EMERGENT_API_KEY
+    const isEmergentApi = configured.type === 'emergent' && baseUrl === emergent.baseUrl.replace(/\/+$/, '');
+    const apiKey = configured.apiKeyEnv
+        ? process.env[configured.apiKeyEnv] ?? ''
+        : isEmergentApi ? emergent.apiKey : '';
+
+    return {
+        id,
+        type: configured.type,
+        baseUrl,
+        apiKey,
+        timeoutMs: configured.timeoutMs ?? emergent.timeoutMs,
+        headers: configured.headers,
+    };
+}
+
+function toResolvedModel(id: string, settings: AiSettingsData): ResolvedModel | null {
+    const model = settings.models[id] ?? BUILT_IN_MODELS[id];
+    if (!model || !model.enabled) return null;
+
+    const provider = resolveProvider(model.provider, settings);
+    if (!provider) return null;
+
+    return {
+        id,
+        label: model.label ?? id,
+        provider,
+        upstreamModel: model.upstreamModel ?? id,
+        capabilities: model.capabilities,
+        pricing: model.pricing ?? CHAT_MODEL_PRICING[DEFAULT_CHAT_MODEL],
+        custom: !(id in BUILT_IN_MODELS),
+    };
+}
+
+/**
+ * Model by id (or the default for the capability), without plan checks
+ */
+export async function getModel(id: string | undefined, capability: AiCapability): Promise<ResolvedModel | null> {
+    const settings = await getAiSettings();
+    const candidates = id
+        ? [id]
+        : [settings.defaults[capability], BUILT_IN_DEFAULTS[capability]].filter((c): c is string => Boolean(c));
+
+    // A misconfigured default falls back to the built-in one
+    for (const candidate of candidates) {
+        const model = toResolvedModel(candidate, settings);
+        if (model?.capabilities.includes(capability)) return model;
+    }
+
+    return null;
+}
+
+/**
+ * Whether the user's plan grants a model (custom models need the plan feature)
+ */
+export function canUseModel(user: ModelSubject, model: ResolvedModel): boolean {
+    if (!model.custom || user.isAdmin) return true;
+
+    const plan = PLANS.find((p) => p.id === user.planId);
+    return Boolean(plan?.features.some((feature) => feature.name === CUSTOM_MODELS_FEATURE && feature.included));
+}
+
+/**
+ * Resolve a model requested by a user
+ */
+export async function resolveModel(
+    user: ModelSubject,
+    id: string | undefined,
+    capability: AiCapability
+): Promise<ModelResolution> {
+    const model = await getModel(id, capability);
+
+    if (!model) {
+        return { success: false, reason: 'unknown_model' };
+    }
+
+    if (!canUseModel(user, model)) {
+        // A custom default model must not lock out plans without custom models
+        if (!id) {
+            const fallback = await getModel(BUILT_IN_DEFAULTS[capability], capability);
+            if (fallback) return { success: true, model: fallback };
+        }
+        return { success: false, reason: 'plan_not_allowed' };
+    }
+
+    return { success: true, model };
+}
+
+/**
+ * Models a user can pick, with the default of each capability
+ */
+export async function listModels(user: ModelSubject): Promise<{
+    models: Array<Pick<ResolvedModel, 'id' | 'label' | 'capabilities' | 'pricing' | 'custom'>>;
+    defaults: Record<AiCapability, string>;
+}> {
+    const settings = await getAiSettings();
+    const ids = new Set([...Object.keys(BUILT_IN_MODELS), ...Object.keys(settings.models)]);
+
+    const models = [...ids]
+        .map((id) => toResolvedModel(id, settings))
+        .filter((model): model is ResolvedModel => model !== null && canUseModel(user, model))
+        .map(({ id, label, capabilities, pricing, custom }) => ({ id, label, capabilities, pricing, custom }));
+
+    return {
+        models,
+        defaults: {
+            chat: settings.defaults.chat ?? BUILT_IN_DEFAULTS.chat,
+            generate: settings.defaults.generate ?? BUILT_IN_DEFAULTS.generate,
+            embed: settings.defaults.embed ?? BUILT_IN_DEFAULTS.embed,
+        },
+    };
+}
@@ -0,0 +1,970 @@
+/**
+ * AI Providers
+ * Backends behind the AI client (lib/emergent): the Emergent API, any
+ * OpenAI-compatible endpoint, and a deterministic local fake. Each provider
+ * implements chat, streaming chat, site generation and embeddings.
+ */
+
+import { EMERGENT_CONFIG } from './constants';
+import { projectPatchSchema, type GenerateRequest, type ProjectPatch } from './schemas';
+import type {
+    ChatCompletionRequest,
+    ChatCompletionResponse,
+    ChatUsage,
+    EmbeddingRequest,
+    EmbeddingResponse,
+    IterationRequest,
+    AiRequestOptions,
+} from './emergent';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AiProviderType = 'emergent' | 'openai' | 'fake';
+
+/**
+ * Connection settings of a configured provider (see lib/aiModels)
+ */
+export interface AiProviderConfig {
+    id: string;
+    type: AiProviderType;
+    baseUrl: string;
+    apiKey: string;
+    timeoutMs: number;
+    headers?: Record<string, string>;
+}
+
+/**
+ * Files produced by a provider for a generation request
+ */
+export interface ProviderGeneration {
+    files: Record<string, string>;
+    preview?: string;
+}
+
+/**
+ * Requests reaching a provider always name the upstream model
+ */
+export type ProviderChatRequest = ChatCompletionRequest & { model: string };
+export type ProviderEmbeddingRequest = EmbeddingRequest & { model: string };
+export type ProviderIterationRequest = IterationRequest & { model: string };
+
+/**
+ * Patch produced by a provider for an iteration request
+ */
+export type ProviderIteration = ProjectPatch & { usage: ChatUsage };
+
+export interface AiProvider {
+    type: AiProviderType;
+    chatComplete(
+        config: AiProviderConfig,
+        request: ProviderChatRequest,
+        options?: AiRequestOptions
+    ): Promise<ChatCompletionResponse>;
+    /** Yields content chunks and returns the token usage when the stream ends */
+    chatStream(
+        config: AiProviderConfig,
+        request: ProviderChatRequest,
+        options?: AiRequestOptions
+    ): AsyncGenerator<string, ChatUsage, undefined>;
+    /** Throws when the provider cannot produce files */
+    generate(
+        config: AiProviderConfig,
+        request: GenerateRequest,
+        model: string,
+        options?: AiRequestOptions
+    ): Promise<ProviderGeneration>;
+    /** Throws when the provider cannot produce a valid patch */
+    iterate(
+        config: AiProviderConfig,
+        request: ProviderIterationRequest,
+        options?: AiRequestOptions
+    ): Promise<ProviderIteration>;
+    embed(
+        config: AiProviderConfig,
+        request: ProviderEmbeddingRequest,
+        options?: AiRequestOptions
+    ): Promise<EmbeddingResponse>;
+}
+
+/**
+ * OpenAI wire format (chat completions, embeddings)
+ */
+interface OpenAiChatResponse {
+    id: string;
+    choices: Array<{
+        index: number;
+        message: { role: 'assistant'; content: string | null };
+        finish_reason: string | null;
+    }>;
+    usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+interface OpenAiEmbeddingResponse {
+    data: Array<{ index: number; embedding: number[] }>;
+    usage?: { prompt_tokens: number };
+}
+
+// =============================================================================
+// TOKEN COUNTING
+// =============================================================================
+
+/**
+ * Approximate token count (~4 characters per token).
+ * Used when the API does not report usage.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Approximate prompt tokens for a message list, including per-message overhead
+ */
+export function countMessageTokens(messages: ChatCompletionRequest['messages']): number {
+    return messages.reduce((sum, message) => sum + estimateTokens(message.content) + 4, 0);
+}
+
+export function buildUsage(promptTokens: number, completionTokens: number): ChatUsage {
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+/**
+ * Error returned by an AI provider's HTTP API
+ */
+export class AiProviderError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number,
+        public readonly details: unknown,
+        /** From the provider's Retry-After header, or until an open circuit closes */
+        public readonly retryAfterMs?: number
+    ) {
+        super(message);
+        this.name = 'AiProviderError';
+    }
+}
+
+// =============================================================================
+// CIRCUIT BREAKER
+// =============================================================================
+
+interface CircuitState {
+    failures: number;
+    /** Requests fail fast until this time (ms); 0 while closed */
+    openUntil: number;
+    /** Half-open: one trial request is in flight */
+    probing: boolean;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function getCircuitKey(config: AiProviderConfig): string {
+    return `${config.id}:${config.baseUrl}`;
+}
+
+/**
+ * Fail fast while the provider's circuit is open. After the cooldown a single
+ * trial request goes through (half-open); its outcome closes or re-opens it.
+ */
+function enterCircuit(config: AiProviderConfig): void {
+    const circuit = circuits.get(getCircuitKey(config));
+    if (!circuit || circuit.openUntil === 0) return;
+
+    const now = Date.now();
+    if (now < circuit.openUntil || circuit.probing) {
+        throw new AiProviderError(
+            `Provider "${config.id}" is temporarily unavailable`,
+            503,
+            { circuit: 'open' },
+            Math.max(0, circuit.openUntil - now)
+        );
+    }
+
+    circuit.probing = true;
+}
+
+function recordSuccess(config: AiProviderConfig): void {
+    circuits.delete(getCircuitKey(config));
+}
+
+/**
+ * A cancelled trial request proves nothing; let the next one probe
+ */
+function releaseProbe(config: AiProviderConfig): void {
+    const circuit = circuits.get(getCircuitKey(config));
+    if (circuit) circuit.probing = false;
+}
+
+function recordFailure(config: AiProviderConfig): void {
+    const key = getCircuitKey(config);
+    const circuit = circuits.get(key) ?? { failures: 0, openUntil: 0, probing: false };
+    const { failureThreshold, cooldownMs } = EMERGENT_CONFIG.circuitBreaker;
+
+    circuit.failures++;
+    if (circuit.probing || circuit.failures >= failureThreshold) {
+        circuit.openUntil = Date.now() + cooldownMs;
+        circuit.probing = false;
+        console.warn(`[AI Providers] Circuit opened for "${config.id}" after ${circuit.failures} failures`);
+    }
+
+    circuits.set(key, circuit);
+}
+
+// =============================================================================
+// RETRIES
+// =============================================================================
+
+/**
+ * Upstream is at fault: timeouts, network errors and 5xx (counted by the breaker)
+ */
+function isUpstreamFailure(error: Error): boolean {
+    return error instanceof AiProviderError ? error.status >= 500 : true;
+}
+
+/**
+ * Worth another attempt: upstream failures plus 408 and 429
+ */
+function isRetryable(error: Error): boolean {
+    return isUpstreamFailure(error)
+        || (error instanceof AiProviderError && (error.status === 408 || error.status === 429));
+}
+
+/**
+ * Delay before the next attempt: Retry-After when the provider sent one,
+ * otherwise exponential backoff with jitter. Null when the wait is too long.
+ */
+function getRetryDelay(attempt: number, error: Error): number | null {
+    const { retryDelay, maxRetryDelay } = EMERGENT_CONFIG;
+
+    if (error instanceof AiProviderError && error.retryAfterMs !== undefined) {
+        return error.retryAfterMs <= maxRetryDelay ? error.retryAfterMs : null;
+    }
+
+    const backoff = Math.min(maxRetryDelay, retryDelay * Math.pow(2, attempt));
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+/**
+ * Retry-After header (seconds or HTTP date) in ms
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// =============================================================================
+// HTTP HELPERS
+// =============================================================================
+
+function buildHeaders(config: AiProviderConfig): Record<string, string> {
+    return {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
+        'X-Client': 'plataforma-ia-saas',
+        'X-Client-Version': '1.0.0',
+        ...config.headers,
+    };
+}
+
+async function toProviderError(response: Response): Promise<AiProviderError> {
+    const errorData = await response.json().catch(() => ({}));
+
+    return new AiProviderError(
+        errorData.message ?? errorData.error?.message ?? `HTTP ${response.status}`,
+        response.status,
+        errorData,
+        parseRetryAfter(response.headers.get('retry-after'))
+    );
+}
+
+/**
+ * POST to the provider and read the response with `read`. Each attempt has its
+ * own deadline (config.timeoutMs); failed attempts are retried with backoff.
+ * The caller's signal cancels the upstream request at any point, including
+ * after `read` returns (e.g. while a stream body is consumed).
+ */
+async function requestWithRetry<T>(
+    config: AiProviderConfig,
+    endpoint: string,
+    body: unknown,
+    options: AiRequestOptions,
+    read: (response: Response) => Promise<T>
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        enterCircuit(config);
+
+        const deadline = new AbortController();
+        const timeoutId = setTimeout(() => deadline.abort(), config.timeoutMs);
+        const signal = options.signal
+            ? AbortSignal.any([options.signal, deadline.signal])
+            : deadline.signal;
+
+        try {
+            const response = await fetch(`${config.baseUrl}${endpoint}`, {
+                method: 'POST',
+                headers: buildHeaders(config),
+                body: JSON.stringify(body),
+                signal,
+            });
+
+            if (!response.ok) {
+                throw await toProviderError(response);
+            }
+
+            const result = await read(response);
+            recordSuccess(config);
+            return result;
+        } catch (error) {
+            // Cancelled by the caller: no retry, and not the provider's fault
+            if (options.signal?.aborted) {
+                releaseProbe(config);
+                throw options.signal.reason ?? error;
+            }
+
+            const failure = deadline.signal.aborted
+                ? new AiProviderError(`Request timed out after ${config.timeoutMs} ms`, 504, null)
+                : error instanceof Error ? error : new Error(String(error));
+
+            // Any other answer (4xx) shows the provider is up
+            if (isUpstreamFailure(failure)) {
+                recordFailure(config);
+            } else {
+                recordSuccess(config);
+            }
+
+            const delay = attempt < EMERGENT_CONFIG.maxRetries && isRetryable(failure)
+                ? getRetryDelay(attempt, failure)
+                : null;
+            if (delay === null) {
+                throw failure;
+            }
+
+            await sleep(delay, options.signal);
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+}
+
+/**
+ * POST a JSON request and parse the JSON response
+ */
+function postJson<T>(
+    config: AiProviderConfig,
+    endpoint: string,
+    body: unknown,
+    options: AiRequestOptions = {}
+): Promise<T> {
+    return requestWithRetry(config, endpoint, body, options, (response) => response.json() as Promise<T>);
+}
+
+/**
+ * Next chunk of a stream, failing when the provider goes quiet for timeoutMs
+ */
+async function readWithTimeout(
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+    timeoutMs: number
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(
+            () => reject(new AiProviderError(`Stream idle for ${timeoutMs} ms`, 504, null)),
+            timeoutMs
+        );
+    });
+
+    try {
+        return await Promise.race([reader.read(), timeout]);
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+/**
+ * Stream an OpenAI-style chat completion (server-sent `data:` lines).
+ * Connecting is retried like any request; once chunks flow, each read has
+ * its own deadline and the upstream request is cancelled when the consumer
+ * stops early or the caller's signal aborts.
+ */
+async function* streamChatCompletion(
+    config: AiProviderConfig,
+    request: ProviderChatRequest,
+    options: AiRequestOptions = {}
+): AsyncGenerator<string, ChatUsage, undefined> {
+    const reader = await requestWithRetry(config, '/chat/completions', {
+        messages: request.messages,
+        model: request.model,
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+    }, options, async (response) => {
+        const body = response.body?.getReader();
+        if (!body) {
+            throw new Error('No response body');
+        }
+        return body;
+    });
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let completion = '';
+    let reportedUsage: ChatUsage | null = null;
+    let finished = false;
+
+    try {
+        stream: while (true) {
+            let chunk: ReadableStreamReadResult<Uint8Array>;
+            try {
+                chunk = await readWithTimeout(reader, config.timeoutMs);
+            } catch (error) {
+                if (options.signal?.aborted) throw options.signal.reason ?? error;
+                if (error instanceof AiProviderError) recordFailure(config);
+                throw error;
+            }
+
+            const { done, value } = chunk;
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+
+            for (const line of lines) {
+                if (line.startsWith('data: ')) {
+                    const data = line.slice(6);
+                    if (data === '[DONE]') break stream;
+
+                    try {
+                        const parsed = JSON.parse(data) as {
+                            choices?: Array<{
+                                delta?: { content?: string };
+                            }>;
+                            usage?: {
+                                prompt_tokens: number;
+                                completion_tokens: number;
+                            };
+                        };
+                        const content = parsed.choices?.[0]?.delta?.content;
+                        if (content) {
+                            completion += content;
+                            yield content;
+                        }
+                        // Sent in the final chunk when include_usage is honoured
+                        if (parsed.usage) {
+                            reportedUsage = buildUsage(
+                                parsed.usage.prompt_tokens,
+                                parsed.usage.completion_tokens
+                            );
+                        }
+                    } catch {
+                        // Ignore parse errors in stream
+                    }
+                }
+            }
+        }
+        finished = true;
+    } finally {
+        // Stop the upstream generation when we did not read it to the end
+        if (!finished) {
+            await reader.cancel().catch(() => undefined);
+        }
+    }
+
+    return reportedUsage ?? buildUsage(
+        countMessageTokens(request.messages),
+        estimateTokens(completion)
+    );
+}
+
+async function embedOpenAi(
+    config: AiProviderConfig,
+    request: ProviderEmbeddingRequest,
+    options?: AiRequestOptions
+): Promise<EmbeddingResponse> {
+    const response = await postJson<OpenAiEmbeddingResponse>(config, '/embeddings', {
+        model: request.model,
+        input: request.input,
+    }, options);
+
+    return {
+        model: request.model,
+        embeddings: [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding),
+        usage: {
+            promptTokens: response.usage?.prompt_tokens
+                ?? request.input.reduce((sum, text) => sum + estimateTokens(text), 0),
+        },
+    };
+}
+
+// =============================================================================
+// ITERATION
+// =============================================================================
+
+const ITERATION_SYSTEM_PROMPT = `Você modifica projetos web existentes conforme a instrução do usuário. Responda apenas com um objeto JSON no formato {"summary": "resumo das alterações", "changes": [{"action": "create" | "update" | "delete", "path": "caminho/do/arquivo", "content": "conteúdo completo do arquivo"}]}, sem texto fora do JSON. Inclua só os arquivos alterados; em create e update envie o arquivo inteiro; delete não leva content.`;
+
+function buildIterationMessages(request: ProviderIterationRequest): ChatCompletionRequest['messages'] {
+    const files = Object.entries(request.files)
+        .map(([path, content]) => `=== ${path} ===\n${content}`)
+        .join('\n\n');
+
+    return [
+        { role: 'system', content: ITERATION_SYSTEM_PROMPT },
+        { role: 'user', content: `Arquivos do projeto:\n\n${files}\n\nInstrução: ${request.instruction}` },
+    ];
+}
+
+/**
+ * Iteration as a JSON-mode chat completion on the provider's own chat endpoint
+ */
+async function iterateWithChat(
+    provider: AiProvider,
+    config: AiProviderConfig,
+    request: ProviderIterationRequest,
+    options?: AiRequestOptions
+): Promise<ProviderIteration> {
+    const response = await provider.chatComplete(config, {
+        model: request.model,
+        messages: buildIterationMessages(request),
+        temperature: 0.2,
+        maxTokens: request.maxTokens,
+        responseFormat: 'json',
+    }, options);
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(response.choices[0]?.message.content ?? '');
+    } catch {
+        throw new Error('Model returned invalid JSON');
+    }
+
+    const patch = projectPatchSchema.safeParse(parsed);
+    if (!patch.success) {
+        throw new Error('Model returned an invalid patch');
+    }
+
+    return { ...patch.data, usage: response.usage };
+}
+
+// =============================================================================
+// EMERGENT
+// =============================================================================
+
+/**
+ * Emergent API: OpenAI-style chat and embeddings plus a native /generate endpoint
+ */
+export const emergentProvider: AiProvider = {
+    type: 'emergent',
+
+    async chatComplete(config, request, options) {
+        const response = await postJson<ChatCompletionResponse>(config, '/chat/completions', {
+            messages: request.messages,
+            model: request.model,
+            temperature: request.temperature ?? 0.7,
+            max_tokens: request.maxTokens,
+            ...(request.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+        }, options);
+
+        // Fall back to an estimate when the API omits usage
+        return {
+            ...response,
+            usage: response.usage ?? buildUsage(
+                countMessageTokens(request.messages),
+                estimateTokens(response.choices[0]?.message.content ?? '')
+            ),
+        };
+    },
+
+    chatStream: streamChatCompletion,
+
+    async generate(config, request, model, options) {
+        const response = await postJson<{
+            success: boolean;
+            data?: {
+                files?: Record<string, string>;
+                structure?: Record<string, unknown>;
+                preview?: string;
+            };
+            error?: string;
+        }>(config, '/generate', {
+            prompt: request.prompt,
+            options: request.options ?? {},
+            model,
+        }, options);
+
+        if (!response.success || !response.data?.files) {
+            throw new Error(response.error ?? 'Generation failed');
+        }
+
+        return { files: response.data.files, preview: response.data.preview };
+    },
+
+    iterate(config, request, options) {
+        return iterateWithChat(emergentProvider, config, request, options);
+    },
+
+    embed: embedOpenAi,
+};
+
+// =============================================================================
+// OPENAI-COMPATIBLE
+// =============================================================================
+
+const GENERATION_SYSTEM_PROMPT = `Você gera projetos Next.js completos. Responda apenas com um objeto JSON no formato {"files": {"caminho/do/arquivo": "conteúdo"}, "preview": "<html opcional>"}, sem texto fora do JSON.`;
+
+/**
+ * Any endpoint speaking the OpenAI API (OpenAI, Azure, vLLM, Ollama, ...).
+ * Generation is a JSON-mode chat completion.
+ */
+export const openAiCompatibleProvider: AiProvider = {
+    type: 'openai',
+
+    async chatComplete(config, request, options) {
+        const response = await postJson<OpenAiChatResponse>(config, '/chat/completions', {
+            messages: request.messages,
+            model: request.model,
+            temperature: request.temperature ?? 0.7,
+            max_tokens: request.maxTokens,
+            ...(request.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+        }, options);
+
+        const choices = response.choices.map((choice) => ({
+            index: choice.index,
+            message: { role: 'assistant' as const, content: choice.message.content ?? '' },
+            finishReason: choice.finish_reason ?? 'stop',
+        }));
+
+        return {
+            id: response.id,
+            choices,
+            usage: response.usage
+                ? buildUsage(response.usage.prompt_tokens, response.usage.completion_tokens)
+                : buildUsage(
+                    countMessageTokens(request.messages),
+                    estimateTokens(choices[0]?.message.content ?? '')
+                ),
+        };
+    },
+
+    chatStream: streamChatCompletion,
+
+    async generate(config, request, model, options) {
+        const response = await postJson<OpenAiChatResponse>(config, '/chat/completions', {
+            model,
+            temperature: 0.2,
+            response_format: { type: 'json_object' },
+            messages: [
+                { role: 'system', content: GENERATION_SYSTEM_PROMPT },
+                {
+                    role: 'user',
+                    content: `${request.prompt}\n\nOpções: ${JSON.stringify(request.options ?? {})}`,
+                },
+            ],
+        }, options);
+
+        const content = response.choices[0]?.message.content ?? '';
+        let parsed: Partial<ProviderGeneration>;
+        try {
+            parsed = JSON.parse(content) as Partial<ProviderGeneration>;
+        } catch {
+            throw new Error('Model returned invalid JSON');
+        }
+
+        if (!parsed.files || typeof parsed.files !== 'object') {
+            throw new Error('Model returned no files');
+        }
+
+        return { files: parsed.files, preview: parsed.preview };
+    },
+
+    iterate(config, request, options) {
+        return iterateWithChat(openAiCompatibleProvider, config, request, options);
+    },
+
+    embed: embedOpenAi,
+};
+
+// =============================================================================
+// FAKE
+// =============================================================================
+
+const FAKE_EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * FNV-1a hash, the seed of every fake output
+ */
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function fakeReply(request: ChatCompletionRequest): string {
+    const lastMessage = request.messages[request.messages.length - 1];
+
+    return `Olá! Estou processando sua mensagem: "${lastMessage?.content?.slice(0, 30) ?? ''}..."
+
+Esta é uma resposta de **desenvolvimento** simulando a IA.
+
+Em produção, você veria a resposta da IA aparecer palavra por palavra, criando uma experiência mais dinâmica e responsiva.
+
+Posso ajudar você a:
+- 🚀 Criar sites completos
+- 💻 Escrever código
+- 🔧 Debugar problemas
+- 📚 Explicar conceitos
+
+O que você gostaria de fazer?`;
+}
+
+/**
+ * Local provider with no network access: the same input always gives the
+ * same output. Serves every request in mock mode (AI_CLIENT_MODE=mock) and
+ * the models configured with the fake provider.
+ */
+export const fakeProvider: AiProvider = {
+    type: 'fake',
+
+    async chatComplete(_config, request) {
+        const content = fakeReply(request);
+
+        return {
+            id: `fake-${hashString(JSON.stringify(request.messages)).toString(36)}`,
+            choices: [
+                {
+                    index: 0,
+                    message: { role: 'assistant', content },
+                    finishReason: 'stop',
+                },
+            ],
+            usage: buildUsage(countMessageTokens(request.messages), estimateTokens(content)),
+        };
+    },
+
+    async *chatStream(_config, request, options) {
+        const response = fakeReply(request);
+
+        // Simulate streaming by yielding word by word
+        const words = response.split(' ');
+        for (const word of words) {
+            options?.signal?.throwIfAborted();
+            yield word + ' ';
+            await sleep(30, options?.signal);
+        }
+
+        return buildUsage(countMessageTokens(request.messages), estimateTokens(response));
+    },
+
+    async generate(_config, request) {
+        return {
+            files: getFakeSiteFiles(request.prompt),
+            preview: '<html><body>Preview placeholder</body></html>',
+        };
+    },
+
+    async iterate(_config, request) {
+        // Notes the instruction at the top of the main page and in a changelog
+        const target = 'app/page.tsx' in request.files ? 'app/page.tsx' : Object.keys(request.files).sort()[0];
+        const changelog = request.files['CHANGELOG.md'];
+        const changes: ProjectPatch['changes'] = [];
+
+        if (target && target !== 'CHANGELOG.md') {
+            changes.push({
+                action: 'update',
+                path: target,
+                content: `// Alteração solicitada: ${request.instruction.slice(0, 80)}\n${request.files[target]}`,
+            });
+        }
+        changes.push({
+            action: changelog === undefined ? 'create' : 'update',
+            path: 'CHANGELOG.md',
+            content: `${changelog ?? '# Alterações\n'}\n- ${request.instruction}\n`,
+        });
+
+        return {
+            summary: `Alterações simuladas para: "${request.instruction.slice(0, 60)}"`,
+            changes,
+            usage: buildUsage(
+                countMessageTokens(buildIterationMessages(request)),
+                estimateTokens(JSON.stringify(changes))
+            ),
+        };
+    },
+
+    async embed(_config, request) {
+        // Seeded xorshift per input, normalized to unit length
+        const embeddings = request.input.map((text) => {
+            let state = hashString(text) || 1;
+            const vector = Array.from({ length: FAKE_EMBEDDING_DIMENSIONS }, () => {
+                state ^= state << 13;
+                state ^= state >>> 17;
+                state ^= state << 5;
+                return ((state >>> 0) / 0xffffffff) * 2 - 1;
+            });
+            const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+            return vector.map((value) => value / norm);
+        });
+
+        return {
+            model: request.model,
+            embeddings,
+            usage: { promptTokens: request.input.reduce((sum, text) => sum + estimateTokens(text), 0) },
+        };
+    },
+};
+
+/**
+ * Files of the fake generated site
+ */
+function getFakeSiteFiles(prompt: string): Record<string, string> {
+    return {
+        'app/page.tsx': `// Generated from prompt: ${prompt.slice(0, 50)}...
+'use client';
+
+import { useState } from 'react';
+
+export default function HomePage() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-black via-gray-900 to-black">
+      <div className="container mx-auto px-4 py-16">
+        <h1 className="text-5xl font-bold text-center text-white mb-8">
+          <span className="text-transparent bg-clip-text bg-gradient-to-r from-green-400 to-emerald-500">
+            Seu Site Gerado por IA
+          </span>
+        </h1>
+        <p className="text-xl text-gray-400 text-center max-w-2xl mx-auto">
+          Este site foi gerado automaticamente baseado no seu prompt.
+        </p>
+        <div className="mt-12 text-center">
+          <button
+            onClick={() => setCount(c => c + 1)}
+            className="px-8 py-4 bg-gradient-to-r from-green-500 to-emerald-600 text-white font-semibold rounded-xl hover:scale-105 transition-transform"
+          >
+            Cliques: {count}
+          </button>
+        </div>
+      </div>
+    </main>
+  );
+}`,
+        'app/layout.tsx': `import type { Metadata } from 'next';
+import { Inter } from 'next/font/google';
+import './globals.css';
+
+const inter = Inter({ subsets: ['latin'] });
+
+export const metadata: Metadata = {
+  title: 'Site Gerado por IA',
+  description: 'Criado com PlataformaIA',
+};
+
+export default function RootLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <html lang="pt-BR">
+      <body className={inter.className}>{children}</body>
+    </html>
+  );
+}`,
+        'app/globals.css': `@tailwind base;
+@tailwind components;
+@tailwind utilities;
+
+:root {
+  --foreground-rgb: 255, 255, 255;
+  --background-rgb: 0, 0, 0;
+}
+
+body {
+  color: rgb(var(--foreground-rgb));
+  background: rgb(var(--background-rgb));
+}`,
+        'package.json': JSON.stringify({
+            name: 'generated-site',
+            version: '1.0.0',
+            private: true,
+            scripts: {
+                dev: 'next dev',
+                build: 'next build',
+                start: 'next start',
+            },
+            dependencies: {
+                next: '^15.0.0',
+                react: '^19.0.0',
+                'react-dom': '^19.0.0',
+            },
+            devDependencies: {
+                typescript: '^5.0.0',
+                '@types/react': '^19.0.0',
+                tailwindcss: '^3.4.0',
+                autoprefixer: '^10.4.0',
+                postcss: '^8.4.0',
+            },
+        }, null, 2),
+    };
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const PROVIDERS: Record<AiProviderType, AiProvider> = {
+    emergent: emergentProvider,
+    openai: openAiCompatibleProvider,
+    fake: fakeProvider,
+};
+
+export function getAiProvider(type: AiProviderType): AiProvider {
+    return PROVIDERS[type];
+}
+
+/**
+ * Built-in Emergent connection (env), overridable through SystemSetting
+ */
+export function getDefaultEmergentConfig(): AiProviderConfig {
+    return {
+        id: 'emergent',
+        type: 'emergent',
+        baseUrl: EMERGENT_CONFIG.baseUrl,
+        apiKey: process.env.EMERGENT_API_KEY ?? '',
+        timeoutMs: EMERGENT_CONFIG.timeout,
+    };
+}
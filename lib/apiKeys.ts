@@ -0,0 +1,216 @@
+/**
+ * API Key Helpers
+ * Issue, verify and revoke API keys for programmatic access
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { prisma } from './prisma';
+import { PLANS } from './constants';
+import type { CreateApiKeyFormData } from './schemas';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ApiKeyScope = 'read' | 'write' | 'admin';
+
+/**
+ * API key as returned to clients (never includes the hash)
+ */
+export interface ApiKeySummary {
+    id: string;
+    name: string;
+    keyPrefix: string;
+    scopes: ApiKeyScope[];
+    rateLimit: number;
+    isActive: boolean;
+    lastUsedAt: Date | null;
+    requestCount: number;
+    expiresAt: Date | null;
+    createdAt: Date;
+}
+
+/**
+ * Result of a successful key verification
+ */
+export interface VerifiedApiKey {
+    id: string;
+    userId: string;
+    scopes: ApiKeyScope[];
+    rateLimit: number;
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const API_KEY_PREFIX = 'pia_';
+const API_KEY_DISPLAY_LENGTH = 12;
+
+/**
+ * Scopes granted by each scope (admin ⊃ write ⊃ read)
+ */
+const SCOPE_GRANTS: Record<ApiKeyScope, ApiKeyScope[]> = {
+    read: ['read'],
+    write: ['read', 'write'],
+    admin: ['read', 'write', 'admin'],
+};
+
+const API_KEY_SUMMARY_SELECT = {
+    id: true,
+    name: true,
+    keyPrefix: true,
+    scopes: true,
+    rateLimit: true,
+    isActive: true,
+    lastUsedAt: true,
+    requestCount: true,
+    expiresAt: true,
+    createdAt: true,
+} as const;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Hash an API key for storage/lookup.
+ * Keys carry 256 bits of randomness, so a fast hash is sufficient.
+ */
+export function hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a new random API key
+ */
+export function generateApiKey(): string {
+    return `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Check whether granted scopes cover the required one
+ */
+export function hasScope(scopes: readonly string[], required: ApiKeyScope): boolean {
+    return scopes.some((scope) => SCOPE_GRANTS[scope as ApiKeyScope]?.includes(required));
+}
+
+/**
+ * Whether a plan includes the "API access" feature
+ */
+export function planHasApiAccess(planId: string): boolean {
+    const plan = PLANS.find((p) => p.id === planId);
+    return plan?.features.some((feature) => feature.name === 'API access' && feature.included) ?? false;
+}
+
+/**
+ * Extract a bearer API key from an Authorization header value
+ */
+export function parseBearerApiKey(authorization: string | null): string | null {
+    const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+    const token = match?.[1];
+
+    return token?.startsWith(API_KEY_PREFIX) ? token : null;
+}
+
+// =============================================================================
+// KEY MANAGEMENT
+// =============================================================================
+
+/**
+ * Create a new API key. The full key is returned once and only its hash is stored.
+ */
+export async function createApiKey(
+    userId: string,
+    data: CreateApiKeyFormData
+): Promise<{ apiKey: ApiKeySummary; key: string }> {
+    const key = generateApiKey();
+
+    const apiKey = await prisma.apiKey.create({
+        data: {
+            userId,
+            name: data.name,
+            keyHash: hashApiKey(key),
+            keyPrefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+            scopes: data.scopes,
+            expiresAt: data.expiresAt ?? null,
+        },
+        select: API_KEY_SUMMARY_SELECT,
+    });
+
+    return { apiKey: apiKey as ApiKeySummary, key };
+}
+
+/**
+ * List a user's API keys, newest first
+ */
+export async function listApiKeys(userId: string): Promise<ApiKeySummary[]> {
+    const keys = await prisma.apiKey.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        select: API_KEY_SUMMARY_SELECT,
+    });
+
+    return keys as ApiKeySummary[];
+}
+
+/**
+ * Revoke (deactivate) one of a user's API keys
+ * Returns false when the key does not exist or belongs to someone else
+ */
+export async function revokeApiKey(userId: string, keyId: string): Promise<boolean> {
+    const result = await prisma.apiKey.updateMany({
+        where: { id: keyId, userId, isActive: true },
+        data: { isActive: false },
+    });
+
+    return result.count > 0;
+}
+
+// =============================================================================
+// VERIFICATION
+// =============================================================================
+
+/**
+ * Verify a presented API key: it must exist, be active and unexpired,
+ * and its owner's plan must still include API access.
+ * Records usage on success.
+ */
+export async function verifyApiKey(key: string): Promise<VerifiedApiKey | null> {
+    const apiKey = await prisma.apiKey.findUnique({
+        where: { keyHash: hashApiKey(key) },
+        include: { user: { select: { planId: true, role: true, isActive: true } } },
+    });
+
+    if (!apiKey || !apiKey.isActive || !apiKey.user.isActive) {
+        return null;
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() < Date.now()) {
+        return null;
+    }
+
+    if (apiKey.user.role !== 'ADMIN' && !planHasApiAccess(apiKey.user.planId)) {
+        return null;
+    }
+
+    // Usage tracking must not fail the request
+    await prisma.apiKey
+        .update({
+            where: { id: apiKey.id },
+            data: {
+                lastUsedAt: new Date(),
+                requestCount: { increment: 1 },
+            },
+        })
+        .catch((error: unknown) => {
+            console.error('[ApiKeys] Error recording usage:', error);
+        });
+
+    return {
+        id: apiKey.id,
+        userId: apiKey.userId,
+        scopes: apiKey.scopes as ApiKeyScope[],
+        rateLimit: apiKey.rateLimit,
+    };
+}
@@ -3,25 +3,34 @@
  * Server-side authentication utilities
  */
 
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 import { prisma } from './prisma';
+import {
+    hasScope,
+    parseBearerApiKey,
+    verifyApiKey,
+    type ApiKeyScope,
+    type VerifiedApiKey,
+} from './apiKeys';
+import {
+    SESSION_COOKIE_NAME,
+    SESSION_COOKIE_OPTIONS,
+    SESSION_MAX_AGE_SECONDS,
+    seal,
+    sealSession,
+    unseal,
+    unsealSession,
+    type Session,
+    type SessionRole,
+} from './session';
+import { refreshTokens, revokeRefreshToken, timingSafeEqual, TokenRefreshError } from './oauth';
+import { hasUnlimitedCredits } from './entitlements';
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-export interface SessionUser {
-    sub: string;
-    email: string;
-    name: string;
-    picture?: string;
-}
-
-export interface Session {
-    user: SessionUser;
-    accessToken: string;
-    expiresAt: number;
-}
+export type { Session, SessionUser } from './session';
 
 export interface AppUser {
     id: string;
@@ -32,6 +41,42 @@ export interface AppUser {
     credits: number;
     role: string;
     isAdmin: boolean;
+    planId: string;
+    /** Set when the request was authenticated with an API key */
+    apiKey?: VerifiedApiKey;
+}
+
+export interface GetCurrentUserOptions {
+    /**
+     * Accept `Authorization: Bearer` API keys granting this scope.
+     * When omitted only the session cookie is accepted.
+     */
+    apiKeyScope?: ApiKeyScope;
+}
+
+export interface DeductCreditsOptions {
+    /** Retries carrying the same key are charged at most once (`already_charged`) */
+    idempotencyKey?: string;
+    referenceId?: string;
+    referenceType?: string;
+}
+
+export interface DeductCreditsResult {
+    success: boolean;
+    remaining: number;
+    /** Ledger entry for the charge (absent for admins and unlimited plans), or the earlier one on `already_charged` */
+    transactionId?: string;
+    /** `already_charged`: the key was used before, so the operation must not run again */
+    reason?: 'not_found' | 'insufficient_credits' | 'idempotency_conflict' | 'already_charged' | 'error';
+}
+
+/**
+ * A validated session plus whether the cookie must be rewritten
+ */
+export interface ResolvedSession {
+    session: Session;
+    /** Re-sealed with the current secret and/or renewed tokens */
+    changed: boolean;
 }
 
 // =============================================================================
@@ -44,45 +89,268 @@ const ADMIN_EMAILS = (
     .split(',')
     .map((email) => email.trim().toLowerCase());
 
+/**
+ * Resolve the role claim stored in a session.
+ * ADMIN_EMAILS always win; otherwise the database role is used.
+ */
+export async function getSessionRole(email: string): Promise<SessionRole> {
+    if (ADMIN_EMAILS.includes(email.toLowerCase())) {
+        return 'ADMIN';
+    }
+
+    try {
+        const user = await prisma.user.findUnique({
+            where: { email: email.toLowerCase() },
+            select: { role: true },
+        });
+
+        return user?.role ?? 'USER';
+    } catch (error) {
+        console.error('[Auth] Error resolving session role:', error);
+        return 'USER';
+    }
+}
+
 // =============================================================================
 // SESSION HELPERS
 // =============================================================================
 
+/**
+ * Renew access tokens this long before they expire
+ */
+export const SESSION_RENEW_BEFORE_MS = 5 * 60 * 1000; // 5 minutes
+
 /**
  * Get the current session from cookies
+ * Rejects tampered, expired and revoked sessions and renews near-expiry ones
  */
 export async function getSession(): Promise<Session | null> {
     const cookieStore = await cookies();
-    const sessionCookie = cookieStore.get('appSession');
+    const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME);
 
     if (!sessionCookie) {
         return null;
     }
 
+    const resolved = await resolveSession(sessionCookie.value);
+
+    if (!resolved) {
+        return null;
+    }
+
+    if (resolved.changed) {
+        try {
+            cookieStore.set(SESSION_COOKIE_NAME, await sealSession(resolved.session), SESSION_COOKIE_OPTIONS);
+        } catch {
+            // Server Components cannot set cookies; the token row stays the source of truth
+        }
+    }
+
+    return resolved.session;
+}
+
+/**
+ * Validate a sealed session cookie value: signature, expiry, revocation,
+ * and transparent renewal through the stored refresh token
+ */
+export async function resolveSession(cookieValue: string): Promise<ResolvedSession | null> {
+    const unsealed = await unsealSession(cookieValue);
+
+    if (!unsealed || (await isSessionRevoked(unsealed.session.sid))) {
+        return null;
+    }
+
+    const { session, needsRotation } = unsealed;
+
+    if (!session.refreshable || session.expiresAt - Date.now() > SESSION_RENEW_BEFORE_MS) {
+        return { session, changed: needsRotation };
+    }
+
+    const renewed = await renewSession(session);
+    return renewed ? { session: renewed, changed: true } : null;
+}
+
+/**
+ * Store the refresh token for a new session (called from the login callback)
+ */
+export async function storeSessionTokens(
+    session: Session,
+    refreshToken: string
+): Promise<void> {
+    await prisma.authSession.create({
+        data: {
+            sessionId: session.sid,
+            userSub: session.user.sub,
+            refreshToken: await seal(refreshToken),
+            accessToken: await seal(session.accessToken),
+            accessTokenExpiresAt: new Date(session.expiresAt),
+        },
+    });
+}
+
+// Concurrent requests for the same session share one refresh call, since
+// Auth0 rotates refresh tokens and a reused one revokes the whole family
+const pendingRenewals = new Map<string, Promise<Session | null>>();
+
+/**
+ * Renew a session's access token using its stored refresh token.
+ * Returns null when the session cannot be renewed and is already expired.
+ */
+export async function renewSession(session: Session): Promise<Session | null> {
+    const pending = pendingRenewals.get(session.sid);
+    if (pending) {
+        return pending;
+    }
+
+    const renewal = performRenewal(session).finally(() => {
+        pendingRenewals.delete(session.sid);
+    });
+    pendingRenewals.set(session.sid, renewal);
+
+    return renewal;
+}
+
+async function performRenewal(session: Session): Promise<Session | null> {
+    const fallback = session.expiresAt > Date.now() ? session : null;
+
     try {
-        const session = JSON.parse(
-            Buffer.from(sessionCookie.value, 'base64').toString()
-        ) as Session;
+        const stored = await prisma.authSession.findUnique({
+            where: { sessionId: session.sid },
+        });
 
-        // Check if expired
-        if (session.expiresAt < Date.now()) {
+        if (!stored) {
+            return fallback;
+        }
+
+        // Another request (or instance) may have renewed already
+        if (stored.accessTokenExpiresAt.getTime() - Date.now() > SESSION_RENEW_BEFORE_MS) {
+            const accessToken = await unseal<string>(stored.accessToken);
+            if (accessToken) {
+                return {
+                    ...session,
+                    accessToken: accessToken.value,
+                    expiresAt: stored.accessTokenExpiresAt.getTime(),
+                };
+            }
+        }
+
+        const refreshToken = await unseal<string>(stored.refreshToken);
+        if (!refreshToken) {
+            return fallback;
+        }
+
+        const tokens = await refreshTokens(refreshToken.value);
+
+        await prisma.authSession.update({
+            where: { sessionId: session.sid },
+            data: {
+                accessToken: await seal(tokens.accessToken),
+                accessTokenExpiresAt: new Date(tokens.expiresAt),
+                lastRefreshedAt: new Date(),
+                ...(tokens.refreshToken && { refreshToken: await seal(tokens.refreshToken) }),
+            },
+        });
+
+        return {
+            ...session,
+            accessToken: tokens.accessToken,
+            expiresAt: tokens.expiresAt,
+            // Pick up role changes made since login
+            role: await getSessionRole(session.user.email),
+        };
+    } catch (error) {
+        if (error instanceof TokenRefreshError && error.code === 'invalid_grant') {
+            // Refresh token revoked or expired at the issuer: the session is over
+            await prisma.authSession.deleteMany({ where: { sessionId: session.sid } }).catch(() => undefined);
             return null;
         }
 
-        return session;
-    } catch {
-        return null;
+        console.error('[Auth] Error renewing session:', error);
+        return fallback;
+    }
+}
+
+/**
+ * Delete the stored tokens for a session and revoke its refresh token at the issuer
+ */
+export async function destroySessionTokens(sid: string): Promise<void> {
+    const stored = await prisma.authSession.findUnique({ where: { sessionId: sid } });
+    if (!stored) {
+        return;
+    }
+
+    await prisma.authSession.delete({ where: { sessionId: sid } });
+
+    const refreshToken = await unseal<string>(stored.refreshToken);
+    if (refreshToken) {
+        await revokeRefreshToken(refreshToken.value).catch((error) => {
+            console.error('[Auth] Error revoking refresh token:', error);
+        });
     }
 }
 
+/**
+ * Check the server-side revocation list for a session id
+ */
+export async function isSessionRevoked(sid: string): Promise<boolean> {
+    try {
+        const revoked = await prisma.revokedSession.findUnique({
+            where: { sessionId: sid },
+            select: { id: true },
+        });
+
+        return revoked !== null;
+    } catch (error) {
+        // Fail closed: a session we cannot check is not trusted
+        console.error('[Auth] Error checking session revocation:', error);
+        return true;
+    }
+}
+
+/**
+ * Add a session to the revocation list (logout, admin kill-switch)
+ */
+export async function revokeSession(
+    session: Session,
+    reason: string = 'logout'
+): Promise<void> {
+    await prisma.revokedSession.upsert({
+        where: { sessionId: session.sid },
+        update: {},
+        create: {
+            sessionId: session.sid,
+            userSub: session.user.sub,
+            reason,
+            // Keep the entry only as long as the cookie could still be valid
+            expiresAt: new Date(
+                Math.max(session.expiresAt, session.issuedAt + SESSION_MAX_AGE_SECONDS * 1000)
+            ),
+        },
+    });
+}
+
+/**
+ * Remove revocation entries for sessions that have expired anyway
+ */
+export async function purgeExpiredRevocations(): Promise<number> {
+    const result = await prisma.revokedSession.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+    });
+
+    return result.count;
+}
+
 /**
  * Get current user from session and sync with database
+ * Falls back to API key authentication when `apiKeyScope` is given
  */
-export async function getCurrentUser(): Promise<AppUser | null> {
+export async function getCurrentUser(
+    options: GetCurrentUserOptions = {}
+): Promise<AppUser | null> {
     const session = await getSession();
 
     if (!session?.user) {
-        return null;
+        return options.apiKeyScope ? getApiKeyUser(options.apiKeyScope) : null;
     }
 
     const { sub, email, name, picture } = session.user;
@@ -115,9 +383,10 @@ export async function getCurrentUser(): Promise<AppUser | null> {
             email: user.email,
             name: user.name,
             picture: user.picture,
-            credits: isAdmin ? Infinity : user.credits,
+            credits: isAdmin || hasUnlimitedCredits(user.planId) ? Infinity : user.credits,
             role: user.role,
             isAdmin,
+            planId: user.planId,
         };
     } catch (error) {
         console.error('[Auth] Error syncing user:', error);
@@ -132,7 +401,57 @@ export async function getCurrentUser(): Promise<AppUser | null> {
             credits: 0,
             role: 'USER',
             isAdmin: ADMIN_EMAILS.includes(email.toLowerCase()),
+            planId: 'free',
+        };
+    }
+}
+
+/**
+ * Authenticate the request with an `Authorization: Bearer` API key
+ * Returns null when the key is missing, invalid or lacks the required scope
+ */
+async function getApiKeyUser(scope: ApiKeyScope): Promise<AppUser | null> {
+    const headerStore = await headers();
+    const key = parseBearerApiKey(headerStore.get('authorization'));
+
+    if (!key) {
+        return null;
+    }
+
+    try {
+        const apiKey = await verifyApiKey(key);
+
+        if (!apiKey || !hasScope(apiKey.scopes, scope)) {
+            return null;
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: apiKey.userId },
+        });
+
+        if (!user) {
+            return null;
+        }
+
+        // Admin privileges over the API also need an admin-scoped key
+        const isAdmin = (user.role === 'ADMIN' || ADMIN_EMAILS.includes(user.email.toLowerCase()))
+            && hasScope(apiKey.scopes, 'admin');
+
+        return {
+            id: user.id,
+            auth0Id: user.auth0Id,
+            email: user.email,
+            name: user.name,
+            picture: user.picture,
+            credits: isAdmin || hasUnlimitedCredits(user.planId) ? Infinity : user.credits,
+            role: user.role,
+            isAdmin,
+            planId: user.planId,
+            apiKey,
         };
+    } catch (error) {
+        console.error('[Auth] Error verifying API key:', error);
+        return null;
     }
 }
 
@@ -145,55 +464,110 @@ export async function isAdmin(): Promise<boolean> {
 }
 
 /**
- * Deduct credits from user account
+ * Deduct credits from user account.
+ * The balance check, decrement and ledger entry happen in one transaction:
+ * the decrement only applies while `credits >= amount`, so concurrent
+ * requests can never overdraw. Retrying with the same idempotency key is
+ * not charged again and fails with `already_charged`, pointing at the
+ * original charge.
  */
 export async function deductCredits(
     userId: string,
     amount: number,
-    description: string
-): Promise<{ success: boolean; remaining: number }> {
+    description: string,
+    options: DeductCreditsOptions = {}
+): Promise<DeductCreditsResult> {
+    const { idempotencyKey, referenceId, referenceType } = options;
+
     try {
-        const user = await prisma.user.findUnique({
-            where: { id: userId },
+        return await prisma.$transaction(async (tx) => {
+            const user = await tx.user.findUnique({
+                where: { id: userId },
+                select: { email: true, role: true, credits: true, planId: true },
+            });
+
+            if (!user) {
+                return { success: false, remaining: 0, reason: 'not_found' as const };
+            }
+
+            // Admins and unlimited plans are never charged
+            if (user.role === 'ADMIN' || ADMIN_EMAILS.includes(user.email.toLowerCase())
+                || hasUnlimitedCredits(user.planId)) {
+                return { success: true, remaining: Infinity };
+            }
+
+            if (idempotencyKey) {
+                const existing = await tx.creditTransaction.findUnique({
+                    where: { idempotencyKey },
+                });
+
+                if (existing) {
+                    return replayedCharge(existing, userId);
+                }
+            }
+
+            // Conditional decrement: matches nothing when the balance is too low
+            const { count } = await tx.user.updateMany({
+                where: { id: userId, credits: { gte: amount } },
+                data: { credits: { decrement: amount } },
+            });
+
+            if (count === 0) {
+                return { success: false, remaining: user.credits, reason: 'insufficient_credits' as const };
+            }
+
+            const { credits: balance } = await tx.user.findUniqueOrThrow({
+                where: { id: userId },
+                select: { credits: true },
+            });
+
+            const entry = await tx.creditTransaction.create({
+                data: {
+                    userId,
+                    type: 'CONSUMPTION',
+                    amount: -amount,
+                    balance,
+                    description,
+                    referenceId,
+                    referenceType,
+                    idempotencyKey,
+                },
+            });
+
+            return { success: true, remaining: balance, transactionId: entry.id };
         });
-
-        if (!user) {
-            return { success: false, remaining: 0 };
-        }
-
-        // Admin has unlimited credits
-        if (user.role === 'ADMIN' || ADMIN_EMAILS.includes(user.email.toLowerCase())) {
-            return { success: true, remaining: Infinity };
+    } catch (error) {
+        // A concurrent retry with the same key won the race; its charge stands
+        if (idempotencyKey && isUniqueConstraintError(error)) {
+            const existing = await prisma.creditTransaction.findUnique({
+                where: { idempotencyKey },
+            });
+
+            if (existing) {
+                return replayedCharge(existing, userId);
+            }
         }
 
-        // Check sufficient credits
-        if (user.credits < amount) {
-            return { success: false, remaining: user.credits };
-        }
+        console.error('[Auth] Error deducting credits:', error);
+        return { success: false, remaining: 0, reason: 'error' };
+    }
+}
 
-        // Deduct credits
-        const updatedUser = await prisma.user.update({
-            where: { id: userId },
-            data: {
-                credits: { decrement: amount },
-            },
-        });
+function replayedCharge(
+    existing: { id: string; userId: string; balance: number },
+    userId: string
+): DeductCreditsResult {
+    // Keys are global; never let one user replay another user's charge
+    if (existing.userId !== userId) {
+        return { success: false, remaining: 0, reason: 'idempotency_conflict' };
+    }
 
-        // Log transaction
-        await prisma.creditTransaction.create({
-            data: {
-                userId,
-                amount: -amount,
-                type: 'USAGE',
-                description,
-            },
-        });
+    // The operation this key paid for already ran; callers must not run it again
+    return { success: false, remaining: existing.balance, transactionId: existing.id, reason: 'already_charged' };
+}
 
-        return { success: true, remaining: updatedUser.credits };
-    } catch (error) {
-        console.error('[Auth] Error deducting credits:', error);
-        return { success: false, remaining: 0 };
-    }
+function isUniqueConstraintError(error: unknown): boolean {
+    return (error as { code?: string } | null)?.code === 'P2002';
 }
 
 /**
@@ -206,20 +580,25 @@ export async function addCredits(
     type: 'PURCHASE' | 'BONUS' | 'REFUND' = 'PURCHASE'
 ): Promise<{ success: boolean; total: number }> {
     try {
-        const updatedUser = await prisma.user.update({
-            where: { id: userId },
-            data: {
-                credits: { increment: amount },
-            },
-        });
-
-        await prisma.creditTransaction.create({
-            data: {
-                userId,
-                amount,
-                type,
-                description,
-            },
+        const updatedUser = await prisma.$transaction(async (tx) => {
+            const updated = await tx.user.update({
+                where: { id: userId },
+                data: {
+                    credits: { increment: amount },
+                },
+            });
+
+            await tx.creditTransaction.create({
+                data: {
+                    userId,
+                    amount,
+                    balance: updated.credits,
+                    type,
+                    description,
+                },
+            });
+
+            return updated;
         });
 
         return { success: true, total: updatedUser.credits };
@@ -254,3 +633,13 @@ export async function requireAdmin(): Promise<AppUser> {
 
     return user;
 }
+
+/**
+ * Scheduled jobs authenticate with `Authorization: Bearer <CRON_SECRET>`
+ */
+export function isCronRequest(request: Request): boolean {
+    const secret = process.env.CRON_SECRET;
+    const authorization = request.headers.get('authorization') ?? '';
+
+    return Boolean(secret) && timingSafeEqual(authorization, `Bearer ${secret}`);
+}
@@ -0,0 +1,394 @@
+/**
+ * Billing
+ * Stripe customers and webhook events: plan changes, subscription credit grants,
+ * credit pack purchases and their refunds, and invoices for each payment
+ */
+
+import { prisma } from './prisma';
+import { grantCredits } from './credits';
+import { calculateRefillAmount } from './refills';
+import { CREDIT_PACKS } from './constants';
+import { handlePaymentEvent, toPaymentEvent } from './payments';
+import { issueInvoice } from './invoices';
+import {
+    createCustomer,
+    getPlanByPriceId,
+    type StripeCharge,
+    type StripeCheckoutSession,
+    type StripeEvent,
+    type StripeInvoice,
+    type StripePaymentIntent,
+    type StripeSubscription,
+} from './stripe';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type WebhookOutcome = 'processed' | 'duplicate' | 'ignored';
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+export const FREE_PLAN_ID = 'free';
+
+/**
+ * Subscription statuses that keep the paid plan (past_due: Stripe is still retrying)
+ */
+const PLAN_GRANTING_STATUSES: ReadonlyArray<StripeSubscription['status']> = [
+    'active',
+    'trialing',
+    'past_due',
+];
+
+/**
+ * Subscription statuses that earn the period's credit allowance
+ */
+const CREDIT_GRANTING_STATUSES: ReadonlyArray<StripeSubscription['status']> = [
+    'active',
+    'trialing',
+];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Find the user a Stripe object belongs to: by customer id, then by the
+ * userId we put in the metadata at checkout (linking the customer on the way)
+ */
+async function findBillingUser(customerId: string | null, metadataUserId?: string) {
+    if (customerId) {
+        const user = await prisma.user.findUnique({ where: { stripeCustomerId: customerId } });
+        if (user) return user;
+    }
+
+    if (!metadataUserId) {
+        return null;
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: metadataUserId } });
+    if (user && customerId && !user.stripeCustomerId) {
+        return prisma.user.update({
+            where: { id: user.id },
+            data: { stripeCustomerId: customerId },
+        });
+    }
+
+    return user;
+}
+
+/**
+ * Reuse the user's Stripe customer or create one
+ */
+export async function ensureStripeCustomer(user: {
+    id: string;
+    email: string;
+    name: string | null;
+}): Promise<string> {
+    const { stripeCustomerId } = await prisma.user.findUniqueOrThrow({
+        where: { id: user.id },
+        select: { stripeCustomerId: true },
+    });
+
+    if (stripeCustomerId) {
+        return stripeCustomerId;
+    }
+
+    const customer = await createCustomer({ userId: user.id, email: user.email, name: user.name });
+    await prisma.user.update({
+        where: { id: user.id },
+        data: { stripeCustomerId: customer.id },
+    });
+
+    return customer.id;
+}
+
+// =============================================================================
+// EVENT HANDLERS
+// =============================================================================
+
+async function handleCheckoutCompleted(session: StripeCheckoutSession): Promise<void> {
+    // Link the customer early; plan changes arrive as subscription events
+    const user = await findBillingUser(
+        session.customer,
+        session.client_reference_id ?? session.metadata.userId
+    );
+
+    // Delayed methods (boleto) complete unpaid and follow up with async_payment_succeeded
+    if (user && session.mode === 'payment' && session.payment_status === 'paid') {
+        await grantCreditPack(user.id, session);
+    }
+}
+
+/**
+ * Credit a paid pack checkout. The PURCHASE entry references the payment
+ * intent so refunds on its charge can find what was granted.
+ */
+async function grantCreditPack(userId: string, session: StripeCheckoutSession): Promise<void> {
+    const pack = CREDIT_PACKS.find((p) => p.id === session.metadata.packId);
+    if (!pack || !session.payment_intent) {
+        console.warn(`[Billing] Unknown credit pack on checkout ${session.id}`);
+        return;
+    }
+
+    const grant = await grantCredits(userId, pack.credits, 'PURCHASE', `${pack.name} purchase`, {
+        idempotencyKey: `stripe:purchase:${session.payment_intent}`,
+        referenceId: session.payment_intent,
+        referenceType: 'payment',
+        metadata: {
+            source: 'stripe',
+            packId: pack.id,
+            checkoutSessionId: session.id,
+        },
+    });
+
+    // Not recorded as processed: Stripe redelivers the event
+    if (!grant.success) {
+        throw new Error(`Could not grant credits for checkout ${session.id}`);
+    }
+
+    await issueInvoice({
+        userId,
+        source: 'credit_pack',
+        description: `${pack.name} (${pack.credits} créditos)`,
+        amount: session.amount_total !== null ? session.amount_total / 100 : pack.price,
+        currency: session.currency?.toUpperCase() ?? pack.currency,
+        paymentMethod: 'card',
+        referenceType: 'stripe_payment',
+        referenceId: session.payment_intent,
+    });
+}
+
+/**
+ * Issue the invoice for a paid subscription period
+ */
+async function handleInvoicePaid(stripeInvoice: StripeInvoice): Promise<void> {
+    // Trials and 100% coupons produce zero-amount invoices
+    if (!stripeInvoice.subscription || stripeInvoice.amount_paid <= 0) {
+        return;
+    }
+
+    const user = await findBillingUser(stripeInvoice.customer);
+    if (!user) {
+        console.warn(`[Billing] No user for invoice ${stripeInvoice.id}`);
+        return;
+    }
+
+    const priceId = stripeInvoice.lines.data[0]?.price?.id;
+    const plan = priceId ? getPlanByPriceId(priceId) : null;
+    const paidAt = stripeInvoice.status_transitions.paid_at;
+
+    await issueInvoice({
+        userId: user.id,
+        source: 'subscription',
+        description: plan ? `Assinatura ${plan.name} - mensal` : 'Assinatura mensal',
+        amount: stripeInvoice.amount_paid / 100,
+        currency: stripeInvoice.currency.toUpperCase(),
+        paymentMethod: 'card',
+        referenceType: 'stripe_invoice',
+        referenceId: stripeInvoice.id,
+        issuedAt: paidAt ? new Date(paidAt * 1000) : undefined,
+    });
+}
+
+/**
+ * Reverse the credits of a refunded pack purchase, in proportion to the amount
+ * refunded so far. Earlier partial refunds are subtracted, so the total reversed
+ * never exceeds what was granted. The balance may go negative if the credits
+ * were already spent.
+ */
+async function handleChargeRefunded(charge: StripeCharge): Promise<void> {
+    if (!charge.payment_intent || charge.amount <= 0) {
+        return;
+    }
+
+    const purchase = await prisma.creditTransaction.findFirst({
+        where: { type: 'PURCHASE', referenceType: 'payment', referenceId: charge.payment_intent },
+    });
+
+    // Not a credit pack payment (e.g. a subscription invoice)
+    if (!purchase) {
+        return;
+    }
+
+    const refunded = await prisma.creditTransaction.aggregate({
+        where: { userId: purchase.userId, type: 'REFUND', referenceId: charge.payment_intent },
+        _sum: { amount: true },
+    });
+
+    const refundedRatio = Math.min(charge.amount_refunded / charge.amount, 1);
+    const target = Math.round(purchase.amount * refundedRatio * 100) / 100;
+    const alreadyReversed = -(refunded._sum.amount ?? 0);
+    const amount = Math.round((target - alreadyReversed) * 100) / 100;
+
+    if (amount <= 0) {
+        return;
+    }
+
+    const reversal = await grantCredits(purchase.userId, -amount, 'REFUND', 'Credit pack refund', {
+        idempotencyKey: `stripe:refund:${charge.id}:${charge.amount_refunded}`,
+        referenceId: charge.payment_intent,
+        referenceType: 'payment',
+        metadata: {
+            source: 'stripe',
+            chargeId: charge.id,
+            purchaseTransactionId: purchase.id,
+            amountRefunded: charge.amount_refunded,
+        },
+    });
+
+    if (!reversal.success) {
+        throw new Error(`Could not reverse credits for refunded charge ${charge.id}`);
+    }
+}
+
+/**
+ * Apply a created/updated subscription: switch plan and grant the period's credits
+ */
+async function syncSubscription(subscription: StripeSubscription): Promise<void> {
+    const user = await findBillingUser(subscription.customer, subscription.metadata.userId);
+    if (!user) {
+        console.warn(`[Billing] No user for subscription ${subscription.id}`);
+        return;
+    }
+
+    // Ignore late events about a subscription the user has since replaced
+    const isCurrent = !user.stripeSubscriptionId || user.stripeSubscriptionId === subscription.id;
+    const priceId = subscription.items.data[0]?.price.id;
+    const plan = priceId ? getPlanByPriceId(priceId) : null;
+
+    if (!PLAN_GRANTING_STATUSES.includes(subscription.status)) {
+        if (isCurrent && subscription.status !== 'incomplete') {
+            await endSubscription(subscription);
+        }
+        return;
+    }
+
+    if (!plan) {
+        console.warn(`[Billing] Unknown price ${priceId} on subscription ${subscription.id}`);
+        return;
+    }
+
+    await prisma.user.update({
+        where: { id: user.id },
+        data: {
+            planId: plan.id,
+            stripeSubscriptionId: subscription.id,
+            subscriptionStatus: subscription.status,
+            currentPeriodEnd: new Date(subscription.current_period_end * 1000),
+        },
+    });
+
+    // One allowance per billing period, following the plan's refill rules.
+    // Unlimited plans are granted nothing: their credits are never charged.
+    if (CREDIT_GRANTING_STATUSES.includes(subscription.status)) {
+        const amount = calculateRefillAmount(plan.id, plan.creditsMonthly, user.credits);
+
+        const grant = await grantCredits(
+            user.id,
+            amount,
+            'REFILL',
+            `${plan.name} subscription credits`,
+            {
+                idempotencyKey: `stripe:subscription:${subscription.id}:${subscription.current_period_start}`,
+                referenceId: subscription.id,
+                referenceType: 'subscription',
+                metadata: {
+                    source: 'stripe',
+                    planId: plan.id,
+                    periodStart: subscription.current_period_start,
+                },
+            }
+        );
+
+        if (!grant.success) {
+            throw new Error(`Could not grant credits for subscription ${subscription.id}`);
+        }
+    }
+}
+
+/**
+ * Subscription ended (canceled, unpaid, expired): back to the free plan
+ */
+async function endSubscription(subscription: StripeSubscription): Promise<void> {
+    const user = await findBillingUser(subscription.customer, subscription.metadata.userId);
+    if (!user || (user.stripeSubscriptionId && user.stripeSubscriptionId !== subscription.id)) {
+        return;
+    }
+
+    await prisma.user.update({
+        where: { id: user.id },
+        data: {
+            planId: FREE_PLAN_ID,
+            stripeSubscriptionId: null,
+            subscriptionStatus: subscription.status,
+            currentPeriodEnd: null,
+        },
+    });
+}
+
+// =============================================================================
+// DISPATCH
+// =============================================================================
+
+/**
+ * Process a verified Stripe event once. Handlers are idempotent, so an event
+ * redelivered before it was recorded is still applied safely. A handler that
+ * throws leaves the event unrecorded, so Stripe delivers it again.
+ */
+export async function handleStripeEvent(event: StripeEvent): Promise<WebhookOutcome> {
+    const existing = await prisma.webhookEvent.findUnique({
+        where: { provider_eventId: { provider: 'stripe', eventId: event.id } },
+    });
+
+    if (existing) {
+        return 'duplicate';
+    }
+
+    let outcome: WebhookOutcome = 'processed';
+
+    switch (event.type) {
+        case 'checkout.session.completed':
+            await handleCheckoutCompleted(event.data.object as unknown as StripeCheckoutSession);
+            break;
+        case 'checkout.session.async_payment_succeeded':
+            await handleCheckoutCompleted(event.data.object as unknown as StripeCheckoutSession);
+            break;
+        case 'payment_intent.succeeded':
+        case 'payment_intent.payment_failed':
+        case 'payment_intent.canceled': {
+            // Pix / boleto payments (lib/payments); card Checkout intents have no Payment row
+            const paymentEvent = toPaymentEvent(event.id, event.data.object as unknown as StripePaymentIntent);
+            if (!paymentEvent || (await handlePaymentEvent('stripe', paymentEvent)) === 'ignored') {
+                outcome = 'ignored';
+            }
+            break;
+        }
+        case 'invoice.paid':
+            await handleInvoicePaid(event.data.object as unknown as StripeInvoice);
+            break;
+        case 'charge.refunded':
+            await handleChargeRefunded(event.data.object as unknown as StripeCharge);
+            break;
+        case 'customer.subscription.created':
+        case 'customer.subscription.updated':
+            await syncSubscription(event.data.object as unknown as StripeSubscription);
+            break;
+        case 'customer.subscription.deleted':
+            await endSubscription(event.data.object as unknown as StripeSubscription);
+            break;
+        default:
+            outcome = 'ignored';
+    }
+
+    await prisma.webhookEvent
+        .create({ data: { provider: 'stripe', eventId: event.id, type: event.type } })
+        .catch((error: unknown) => {
+            // Recorded by a concurrent delivery
+            if ((error as { code?: string } | null)?.code !== 'P2002') throw error;
+        });
+
+    return outcome;
+}
@@ -75,6 +75,9 @@ export interface PlanDefinition {
     creditsDaily: number;
     maxProjects: number;
     maxSitesPerMonth: number;
+    maxChatMessagesPerDay: number;
+    /** Days of inactivity before a conversation is archived (Infinity keeps forever) */
+    conversationRetentionDays: number;
     features: PlanFeature[];
     isPopular?: boolean;
     stripePriceId?: string;
@@ -96,6 +99,8 @@ export const PLANS: PlanDefinition[] = [
         creditsDaily: 1,
         maxProjects: 10,
         maxSitesPerMonth: 2,
+        maxChatMessagesPerDay: 50,
+        conversationRetentionDays: 7,
         features: [
             { name: 'Chat com IA', included: true, limit: 'Básico' },
             { name: 'Criação de sites', included: true, limit: '2/mês' },
@@ -117,6 +122,8 @@ export const PLANS: PlanDefinition[] = [
         creditsDaily: 0,
         maxProjects: 50,
         maxSitesPerMonth: 10,
+        maxChatMessagesPerDay: Infinity,
+        conversationRetentionDays: 30,
         features: [
             { name: 'Chat com IA', included: true, limit: 'Ilimitado básico' },
             { name: 'Criação de sites', included: true, limit: '10/mês' },
@@ -139,6 +146,8 @@ export const PLANS: PlanDefinition[] = [
         creditsDaily: 0,
         maxProjects: 200,
         maxSitesPerMonth: 50,
+        maxChatMessagesPerDay: Infinity,
+        conversationRetentionDays: Infinity,
         isPopular: true,
         features: [
             { name: 'Chat com IA', included: true, limit: 'Ilimitado avançado' },
@@ -162,6 +171,8 @@ export const PLANS: PlanDefinition[] = [
         creditsDaily: 0,
         maxProjects: Infinity,
         maxSitesPerMonth: Infinity,
+        maxChatMessagesPerDay: Infinity,
+        conversationRetentionDays: Infinity,
         features: [
             { name: 'Chat com IA', included: true, limit: 'Ilimitado + Custom' },
             { name: 'Criação de sites', included: true, limit: 'Ilimitado' },
@@ -177,6 +188,35 @@ export const PLANS: PlanDefinition[] = [
     },
 ];
 
+/**
+ * Credit refill rules per plan.
+ * - rollover: unused credits carry over and each refill adds the full allowance
+ *   (up to maxBalance); otherwise a refill only tops the balance up to the allowance
+ * - maxBalance: the balance a refill never pushes past
+ * Plans with an unlimited (Infinity) allowance are not refilled.
+ */
+export const CREDIT_REFILL_RULES: Record<string, { rollover: boolean; maxBalance: number }> = {
+    free: { rollover: true, maxBalance: 5 },
+    basic: { rollover: true, maxBalance: 1000 },
+};
+
+export const DEFAULT_CREDIT_REFILL_RULE = { rollover: false, maxBalance: Infinity };
+
+/**
+ * Timezone used to decide which day/month a refill belongs to
+ */
+export const CREDIT_REFILL_TIMEZONE = 'America/Sao_Paulo';
+
+/**
+ * Days an archived conversation stays readable before it is deleted for good
+ */
+export const CONVERSATION_ARCHIVE_GRACE_DAYS = 7;
+
+/**
+ * Days a deleted project stays in the trash (restorable) before it is purged
+ */
+export const PROJECT_TRASH_RETENTION_DAYS = 30;
+
 // =============================================================================
 // CREDIT COSTS
 // =============================================================================
@@ -185,13 +225,6 @@ export const PLANS: PlanDefinition[] = [
  * Credit costs for various operations
  */
 export const CREDIT_COSTS = {
-    // Chat operations
-    chat: {
-        simple: 0.30,
-        withImage: 0.40,
-        withDocument: 0.50,
-        complex: 0.50,
-    },
     // Site generation
     siteGeneration: {
         basic: 2.0,
@@ -206,6 +239,66 @@ export const CREDIT_COSTS = {
     },
 } as const;
 
+/**
+ * Credit pack definition (one-off purchase)
+ */
+export interface CreditPack {
+    id: string;
+    name: string;
+    credits: number;
+    price: number;
+    currency: string;
+    isPopular?: boolean;
+}
+
+/**
+ * Credit packs available for one-off purchase
+ */
+export const CREDIT_PACKS: CreditPack[] = [
+    { id: 'pack-50', name: 'Pacote 50', credits: 50, price: 19.90, currency: 'BRL' },
+    { id: 'pack-200', name: 'Pacote 200', credits: 200, price: 69.90, currency: 'BRL', isPopular: true },
+    { id: 'pack-1000', name: 'Pacote 1000', credits: 1000, price: 299.90, currency: 'BRL' },
+];
+
+/**
+ * Chat pricing per model, in credits per 1K tokens.
+ * Prompt and completion tokens are priced separately.
+ */
+export const CHAT_MODEL_PRICING = {
+    'emergent-1': { prompt: 0.05, completion: 0.15 },
+    'emergent-1-mini': { prompt: 0.01, completion: 0.03 },
+} as const;
+
+export type ChatModel = keyof typeof CHAT_MODEL_PRICING;
+
+export const DEFAULT_CHAT_MODEL: ChatModel = 'emergent-1';
+
+/**
+ * Completion token limit per chat response (also bounds the credit hold)
+ */
+export const CHAT_MAX_COMPLETION_TOKENS = 2048;
+
+/**
+ * Smallest amount charged for a chat response
+ */
+export const CHAT_MIN_CHARGE = 0.01;
+
+/**
+ * Project iterations ("modify my project"): completion limit per patch (whole
+ * files come back) and the most project content sent to the model
+ */
+export const ITERATION_MAX_COMPLETION_TOKENS = 16384;
+export const ITERATION_MAX_CONTEXT_CHARS = 200_000;
+
+/**
+ * Limits on a project's files, enforced when they are saved (sizes in characters)
+ */
+export const PROJECT_FILE_LIMITS = {
+    maxFileSize: 500_000,
+    maxProjectSize: 5_000_000,
+    maxFiles: 1000,
+} as const;
+
 // =============================================================================
 // API CONFIGURATION
 // =============================================================================
@@ -217,7 +310,15 @@ export const EMERGENT_CONFIG = {
     baseUrl: process.env.EMERGENT_API_URL ?? 'https://api.emergent.sh/v1',
     timeout: Number(process.env.EMERGENT_TIMEOUT_MS ?? 60000),
     maxRetries: 3,
+    /** Base of the jittered exponential backoff between attempts */
     retryDelay: 1000,
+    /** Longest wait before a retry; a longer Retry-After fails the request */
+    maxRetryDelay: 30000,
+    /** Consecutive upstream failures that open a provider's circuit, and for how long */
+    circuitBreaker: {
+        failureThreshold: 5,
+        cooldownMs: 30000,
+    },
 } as const;
 
 /**
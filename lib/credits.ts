@@ -0,0 +1,437 @@
+/**
+ * Credit Ledger
+ * Reserve credits before long-running AI operations, then settle the real
+ * cost or release the hold (HOLD entries), and grant credits idempotently.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import {
+    CHAT_MIN_CHARGE,
+    CHAT_MODEL_PRICING,
+    DEFAULT_CHAT_MODEL,
+    type ChatModel,
+} from './constants';
+import { hasUnlimitedCredits } from './entitlements';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ReserveCreditsOptions {
+    /**
+     * Retries carrying the same key are refused: with `in_progress` while the
+     * original hold is pending, with `hold_finalized` once it was settled or released
+     */
+    idempotencyKey?: string;
+    referenceId?: string;
+    referenceType?: string;
+    /** How long the hold lives before it is released automatically */
+    ttlMs?: number;
+}
+
+export interface ReserveCreditsResult {
+    success: boolean;
+    /** Id of the HOLD ledger entry (none for plans with unlimited credits) */
+    holdId?: string;
+    remaining: number;
+    reason?: 'insufficient_credits' | 'idempotency_conflict' | 'in_progress' | 'hold_finalized' | 'error';
+}
+
+export interface GrantCreditsOptions {
+    /** A grant carrying an already-used key is not applied again */
+    idempotencyKey?: string;
+    referenceId?: string;
+    referenceType?: string;
+    metadata?: Prisma.InputJsonObject;
+}
+
+export interface GrantCreditsResult {
+    success: boolean;
+    balance: number;
+    transactionId?: string;
+    /** The grant was already recorded under this idempotency key */
+    replayed?: boolean;
+}
+
+export interface FinalizeHoldResult {
+    success: boolean;
+    /** Credits actually charged (0 when released) */
+    charged: number;
+    remaining: number;
+    reason?: 'not_pending' | 'error';
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+/**
+ * Default hold lifetime; covers the slowest generation plus retries
+ */
+export const CREDIT_HOLD_TTL_MS = 10 * 60 * 1000;
+
+const EXPIRED_HOLDS_BATCH_SIZE = 100;
+
+// =============================================================================
+// PRICING
+// =============================================================================
+
+/**
+ * Price a chat completion from its token usage, given a model id or the
+ * model's own pricing (lib/aiModels). Unknown models are priced as the default model.
+ */
+export function calculateChatCost(
+    usage: { promptTokens: number; completionTokens: number },
+    model: string | { prompt: number; completion: number } = DEFAULT_CHAT_MODEL
+): number {
+    const pricing = typeof model === 'string'
+        ? CHAT_MODEL_PRICING[model as ChatModel] ?? CHAT_MODEL_PRICING[DEFAULT_CHAT_MODEL]
+        : model;
+    const cost = (usage.promptTokens * pricing.prompt + usage.completionTokens * pricing.completion) / 1000;
+
+    return Math.max(CHAT_MIN_CHARGE, Math.round(cost * 10000) / 10000);
+}
+
+// =============================================================================
+// RESERVE
+// =============================================================================
+
+/**
+ * Reserve up to `amount` credits for an operation.
+ * Fails without side effects when the balance is too low.
+ * Expired holds of the same user are released first. Plans with unlimited
+ * credits succeed without a hold, so there is nothing to settle.
+ */
+export async function reserveCredits(
+    userId: string,
+    amount: number,
+    description: string,
+    options: ReserveCreditsOptions = {}
+): Promise<ReserveCreditsResult> {
+    const { idempotencyKey, referenceId, referenceType, ttlMs = CREDIT_HOLD_TTL_MS } = options;
+
+    await releaseExpiredHolds({ userId });
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            if (idempotencyKey) {
+                const existing = await tx.creditTransaction.findUnique({
+                    where: { idempotencyKey },
+                });
+
+                if (existing) {
+                    return replayedHold(existing, userId);
+                }
+            }
+
+            const { planId } = await tx.user.findUniqueOrThrow({
+                where: { id: userId },
+                select: { planId: true },
+            });
+
+            if (hasUnlimitedCredits(planId)) {
+                return { success: true, remaining: Infinity };
+            }
+
+            // Conditional decrement: matches nothing when the balance is too low
+            const { count } = await tx.user.updateMany({
+                where: { id: userId, credits: { gte: amount } },
+                data: { credits: { decrement: amount } },
+            });
+
+            const { credits: balance } = await tx.user.findUniqueOrThrow({
+                where: { id: userId },
+                select: { credits: true },
+            });
+
+            if (count === 0) {
+                return { success: false, remaining: balance, reason: 'insufficient_credits' as const };
+            }
+
+            const hold = await tx.creditTransaction.create({
+                data: {
+                    userId,
+                    type: 'HOLD',
+                    amount: -amount,
+                    balance,
+                    description,
+                    referenceId,
+                    referenceType,
+                    idempotencyKey,
+                    holdStatus: 'PENDING',
+                    holdExpiresAt: new Date(Date.now() + ttlMs),
+                },
+            });
+
+            return { success: true, holdId: hold.id, remaining: balance };
+        });
+    } catch (error) {
+        // A concurrent request with the same key won the race
+        if (idempotencyKey && (error as { code?: string } | null)?.code === 'P2002') {
+            const existing = await prisma.creditTransaction.findUnique({
+                where: { idempotencyKey },
+            });
+
+            if (existing) {
+                return replayedHold(existing, userId);
+            }
+        }
+
+        console.error('[Credits] Error reserving credits:', error);
+        return { success: false, remaining: 0, reason: 'error' };
+    }
+}
+
+function replayedHold(
+    existing: { id: string; userId: string; type: string; balance: number; holdStatus: string | null },
+    userId: string
+): ReserveCreditsResult {
+    if (existing.userId !== userId || existing.type !== 'HOLD') {
+        return { success: false, remaining: 0, reason: 'idempotency_conflict' };
+    }
+
+    // The original request is still running on this hold; running the
+    // operation again would share it and leave one of the two unpaid
+    if (existing.holdStatus === 'PENDING') {
+        return { success: false, holdId: existing.id, remaining: existing.balance, reason: 'in_progress' };
+    }
+
+    // The operation this hold paid for has finished; running it again would be free
+    return { success: false, holdId: existing.id, remaining: existing.balance, reason: 'hold_finalized' };
+}
+
+// =============================================================================
+// SETTLE / RELEASE
+// =============================================================================
+
+/**
+ * Charge the real cost of a finished operation and return the rest of the hold.
+ * The hold is the most a user can be charged, so larger costs are capped.
+ * Fails with `not_pending` when the hold was already settled or released
+ * (e.g. on expiry): callers must then treat the operation as unpaid.
+ * Records a RELEASE of the full hold followed by the CONSUMPTION entry,
+ * which carries `metadata` (e.g. token usage and exact cost).
+ */
+export async function settleCredits(
+    holdId: string,
+    actualAmount: number,
+    description: string,
+    metadata: Prisma.InputJsonObject = {}
+): Promise<FinalizeHoldResult> {
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const hold = await claimHold(tx, holdId, 'SETTLED');
+            if (!hold) {
+                return { success: false, charged: 0, remaining: 0, reason: 'not_pending' as const };
+            }
+
+            const held = -hold.amount;
+            const charged = Math.min(Math.max(actualAmount, 0), held);
+
+            const { credits: balance } = await tx.user.update({
+                where: { id: hold.userId },
+                data: { credits: { increment: held - charged } },
+                select: { credits: true },
+            });
+
+            await tx.creditTransaction.create({
+                data: {
+                    userId: hold.userId,
+                    type: 'RELEASE',
+                    amount: held,
+                    balance: balance + charged,
+                    description: `Hold settled: ${hold.description ?? holdId}`,
+                    referenceId: hold.referenceId,
+                    referenceType: hold.referenceType,
+                    metadata: { holdId },
+                },
+            });
+
+            await tx.creditTransaction.create({
+                data: {
+                    userId: hold.userId,
+                    type: 'CONSUMPTION',
+                    amount: -charged,
+                    balance,
+                    description,
+                    referenceId: hold.referenceId,
+                    referenceType: hold.referenceType,
+                    metadata: { ...metadata, holdId, held },
+                },
+            });
+
+            return { success: true, charged, remaining: balance };
+        });
+    } catch (error) {
+        console.error('[Credits] Error settling hold:', error);
+        return { success: false, charged: 0, remaining: 0, reason: 'error' };
+    }
+}
+
+/**
+ * Return all credits of a hold (operation failed, was aborted or timed out).
+ * Safe to call more than once; only a pending hold is released.
+ */
+export async function releaseCredits(
+    holdId: string,
+    reason: string
+): Promise<FinalizeHoldResult> {
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const hold = await claimHold(tx, holdId, 'RELEASED');
+            if (!hold) {
+                return { success: false, charged: 0, remaining: 0, reason: 'not_pending' as const };
+            }
+
+            const { credits: balance } = await tx.user.update({
+                where: { id: hold.userId },
+                data: { credits: { increment: -hold.amount } },
+                select: { credits: true },
+            });
+
+            await tx.creditTransaction.create({
+                data: {
+                    userId: hold.userId,
+                    type: 'RELEASE',
+                    amount: -hold.amount,
+                    balance,
+                    description: `Hold released (${reason}): ${hold.description ?? holdId}`,
+                    referenceId: hold.referenceId,
+                    referenceType: hold.referenceType,
+                    metadata: { holdId, reason },
+                },
+            });
+
+            return { success: true, charged: 0, remaining: balance };
+        });
+    } catch (error) {
+        console.error('[Credits] Error releasing hold:', error);
+        return { success: false, charged: 0, remaining: 0, reason: 'error' };
+    }
+}
+
+/**
+ * Release holds whose operation never settled (crashed worker, lost stream).
+ * Runs before every reservation for that user; call without a user from a job.
+ */
+export async function releaseExpiredHolds(
+    options: { userId?: string; now?: Date } = {}
+): Promise<number> {
+    const { userId, now = new Date() } = options;
+
+    try {
+        const expired = await prisma.creditTransaction.findMany({
+            where: {
+                type: 'HOLD',
+                holdStatus: 'PENDING',
+                holdExpiresAt: { lt: now },
+                ...(userId && { userId }),
+            },
+            select: { id: true },
+            take: EXPIRED_HOLDS_BATCH_SIZE,
+        });
+
+        let released = 0;
+        for (const { id } of expired) {
+            const result = await releaseCredits(id, 'timeout');
+            if (result.success) released++;
+        }
+
+        return released;
+    } catch (error) {
+        console.error('[Credits] Error releasing expired holds:', error);
+        return 0;
+    }
+}
+
+// =============================================================================
+// GRANTS
+// =============================================================================
+
+/**
+ * Add credits (purchase, subscription grant, bonus, refund) and record the
+ * ledger entry in the same transaction
+ */
+export async function grantCredits(
+    userId: string,
+    amount: number,
+    type: 'REFILL' | 'PURCHASE' | 'BONUS' | 'REFUND',
+    description: string,
+    options: GrantCreditsOptions = {}
+): Promise<GrantCreditsResult> {
+    const { idempotencyKey, referenceId, referenceType, metadata = {} } = options;
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            if (idempotencyKey) {
+                const existing = await tx.creditTransaction.findUnique({
+                    where: { idempotencyKey },
+                });
+
+                if (existing) {
+                    return { success: true, balance: existing.balance, transactionId: existing.id, replayed: true };
+                }
+            }
+
+            const { credits: balance } = await tx.user.update({
+                where: { id: userId },
+                data: { credits: { increment: amount } },
+                select: { credits: true },
+            });
+
+            const entry = await tx.creditTransaction.create({
+                data: {
+                    userId,
+                    type,
+                    amount,
+                    balance,
+                    description,
+                    referenceId,
+                    referenceType,
+                    idempotencyKey,
+                    metadata,
+                },
+            });
+
+            return { success: true, balance, transactionId: entry.id };
+        });
+    } catch (error) {
+        // A concurrent delivery of the same grant won the race
+        if (idempotencyKey && (error as { code?: string } | null)?.code === 'P2002') {
+            const existing = await prisma.creditTransaction.findUnique({
+                where: { idempotencyKey },
+            });
+
+            if (existing) {
+                return { success: true, balance: existing.balance, transactionId: existing.id, replayed: true };
+            }
+        }
+
+        console.error('[Credits] Error granting credits:', error);
+        return { success: false, balance: 0 };
+    }
+}
+
+/**
+ * Atomically move a hold out of PENDING. Returns null when another
+ * settle/release got there first.
+ */
+async function claimHold(
+    tx: Prisma.TransactionClient,
+    holdId: string,
+    status: 'SETTLED' | 'RELEASED'
+) {
+    const { count } = await tx.creditTransaction.updateMany({
+        where: { id: holdId, type: 'HOLD', holdStatus: 'PENDING' },
+        data: { holdStatus: status },
+    });
+
+    if (count === 0) {
+        return null;
+    }
+
+    return tx.creditTransaction.findUniqueOrThrow({
+        where: { id: holdId },
+    });
+}
@@ -1,10 +1,23 @@
 /**
  * Emergent AI API Client
- * Handles all interactions with the Emergent API for AI generation
+ * Entry point for all AI operations (chat, generation, embeddings). Each call
+ * is routed to the provider of the requested model (lib/aiModels); the
+ * providers themselves live in lib/aiProviders, and AI_CLIENT_MODE can swap
+ * them for mocks or recorded fixtures (lib/aiFixtures).
  */
 
-import { EMERGENT_CONFIG, CREDIT_COSTS } from './constants';
-import { generateRequestSchema, type GenerateRequest, type GenerateResponse } from './schemas';
+import { CREDIT_COSTS, CHAT_MAX_COMPLETION_TOKENS, ITERATION_MAX_COMPLETION_TOKENS } from './constants';
+import { generateRequestSchema, type GenerateRequest, type FileChange } from './schemas';
+import { getModel, type AiCapability, type ResolvedModel } from './aiModels';
+import {
+    fakeProvider,
+    getAiProvider,
+    getDefaultEmergentConfig,
+    type AiProvider,
+} from './aiProviders';
+import { getAiClientMode, recordingProvider, replayProvider } from './aiFixtures';
+
+export { estimateTokens, countMessageTokens, AiProviderError } from './aiProviders';
 
 // =============================================================================
 // TYPES
@@ -37,9 +50,20 @@ export interface GenerationResult {
     files: GeneratedFile[];
     preview?: string;
     estimatedCost: number;
+    /** Model that produced the files */
+    model?: string;
     error?: string;
 }
 
+/**
+ * Token usage of a chat completion
+ */
+export interface ChatUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
 /**
  * Chat completion request
  */
@@ -48,10 +72,13 @@ export interface ChatCompletionRequest {
         role: 'user' | 'assistant' | 'system';
         content: string;
     }>;
+    /** Model id from the registry (defaults to the configured chat model) */
     model?: string;
     temperature?: number;
     maxTokens?: number;
     stream?: boolean;
+    /** Ask for a JSON object instead of free text */
+    responseFormat?: 'text' | 'json';
 }
 
 /**
@@ -67,11 +94,56 @@ export interface ChatCompletionResponse {
         };
         finishReason: string;
     }>;
-    usage: {
-        promptTokens: number;
-        completionTokens: number;
-        totalTokens: number;
-    };
+    usage: ChatUsage;
+}
+
+/**
+ * Iteration request: change an existing project following an instruction
+ */
+export interface IterationRequest {
+    instruction: string;
+    /** Current project files (path -> content) */
+    files: Record<string, string>;
+    /** Model id from the registry (defaults to the configured generation model) */
+    model?: string;
+    maxTokens?: number;
+}
+
+/**
+ * Patch proposed for an iteration
+ */
+export interface IterationResult {
+    summary: string;
+    changes: FileChange[];
+    usage: ChatUsage;
+    /** Model that produced the patch */
+    model: string;
+}
+
+/**
+ * Per-call options of the AI client
+ */
+export interface AiRequestOptions {
+    /** Cancels the upstream request (e.g. the route's request.signal) */
+    signal?: AbortSignal;
+}
+
+/**
+ * Embedding request
+ */
+export interface EmbeddingRequest {
+    input: string[];
+    /** Model id from the registry (defaults to the configured embedding model) */
+    model?: string;
+}
+
+/**
+ * Embedding response: one vector per input, in input order
+ */
+export interface EmbeddingResponse {
+    model: string;
+    embeddings: number[][];
+    usage: { promptTokens: number };
 }
 
 // =============================================================================
@@ -80,127 +152,58 @@ export interface ChatCompletionResponse {
 
 /**
  * Emergent API Client class
- * Provides methods for all Emergent API operations
+ * Resolves the model of each request and delegates to its provider
  */
 class EmergentClient {
-    private readonly apiKey: string;
-    private readonly baseUrl: string;
-    private readonly timeout: number;
-
     constructor() {
-        this.apiKey = process.env.EMERGENT_API_KEY ?? '';
-        this.baseUrl = EMERGENT_CONFIG.baseUrl;
-        this.timeout = EMERGENT_CONFIG.timeout;
-
-        if (!this.apiKey && process.env.NODE_ENV === 'production') {
+        if (!getDefaultEmergentConfig().apiKey && process.env.NODE_ENV === 'production') {
             console.warn('[Emergent] API key not configured');
         }
     }
 
     /**
-     * Make an API request with retry logic
+     * Model and provider for a request, wrapped according to AI_CLIENT_MODE
+     * (lib/aiFixtures). Fake data is only served in mock mode.
      */
-    private async request<T>(
-        endpoint: string,
-        options: RequestInit = {}
-    ): Promise<T> {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-        const url = `${this.baseUrl}${endpoint}`;
-
-        const headers: Record<string, string> = {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.apiKey}`,
-            'X-Client': 'plataforma-ia-saas',
-            'X-Client-Version': '1.0.0',
-            ...((options.headers as Record<string, string>) ?? {}),
-        };
-
-        let lastError: Error | null = null;
-
-        for (let attempt = 0; attempt <= EMERGENT_CONFIG.maxRetries; attempt++) {
-            try {
-                const response = await fetch(url, {
-                    ...options,
-                    headers,
-                    signal: controller.signal,
-                });
-
-                clearTimeout(timeoutId);
-
-                if (!response.ok) {
-                    const errorData = await response.json().catch(() => ({}));
-                    throw new EmergentApiError(
-                        errorData.message ?? `HTTP ${response.status}`,
-                        response.status,
-                        errorData
-                    );
-                }
-
-                return await response.json() as T;
-            } catch (error) {
-                lastError = error instanceof Error ? error : new Error(String(error));
-
-                // Don't retry on certain errors
-                if (error instanceof EmergentApiError) {
-                    if (error.status >= 400 && error.status < 500 && error.status !== 429) {
-                        throw error;
-                    }
-                }
+    private async route(
+        modelId: string | undefined,
+        capability: AiCapability
+    ): Promise<{ model: ResolvedModel; provider: AiProvider }> {
+        const model = await getModel(modelId, capability);
+        if (!model) {
+            throw new Error(`Model not available: ${modelId ?? `default ${capability} model`}`);
+        }
 
-                // Wait before retrying (exponential backoff)
-                if (attempt < EMERGENT_CONFIG.maxRetries) {
-                    const delay = EMERGENT_CONFIG.retryDelay * Math.pow(2, attempt);
-                    await new Promise((resolve) => setTimeout(resolve, delay));
+        const provider = getAiProvider(model.provider.type);
+
+        switch (getAiClientMode()) {
+            case 'mock':
+                return { model, provider: fakeProvider };
+            case 'record':
+                return { model, provider: recordingProvider(provider) };
+            case 'replay':
+                return { model, provider: replayProvider(provider) };
+            default:
+                if (model.provider.type === 'emergent' && !model.provider.apiKey) {
+                    throw new Error(`API key not configured for provider "${model.provider.id}" (set AI_CLIENT_MODE=mock to use fake responses)`);
                 }
-            }
+                return { model, provider };
         }
-
-        clearTimeout(timeoutId);
-        throw lastError ?? new Error('Request failed');
     }
 
     /**
      * Generate code/site from prompt
      */
-    async generate(request: GenerateRequest): Promise<GenerationResult> {
+    async generate(request: GenerateRequest, options: AiRequestOptions = {}): Promise<GenerationResult> {
         // Validate request
         const validated = generateRequestSchema.parse(request);
 
         try {
-            // In development without API key, return mock data
-            if (!this.apiKey || process.env.NODE_ENV === 'development') {
-                return this.getMockGenerationResult(validated.prompt);
-            }
-
-            const response = await this.request<{
-                success: boolean;
-                data?: {
-                    files?: Record<string, string>;
-                    structure?: Record<string, unknown>;
-                    preview?: string;
-                };
-                error?: string;
-            }>('/generate', {
-                method: 'POST',
-                body: JSON.stringify({
-                    prompt: validated.prompt,
-                    options: validated.options ?? {},
-                }),
-            });
-
-            if (!response.success || !response.data?.files) {
-                return {
-                    success: false,
-                    files: [],
-                    estimatedCost: 0,
-                    error: response.error ?? 'Generation failed',
-                };
-            }
+            const { model, provider } = await this.route(validated.options?.model, 'generate');
+            const generation = await provider.generate(model.provider, validated, model.upstreamModel, options);
 
             // Convert files object to array
-            const files: GeneratedFile[] = Object.entries(response.data.files).map(
+            const files: GeneratedFile[] = Object.entries(generation.files).map(
                 ([path, content]) => ({
                     path,
                     content,
@@ -215,11 +218,14 @@ class EmergentClient {
             return {
                 success: true,
                 files,
-                preview: response.data.preview,
+                preview: generation.preview,
                 estimatedCost,
+                model: model.id,
             };
         } catch (error) {
-            console.error('[Emergent] Generation error:', error);
+            if (!options.signal?.aborted) {
+                console.error('[Emergent] Generation error:', error);
+            }
             return {
                 success: false,
                 files: [],
@@ -232,103 +238,85 @@ class EmergentClient {
     /**
      * Chat completion (non-streaming)
      */
-    async chatComplete(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    async chatComplete(
+        request: ChatCompletionRequest,
+        options: AiRequestOptions = {}
+    ): Promise<ChatCompletionResponse> {
         try {
-            // In development without API key, return mock data
-            if (!this.apiKey || process.env.NODE_ENV === 'development') {
-                return this.getMockChatResponse(request);
-            }
+            const { model, provider } = await this.route(request.model, 'chat');
 
-            return await this.request<ChatCompletionResponse>('/chat/completions', {
-                method: 'POST',
-                body: JSON.stringify({
-                    messages: request.messages,
-                    model: request.model ?? 'emergent-1',
-                    temperature: request.temperature ?? 0.7,
-                    max_tokens: request.maxTokens ?? 2048,
-                }),
-            });
+            return await provider.chatComplete(model.provider, {
+                ...request,
+                model: model.upstreamModel,
+                maxTokens: request.maxTokens ?? CHAT_MAX_COMPLETION_TOKENS,
+            }, options);
         } catch (error) {
-            console.error('[Emergent] Chat completion error:', error);
+            if (!options.signal?.aborted) {
+                console.error('[Emergent] Chat completion error:', error);
+            }
             throw error;
         }
     }
 
     /**
      * Chat completion with streaming
+     * Yields content chunks and returns the token usage when the stream ends
      */
     async *chatStream(
-        request: ChatCompletionRequest
-    ): AsyncGenerator<string, void, undefined> {
+        request: ChatCompletionRequest,
+        options: AiRequestOptions = {}
+    ): AsyncGenerator<string, ChatUsage, undefined> {
         try {
-            // In development without API key, yield mock stream
-            if (!this.apiKey || process.env.NODE_ENV === 'development') {
-                yield* this.getMockChatStream(request);
-                return;
-            }
+            const { model, provider } = await this.route(request.model, 'chat');
 
-            const response = await fetch(`${this.baseUrl}/chat/completions`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${this.apiKey}`,
-                },
-                body: JSON.stringify({
-                    messages: request.messages,
-                    model: request.model ?? 'emergent-1',
-                    temperature: request.temperature ?? 0.7,
-                    max_tokens: request.maxTokens ?? 2048,
-                    stream: true,
-                }),
-            });
-
-            if (!response.ok) {
-                throw new EmergentApiError(
-                    `HTTP ${response.status}`,
-                    response.status,
-                    null
-                );
+            return yield* provider.chatStream(model.provider, {
+                ...request,
+                model: model.upstreamModel,
+                maxTokens: request.maxTokens ?? CHAT_MAX_COMPLETION_TOKENS,
+            }, options);
+        } catch (error) {
+            if (!options.signal?.aborted) {
+                console.error('[Emergent] Chat stream error:', error);
             }
+            throw error;
+        }
+    }
 
-            const reader = response.body?.getReader();
-            if (!reader) {
-                throw new Error('No response body');
+    /**
+     * Propose a patch to a project's files (throws when the model fails or
+     * returns an invalid patch)
+     */
+    async iterate(request: IterationRequest, options: AiRequestOptions = {}): Promise<IterationResult> {
+        try {
+            const { model, provider } = await this.route(request.model, 'generate');
+            const patch = await provider.iterate(model.provider, {
+                ...request,
+                model: model.upstreamModel,
+                maxTokens: request.maxTokens ?? ITERATION_MAX_COMPLETION_TOKENS,
+            }, options);
+
+            return { ...patch, model: model.id };
+        } catch (error) {
+            if (!options.signal?.aborted) {
+                console.error('[Emergent] Iteration error:', error);
             }
+            throw error;
+        }
+    }
 
-            const decoder = new TextDecoder();
-            let buffer = '';
-
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                buffer += decoder.decode(value, { stream: true });
-                const lines = buffer.split('\n');
-                buffer = lines.pop() ?? '';
-
-                for (const line of lines) {
-                    if (line.startsWith('data: ')) {
-                        const data = line.slice(6);
-                        if (data === '[DONE]') return;
-
-                        try {
-                            const parsed = JSON.parse(data) as {
-                                choices?: Array<{
-                                    delta?: { content?: string };
-                                }>;
-                            };
-                            const content = parsed.choices?.[0]?.delta?.content;
-                            if (content) {
-                                yield content;
-                            }
-                        } catch {
-                            // Ignore parse errors in stream
-                        }
-                    }
-                }
-            }
+    /**
+     * Embed texts (one vector per input)
+     */
+    async embed(request: EmbeddingRequest, options: AiRequestOptions = {}): Promise<EmbeddingResponse> {
+        try {
+            const { model, provider } = await this.route(request.model, 'embed');
+            const response = await provider.embed(model.provider, { ...request, model: model.upstreamModel }, options);
+
+            return { ...response, model: model.id };
         } catch (error) {
-            console.error('[Emergent] Chat stream error:', error);
+            if (!options.signal?.aborted) {
+                console.error('[Emergent] Embedding error:', error);
+            }
             throw error;
         }
     }
@@ -382,209 +370,6 @@ class EmergentClient {
 
         return cost;
     }
-
-    /**
-     * Get mock generation result for development
-     */
-    private getMockGenerationResult(prompt: string): GenerationResult {
-        const mockFiles: GeneratedFile[] = [
-            {
-                path: 'app/page.tsx',
-                content: `// Generated from prompt: ${prompt.slice(0, 50)}...
-'use client';
-
-import { useState } from 'react';
-
-export default function HomePage() {
-  const [count, setCount] = useState(0);
-  
-  return (
-    <main className="min-h-screen bg-gradient-to-br from-black via-gray-900 to-black">
-      <div className="container mx-auto px-4 py-16">
-        <h1 className="text-5xl font-bold text-center text-white mb-8">
-          <span className="text-transparent bg-clip-text bg-gradient-to-r from-green-400 to-emerald-500">
-            Seu Site Gerado por IA
-          </span>
-        </h1>
-        <p className="text-xl text-gray-400 text-center max-w-2xl mx-auto">
-          Este site foi gerado automaticamente baseado no seu prompt.
-        </p>
-        <div className="mt-12 text-center">
-          <button 
-            onClick={() => setCount(c => c + 1)}
-            className="px-8 py-4 bg-gradient-to-r from-green-500 to-emerald-600 text-white font-semibold rounded-xl hover:scale-105 transition-transform"
-          >
-            Cliques: {count}
-          </button>
-        </div>
-      </div>
-    </main>
-  );
-}`,
-                type: 'file',
-                language: 'typescript',
-            },
-            {
-                path: 'app/layout.tsx',
-                content: `import type { Metadata } from 'next';
-import { Inter } from 'next/font/google';
-import './globals.css';
-
-const inter = Inter({ subsets: ['latin'] });
-
-export const metadata: Metadata = {
-  title: 'Site Gerado por IA',
-  description: 'Criado com PlataformaIA',
-};
-
-export default function RootLayout({
-  children,
-}: {
-  children: React.ReactNode;
-}) {
-  return (
-    <html lang="pt-BR">
-      <body className={inter.className}>{children}</body>
-    </html>
-  );
-}`,
-                type: 'file',
-                language: 'typescript',
-            },
-            {
-                path: 'app/globals.css',
-                content: `@tailwind base;
-@tailwind components;
-@tailwind utilities;
-
-:root {
-  --foreground-rgb: 255, 255, 255;
-  --background-rgb: 0, 0, 0;
-}
-
-body {
-  color: rgb(var(--foreground-rgb));
-  background: rgb(var(--background-rgb));
-}`,
-                type: 'file',
-                language: 'css',
-            },
-            {
-                path: 'package.json',
-                content: JSON.stringify({
-                    name: 'generated-site',
-                    version: '1.0.0',
-                    private: true,
-                    scripts: {
-                        dev: 'next dev',
-                        build: 'next build',
-                        start: 'next start',
-                    },
-                    dependencies: {
-                        next: '^15.0.0',
-                        react: '^19.0.0',
-                        'react-dom': '^19.0.0',
-                    },
-                    devDependencies: {
-                        typescript: '^5.0.0',
-                        '@types/react': '^19.0.0',
-                        tailwindcss: '^3.4.0',
-                        autoprefixer: '^10.4.0',
-                        postcss: '^8.4.0',
-                    },
-                }, null, 2),
-                type: 'file',
-                language: 'json',
-            },
-        ];
-
-        return {
-            success: true,
-            files: mockFiles,
-            preview: '<html><body>Preview placeholder</body></html>',
-            estimatedCost: CREDIT_COSTS.siteGeneration.basic,
-        };
-    }
-
-    /**
-     * Get mock chat response for development
-     */
-    private getMockChatResponse(
-        request: ChatCompletionRequest
-    ): ChatCompletionResponse {
-        const lastMessage = request.messages[request.messages.length - 1];
-        return {
-            id: `mock-${Date.now()}`,
-            choices: [
-                {
-                    index: 0,
-                    message: {
-                        role: 'assistant',
-                        content: `Esta é uma resposta de desenvolvimento para: "${lastMessage?.content?.slice(0, 50) ?? 'sua mensagem'}..."
-
-Em produção, esta resposta viria da API Emergent com IA avançada para ajudar você a:
-- Criar sites e aplicações
-- Escrever e refatorar código
-- Responder perguntas técnicas
-- E muito mais!`,
-                    },
-                    finishReason: 'stop',
-                },
-            ],
-            usage: {
-                promptTokens: 100,
-                completionTokens: 50,
-                totalTokens: 150,
-            },
-        };
-    }
-
-    /**
-     * Get mock chat stream for development
-     */
-    private async *getMockChatStream(
-        request: ChatCompletionRequest
-    ): AsyncGenerator<string, void, undefined> {
-        const lastMessage = request.messages[request.messages.length - 1];
-        const response = `Olá! Estou processando sua mensagem: "${lastMessage?.content?.slice(0, 30) ?? ''}..."
-
-Esta é uma resposta de **desenvolvimento** simulando o streaming.
-
-Em produção, você veria a resposta da IA aparecer palavra por palavra, criando uma experiência mais dinâmica e responsiva.
-
-Posso ajudar você a:
-- 🚀 Criar sites completos
-- 💻 Escrever código
-- 🔧 Debugar problemas
-- 📚 Explicar conceitos
-
-O que você gostaria de fazer?`;
-
-        // Simulate streaming by yielding word by word
-        const words = response.split(' ');
-        for (const word of words) {
-            yield word + ' ';
-            await new Promise((resolve) => setTimeout(resolve, 30));
-        }
-    }
-}
-
-// =============================================================================
-// CUSTOM ERROR CLASS
-// =============================================================================
-
-/**
- * Custom error class for Emergent API errors
- */
-export class EmergentApiError extends Error {
-    constructor(
-        message: string,
-        public readonly status: number,
-        public readonly details: unknown
-    ) {
-        super(message);
-        this.name = 'EmergentApiError';
-    }
 }
 
 // =============================================================================
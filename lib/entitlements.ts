@@ -0,0 +1,261 @@
+/**
+ * Entitlements
+ * Resolves a user's effective plan and checks usage against its limits
+ * (projects, sites per month, chat messages per day). Admins are unlimited,
+ * and so are the credits of plans with an unlimited allowance.
+ * Monthly and daily windows follow CREDIT_REFILL_TIMEZONE, like the refills.
+ */
+
+import { prisma } from './prisma';
+import { PLANS, CREDIT_REFILL_TIMEZONE, type PlanDefinition } from './constants';
+import { getRefillPeriodKey } from './refills';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type QuotaKey = 'projects' | 'sitesPerMonth' | 'chatMessagesPerDay';
+
+interface EntitlementSubject {
+    id: string;
+    planId: string;
+    isAdmin: boolean;
+}
+
+export interface UpgradeHint {
+    planId: string;
+    name: string;
+    limit: number | null;
+    url: string;
+}
+
+export interface QuotaCheck {
+    allowed: boolean;
+    quota: QuotaKey;
+    planId: string;
+    /** null when the plan has no limit */
+    limit: number | null;
+    used: number;
+    /** Cheapest plan with a higher limit, when there is one */
+    upgrade?: UpgradeHint;
+}
+
+export interface PlanLimitError {
+    error: string;
+    code: 'plan_limit_reached';
+    quota: QuotaKey;
+    planId: string;
+    limit: number | null;
+    used: number;
+    upgrade?: UpgradeHint;
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const QUOTA_LIMITS: Record<QuotaKey, (plan: PlanDefinition) => number> = {
+    projects: (plan) => plan.maxProjects,
+    sitesPerMonth: (plan) => plan.maxSitesPerMonth,
+    chatMessagesPerDay: (plan) => plan.maxChatMessagesPerDay,
+};
+
+const QUOTA_ERRORS: Record<QuotaKey, string> = {
+    projects: 'Project limit reached for your plan',
+    sitesPerMonth: 'Monthly site generation limit reached for your plan',
+    chatMessagesPerDay: 'Daily chat message limit reached for your plan',
+};
+
+const UPGRADE_URL = '/pricing';
+
+/** Plan of users whose planId matches no known plan */
+const FALLBACK_PLAN = PLANS.find((plan) => plan.id === 'free') as PlanDefinition;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Plan a user is entitled to; unknown plan ids fall back to free
+ */
+export function getEffectivePlan(planId: string): PlanDefinition {
+    return PLANS.find((plan) => plan.id === planId) ?? FALLBACK_PLAN;
+}
+
+/**
+ * Plans with an unlimited monthly credit allowance (Pro, Enterprise) are
+ * never charged credits, like admins; refills have nothing to grant them
+ */
+export function hasUnlimitedCredits(planId: string): boolean {
+    return !Number.isFinite(getEffectivePlan(planId).creditsMonthly);
+}
+
+function toLimit(value: number): number | null {
+    return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * First plan after the current one that raises the given limit
+ */
+function getUpgradeHint(plan: PlanDefinition, quota: QuotaKey): UpgradeHint | undefined {
+    const current = QUOTA_LIMITS[quota](plan);
+    const index = PLANS.findIndex((p) => p.id === plan.id);
+    const next = PLANS.slice(index + 1).find((p) => QUOTA_LIMITS[quota](p) > current);
+
+    if (!next) return undefined;
+
+    return {
+        planId: next.id,
+        name: next.name,
+        limit: toLimit(QUOTA_LIMITS[quota](next)),
+        url: UPGRADE_URL,
+    };
+}
+
+/**
+ * Start of the current day or month in CREDIT_REFILL_TIMEZONE
+ */
+function getWindowStart(window: 'daily' | 'monthly', now: Date): Date {
+    const [year, month, day = '01'] = getRefillPeriodKey(window, now).split('-');
+    const midnightUtc = Date.UTC(Number(year), Number(month) - 1, Number(day));
+
+    // Offset of the timezone at that instant (wall clock minus UTC)
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: CREDIT_REFILL_TIMEZONE,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+    }).formatToParts(new Date(midnightUtc));
+    const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+    const wallClock = Date.UTC(
+        part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second')
+    );
+
+    return new Date(midnightUtc - (wallClock - midnightUtc));
+}
+
+/**
+ * Current usage for a quota
+ */
+async function getUsage(userId: string, quota: QuotaKey, now: Date): Promise<number> {
+    switch (quota) {
+        case 'projects':
+            return prisma.project.count({ where: { userId, deletedAt: null } });
+        case 'sitesPerMonth':
+            // Deleted sites still count: deleting must not free the month's quota.
+            // Failed generations give theirs back.
+            return prisma.project.count({
+                where: {
+                    userId,
+                    prompt: { not: null },
+                    status: { not: 'FAILED' },
+                    createdAt: { gte: getWindowStart('monthly', now) },
+                },
+            });
+        case 'chatMessagesPerDay':
+            return prisma.message.count({
+                where: {
+                    role: 'USER',
+                    createdAt: { gte: getWindowStart('daily', now) },
+                    conversation: { userId },
+                },
+            });
+    }
+}
+
+// =============================================================================
+// QUOTA CHECKS
+// =============================================================================
+
+/**
+ * Check whether the user can consume one more unit of a quota
+ */
+export async function checkQuota(
+    user: EntitlementSubject,
+    quota: QuotaKey,
+    now: Date = new Date()
+): Promise<QuotaCheck> {
+    const plan = getEffectivePlan(user.planId);
+    const limit = user.isAdmin ? Infinity : QUOTA_LIMITS[quota](plan);
+
+    // Unlimited quotas skip the usage query
+    if (!Number.isFinite(limit)) {
+        return { allowed: true, quota, planId: plan.id, limit: null, used: 0 };
+    }
+
+    const used = await getUsage(user.id, quota, now);
+    const allowed = used < limit;
+
+    return {
+        allowed,
+        quota,
+        planId: plan.id,
+        limit,
+        used,
+        upgrade: allowed ? undefined : getUpgradeHint(plan, quota),
+    };
+}
+
+/**
+ * Check several quotas and return the first one that is exhausted
+ */
+export async function checkQuotas(
+    user: EntitlementSubject,
+    quotas: QuotaKey[],
+    now: Date = new Date()
+): Promise<QuotaCheck | null> {
+    for (const quota of quotas) {
+        const check = await checkQuota(user, quota, now);
+        if (!check.allowed) return check;
+    }
+
+    return null;
+}
+
+/**
+ * Body of the 403 returned when a quota is exhausted
+ */
+export function toPlanLimitError(check: QuotaCheck): PlanLimitError {
+    return {
+        error: QUOTA_ERRORS[check.quota],
+        code: 'plan_limit_reached',
+        quota: check.quota,
+        planId: check.planId,
+        limit: check.limit,
+        used: check.used,
+        upgrade: check.upgrade,
+    };
+}
+
+/**
+ * Usage against every limit of the user's plan (dashboard)
+ */
+export async function getEntitlements(
+    user: EntitlementSubject,
+    now: Date = new Date()
+): Promise<{ plan: PlanDefinition; quotas: QuotaCheck[] }> {
+    const plan = getEffectivePlan(user.planId);
+    const quotaKeys = Object.keys(QUOTA_LIMITS) as QuotaKey[];
+
+    const quotas = await Promise.all(
+        quotaKeys.map(async (quota): Promise<QuotaCheck> => {
+            const limit = user.isAdmin ? Infinity : QUOTA_LIMITS[quota](plan);
+            const used = await getUsage(user.id, quota, now);
+
+            return {
+                allowed: used < limit,
+                quota,
+                planId: plan.id,
+                limit: toLimit(limit),
+                used,
+                upgrade: user.isAdmin ? undefined : getUpgradeHint(plan, quota),
+            };
+        })
+    );
+
+    return { plan, quotas };
+}
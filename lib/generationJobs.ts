@@ -0,0 +1,395 @@
+/**
+ * Generation Jobs
+ * Site generation runs in the background: POST /api/generate creates the
+ * project (GENERATING) and a job, answers right away and runs the job after
+ * the response. The job persists its phase and progress, so the events stream
+ * can be served by any instance and resumed after a page refresh. A failed job
+ * leaves the project FAILED with the reason and returns the held credits.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { emergent } from './emergent';
+import { settleCredits, releaseCredits } from './credits';
+import { generateRequestSchema, type GenerateRequest } from './schemas';
+import { isValidFilePath } from './projectFiles';
+import { recordVersion } from './projectVersions';
+import { slugify } from './utils';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type GenerationPhase =
+    | 'queued'
+    | 'planning'
+    | 'generating'
+    | 'writing'
+    | 'validating'
+    | 'completed'
+    | 'failed';
+
+export type GenerationJobStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+/**
+ * Public view of a job (API responses and progress events)
+ */
+export interface GenerationJobSnapshot {
+    id: string;
+    projectId: string;
+    projectSlug: string;
+    status: GenerationJobStatus;
+    phase: GenerationPhase;
+    progress: number;
+    /** Latest step, e.g. the last file written */
+    detail: string | null;
+    filesTotal: number;
+    filesWritten: number;
+    model: string;
+    error: string | null;
+    /** Credits charged, once completed */
+    creditsCost: number | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface CreateGenerationJobInput {
+    userId: string;
+    prompt: string;
+    options?: Omit<NonNullable<GenerateRequest['options']>, 'model'>;
+    /** Resolved model id */
+    model: string;
+    holdId: string | null;
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+/** Running jobs touch their row this often, even while waiting on the model */
+const HEARTBEAT_MS = 5_000;
+
+/** A running job without a heartbeat for this long died with its instance */
+const STALE_AFTER_MS = 60_000;
+
+/** Files saved to the project per update while writing */
+const FILE_BATCH_SIZE = 5;
+
+/** Progress at the start of each phase; writing advances per file */
+const PHASE_PROGRESS: Record<GenerationPhase, number> = {
+    queued: 0,
+    planning: 5,
+    generating: 10,
+    writing: 60,
+    validating: 90,
+    completed: 100,
+    failed: 100,
+};
+
+const ACTIVE_STATUSES: GenerationJobStatus[] = ['QUEUED', 'RUNNING'];
+
+const jobInclude = {
+    project: { select: { slug: true, creditsCost: true } },
+} satisfies Prisma.GenerationJobInclude;
+
+type JobWithProject = Prisma.GenerationJobGetPayload<{ include: typeof jobInclude }>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toSnapshot(job: JobWithProject): GenerationJobSnapshot {
+    return {
+        id: job.id,
+        projectId: job.projectId,
+        projectSlug: job.project.slug,
+        status: job.status,
+        phase: job.phase as GenerationPhase,
+        progress: job.progress,
+        detail: job.detail,
+        filesTotal: job.filesTotal,
+        filesWritten: job.filesWritten,
+        model: job.model,
+        error: job.error,
+        creditsCost: job.status === 'COMPLETED' ? job.project.creditsCost : null,
+        createdAt: job.createdAt.toISOString(),
+        updatedAt: job.updatedAt.toISOString(),
+    };
+}
+
+export function isJobActive(job: Pick<GenerationJobSnapshot, 'status'>): boolean {
+    return ACTIVE_STATUSES.includes(job.status);
+}
+
+/**
+ * Problems that make the generated files unusable (empty list when valid)
+ */
+function validateGeneratedFiles(files: Record<string, string>): string[] {
+    const problems: string[] = [];
+    const paths = Object.keys(files);
+
+    if (paths.length === 0) {
+        problems.push('no files were generated');
+    }
+
+    for (const path of paths) {
+        if (!isValidFilePath(path)) {
+            problems.push(`invalid path "${path}"`);
+        }
+    }
+
+    const manifest = files['package.json'];
+    if (manifest !== undefined) {
+        try {
+            JSON.parse(manifest);
+        } catch {
+            problems.push('package.json is not valid JSON');
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Move a job that is still active to FAILED, with its project, and return
+ * the held credits. No-op when the job already finished.
+ */
+async function failJob(
+    job: Pick<JobWithProject, 'id' | 'projectId' | 'holdId'>,
+    reason: string
+): Promise<void> {
+    const { count } = await prisma.generationJob.updateMany({
+        where: { id: job.id, status: { in: ACTIVE_STATUSES } },
+        data: {
+            status: 'FAILED',
+            phase: 'failed',
+            progress: PHASE_PROGRESS.failed,
+            error: reason,
+            completedAt: new Date(),
+        },
+    });
+    if (count === 0) return;
+
+    await prisma.project.update({
+        where: { id: job.projectId },
+        data: { status: 'FAILED', failureReason: reason },
+    });
+
+    if (job.holdId) {
+        await releaseCredits(job.holdId, 'generation failed');
+    }
+}
+
+/**
+ * Fail jobs whose worker stopped sending heartbeats
+ */
+async function failIfStale(job: JobWithProject, now: Date = new Date()): Promise<JobWithProject> {
+    if (!ACTIVE_STATUSES.includes(job.status) || now.getTime() - job.updatedAt.getTime() < STALE_AFTER_MS) {
+        return job;
+    }
+
+    await failJob(job, 'Generation stopped responding');
+    return prisma.generationJob.findUniqueOrThrow({ where: { id: job.id }, include: jobInclude });
+}
+
+// =============================================================================
+// JOBS
+// =============================================================================
+
+/**
+ * Create the project (GENERATING) and its queued job
+ */
+export async function createGenerationJob(input: CreateGenerationJobInput): Promise<GenerationJobSnapshot> {
+    const projectName = `Projeto ${new Date().toLocaleDateString('pt-BR')}`;
+    const slug = `${slugify(input.prompt.slice(0, 50))}-${Date.now().toString(36)}`;
+
+    const job = await prisma.$transaction(async (tx) => {
+        const project = await tx.project.create({
+            data: {
+                userId: input.userId,
+                name: projectName,
+                slug,
+                description: input.prompt.slice(0, 500),
+                prompt: input.prompt,
+                techStack: input.options ?? {},
+                status: 'GENERATING',
+            },
+        });
+
+        return tx.generationJob.create({
+            data: {
+                userId: input.userId,
+                projectId: project.id,
+                prompt: input.prompt,
+                options: input.options ?? {},
+                model: input.model,
+                holdId: input.holdId,
+            },
+            include: jobInclude,
+        });
+    });
+
+    return toSnapshot(job);
+}
+
+/**
+ * Run a queued job to completion. Safe to call more than once: only the
+ * first call claims the job.
+ */
+export async function runGenerationJob(jobId: string): Promise<void> {
+    const { count } = await prisma.generationJob.updateMany({
+        where: { id: jobId, status: 'QUEUED' },
+        data: {
+            status: 'RUNNING',
+            phase: 'planning',
+            progress: PHASE_PROGRESS.planning,
+            startedAt: new Date(),
+        },
+    });
+    if (count === 0) return;
+
+    const job = await prisma.generationJob.findUniqueOrThrow({
+        where: { id: jobId },
+        include: { project: { select: { name: true } } },
+    });
+
+    const heartbeat = setInterval(() => {
+        prisma.generationJob
+            .update({ where: { id: jobId }, data: { updatedAt: new Date() } })
+            .catch((error) => console.error('[Generation Jobs] Heartbeat error:', error));
+    }, HEARTBEAT_MS);
+
+    try {
+        // Planning: rebuild and validate the request stored with the job
+        const request = generateRequestSchema.parse({
+            prompt: job.prompt,
+            options: { ...(job.options as Prisma.JsonObject), model: job.model },
+        });
+
+        await prisma.generationJob.update({
+            where: { id: jobId },
+            data: { phase: 'generating', progress: PHASE_PROGRESS.generating },
+        });
+
+        const result = await emergent.generate(request);
+        if (!result.success) {
+            throw new Error(result.error ?? 'Generation failed');
+        }
+
+        // Writing: save the files in batches, reporting each batch
+        const paths = result.files.map((file) => file.path);
+        const files: Record<string, string> = {};
+        const span = PHASE_PROGRESS.validating - PHASE_PROGRESS.writing;
+
+        await prisma.generationJob.update({
+            where: { id: jobId },
+            data: { phase: 'writing', progress: PHASE_PROGRESS.writing, filesTotal: paths.length },
+        });
+
+        for (let i = 0; i < result.files.length; i += FILE_BATCH_SIZE) {
+            const batch = result.files.slice(i, i + FILE_BATCH_SIZE);
+            for (const file of batch) {
+                files[file.path] = file.content;
+            }
+
+            const written = i + batch.length;
+            await prisma.project.update({ where: { id: job.projectId }, data: { files } });
+            await prisma.generationJob.update({
+                where: { id: jobId },
+                data: {
+                    filesWritten: written,
+                    progress: PHASE_PROGRESS.writing + Math.floor((span * written) / paths.length),
+                    detail: batch[batch.length - 1]?.path ?? null,
+                },
+            });
+        }
+
+        // Validating
+        await prisma.generationJob.update({
+            where: { id: jobId },
+            data: { phase: 'validating', progress: PHASE_PROGRESS.validating, detail: null },
+        });
+
+        const problems = validateGeneratedFiles(files);
+        if (problems.length > 0) {
+            throw new Error(`Invalid generated files: ${problems.join('; ')}`);
+        }
+
+        // The generated files are the project's first version
+        await prisma.$transaction(async (tx) => {
+            const project = await tx.project.update({
+                where: { id: job.projectId },
+                data: { status: 'READY', creditsCost: result.estimatedCost, failureReason: null },
+            });
+
+            await recordVersion(tx, {
+                projectId: job.projectId,
+                version: project.version,
+                files,
+                source: 'GENERATION',
+                authorId: job.userId,
+            });
+        });
+
+        // Charge the real cost and return the rest of the hold, once the project
+        // is saved: a failure before this point releases the whole hold. A hold
+        // that is no longer pending (expired) leaves this generation unpaid, so
+        // it fails instead of completing.
+        if (job.holdId) {
+            const settlement = await settleCredits(
+                job.holdId,
+                result.estimatedCost,
+                `Site generation: ${job.project.name} (${job.projectId})`,
+                { model: result.model ?? job.model, jobId }
+            );
+            if (!settlement.success) {
+                throw new Error(`Could not settle credit hold: ${settlement.reason}`);
+            }
+        }
+
+        await prisma.generationJob.update({
+            where: { id: jobId },
+            data: {
+                status: 'COMPLETED',
+                phase: 'completed',
+                progress: PHASE_PROGRESS.completed,
+                completedAt: new Date(),
+            },
+        });
+    } catch (error) {
+        console.error('[Generation Jobs] Job failed:', error);
+        await failJob(job, error instanceof Error ? error.message : 'Unknown error').catch((failError) =>
+            console.error('[Generation Jobs] Error failing job:', failError)
+        );
+    } finally {
+        clearInterval(heartbeat);
+    }
+}
+
+/**
+ * A user's job, or null if it does not exist or belongs to someone else
+ */
+export async function getGenerationJob(userId: string, jobId: string): Promise<GenerationJobSnapshot | null> {
+    const job = await prisma.generationJob.findFirst({
+        where: { id: jobId, userId },
+        include: jobInclude,
+    });
+
+    return job ? toSnapshot(await failIfStale(job)) : null;
+}
+
+/**
+ * A user's queued and running jobs, newest first (to resume after a refresh)
+ */
+export async function listActiveGenerationJobs(userId: string): Promise<GenerationJobSnapshot[]> {
+    const jobs = await prisma.generationJob.findMany({
+        where: { userId, status: { in: ACTIVE_STATUSES } },
+        include: jobInclude,
+        orderBy: { createdAt: 'desc' },
+    });
+
+    const now = new Date();
+    const checked = await Promise.all(jobs.map((job) => failIfStale(job, now)));
+
+    return checked.filter((job) => ACTIVE_STATUSES.includes(job.status)).map(toSnapshot);
+}
@@ -0,0 +1,421 @@
+/**
+ * Invoices
+ * One receipt per paid purchase or subscription period, numbered from a
+ * gapless sequence, rendered as HTML or PDF, and exported for NFS-e issuance.
+ */
+
+import type { Invoice, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { APP_METADATA } from './constants';
+import { formatCurrency, formatDate, formatTaxId } from './utils';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type InvoiceSource = 'subscription' | 'credit_pack' | 'plan_prepaid';
+
+export interface IssueInvoiceInput {
+    userId: string;
+    source: InvoiceSource;
+    description: string;
+    amount: number;
+    currency?: string;
+    paymentMethod: 'card' | 'pix' | 'boleto';
+    /** The payment this invoice is for; an invoice is issued once per reference */
+    referenceType: 'stripe_invoice' | 'stripe_payment' | 'payment';
+    referenceId: string;
+    issuedAt?: Date;
+}
+
+/**
+ * Record handed to accounting to issue the NFS-e (tomador + serviço)
+ */
+export interface NfseRecord {
+    invoiceId: string;
+    invoiceNumber: string;
+    issuedAt: string;
+    serviceCode: string | null;
+    description: string;
+    amount: number;
+    currency: string;
+    customer: {
+        name: string;
+        email: string;
+        taxId: string | null;
+        taxIdType: 'CPF' | 'CNPJ' | null;
+    };
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const INVOICE_SEQUENCE = 'invoice';
+
+/**
+ * Issuer shown on receipts (the company's CNPJ and address)
+ */
+function getIssuer() {
+    return {
+        name: process.env.INVOICE_ISSUER_NAME ?? APP_METADATA.name,
+        taxId: process.env.INVOICE_ISSUER_TAX_ID ?? null,
+        address: process.env.INVOICE_ISSUER_ADDRESS ?? null,
+    };
+}
+
+// =============================================================================
+// ISSUING
+// =============================================================================
+
+/**
+ * Next number of a gapless sequence. The row lock taken by the increment is
+ * held until the caller's transaction ends, so numbers are never skipped or reused.
+ */
+async function nextSequenceValue(tx: Prisma.TransactionClient, name: string): Promise<number> {
+    const { value } = await tx.sequence.upsert({
+        where: { name },
+        create: { name, value: 1 },
+        update: { value: { increment: 1 } },
+    });
+
+    return value;
+}
+
+/**
+ * Issue the invoice for a payment, snapshotting the customer's fiscal data.
+ * Idempotent per reference: webhook retries return the existing invoice.
+ */
+export async function issueInvoice(input: IssueInvoiceInput): Promise<Invoice> {
+    const existing = await prisma.invoice.findUnique({
+        where: {
+            referenceType_referenceId: {
+                referenceType: input.referenceType,
+                referenceId: input.referenceId,
+            },
+        },
+    });
+
+    if (existing) {
+        return existing;
+    }
+
+    let invoice: Invoice;
+
+    try {
+        invoice = await prisma.$transaction(async (tx) => {
+            const user = await tx.user.findUniqueOrThrow({
+                where: { id: input.userId },
+                select: { name: true, email: true, legalName: true, taxId: true },
+            });
+
+            return tx.invoice.create({
+                data: {
+                    number: await nextSequenceValue(tx, INVOICE_SEQUENCE),
+                    userId: input.userId,
+                    source: input.source,
+                    description: input.description,
+                    amount: input.amount,
+                    currency: input.currency ?? 'BRL',
+                    paymentMethod: input.paymentMethod,
+                    referenceType: input.referenceType,
+                    referenceId: input.referenceId,
+                    customerName: user.legalName ?? user.name ?? user.email,
+                    customerEmail: user.email,
+                    customerTaxId: user.taxId,
+                    issuedAt: input.issuedAt,
+                },
+            });
+        });
+    } catch (error) {
+        // Issued by a concurrent delivery
+        if ((error as { code?: string } | null)?.code === 'P2002') {
+            return prisma.invoice.findUniqueOrThrow({
+                where: {
+                    referenceType_referenceId: {
+                        referenceType: input.referenceType,
+                        referenceId: input.referenceId,
+                    },
+                },
+            });
+        }
+        throw error;
+    }
+
+    // Push to accounting as soon as it exists; failures are retried by the export
+    await pushToNfseWebhook(invoice).catch((error) => {
+        console.error(`[Invoices] NFS-e webhook failed for invoice ${invoice.id}:`, error);
+    });
+
+    return invoice;
+}
+
+/**
+ * Receipt number as printed: zero-padded sequence
+ */
+export function formatInvoiceNumber(invoice: Pick<Invoice, 'number'>): string {
+    return String(invoice.number).padStart(6, '0');
+}
+
+// =============================================================================
+// NFS-E EXPORT
+// =============================================================================
+
+export function toNfseRecord(invoice: Invoice): NfseRecord {
+    const taxId = invoice.customerTaxId;
+
+    return {
+        invoiceId: invoice.id,
+        invoiceNumber: formatInvoiceNumber(invoice),
+        issuedAt: invoice.issuedAt.toISOString(),
+        serviceCode: process.env.NFSE_SERVICE_CODE ?? null,
+        description: invoice.description,
+        amount: invoice.amount,
+        currency: invoice.currency,
+        customer: {
+            name: invoice.customerName,
+            email: invoice.customerEmail,
+            taxId,
+            taxIdType: taxId ? (taxId.length === 14 ? 'CNPJ' : 'CPF') : null,
+        },
+    };
+}
+
+/**
+ * Export hook: POST each new invoice to NFSE_EXPORT_WEBHOOK_URL (the
+ * accounting integration) and mark it EXPORTED when accepted
+ */
+async function pushToNfseWebhook(invoice: Invoice): Promise<void> {
+    const url = process.env.NFSE_EXPORT_WEBHOOK_URL;
+    if (!url) {
+        return;
+    }
+
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'x-webhook-secret': process.env.NFSE_EXPORT_WEBHOOK_SECRET ?? '',
+        },
+        body: JSON.stringify(toNfseRecord(invoice)),
+    });
+
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+    }
+
+    await prisma.invoice.updateMany({
+        where: { id: invoice.id, nfseStatus: 'PENDING' },
+        data: { nfseStatus: 'EXPORTED', nfseExportedAt: new Date() },
+    });
+}
+
+/**
+ * Invoices still waiting for an NFS-e, oldest first. Unless previewing,
+ * they are marked EXPORTED so the next export does not repeat them.
+ */
+export async function exportInvoicesForNfse(options: {
+    from?: Date;
+    to?: Date;
+    dryRun?: boolean;
+}): Promise<NfseRecord[]> {
+    const { from, to, dryRun = true } = options;
+
+    const invoices = await prisma.invoice.findMany({
+        where: {
+            nfseStatus: 'PENDING',
+            ...((from || to) && { issuedAt: { gte: from, lte: to } }),
+        },
+        orderBy: { number: 'asc' },
+    });
+
+    if (!dryRun && invoices.length > 0) {
+        await prisma.invoice.updateMany({
+            where: { id: { in: invoices.map((invoice) => invoice.id) }, nfseStatus: 'PENDING' },
+            data: { nfseStatus: 'EXPORTED', nfseExportedAt: new Date() },
+        });
+    }
+
+    return invoices.map(toNfseRecord);
+}
+
+/**
+ * NFS-e records as CSV (one row per invoice) for spreadsheet-based accounting
+ */
+export function toNfseCsv(records: NfseRecord[]): string {
+    const header = [
+        'numero',
+        'data_emissao',
+        'codigo_servico',
+        'discriminacao',
+        'valor',
+        'moeda',
+        'tomador_nome',
+        'tomador_email',
+        'tomador_documento',
+        'tomador_tipo_documento',
+    ];
+
+    const escape = (value: string | number | null) => {
+        const text = value === null ? '' : String(value);
+        return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = records.map((record) =>
+        [
+            record.invoiceNumber,
+            record.issuedAt,
+            record.serviceCode,
+            record.description,
+            record.amount.toFixed(2),
+            record.currency,
+            record.customer.name,
+            record.customer.email,
+            record.customer.taxId,
+            record.customer.taxIdType,
+        ]
+            .map(escape)
+            .join(',')
+    );
+
+    return [header.join(','), ...rows].join('\n');
+}
+
+// =============================================================================
+// RECEIPTS
+// =============================================================================
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+    card: 'Cartão de crédito',
+    pix: 'Pix',
+    boleto: 'Boleto bancário',
+};
+
+/**
+ * Lines shared by the HTML and PDF receipts
+ */
+function getReceiptFields(invoice: Invoice): Array<[string, string]> {
+    return [
+        ['Recibo nº', formatInvoiceNumber(invoice)],
+        ['Data de emissão', formatDate(invoice.issuedAt)],
+        ['Cliente', invoice.customerName],
+        ['CPF/CNPJ', invoice.customerTaxId ? formatTaxId(invoice.customerTaxId) : 'Não informado'],
+        ['E-mail', invoice.customerEmail],
+        ['Descrição', invoice.description],
+        ['Forma de pagamento', PAYMENT_METHOD_LABELS[invoice.paymentMethod] ?? invoice.paymentMethod],
+        ['Valor pago', formatCurrency(invoice.amount, invoice.currency)],
+        ...(invoice.nfseNumber ? [['NFS-e', invoice.nfseNumber] as [string, string]] : []),
+    ];
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Printable HTML receipt
+ */
+export function renderInvoiceHtml(invoice: Invoice): string {
+    const issuer = getIssuer();
+    const rows = getReceiptFields(invoice)
+        .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+        .join('');
+
+    return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>Recibo ${formatInvoiceNumber(invoice)} - ${escapeHtml(issuer.name)}</title>
+<style>
+body { font-family: Helvetica, Arial, sans-serif; color: #111; max-width: 640px; margin: 40px auto; padding: 0 16px; }
+h1 { font-size: 20px; margin-bottom: 4px; }
+.issuer { color: #555; font-size: 13px; margin-bottom: 24px; }
+table { width: 100%; border-collapse: collapse; }
+th, td { text-align: left; padding: 8px 0; border-bottom: 1px solid #eee; font-size: 14px; }
+th { color: #555; font-weight: normal; width: 40%; }
+.note { color: #777; font-size: 12px; margin-top: 24px; }
+</style>
+</head>
+<body>
+<h1>Recibo de pagamento</h1>
+<div class="issuer">
+${escapeHtml(issuer.name)}${issuer.taxId ? ` · CNPJ ${escapeHtml(formatTaxId(issuer.taxId))}` : ''}${issuer.address ? `<br>${escapeHtml(issuer.address)}` : ''}
+</div>
+<table>${rows}</table>
+<p class="note">Este recibo não substitui a Nota Fiscal de Serviços Eletrônica (NFS-e).</p>
+</body>
+</html>`;
+}
+
+/**
+ * Escape text for a PDF string literal, keeping to the WinAnsi charset
+ */
+function pdfText(text: string): string {
+    return text
+        .replace(/[^\x20-\x7e\xa0-\xff]/g, (char) => (char === '\u202f' ? ' ' : '?'))
+        .replace(/\\/g, '\\\\')
+        .replace(/\(/g, '\\(')
+        .replace(/\)/g, '\\)');
+}
+
+/**
+ * Single-page PDF receipt (Helvetica, no external dependencies)
+ */
+export function renderInvoicePdf(invoice: Invoice): Uint8Array<ArrayBuffer> {
+    const issuer = getIssuer();
+    const lines: Array<{ text: string; size: number; bold?: boolean; x?: number; gap?: number }> = [
+        { text: 'Recibo de pagamento', size: 18, bold: true, gap: 28 },
+        { text: issuer.name + (issuer.taxId ? ` - CNPJ ${formatTaxId(issuer.taxId)}` : ''), size: 10, gap: 14 },
+        ...(issuer.address ? [{ text: issuer.address, size: 10, gap: 14 }] : []),
+    ];
+
+    let y = 790;
+    let content = '';
+
+    const write = (text: string, size: number, x: number, bold = false) => {
+        content += `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${y} Td (${pdfText(text)}) Tj ET\n`;
+    };
+
+    for (const line of lines) {
+        write(line.text, line.size, 50, line.bold);
+        y -= line.gap ?? 16;
+    }
+
+    y -= 16;
+    for (const [label, value] of getReceiptFields(invoice)) {
+        write(label, 11, 50);
+        write(value, 11, 220, true);
+        y -= 22;
+    }
+
+    y -= 16;
+    write('Este recibo não substitui a Nota Fiscal de Serviços Eletrônica (NFS-e).', 9, 50);
+
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+        `<< /Length ${content.length} >>\nstream\n${content}endstream`,
+    ];
+
+    // Every character is a single Latin-1 byte, so string offsets are byte offsets
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((object, i) => {
+        const offset = pdf.length;
+        pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+    });
+
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Uint8Array.from(pdf, (char) => char.charCodeAt(0));
+}
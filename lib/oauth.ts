@@ -0,0 +1,280 @@
+/**
+ * OAuth Helpers
+ * Authorization code + PKCE flow primitives for the Auth0 route handler
+ */
+
+import { fromBase64Url, randomToken, seal, sha256Base64Url, unseal } from './session';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Login transaction kept in a short-lived sealed cookie between
+ * /api/auth/login and /api/auth/callback
+ */
+export interface AuthTransaction {
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+    returnTo: string;
+    expiresAt: number;
+}
+
+/**
+ * OIDC endpoints for the configured issuer
+ */
+export interface IssuerEndpoints {
+    authorize: string;
+    token: string;
+    userInfo: string;
+    logout: string;
+    revoke: string;
+}
+
+/**
+ * Token endpoint response (normalized)
+ */
+export interface TokenSet {
+    accessToken: string;
+    refreshToken?: string;
+    idToken?: string;
+    /** Absolute expiry of the access token (ms since epoch) */
+    expiresAt: number;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const AUTH_TRANSACTION_COOKIE_NAME = 'appAuthTxn';
+
+const AUTH_TRANSACTION_TTL_SECONDS = 60 * 10; // 10 minutes
+
+export const AUTH_TRANSACTION_COOKIE_OPTIONS = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    maxAge: AUTH_TRANSACTION_TTL_SECONDS,
+    path: '/api/auth',
+};
+
+export const DEFAULT_RETURN_TO = '/dashboard';
+
+/**
+ * Resolve issuer endpoints from AUTH0_ISSUER_BASE_URL.
+ * Any issuer exposing Auth0-style paths works, including a local stand-in
+ * (see __tests__/helpers/oidcIssuer.ts).
+ */
+export function getIssuerEndpoints(
+    issuerBaseUrl: string = process.env.AUTH0_ISSUER_BASE_URL ?? ''
+): IssuerEndpoints {
+    const normalized = /^https?:\/\//.test(issuerBaseUrl) ? issuerBaseUrl : `https://${issuerBaseUrl}`;
+    const base = normalized.replace(/\/+$/, '');
+
+    return {
+        authorize: `${base}/authorize`,
+        token: `${base}/oauth/token`,
+        userInfo: `${base}/userinfo`,
+        logout: `${base}/v2/logout`,
+        revoke: `${base}/oauth/revoke`,
+    };
+}
+
+/**
+ * Scopes requested at login. `offline_access` is what makes Auth0 issue a refresh token.
+ */
+export const AUTH_SCOPE = process.env.AUTH0_SCOPE ?? 'openid profile email offline_access';
+
+// =============================================================================
+// PKCE / STATE
+// =============================================================================
+
+/**
+ * Create a new login transaction with fresh state, nonce and PKCE verifier
+ */
+export async function createAuthTransaction(returnTo: string): Promise<{
+    transaction: AuthTransaction;
+    codeChallenge: string;
+}> {
+    const transaction: AuthTransaction = {
+        state: randomToken(32),
+        nonce: randomToken(32),
+        codeVerifier: randomToken(48),
+        returnTo,
+        expiresAt: Date.now() + AUTH_TRANSACTION_TTL_SECONDS * 1000,
+    };
+
+    return {
+        transaction,
+        codeChallenge: await sha256Base64Url(transaction.codeVerifier),
+    };
+}
+
+/**
+ * Seal a transaction for the transaction cookie
+ */
+export async function sealAuthTransaction(transaction: AuthTransaction): Promise<string> {
+    return seal(transaction);
+}
+
+/**
+ * Open the transaction cookie and check it matches the returned state.
+ * Returns null when missing, tampered, expired or for a different login attempt.
+ */
+export async function verifyAuthTransaction(
+    cookieValue: string | undefined,
+    state: string | null
+): Promise<AuthTransaction | null> {
+    if (!cookieValue || !state) {
+        return null;
+    }
+
+    const unsealed = await unseal<AuthTransaction>(cookieValue);
+    const transaction = unsealed?.value;
+
+    if (!transaction || transaction.expiresAt < Date.now()) {
+        return null;
+    }
+
+    return timingSafeEqual(transaction.state, state) ? transaction : null;
+}
+
+/**
+ * Read the `nonce` claim from an ID token received directly from the token
+ * endpoint over TLS (OIDC Core 3.1.3.7 allows skipping signature checks here)
+ */
+export function getIdTokenNonce(idToken: string | undefined): string | null {
+    const payload = idToken?.split('.')[1];
+    if (!payload) {
+        return null;
+    }
+
+    try {
+        const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as {
+            nonce?: unknown;
+        };
+        return typeof claims.nonce === 'string' ? claims.nonce : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Compare two strings without short-circuiting on the first mismatch
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) {
+        return false;
+    }
+
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return diff === 0;
+}
+
+// =============================================================================
+// TOKEN REFRESH
+// =============================================================================
+
+/**
+ * Error raised when the issuer rejects a refresh token
+ */
+export class TokenRefreshError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number,
+        public readonly code?: string
+    ) {
+        super(message);
+        this.name = 'TokenRefreshError';
+    }
+}
+
+/**
+ * Exchange a refresh token for a fresh access token.
+ * Auth0 may rotate the refresh token; callers must store `refreshToken` when present.
+ */
+export async function refreshTokens(refreshToken: string): Promise<TokenSet> {
+    const response = await fetch(getIssuerEndpoints().token, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            grant_type: 'refresh_token',
+            client_id: process.env.AUTH0_CLIENT_ID ?? '',
+            client_secret: process.env.AUTH0_CLIENT_SECRET ?? '',
+            refresh_token: refreshToken,
+        }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok || typeof data.access_token !== 'string') {
+        throw new TokenRefreshError(
+            data.error_description ?? `HTTP ${response.status}`,
+            response.status,
+            data.error
+        );
+    }
+
+    return {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token,
+        idToken: data.id_token,
+        expiresAt: Date.now() + Number(data.expires_in ?? 0) * 1000,
+    };
+}
+
+/**
+ * Revoke a refresh token at the issuer (best effort, used on logout)
+ */
+export async function revokeRefreshToken(refreshToken: string): Promise<void> {
+    await fetch(getIssuerEndpoints().revoke, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            client_id: process.env.AUTH0_CLIENT_ID ?? '',
+            client_secret: process.env.AUTH0_CLIENT_SECRET ?? '',
+            token: refreshToken,
+        }),
+    });
+}
+
+// =============================================================================
+// REDIRECT VALIDATION
+// =============================================================================
+
+/**
+ * Restrict a post-login/logout redirect to a same-origin relative path.
+ * Anything else (absolute URLs, protocol-relative `//host`, backslash tricks,
+ * control characters) falls back to `fallback`.
+ */
+export function sanitizeReturnTo(
+    value: string | null | undefined,
+    baseUrl: string,
+    fallback: string = DEFAULT_RETURN_TO
+): string {
+    if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) {
+        return fallback;
+    }
+
+    // eslint-disable-next-line no-control-regex
+    if (/[\u0000-\u001f\u007f\\]/.test(value)) {
+        return fallback;
+    }
+
+    try {
+        const base = new URL(baseUrl);
+        const resolved = new URL(value, base);
+
+        if (resolved.origin !== base.origin) {
+            return fallback;
+        }
+
+        return `${resolved.pathname}${resolved.search}${resolved.hash}`;
+    } catch {
+        return fallback;
+    }
+}
@@ -0,0 +1,551 @@
+/**
+ * Payments
+ * Provider abstraction for one-off Brazilian payment methods (Pix, boleto).
+ * A Payment row is created PENDING with the voucher the customer pays, then
+ * moved to PAID by the provider's confirmation webhook (or status polling),
+ * which grants the credit pack or a prepaid plan month.
+ * Cards keep going through Stripe Checkout (lib/billing).
+ */
+
+import type { Payment, PaymentMethod, PaymentStatus } from '@prisma/client';
+import { prisma } from './prisma';
+import { grantCredits } from './credits';
+import { calculateRefillAmount, PREPAID_SUBSCRIPTION_STATUS } from './refills';
+import { issueInvoice } from './invoices';
+import { timingSafeEqual } from './oauth';
+import { CREDIT_PACKS, PLANS } from './constants';
+import {
+    createPaymentIntent,
+    retrievePaymentIntent,
+    type StripePaymentIntent,
+} from './stripe';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PaymentProductType = 'pack' | 'plan';
+
+/**
+ * Methods paid with a voucher (cards go through Stripe Checkout)
+ */
+export type VoucherPaymentMethod = 'PIX' | 'BOLETO';
+
+export interface PaymentProduct {
+    type: PaymentProductType;
+    id: string;
+    name: string;
+    amount: number;
+    currency: string;
+    /** Credits granted on payment (pack size or the plan's monthly allowance) */
+    credits: number;
+}
+
+export interface PaymentPayer {
+    name: string;
+    email: string;
+    /** CPF or CNPJ, digits only (required for boleto) */
+    taxId?: string;
+    address?: {
+        line1: string;
+        city: string;
+        state: string;
+        postalCode: string;
+    };
+}
+
+/**
+ * Provider-side view of a payment
+ */
+export interface ProviderPayment {
+    providerPaymentId: string;
+    status: PaymentStatus;
+    pixCode?: string | null;
+    pixQrCodeUrl?: string | null;
+    boletoNumber?: string | null;
+    boletoUrl?: string | null;
+    expiresAt?: Date | null;
+}
+
+/**
+ * Normalized status change delivered by a provider webhook
+ */
+export interface PaymentEvent {
+    eventId: string;
+    providerPaymentId: string;
+    status: Exclude<PaymentStatus, 'PENDING'>;
+}
+
+export interface PaymentProvider {
+    id: string;
+    methods: PaymentMethod[];
+    createPayment(input: {
+        paymentId: string;
+        method: PaymentMethod;
+        product: PaymentProduct;
+        payer: PaymentPayer;
+        expiresInSeconds: number;
+    }): Promise<ProviderPayment>;
+    getPayment(providerPaymentId: string): Promise<ProviderPayment>;
+    /**
+     * Verify and parse a webhook delivered to /api/webhooks/payments/:provider.
+     * Providers with their own endpoint (Stripe) forward events instead.
+     */
+    parseWebhook?(payload: string, headers: Headers): Promise<PaymentEvent | null>;
+}
+
+export type PaymentWebhookOutcome = 'processed' | 'duplicate' | 'ignored';
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+/**
+ * Voucher lifetime per method: Pix is paid on the spot, boleto clears in days
+ */
+const PAYMENT_EXPIRY_SECONDS: Record<VoucherPaymentMethod, number> = {
+    PIX: 30 * 60,
+    BOLETO: 3 * 24 * 60 * 60,
+};
+
+/**
+ * Length of a plan month bought with Pix/boleto
+ */
+export const PREPAID_PLAN_DAYS = 30;
+
+// =============================================================================
+// PROVIDERS
+// =============================================================================
+
+const STRIPE_STATUS_MAP: Record<StripePaymentIntent['status'], PaymentStatus> = {
+    requires_payment_method: 'FAILED',
+    requires_confirmation: 'PENDING',
+    requires_action: 'PENDING',
+    processing: 'PENDING',
+    succeeded: 'PAID',
+    canceled: 'CANCELED',
+};
+
+function fromStripePaymentIntent(intent: StripePaymentIntent): ProviderPayment {
+    const pix = intent.next_action?.pix_display_qr_code;
+    const boleto = intent.next_action?.boleto_display_details;
+    const expiresAt = pix?.expires_at ?? boleto?.expires_at;
+
+    return {
+        providerPaymentId: intent.id,
+        status: STRIPE_STATUS_MAP[intent.status],
+        pixCode: pix?.data,
+        pixQrCodeUrl: pix?.image_url_png,
+        boletoNumber: boleto?.number,
+        boletoUrl: boleto?.hosted_voucher_url,
+        expiresAt: expiresAt ? new Date(expiresAt * 1000) : null,
+    };
+}
+
+/**
+ * Stripe PaymentIntents with the pix / boleto payment method types.
+ * Confirmation arrives on the Stripe webhook (see handleStripeEvent).
+ */
+const stripeProvider: PaymentProvider = {
+    id: 'stripe',
+    methods: ['PIX', 'BOLETO'],
+
+    async createPayment({ paymentId, method, product, payer, expiresInSeconds }) {
+        const intent = await createPaymentIntent({
+            method: method === 'PIX' ? 'pix' : 'boleto',
+            amount: product.amount,
+            currency: product.currency,
+            expiresInSeconds,
+            billingDetails: payer,
+            metadata: { paymentId, productType: product.type, productId: product.id },
+            idempotencyKey: `payment:${paymentId}`,
+        });
+
+        return fromStripePaymentIntent(intent);
+    },
+
+    async getPayment(providerPaymentId) {
+        return fromStripePaymentIntent(await retrievePaymentIntent(providerPaymentId));
+    },
+};
+
+/**
+ * Local provider for development and automated tests: issues fake vouchers
+ * and is settled by posting to /api/webhooks/payments/fake with the
+ * FAKE_PAYMENTS_WEBHOOK_SECRET in the x-webhook-secret header:
+ * { "paymentId": "fake_...", "status": "PAID" }
+ */
+const fakeProvider: PaymentProvider = {
+    id: 'fake',
+    methods: ['PIX', 'BOLETO'],
+
+    async createPayment({ paymentId, method, product, expiresInSeconds }) {
+        const providerPaymentId = `fake_${paymentId}`;
+        const cents = String(Math.round(product.amount * 100)).padStart(10, '0');
+
+        return {
+            providerPaymentId,
+            status: 'PENDING',
+            ...(method === 'PIX'
+                ? { pixCode: `00020126360014BR.GOV.BCB.PIX0114${providerPaymentId}5204000053039865406${cents}6304FAKE` }
+                : { boletoNumber: `00190.00009 01234.567890 12345.678901 1 ${cents}` }),
+            expiresAt: new Date(Date.now() + expiresInSeconds * 1000),
+        };
+    },
+
+    // Fake payments only change through the webhook
+    async getPayment(providerPaymentId) {
+        return { providerPaymentId, status: 'PENDING' };
+    },
+
+    async parseWebhook(payload, headers) {
+        const secret = process.env.FAKE_PAYMENTS_WEBHOOK_SECRET;
+        const provided = headers.get('x-webhook-secret');
+
+        if (!secret || !provided || !timingSafeEqual(provided, secret)) {
+            return null;
+        }
+
+        try {
+            const body = JSON.parse(payload) as { id?: string; paymentId?: string; status?: string };
+            const statuses: PaymentEvent['status'][] = ['PAID', 'FAILED', 'EXPIRED', 'CANCELED'];
+            const status = statuses.find((s) => s === body.status);
+
+            if (!body.paymentId || !status) {
+                return null;
+            }
+
+            return {
+                eventId: body.id ?? `${body.paymentId}:${status}`,
+                providerPaymentId: body.paymentId,
+                status,
+            };
+        } catch {
+            return null;
+        }
+    },
+};
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+    stripe: stripeProvider,
+    fake: fakeProvider,
+};
+
+/**
+ * Provider by id, defaulting to PAYMENT_PROVIDER. The fake provider is never
+ * available in production.
+ */
+export function getPaymentProvider(
+    id: string = process.env.PAYMENT_PROVIDER ?? 'stripe'
+): PaymentProvider | null {
+    if (id === 'fake' && process.env.NODE_ENV === 'production') {
+        return null;
+    }
+
+    return PROVIDERS[id] ?? null;
+}
+
+// =============================================================================
+// PRODUCTS
+// =============================================================================
+
+/**
+ * Resolve what a one-off payment buys: a credit pack or a month of a paid plan
+ */
+export function getPaymentProduct(type: PaymentProductType, id: string): PaymentProduct | null {
+    if (type === 'pack') {
+        const pack = CREDIT_PACKS.find((p) => p.id === id);
+        return pack
+            ? { type, id, name: pack.name, amount: pack.price, currency: pack.currency, credits: pack.credits }
+            : null;
+    }
+
+    const plan = PLANS.find((p) => p.id === id);
+    if (!plan || plan.priceMonthly === 0) {
+        return null;
+    }
+
+    return {
+        type,
+        id,
+        name: plan.name,
+        amount: plan.priceMonthly,
+        currency: 'BRL',
+        credits: plan.creditsMonthly,
+    };
+}
+
+// =============================================================================
+// PAYMENTS
+// =============================================================================
+
+/**
+ * Create a payment and issue its voucher with the provider
+ */
+export async function createPayment(
+    provider: PaymentProvider,
+    userId: string,
+    method: VoucherPaymentMethod,
+    product: PaymentProduct,
+    payer: PaymentPayer
+): Promise<Payment> {
+    const payment = await prisma.payment.create({
+        data: {
+            userId,
+            provider: provider.id,
+            method,
+            productType: product.type,
+            productId: product.id,
+            amount: product.amount,
+            currency: product.currency,
+        },
+    });
+
+    try {
+        const issued = await provider.createPayment({
+            paymentId: payment.id,
+            method,
+            product,
+            payer,
+            expiresInSeconds: PAYMENT_EXPIRY_SECONDS[method],
+        });
+
+        return await prisma.payment.update({
+            where: { id: payment.id },
+            data: {
+                providerPaymentId: issued.providerPaymentId,
+                status: issued.status,
+                pixCode: issued.pixCode,
+                pixQrCodeUrl: issued.pixQrCodeUrl,
+                boletoNumber: issued.boletoNumber,
+                boletoUrl: issued.boletoUrl,
+                expiresAt: issued.expiresAt,
+            },
+        });
+    } catch (error) {
+        await prisma.payment.update({
+            where: { id: payment.id },
+            data: { status: 'FAILED' },
+        });
+        throw error;
+    }
+}
+
+/**
+ * Refresh a pending payment for status polling: expire stale vouchers and
+ * pick up confirmations whose webhook has not arrived yet. A paid payment
+ * whose fulfillment failed is fulfilled again.
+ */
+export async function syncPayment(payment: Payment, now: Date = new Date()): Promise<Payment> {
+    if (payment.status === 'PAID') {
+        const fulfilled = await prisma.creditTransaction.findUnique({
+            where: { idempotencyKey: `payment:${payment.id}` },
+        });
+        if (!fulfilled) {
+            await fulfillPayment(payment, now);
+        }
+        return payment;
+    }
+
+    if (payment.status !== 'PENDING' || !payment.providerPaymentId) {
+        return payment;
+    }
+
+    const provider = getPaymentProvider(payment.provider);
+    if (provider) {
+        const current = await provider.getPayment(payment.providerPaymentId);
+        if (current.status !== 'PENDING') {
+            return applyPaymentStatus(payment.id, current.status, now);
+        }
+    }
+
+    if (payment.expiresAt && payment.expiresAt <= now) {
+        return applyPaymentStatus(payment.id, 'EXPIRED', now);
+    }
+
+    return payment;
+}
+
+/**
+ * Move a payment to its final status. Only PENDING payments change, except
+ * PAID which always wins: a Pix paid at the last second still confirms after
+ * we expired it locally. Fulfillment is idempotent, so replays are safe.
+ */
+async function applyPaymentStatus(
+    paymentId: string,
+    status: Exclude<PaymentStatus, 'PENDING'>,
+    now: Date = new Date()
+): Promise<Payment> {
+    await prisma.payment.updateMany({
+        where: {
+            id: paymentId,
+            status: status === 'PAID' ? { not: 'PAID' } : 'PENDING',
+        },
+        data: {
+            status,
+            ...(status === 'PAID' && { paidAt: now }),
+        },
+    });
+
+    const payment = await prisma.payment.findUniqueOrThrow({ where: { id: paymentId } });
+
+    if (payment.status === 'PAID') {
+        await fulfillPayment(payment, now);
+    }
+
+    return payment;
+}
+
+/**
+ * Apply a provider's webhook event once
+ */
+export async function handlePaymentEvent(
+    providerId: string,
+    event: PaymentEvent
+): Promise<PaymentWebhookOutcome> {
+    const existing = await prisma.webhookEvent.findUnique({
+        where: { provider_eventId: { provider: providerId, eventId: event.eventId } },
+    });
+
+    if (existing) {
+        return 'duplicate';
+    }
+
+    const payment = await prisma.payment.findUnique({
+        where: {
+            provider_providerPaymentId: {
+                provider: providerId,
+                providerPaymentId: event.providerPaymentId,
+            },
+        },
+    });
+
+    if (payment) {
+        await applyPaymentStatus(payment.id, event.status);
+    }
+
+    await prisma.webhookEvent
+        .create({ data: { provider: providerId, eventId: event.eventId, type: `payment.${event.status.toLowerCase()}` } })
+        .catch((error: unknown) => {
+            // Recorded by a concurrent delivery
+            if ((error as { code?: string } | null)?.code !== 'P2002') throw error;
+        });
+
+    return payment ? 'processed' : 'ignored';
+}
+
+/**
+ * Map a Stripe PaymentIntent to a payment status change (Stripe webhook forwarding)
+ */
+export function toPaymentEvent(eventId: string, intent: StripePaymentIntent): PaymentEvent | null {
+    const status = STRIPE_STATUS_MAP[intent.status];
+    return status === 'PENDING' ? null : { eventId, providerPaymentId: intent.id, status };
+}
+
+// =============================================================================
+// FULFILLMENT
+// =============================================================================
+
+/**
+ * Invoice and grant what a paid payment bought. Keyed by payment id, so
+ * running it again for the same payment never invoices or grants twice.
+ * Throws when the credits could not be granted, so the webhook is redelivered
+ * (or the next status poll retries).
+ */
+async function fulfillPayment(payment: Payment, now: Date): Promise<void> {
+    const product = getPaymentProduct(payment.productType as PaymentProductType, payment.productId);
+    if (!product) {
+        console.warn(`[Payments] Unknown product ${payment.productType}:${payment.productId} on payment ${payment.id}`);
+        return;
+    }
+
+    const idempotencyKey = `payment:${payment.id}`;
+
+    await issueInvoice({
+        userId: payment.userId,
+        source: product.type === 'pack' ? 'credit_pack' : 'plan_prepaid',
+        description:
+            product.type === 'pack'
+                ? `${product.name} (${product.credits} créditos)`
+                : `Plano ${product.name} - ${PREPAID_PLAN_DAYS} dias`,
+        amount: payment.amount,
+        currency: payment.currency,
+        paymentMethod: payment.method === 'BOLETO' ? 'boleto' : 'pix',
+        referenceType: 'payment',
+        referenceId: payment.id,
+        issuedAt: payment.paidAt ?? now,
+    });
+
+    if (product.type === 'pack') {
+        const grant = await grantCredits(payment.userId, product.credits, 'PURCHASE', `${product.name} purchase`, {
+            idempotencyKey,
+            // Refunds look the purchase up by the provider's payment id
+            referenceId: payment.providerPaymentId ?? payment.id,
+            referenceType: 'payment',
+            metadata: { source: payment.provider, method: payment.method, packId: product.id },
+        });
+        if (!grant.success) {
+            throw new Error(`Could not grant credits for payment ${payment.id}`);
+        }
+        return;
+    }
+
+    await grantPrepaidPlan(payment, product, idempotencyKey, now);
+}
+
+/**
+ * Switch the user to the plan for PREPAID_PLAN_DAYS (extending a running
+ * prepaid month) and grant its monthly credits, in one transaction (none for
+ * unlimited plans, whose credits are never charged)
+ */
+async function grantPrepaidPlan(
+    payment: Payment,
+    product: PaymentProduct,
+    idempotencyKey: string,
+    now: Date
+): Promise<void> {
+    try {
+        await prisma.$transaction(async (tx) => {
+            const existing = await tx.creditTransaction.findUnique({ where: { idempotencyKey } });
+            if (existing) return;
+
+            const user = await tx.user.findUniqueOrThrow({
+                where: { id: payment.userId },
+                select: { credits: true, subscriptionStatus: true, currentPeriodEnd: true },
+            });
+
+            const runningUntil =
+                user.subscriptionStatus === PREPAID_SUBSCRIPTION_STATUS ? user.currentPeriodEnd : null;
+            const periodStart = runningUntil && runningUntil > now ? runningUntil : now;
+            const amount = calculateRefillAmount(product.id, product.credits, user.credits);
+
+            const { credits: balance } = await tx.user.update({
+                where: { id: payment.userId },
+                data: {
+                    planId: product.id,
+                    subscriptionStatus: PREPAID_SUBSCRIPTION_STATUS,
+                    currentPeriodEnd: new Date(periodStart.getTime() + PREPAID_PLAN_DAYS * 24 * 60 * 60 * 1000),
+                    credits: { increment: amount },
+                },
+                select: { credits: true },
+            });
+
+            await tx.creditTransaction.create({
+                data: {
+                    userId: payment.userId,
+                    type: 'REFILL',
+                    amount,
+                    balance,
+                    description: `${product.name} plan credits`,
+                    referenceId: payment.providerPaymentId ?? payment.id,
+                    referenceType: 'payment',
+                    idempotencyKey,
+                    metadata: { source: payment.provider, method: payment.method, planId: product.id },
+                },
+            });
+        });
+    } catch (error) {
+        // A concurrent delivery fulfilled this payment first
+        if ((error as { code?: string } | null)?.code !== 'P2002') throw error;
+    }
+}
@@ -69,9 +69,19 @@ export type {
     AuditLog,
     ApiKey,
     SystemSetting,
+    RevokedSession,
+    AuthSession,
+    WebhookEvent,
+    Payment,
+    Invoice,
+    Sequence,
     Role,
     PlanTier,
     TransactionType,
+    HoldStatus,
+    PaymentMethod,
+    PaymentStatus,
+    NfseStatus,
     ProjectStatus,
     ConversationStatus,
     MessageRole,
@@ -0,0 +1,233 @@
+/**
+ * Project Files
+ * Helpers for the `Project.files` map (path -> content): path validation and
+ * applying and diffing file changes, shared by generation jobs, iterations
+ * and versions.
+ */
+
+import { PROJECT_FILE_LIMITS } from './constants';
+import type { FileChange, FileOperation } from './schemas';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ProjectFiles = Record<string, string>;
+
+/**
+ * A change checked against the current files, with what it replaces so it can
+ * be shown as a diff. `content` is null for deletions, `previous` for creations.
+ */
+export interface ReviewableChange {
+    action: FileChange['action'];
+    path: string;
+    previous: string | null;
+    content: string | null;
+}
+
+export type FileOperationResult =
+    | { success: true; files: ProjectFiles }
+    | { success: false; reason: 'invalid_path' | 'not_found' | 'already_exists'; path: string };
+
+export type FileLimitViolation =
+    | { reason: 'file_too_large'; path: string; limit: number }
+    | { reason: 'project_too_large' | 'too_many_files'; limit: number };
+
+// =============================================================================
+// PATHS
+// =============================================================================
+
+const MAX_PATH_LENGTH = 255;
+
+/**
+ * Relative POSIX path without empty, `.` or `..` segments
+ */
+export function isValidFilePath(path: string): boolean {
+    if (!path || path.length > MAX_PATH_LENGTH || path.startsWith('/') || path.includes('\\')) {
+        return false;
+    }
+
+    return path.split('/').every((segment) => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+/**
+ * Content of a file, or null. Only own keys are files: paths such as
+ * `constructor` must not resolve to what the object inherits.
+ */
+function getFile(files: ProjectFiles, path: string): string | null {
+    return Object.hasOwn(files, path) ? files[path] ?? null : null;
+}
+
+// =============================================================================
+// CHANGES
+// =============================================================================
+
+/**
+ * Check proposed changes against the current files. Creations of existing
+ * files become updates (and vice versa), no-op updates and deletions of
+ * missing files are dropped, later changes to a path win. Invalid paths are
+ * reported in `problems`.
+ */
+export function reviewChanges(
+    files: ProjectFiles,
+    changes: FileChange[]
+): { changes: ReviewableChange[]; problems: string[] } {
+    const byPath = new Map<string, ReviewableChange>();
+    const problems: string[] = [];
+
+    for (const change of changes) {
+        if (!isValidFilePath(change.path)) {
+            problems.push(`invalid path "${change.path}"`);
+            continue;
+        }
+
+        const previous = getFile(files, change.path);
+
+        if (change.action === 'delete') {
+            if (previous === null) {
+                byPath.delete(change.path);
+            } else {
+                byPath.set(change.path, { action: 'delete', path: change.path, previous, content: null });
+            }
+            continue;
+        }
+
+        if (change.content === previous) {
+            byPath.delete(change.path);
+            continue;
+        }
+
+        byPath.set(change.path, {
+            action: previous === null ? 'create' : 'update',
+            path: change.path,
+            previous,
+            content: change.content,
+        });
+    }
+
+    return {
+        changes: [...byPath.values()].sort((a, b) => a.path.localeCompare(b.path)),
+        problems,
+    };
+}
+
+/**
+ * Files after applying reviewed changes (the input is not modified)
+ */
+export function applyChanges(files: ProjectFiles, changes: ReviewableChange[]): ProjectFiles {
+    const next = { ...files };
+
+    for (const change of changes) {
+        if (change.content === null) {
+            delete next[change.path];
+        } else {
+            next[change.path] = change.content;
+        }
+    }
+
+    return next;
+}
+
+/**
+ * Changes that turn `before` into `after`, sorted by path
+ */
+export function diffFiles(before: ProjectFiles, after: ProjectFiles): ReviewableChange[] {
+    const paths = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort((a, b) => a.localeCompare(b));
+    const changes: ReviewableChange[] = [];
+
+    for (const path of paths) {
+        const previous = getFile(before, path);
+        const content = getFile(after, path);
+        if (previous === content) continue;
+
+        changes.push({
+            action: previous === null ? 'create' : content === null ? 'delete' : 'update',
+            path,
+            previous,
+            content,
+        });
+    }
+
+    return changes;
+}
+
+/**
+ * Apply editor operations in order (the input is not modified). Unlike AI
+ * changes they are strict: creating an existing file, or updating, renaming
+ * or deleting a missing one, fails the whole request.
+ */
+export function applyFileOperations(files: ProjectFiles, operations: FileOperation[]): FileOperationResult {
+    const next = { ...files };
+
+    for (const operation of operations) {
+        const { path } = operation;
+        if (!isValidFilePath(path)) {
+            return { success: false, reason: 'invalid_path', path };
+        }
+
+        const exists = Object.hasOwn(next, path);
+
+        switch (operation.action) {
+            case 'create':
+                if (exists) return { success: false, reason: 'already_exists', path };
+                next[path] = operation.content;
+                break;
+            case 'update':
+                if (!exists) return { success: false, reason: 'not_found', path };
+                next[path] = operation.content;
+                break;
+            case 'rename': {
+                const content = getFile(next, path);
+                if (content === null) return { success: false, reason: 'not_found', path };
+                if (!isValidFilePath(operation.newPath)) {
+                    return { success: false, reason: 'invalid_path', path: operation.newPath };
+                }
+                if (Object.hasOwn(next, operation.newPath)) {
+                    return { success: false, reason: 'already_exists', path: operation.newPath };
+                }
+                delete next[path];
+                next[operation.newPath] = content;
+                break;
+            }
+            case 'delete':
+                if (!exists) return { success: false, reason: 'not_found', path };
+                delete next[path];
+                break;
+        }
+    }
+
+    return { success: true, files: next };
+}
+
+/**
+ * First limit the files exceed, or null. Only `changedPaths` are checked
+ * against the per-file limit, so an oversized generated file does not block
+ * saving the others.
+ */
+export function checkFileLimits(
+    files: ProjectFiles,
+    changedPaths: string[] = Object.keys(files)
+): FileLimitViolation | null {
+    if (Object.keys(files).length > PROJECT_FILE_LIMITS.maxFiles) {
+        return { reason: 'too_many_files', limit: PROJECT_FILE_LIMITS.maxFiles };
+    }
+
+    for (const path of changedPaths) {
+        if ((getFile(files, path) ?? '').length > PROJECT_FILE_LIMITS.maxFileSize) {
+            return { reason: 'file_too_large', path, limit: PROJECT_FILE_LIMITS.maxFileSize };
+        }
+    }
+
+    if (getFilesSize(files) > PROJECT_FILE_LIMITS.maxProjectSize) {
+        return { reason: 'project_too_large', limit: PROJECT_FILE_LIMITS.maxProjectSize };
+    }
+
+    return null;
+}
+
+/**
+ * Total size of the files' contents, in characters
+ */
+export function getFilesSize(files: ProjectFiles): number {
+    return Object.values(files).reduce((sum, content) => sum + content.length, 0);
+}
@@ -0,0 +1,204 @@
+/**
+ * Project Iterations
+ * "Modify my project": the AI proposes a patch against the project's current
+ * version, the user reviews it as a diff, and applying it writes the files as
+ * the next version. A patch made against an older version cannot be applied.
+ */
+
+import type { Prisma, ProjectIteration } from '@prisma/client';
+import { prisma } from './prisma';
+import {
+    applyChanges,
+    checkFileLimits,
+    type FileLimitViolation,
+    type ProjectFiles,
+    type ReviewableChange,
+} from './projectFiles';
+import { commitProjectFiles } from './projectVersions';
+import { reviewableChangeSchema } from './schemas';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ProjectIterationStatus = 'PENDING' | 'APPLIED' | 'DISCARDED';
+
+export interface ProjectIterationItem {
+    id: string;
+    projectId: string;
+    instruction: string;
+    summary: string | null;
+    changes: ReviewableChange[];
+    status: ProjectIterationStatus;
+    model: string;
+    baseVersion: number;
+    appliedVersion: number | null;
+    creditsCost: number;
+    createdAt: string;
+    reviewedAt: string | null;
+}
+
+export interface CreateIterationInput {
+    projectId: string;
+    userId: string;
+    instruction: string;
+    summary: string;
+    changes: ReviewableChange[];
+    model: string;
+    baseVersion: number;
+    creditsCost: number;
+    tokens: number;
+}
+
+export type IterationReviewResult =
+    | { success: true; iteration: ProjectIterationItem; files?: ProjectFiles; version?: number }
+    | { success: false; reason: 'not_found' | 'not_pending' | 'version_conflict' }
+    | { success: false; reason: 'limit_exceeded'; violation: FileLimitViolation };
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Changes stored as JSON on an iteration
+ */
+function parseChanges(value: Prisma.JsonValue): ReviewableChange[] {
+    return reviewableChangeSchema.array().parse(value);
+}
+
+function toJsonChanges(changes: ReviewableChange[]): Prisma.InputJsonArray {
+    return changes.map(({ action, path, previous, content }) => ({ action, path, previous, content }));
+}
+
+function toItem(iteration: ProjectIteration): ProjectIterationItem {
+    return {
+        id: iteration.id,
+        projectId: iteration.projectId,
+        instruction: iteration.instruction,
+        summary: iteration.summary,
+        changes: parseChanges(iteration.changes),
+        status: iteration.status,
+        model: iteration.model,
+        baseVersion: iteration.baseVersion,
+        appliedVersion: iteration.appliedVersion,
+        creditsCost: iteration.creditsCost,
+        createdAt: iteration.createdAt.toISOString(),
+        reviewedAt: iteration.reviewedAt?.toISOString() ?? null,
+    };
+}
+
+// =============================================================================
+// ITERATIONS
+// =============================================================================
+
+/**
+ * Store a proposed patch for review
+ */
+export async function createIteration(input: CreateIterationInput): Promise<ProjectIterationItem> {
+    const iteration = await prisma.projectIteration.create({
+        data: {
+            ...input,
+            changes: toJsonChanges(input.changes),
+        },
+    });
+
+    return toItem(iteration);
+}
+
+/**
+ * Drop a stored patch whose credits could not be charged
+ */
+export async function deleteIteration(iterationId: string): Promise<void> {
+    await prisma.projectIteration.delete({ where: { id: iterationId } });
+}
+
+/**
+ * Latest iterations of a project, newest first
+ */
+export async function listIterations(
+    userId: string,
+    projectId: string,
+    limit = 20
+): Promise<ProjectIterationItem[]> {
+    const iterations = await prisma.projectIteration.findMany({
+        where: { projectId, userId },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+    });
+
+    return iterations.map(toItem);
+}
+
+/**
+ * Apply a pending patch as the project's next version, within the file limits
+ */
+export async function applyIteration(
+    userId: string,
+    projectId: string,
+    iterationId: string
+): Promise<IterationReviewResult> {
+    return prisma.$transaction(async (tx) => {
+        const iteration = await tx.projectIteration.findFirst({
+            where: { id: iterationId, projectId, userId },
+        });
+        if (!iteration) return { success: false, reason: 'not_found' as const };
+        if (iteration.status !== 'PENDING') return { success: false, reason: 'not_pending' as const };
+
+        const project = await tx.project.findFirst({
+            where: { id: projectId, userId, deletedAt: null },
+            select: { files: true, version: true },
+        });
+        if (!project) return { success: false, reason: 'not_found' as const };
+
+        const changes = parseChanges(iteration.changes);
+        const files = applyChanges(project.files as ProjectFiles, changes);
+
+        // The project may have grown since the patch was proposed
+        const violation = checkFileLimits(
+            files,
+            changes.flatMap((change) => (change.content === null ? [] : [change.path]))
+        );
+        if (violation) return { success: false, reason: 'limit_exceeded' as const, violation };
+
+        // Only if nothing was saved since the patch was proposed
+        const version = await commitProjectFiles(tx, {
+            projectId,
+            baseVersion: iteration.baseVersion,
+            baseFiles: project.files as ProjectFiles,
+            files,
+            source: 'ITERATION',
+            authorId: userId,
+            message: iteration.instruction,
+        });
+        if (version === null) return { success: false, reason: 'version_conflict' as const };
+
+        const applied = await tx.projectIteration.update({
+            where: { id: iterationId },
+            data: { status: 'APPLIED', appliedVersion: version, reviewedAt: new Date() },
+        });
+
+        return { success: true, iteration: toItem(applied), files, version };
+    });
+}
+
+/**
+ * Reject a pending patch (its credits stay charged)
+ */
+export async function discardIteration(
+    userId: string,
+    projectId: string,
+    iterationId: string
+): Promise<IterationReviewResult> {
+    const { count } = await prisma.projectIteration.updateMany({
+        where: { id: iterationId, projectId, userId, status: 'PENDING' },
+        data: { status: 'DISCARDED', reviewedAt: new Date() },
+    });
+
+    const iteration = await prisma.projectIteration.findFirst({
+        where: { id: iterationId, projectId, userId },
+    });
+    if (!iteration) return { success: false, reason: 'not_found' };
+    if (count === 0) return { success: false, reason: 'not_pending' };
+
+    return { success: true, iteration: toItem(iteration) };
+}
@@ -0,0 +1,421 @@
+/**
+ * Project Versions
+ * Every change to a project's files (generation, applied iteration, editor
+ * save, restore) bumps `Project.version` and stores a full snapshot of the
+ * files, so any two versions can be diffed and any version restored or
+ * branched into a new project.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import {
+    applyFileOperations,
+    checkFileLimits,
+    diffFiles,
+    getFilesSize,
+    type FileLimitViolation,
+    type FileOperationResult,
+    type ProjectFiles,
+    type ReviewableChange,
+} from './projectFiles';
+import type { FileOperation } from './schemas';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ProjectVersionSource = 'GENERATION' | 'ITERATION' | 'MANUAL' | 'RESTORE' | 'BRANCH';
+
+/** Who produced a version: the AI (generation, iteration) or the user */
+export type VersionAuthorKind = 'ai' | 'human';
+
+export interface ProjectVersionItem {
+    version: number;
+    source: ProjectVersionSource;
+    authorKind: VersionAuthorKind;
+    author: { id: string; name: string | null } | null;
+    message: string | null;
+    parentVersion: number | null;
+    fileCount: number;
+    size: number;
+    createdAt: string;
+}
+
+export interface ProjectVersionDetail extends ProjectVersionItem {
+    files: ProjectFiles;
+}
+
+export interface CommitFilesInput {
+    projectId: string;
+    /** Project.version the files were based on */
+    baseVersion: number;
+    /** Files of the base version, kept as its snapshot if it has none yet */
+    baseFiles: ProjectFiles;
+    files: ProjectFiles;
+    source: ProjectVersionSource;
+    authorId: string | null;
+    message?: string | null;
+    parentVersion?: number | null;
+}
+
+export interface VersionDiff {
+    from: number;
+    to: number;
+    changes: ReviewableChange[];
+}
+
+export type VersionActionResult =
+    | { success: true; files: ProjectFiles; version: number }
+    | { success: false; reason: 'not_found' | 'version_conflict' };
+
+export type UpdateFilesResult =
+    | { success: true; files: ProjectFiles; version: number }
+    | { success: false; reason: 'not_found' }
+    | { success: false; reason: 'version_conflict'; version: number }
+    | { success: false; reason: 'invalid_operation'; error: Extract<FileOperationResult, { success: false }> }
+    | { success: false; reason: 'limit_exceeded'; violation: FileLimitViolation };
+
+export type BranchResult =
+    | { success: true; projectId: string; slug: string }
+    | { success: false; reason: 'not_found' };
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const AI_SOURCES: ProjectVersionSource[] = ['GENERATION', 'ITERATION'];
+
+const versionSelect = {
+    version: true,
+    source: true,
+    message: true,
+    parentVersion: true,
+    fileCount: true,
+    size: true,
+    createdAt: true,
+    author: { select: { id: true, name: true } },
+} satisfies Prisma.ProjectVersionSelect;
+
+type VersionRow = Prisma.ProjectVersionGetPayload<{ select: typeof versionSelect }>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toItem(row: VersionRow): ProjectVersionItem {
+    return {
+        version: row.version,
+        source: row.source,
+        authorKind: AI_SOURCES.includes(row.source) ? 'ai' : 'human',
+        author: row.author,
+        message: row.message,
+        parentVersion: row.parentVersion,
+        fileCount: row.fileCount,
+        size: row.size,
+        createdAt: row.createdAt.toISOString(),
+    };
+}
+
+function snapshotData(files: ProjectFiles) {
+    return {
+        files,
+        fileCount: Object.keys(files).length,
+        size: getFilesSize(files),
+    };
+}
+
+async function findOwnedProject(userId: string, projectId: string) {
+    return prisma.project.findFirst({
+        where: { id: projectId, userId, deletedAt: null },
+        select: { id: true, files: true, version: true },
+    });
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+/**
+ * Store the snapshot of a version (inside the transaction that wrote it)
+ */
+export async function recordVersion(
+    tx: Prisma.TransactionClient,
+    input: {
+        projectId: string;
+        version: number;
+        files: ProjectFiles;
+        source: ProjectVersionSource;
+        authorId: string | null;
+        message?: string | null;
+        parentVersion?: number | null;
+    }
+): Promise<void> {
+    await tx.projectVersion.create({
+        data: {
+            projectId: input.projectId,
+            version: input.version,
+            source: input.source,
+            authorId: input.authorId,
+            message: input.message ?? null,
+            parentVersion: input.parentVersion ?? null,
+            ...snapshotData(input.files),
+        },
+    });
+}
+
+/**
+ * Write new files as the project's next version. Returns the new version, or
+ * null when the project is no longer at `baseVersion` (changed meanwhile).
+ */
+export async function commitProjectFiles(
+    tx: Prisma.TransactionClient,
+    input: CommitFilesInput
+): Promise<number | null> {
+    const version = input.baseVersion + 1;
+
+    const { count } = await tx.project.updateMany({
+        where: { id: input.projectId, version: input.baseVersion, deletedAt: null },
+        data: { files: input.files, version },
+    });
+    if (count === 0) return null;
+
+    // Projects created before version history have no snapshot of their
+    // current files; keep it so the first change can still be diffed
+    await tx.projectVersion.createMany({
+        data: [{
+            projectId: input.projectId,
+            version: input.baseVersion,
+            source: 'GENERATION',
+            ...snapshotData(input.baseFiles),
+        }],
+        skipDuplicates: true,
+    });
+
+    await recordVersion(tx, {
+        projectId: input.projectId,
+        version,
+        files: input.files,
+        source: input.source,
+        authorId: input.authorId,
+        message: input.message,
+        parentVersion: input.parentVersion,
+    });
+
+    return version;
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * A project's versions, newest first (null if the project is not the user's)
+ */
+export async function listVersions(userId: string, projectId: string): Promise<ProjectVersionItem[] | null> {
+    const project = await findOwnedProject(userId, projectId);
+    if (!project) return null;
+
+    const rows = await prisma.projectVersion.findMany({
+        where: { projectId },
+        select: versionSelect,
+        orderBy: { version: 'desc' },
+    });
+
+    return rows.map(toItem);
+}
+
+/**
+ * One version with its files
+ */
+export async function getVersion(
+    userId: string,
+    projectId: string,
+    version: number
+): Promise<ProjectVersionDetail | null> {
+    const project = await findOwnedProject(userId, projectId);
+    if (!project) return null;
+
+    const row = await prisma.projectVersion.findUnique({
+        where: { projectId_version: { projectId, version } },
+        select: { ...versionSelect, files: true },
+    });
+    if (!row) return null;
+
+    return { ...toItem(row), files: row.files as ProjectFiles };
+}
+
+/**
+ * File-by-file changes from one version to another. `to` defaults to the
+ * project's current files.
+ */
+export async function diffVersions(
+    userId: string,
+    projectId: string,
+    from: number,
+    to?: number
+): Promise<VersionDiff | null> {
+    const project = await findOwnedProject(userId, projectId);
+    if (!project) return null;
+
+    const target = to ?? project.version;
+    const versions = [...new Set([from, target])];
+    const rows = await prisma.projectVersion.findMany({
+        where: { projectId, version: { in: versions } },
+        select: { version: true, files: true },
+    });
+
+    const filesOf = (version: number): ProjectFiles | null => {
+        const row = rows.find((r) => r.version === version);
+        if (row) return row.files as ProjectFiles;
+        return version === project.version ? (project.files as ProjectFiles) : null;
+    };
+
+    const before = filesOf(from);
+    const after = filesOf(target);
+    if (!before || !after) return null;
+
+    return { from, to: target, changes: diffFiles(before, after) };
+}
+
+// =============================================================================
+// ACTIONS
+// =============================================================================
+
+/**
+ * Apply the user's file operations as the project's next version. Fails
+ * without writing anything if the project is no longer at `baseVersion`, an
+ * operation does not apply or the result exceeds the file limits.
+ */
+export async function updateProjectFiles(
+    userId: string,
+    projectId: string,
+    input: { baseVersion: number; operations: FileOperation[]; message?: string }
+): Promise<UpdateFilesResult> {
+    return prisma.$transaction(async (tx) => {
+        const project = await tx.project.findFirst({
+            where: { id: projectId, userId, deletedAt: null },
+            select: { files: true, version: true },
+        });
+        if (!project) return { success: false, reason: 'not_found' as const };
+        if (project.version !== input.baseVersion) {
+            return { success: false, reason: 'version_conflict' as const, version: project.version };
+        }
+
+        const baseFiles = project.files as ProjectFiles;
+        const result = applyFileOperations(baseFiles, input.operations);
+        if (!result.success) return { success: false, reason: 'invalid_operation' as const, error: result };
+
+        const written = input.operations.flatMap((operation) =>
+            operation.action === 'create' || operation.action === 'update' ? [operation.path] : []
+        );
+        const violation = checkFileLimits(result.files, written);
+        if (violation) return { success: false, reason: 'limit_exceeded' as const, violation };
+
+        const version = await commitProjectFiles(tx, {
+            projectId,
+            baseVersion: input.baseVersion,
+            baseFiles,
+            files: result.files,
+            source: 'MANUAL',
+            authorId: userId,
+            message: input.message,
+        });
+        if (version === null) {
+            // Saved by someone else between the read and the write
+            const current = await tx.project.findUnique({ where: { id: projectId }, select: { version: true } });
+            return { success: false, reason: 'version_conflict' as const, version: current?.version ?? project.version };
+        }
+
+        return { success: true, files: result.files, version };
+    });
+}
+
+/**
+ * Write an older version's files as the project's next version
+ */
+export async function restoreVersion(
+    userId: string,
+    projectId: string,
+    version: number,
+    expectedVersion?: number
+): Promise<VersionActionResult> {
+    return prisma.$transaction(async (tx) => {
+        const project = await tx.project.findFirst({
+            where: { id: projectId, userId, deletedAt: null },
+            select: { files: true, version: true },
+        });
+        if (!project) return { success: false, reason: 'not_found' as const };
+        if (expectedVersion !== undefined && expectedVersion !== project.version) {
+            return { success: false, reason: 'version_conflict' as const };
+        }
+
+        const snapshot = await tx.projectVersion.findUnique({
+            where: { projectId_version: { projectId, version } },
+            select: { files: true },
+        });
+        if (!snapshot) return { success: false, reason: 'not_found' as const };
+
+        const files = snapshot.files as ProjectFiles;
+        const next = await commitProjectFiles(tx, {
+            projectId,
+            baseVersion: project.version,
+            baseFiles: project.files as ProjectFiles,
+            files,
+            source: 'RESTORE',
+            authorId: userId,
+            parentVersion: version,
+        });
+        if (next === null) return { success: false, reason: 'version_conflict' as const };
+
+        return { success: true, files, version: next };
+    });
+}
+
+/**
+ * Copy a version into a new project (its version 1). Like a duplicate it has
+ * no prompt, so it does not use a monthly site.
+ */
+export async function branchFromVersion(
+    userId: string,
+    projectId: string,
+    version: number
+): Promise<BranchResult> {
+    return prisma.$transaction(async (tx) => {
+        const project = await tx.project.findFirst({
+            where: { id: projectId, userId, deletedAt: null },
+            select: { name: true, slug: true, description: true, techStack: true },
+        });
+        if (!project) return { success: false, reason: 'not_found' as const };
+
+        const snapshot = await tx.projectVersion.findUnique({
+            where: { projectId_version: { projectId, version } },
+            select: { files: true },
+        });
+        if (!snapshot) return { success: false, reason: 'not_found' as const };
+
+        const files = snapshot.files as ProjectFiles;
+        const branch = await tx.project.create({
+            data: {
+                userId,
+                name: `${project.name} (v${version})`.slice(0, 100),
+                slug: `${project.slug.slice(0, 60)}-v${version}-${Date.now().toString(36)}`,
+                description: project.description,
+                techStack: (project.techStack ?? {}) as Prisma.InputJsonValue,
+                status: 'READY',
+                files,
+            },
+        });
+
+        await recordVersion(tx, {
+            projectId: branch.id,
+            version: branch.version,
+            files,
+            source: 'BRANCH',
+            authorId: userId,
+            message: `${project.name} v${version}`,
+            parentVersion: version,
+        });
+
+        return { success: true, projectId: branch.id, slug: branch.slug };
+    });
+}
@@ -0,0 +1,297 @@
+/**
+ * Projects
+ * Listing, updating, duplicating and the trash. Deleting a project only sets
+ * `deletedAt`: it stays in the trash, restorable, for
+ * PROJECT_TRASH_RETENTION_DAYS and is then purged with its versions,
+ * iterations and jobs.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { PROJECT_TRASH_RETENTION_DAYS } from './constants';
+import type { ProjectFiles } from './projectFiles';
+import { recordVersion } from './projectVersions';
+import type { ProjectListQuery, UpdateProjectFormData } from './schemas';
+import { slugify } from './utils';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ProjectListItem {
+    id: string;
+    name: string;
+    slug: string;
+    description: string | null;
+    status: string;
+    isPublic: boolean;
+    previewUrl: string | null;
+    deployedUrl: string | null;
+    version: number;
+    createdAt: Date;
+    updatedAt: Date;
+    deletedAt: Date | null;
+    /** When a trashed project will be purged */
+    purgeAfter: Date | null;
+}
+
+export interface ProjectDetail extends ProjectListItem {
+    prompt: string | null;
+    techStack: Prisma.JsonValue;
+    files: ProjectFiles;
+    failureReason: string | null;
+    creditsCost: number;
+}
+
+export interface ProjectList {
+    projects: ProjectListItem[];
+    pagination: {
+        page: number;
+        pageSize: number;
+        totalItems: number;
+        totalPages: number;
+        hasNext: boolean;
+        hasPrev: boolean;
+    };
+}
+
+export type ProjectActionResult =
+    | { success: true; project: ProjectListItem }
+    | { success: false; reason: 'not_found' | 'generating' };
+
+export interface PurgeSummary {
+    dryRun: boolean;
+    purged: number;
+    /** Trashed before this date */
+    cutoff: Date;
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const listSelect = {
+    id: true,
+    name: true,
+    slug: true,
+    description: true,
+    status: true,
+    isPublic: true,
+    previewUrl: true,
+    deployedUrl: true,
+    version: true,
+    createdAt: true,
+    updatedAt: true,
+    deletedAt: true,
+} satisfies Prisma.ProjectSelect;
+
+const detailSelect = {
+    ...listSelect,
+    prompt: true,
+    techStack: true,
+    files: true,
+    failureReason: true,
+    creditsCost: true,
+} satisfies Prisma.ProjectSelect;
+
+type ListRow = Prisma.ProjectGetPayload<{ select: typeof listSelect }>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function purgeDate(deletedAt: Date | null): Date | null {
+    return deletedAt ? new Date(deletedAt.getTime() + PROJECT_TRASH_RETENTION_DAYS * DAY_MS) : null;
+}
+
+function toListItem(row: ListRow): ProjectListItem {
+    return { ...row, purgeAfter: purgeDate(row.deletedAt) };
+}
+
+function uniqueSlug(name: string): string {
+    return `${slugify(name.slice(0, 50))}-${Date.now().toString(36)}`;
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * A user's projects, or their trash, filtered, searched, sorted and paginated
+ */
+export async function listProjects(userId: string, query: ProjectListQuery): Promise<ProjectList> {
+    const where: Prisma.ProjectWhereInput = {
+        userId,
+        deletedAt: query.view === 'trash' ? { not: null } : null,
+        ...(query.status && { status: query.status }),
+        ...(query.search && {
+            OR: [
+                { name: { contains: query.search, mode: 'insensitive' } },
+                { description: { contains: query.search, mode: 'insensitive' } },
+            ],
+        }),
+    };
+
+    const [rows, totalItems] = await Promise.all([
+        prisma.project.findMany({
+            where,
+            select: listSelect,
+            orderBy: [{ [query.sort]: query.order }, { id: 'asc' }],
+            skip: (query.page - 1) * query.limit,
+            take: query.limit,
+        }),
+        prisma.project.count({ where }),
+    ]);
+
+    return {
+        projects: rows.map(toListItem),
+        pagination: {
+            page: query.page,
+            pageSize: query.limit,
+            totalItems,
+            totalPages: Math.ceil(totalItems / query.limit),
+            hasNext: query.page * query.limit < totalItems,
+            hasPrev: query.page > 1,
+        },
+    };
+}
+
+/**
+ * One of the user's projects with its files (trashed ones included)
+ */
+export async function getProject(userId: string, projectId: string): Promise<ProjectDetail | null> {
+    const project = await prisma.project.findFirst({
+        where: { id: projectId, userId },
+        select: detailSelect,
+    });
+    if (!project) return null;
+
+    return {
+        ...project,
+        files: project.files as ProjectFiles,
+        purgeAfter: purgeDate(project.deletedAt),
+    };
+}
+
+// =============================================================================
+// MUTATIONS
+// =============================================================================
+
+/**
+ * Rename, describe or publish a project (not in the trash)
+ */
+export async function updateProject(
+    userId: string,
+    projectId: string,
+    data: UpdateProjectFormData
+): Promise<ProjectListItem | null> {
+    const { count } = await prisma.project.updateMany({
+        where: { id: projectId, userId, deletedAt: null },
+        data,
+    });
+    if (count === 0) return null;
+
+    const project = await prisma.project.findUniqueOrThrow({ where: { id: projectId }, select: listSelect });
+    return toListItem(project);
+}
+
+/**
+ * Copy a project's current files into a new project (its version 1). The copy
+ * has no prompt: it was not generated, so it does not use a monthly site.
+ */
+export async function duplicateProject(
+    userId: string,
+    projectId: string,
+    name?: string
+): Promise<ProjectActionResult> {
+    return prisma.$transaction(async (tx) => {
+        const source = await tx.project.findFirst({
+            where: { id: projectId, userId, deletedAt: null },
+            select: { name: true, description: true, techStack: true, files: true, status: true, version: true },
+        });
+        if (!source) return { success: false, reason: 'not_found' as const };
+        if (source.status === 'GENERATING') return { success: false, reason: 'generating' as const };
+
+        const copyName = name ?? `${source.name} (cópia)`.slice(0, 100);
+        const files = source.files as ProjectFiles;
+
+        const copy = await tx.project.create({
+            data: {
+                userId,
+                name: copyName,
+                slug: uniqueSlug(copyName),
+                description: source.description,
+                techStack: (source.techStack ?? {}) as Prisma.InputJsonValue,
+                files,
+                status: source.status === 'READY' || source.status === 'DEPLOYED' ? 'READY' : 'DRAFT',
+            },
+            select: listSelect,
+        });
+
+        await recordVersion(tx, {
+            projectId: copy.id,
+            version: copy.version,
+            files,
+            source: 'BRANCH',
+            authorId: userId,
+            message: `${source.name} v${source.version}`,
+            parentVersion: source.version,
+        });
+
+        return { success: true, project: toListItem(copy) };
+    });
+}
+
+/**
+ * Move a project to the trash. Projects still generating cannot be deleted.
+ */
+export async function trashProject(userId: string, projectId: string): Promise<ProjectActionResult> {
+    const project = await prisma.project.findFirst({
+        where: { id: projectId, userId, deletedAt: null },
+        select: { status: true },
+    });
+    if (!project) return { success: false, reason: 'not_found' };
+    if (project.status === 'GENERATING') return { success: false, reason: 'generating' };
+
+    const { count } = await prisma.project.updateMany({
+        where: { id: projectId, userId, deletedAt: null, status: { not: 'GENERATING' } },
+        data: { deletedAt: new Date() },
+    });
+    if (count === 0) return { success: false, reason: 'not_found' };
+
+    const trashed = await prisma.project.findUniqueOrThrow({ where: { id: projectId }, select: listSelect });
+    return { success: true, project: toListItem(trashed) };
+}
+
+/**
+ * Take a project back out of the trash
+ */
+export async function restoreProject(userId: string, projectId: string): Promise<ProjectListItem | null> {
+    const { count } = await prisma.project.updateMany({
+        where: { id: projectId, userId, deletedAt: { not: null } },
+        data: { deletedAt: null },
+    });
+    if (count === 0) return null;
+
+    const project = await prisma.project.findUniqueOrThrow({ where: { id: projectId }, select: listSelect });
+    return toListItem(project);
+}
+
+/**
+ * Purge projects trashed more than PROJECT_TRASH_RETENTION_DAYS ago (cron)
+ */
+export async function purgeTrashedProjects(
+    options: { dryRun?: boolean; now?: Date } = {}
+): Promise<PurgeSummary> {
+    const { dryRun = false, now = new Date() } = options;
+    const cutoff = new Date(now.getTime() - PROJECT_TRASH_RETENTION_DAYS * DAY_MS);
+    const where: Prisma.ProjectWhereInput = { deletedAt: { lt: cutoff } };
+
+    const purged = dryRun
+        ? await prisma.project.count({ where })
+        : (await prisma.project.deleteMany({ where })).count;
+
+    return { dryRun, purged, cutoff };
+}
@@ -0,0 +1,207 @@
+/**
+ * Rate Limiting
+ * Sliding-window request budgets per plan (RATE_LIMIT), keyed by user or by
+ * API key, whose own rateLimit overrides the plan's. Upstash Redis backs the
+ * limiter when configured; otherwise counters live in memory (tests, local dev).
+ */
+
+import { Ratelimit } from '@upstash/ratelimit';
+import { Redis } from '@upstash/redis';
+import { RATE_LIMIT } from './constants';
+import type { AppUser } from './auth';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Route groups; each has its own budget */
+export type RateLimitBucket = 'chat' | 'generate' | 'credits';
+
+export interface RateLimitResult {
+    success: boolean;
+    limit: number;
+    remaining: number;
+    /** Unix timestamp (ms) when the window resets */
+    reset: number;
+}
+
+export interface RateLimitBackend {
+    id: string;
+    limit(key: string, maxRequests: number, windowMs: number): Promise<RateLimitResult>;
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+/** ApiKey.rateLimit is a per-minute budget */
+const API_KEY_WINDOW_MS = 60_000;
+
+const KEY_PREFIX = 'ratelimit';
+
+/** Memory backend: sweep stale counters once the map grows past this */
+const MEMORY_SWEEP_THRESHOLD = 10_000;
+
+// =============================================================================
+// BACKENDS
+// =============================================================================
+
+/**
+ * In-process sliding window: the previous window's count is weighted by how
+ * much of it still overlaps the sliding window (same algorithm as Upstash)
+ */
+export function createMemoryBackend(): RateLimitBackend {
+    const windows = new Map<string, { index: number; current: number; previous: number }>();
+
+    return {
+        id: 'memory',
+        async limit(key, maxRequests, windowMs) {
+            const now = Date.now();
+            const index = Math.floor(now / windowMs);
+            const reset = (index + 1) * windowMs;
+
+            if (windows.size > MEMORY_SWEEP_THRESHOLD) {
+                for (const [storedKey, entry] of windows) {
+                    if (entry.index < index - 1) windows.delete(storedKey);
+                }
+            }
+
+            const stored = windows.get(key);
+            const entry = stored?.index === index
+                ? stored
+                : { index, current: 0, previous: stored?.index === index - 1 ? stored.current : 0 };
+            windows.set(key, entry);
+
+            const overlap = 1 - (now % windowMs) / windowMs;
+            const used = Math.floor(entry.previous * overlap) + entry.current;
+
+            if (used >= maxRequests) {
+                return { success: false, limit: maxRequests, remaining: 0, reset };
+            }
+
+            entry.current++;
+            return { success: true, limit: maxRequests, remaining: maxRequests - used - 1, reset };
+        },
+    };
+}
+
+/**
+ * Upstash Redis sliding window; one limiter per (budget, window) pair
+ */
+export function createUpstashBackend(redis: Redis): RateLimitBackend {
+    const limiters = new Map<string, Ratelimit>();
+
+    return {
+        id: 'upstash',
+        async limit(key, maxRequests, windowMs) {
+            const config = `${maxRequests}:${windowMs}`;
+            let limiter = limiters.get(config);
+
+            if (!limiter) {
+                limiter = new Ratelimit({
+                    redis,
+                    limiter: Ratelimit.slidingWindow(maxRequests, `${windowMs} ms`),
+                    prefix: `${KEY_PREFIX}:${config}`,
+                });
+                limiters.set(config, limiter);
+            }
+
+            const { success, limit, remaining, reset } = await limiter.limit(key);
+            return { success, limit, remaining, reset };
+        },
+    };
+}
+
+let backend: RateLimitBackend | null = null;
+
+/**
+ * Backend from RATE_LIMIT_BACKEND (upstash | memory); defaults to Upstash
+ * when its REST credentials are set
+ */
+export function getRateLimitBackend(): RateLimitBackend {
+    if (!backend) {
+        const configured = process.env.RATE_LIMIT_BACKEND
+            || (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN ? 'upstash' : 'memory');
+
+        backend = configured === 'upstash'
+            ? createUpstashBackend(Redis.fromEnv())
+            : createMemoryBackend();
+    }
+
+    return backend;
+}
+
+/**
+ * Swap the backend (tests)
+ */
+export function setRateLimitBackend(next: RateLimitBackend | null): void {
+    backend = next;
+}
+
+// =============================================================================
+// RATE LIMITS
+// =============================================================================
+
+/**
+ * Budget and counter key for a request: the API key's own limit when the
+ * request used one, otherwise the plan's
+ */
+function resolveBudget(
+    user: AppUser,
+    bucket: RateLimitBucket
+): { key: string; maxRequests: number; windowMs: number } {
+    if (user.apiKey) {
+        return {
+            key: `${bucket}:key:${user.apiKey.id}`,
+            maxRequests: user.apiKey.rateLimit,
+            windowMs: API_KEY_WINDOW_MS,
+        };
+    }
+
+    const planLimits: Record<string, number> = RATE_LIMIT.maxRequests;
+
+    return {
+        key: `${bucket}:user:${user.id}`,
+        maxRequests: planLimits[user.planId] ?? RATE_LIMIT.maxRequests.free,
+        windowMs: RATE_LIMIT.window,
+    };
+}
+
+/**
+ * Count a request against the user's budget. Returns null when the user is
+ * not limited (admins). Fails open if the backend is unavailable.
+ */
+export async function checkRateLimit(
+    user: AppUser,
+    bucket: RateLimitBucket
+): Promise<RateLimitResult | null> {
+    if (user.isAdmin) {
+        return null;
+    }
+
+    const { key, maxRequests, windowMs } = resolveBudget(user, bucket);
+
+    try {
+        return await getRateLimitBackend().limit(key, maxRequests, windowMs);
+    } catch (error) {
+        console.error('[RateLimit] Error checking limit:', error);
+        return null;
+    }
+}
+
+/**
+ * X-RateLimit-* headers, plus Retry-After once the budget is exhausted
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+    const headers: Record<string, string> = {
+        'X-RateLimit-Limit': String(result.limit),
+        'X-RateLimit-Remaining': String(Math.max(0, result.remaining)),
+        'X-RateLimit-Reset': String(Math.ceil(result.reset / 1000)),
+    };
+
+    if (!result.success) {
+        headers['Retry-After'] = String(Math.max(1, Math.ceil((result.reset - Date.now()) / 1000)));
+    }
+
+    return headers;
+}
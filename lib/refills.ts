@@ -0,0 +1,320 @@
+/**
+ * Credit Refills
+ * Grants plan allowances (creditsDaily / creditsMonthly) once per period.
+ * Each grant is a REFILL ledger entry keyed by user + period, so re-running
+ * a period (retries, overlapping cron invocations) never grants twice.
+ */
+
+import { prisma } from './prisma';
+import {
+    PLANS,
+    CREDIT_REFILL_RULES,
+    CREDIT_REFILL_TIMEZONE,
+    DEFAULT_CREDIT_REFILL_RULE,
+} from './constants';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RefillPeriod = 'daily' | 'monthly';
+
+export interface RefillOptions {
+    period: RefillPeriod;
+    /** Compute grants without writing anything */
+    dryRun?: boolean;
+    /** Restrict the run to these users */
+    userIds?: string[];
+    now?: Date;
+}
+
+export interface RefillGrant {
+    userId: string;
+    planId: string;
+    previousBalance: number;
+    amount: number;
+    newBalance: number;
+}
+
+export interface RefillSummary {
+    period: RefillPeriod;
+    periodKey: string;
+    dryRun: boolean;
+    /** Users considered in this run */
+    processed: number;
+    /** Users that received credits */
+    refilled: number;
+    /** Users already handled for this period */
+    alreadyRefilled: number;
+    totalCredits: number;
+    errors: number;
+    /** Per-user grants (dry runs only, to keep live summaries small) */
+    grants: RefillGrant[];
+}
+
+type RefillOutcome =
+    | { status: 'refilled' | 'at_cap'; grant: RefillGrant }
+    | { status: 'already_refilled' };
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const REFILL_BATCH_SIZE = 500;
+
+/**
+ * subscriptionStatus of a plan month paid with Pix/boleto (lib/payments)
+ */
+export const PREPAID_SUBSCRIPTION_STATUS = 'prepaid';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Identify the period a date belongs to: YYYY-MM-DD (daily) or YYYY-MM (monthly)
+ */
+export function getRefillPeriodKey(period: RefillPeriod, now: Date = new Date()): string {
+    const day = new Intl.DateTimeFormat('en-CA', {
+        timeZone: CREDIT_REFILL_TIMEZONE,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+    }).format(now);
+
+    return period === 'daily' ? day : day.slice(0, 7);
+}
+
+/**
+ * Allowance granted by a plan each period (0 for unknown plans)
+ */
+export function getPlanAllowance(planId: string, period: RefillPeriod): number {
+    const plan = PLANS.find((p) => p.id === planId);
+    if (!plan) return 0;
+
+    return period === 'daily' ? plan.creditsDaily : plan.creditsMonthly;
+}
+
+/**
+ * Credits to grant given the current balance and the plan's refill rule
+ */
+export function calculateRefillAmount(planId: string, allowance: number, balance: number): number {
+    if (!Number.isFinite(allowance) || allowance <= 0) {
+        return 0;
+    }
+
+    const rule = CREDIT_REFILL_RULES[planId] ?? DEFAULT_CREDIT_REFILL_RULE;
+    const target = rule.rollover ? balance + allowance : Math.max(balance, allowance);
+
+    return Math.max(0, Math.min(target, rule.maxBalance) - balance);
+}
+
+function getRefillKey(period: RefillPeriod, periodKey: string, userId: string): string {
+    return `refill:${period}:${periodKey}:${userId}`;
+}
+
+/**
+ * Plans that have something to refill for a period
+ */
+function getRefillablePlanIds(period: RefillPeriod): string[] {
+    return PLANS.filter((plan) => {
+        const allowance = getPlanAllowance(plan.id, period);
+        return Number.isFinite(allowance) && allowance > 0;
+    }).map((plan) => plan.id);
+}
+
+// =============================================================================
+// REFILL ENGINE
+// =============================================================================
+
+/**
+ * Refill one user for a period. The REFILL entry is written even when nothing
+ * is granted (balance at cap) so the period is marked as handled.
+ */
+async function refillUser(
+    user: { id: string; planId: string; credits: number },
+    period: RefillPeriod,
+    periodKey: string,
+    dryRun: boolean
+): Promise<RefillOutcome> {
+    const idempotencyKey = getRefillKey(period, periodKey, user.id);
+    const allowance = getPlanAllowance(user.planId, period);
+
+    if (dryRun) {
+        const existing = await prisma.creditTransaction.findUnique({
+            where: { idempotencyKey },
+            select: { id: true },
+        });
+
+        if (existing) {
+            return { status: 'already_refilled' };
+        }
+
+        const amount = calculateRefillAmount(user.planId, allowance, user.credits);
+        return {
+            status: amount > 0 ? 'refilled' : 'at_cap',
+            grant: {
+                userId: user.id,
+                planId: user.planId,
+                previousBalance: user.credits,
+                amount,
+                newBalance: user.credits + amount,
+            },
+        };
+    }
+
+    try {
+        return await prisma.$transaction(async (tx) => {
+            const existing = await tx.creditTransaction.findUnique({
+                where: { idempotencyKey },
+                select: { id: true },
+            });
+
+            if (existing) {
+                return { status: 'already_refilled' as const };
+            }
+
+            const { credits: previousBalance } = await tx.user.findUniqueOrThrow({
+                where: { id: user.id },
+                select: { credits: true },
+            });
+
+            const amount = calculateRefillAmount(user.planId, allowance, previousBalance);
+
+            const { credits: newBalance } = await tx.user.update({
+                where: { id: user.id },
+                data: { credits: { increment: amount } },
+                select: { credits: true },
+            });
+
+            await tx.creditTransaction.create({
+                data: {
+                    userId: user.id,
+                    type: 'REFILL',
+                    amount,
+                    balance: newBalance,
+                    description: `${period === 'daily' ? 'Daily' : 'Monthly'} credit refill (${periodKey})`,
+                    idempotencyKey,
+                    metadata: { period, periodKey, planId: user.planId, allowance },
+                },
+            });
+
+            return {
+                status: amount > 0 ? ('refilled' as const) : ('at_cap' as const),
+                grant: { userId: user.id, planId: user.planId, previousBalance, amount, newBalance },
+            };
+        });
+    } catch (error) {
+        // An overlapping run refilled this user first
+        if ((error as { code?: string } | null)?.code === 'P2002') {
+            return { status: 'already_refilled' };
+        }
+        throw error;
+    }
+}
+
+/**
+ * Move users whose prepaid plan month (Pix/boleto, see lib/payments) has
+ * ended back to the free plan, so they are refilled as free users
+ */
+export async function expirePrepaidPlans(now: Date = new Date()): Promise<number> {
+    const { count } = await prisma.user.updateMany({
+        where: {
+            subscriptionStatus: PREPAID_SUBSCRIPTION_STATUS,
+            stripeSubscriptionId: null,
+            currentPeriodEnd: { lte: now },
+        },
+        data: {
+            planId: 'free',
+            subscriptionStatus: 'expired',
+            currentPeriodEnd: null,
+        },
+    });
+
+    return count;
+}
+
+/**
+ * Refill every active, non-admin user on a plan with an allowance for the period.
+ * Safe to run repeatedly: each user is refilled at most once per period.
+ */
+export async function runCreditRefill(options: RefillOptions): Promise<RefillSummary> {
+    const { period, dryRun = false, userIds, now = new Date() } = options;
+    const periodKey = getRefillPeriodKey(period, now);
+
+    const summary: RefillSummary = {
+        period,
+        periodKey,
+        dryRun,
+        processed: 0,
+        refilled: 0,
+        alreadyRefilled: 0,
+        totalCredits: 0,
+        errors: 0,
+        grants: [],
+    };
+
+    if (!dryRun) {
+        await expirePrepaidPlans(now);
+    }
+
+    const planIds = getRefillablePlanIds(period);
+    if (planIds.length === 0) {
+        return summary;
+    }
+
+    let cursor: string | undefined;
+
+    while (true) {
+        const users = await prisma.user.findMany({
+            where: {
+                isActive: true,
+                role: { not: 'ADMIN' },
+                planId: { in: planIds },
+                // Subscribers and prepaid (Pix/boleto) plans get their monthly allowance
+                // per billing period instead (see lib/billing, lib/payments)
+                ...(period === 'monthly' && {
+                    stripeSubscriptionId: null,
+                    OR: [{ currentPeriodEnd: null }, { currentPeriodEnd: { lte: now } }],
+                }),
+                ...(userIds && { id: { in: userIds } }),
+            },
+            select: { id: true, planId: true, credits: true },
+            orderBy: { id: 'asc' },
+            take: REFILL_BATCH_SIZE,
+            ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        });
+
+        if (users.length === 0) break;
+
+        for (const user of users) {
+            summary.processed++;
+
+            try {
+                const outcome = await refillUser(user, period, periodKey, dryRun);
+
+                if (outcome.status === 'already_refilled') {
+                    summary.alreadyRefilled++;
+                    continue;
+                }
+
+                if (outcome.status === 'refilled') {
+                    summary.refilled++;
+                    summary.totalCredits += outcome.grant.amount;
+                }
+
+                if (dryRun) {
+                    summary.grants.push(outcome.grant);
+                }
+            } catch (error) {
+                summary.errors++;
+                console.error(`[Refills] Error refilling user ${user.id}:`, error);
+            }
+        }
+
+        cursor = users[users.length - 1]?.id;
+        if (users.length < REFILL_BATCH_SIZE) break;
+    }
+
+    return summary;
+}
@@ -0,0 +1,255 @@
+/**
+ * Conversation Retention
+ * Enforces each plan's conversation history window. A conversation with no
+ * activity inside the window is archived (read-only, shown to the user as
+ * pending deletion) and deleted for good, messages included, once the grace
+ * period ends. Archived conversations come back when the user's plan covers
+ * them again (upgrade during the grace period).
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { PLANS, CONVERSATION_ARCHIVE_GRACE_DAYS } from './constants';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RetentionAction = 'archive' | 'delete' | 'restore';
+
+export interface RetentionOptions {
+    /** Report what would change without writing anything */
+    dryRun?: boolean;
+    /** Restrict the run to these users */
+    userIds?: string[];
+    now?: Date;
+}
+
+export interface RetentionCandidate {
+    action: RetentionAction;
+    conversationId: string;
+    userId: string;
+    title: string;
+    messageCount: number;
+    updatedAt: Date;
+    deleteAfter: Date | null;
+}
+
+export interface RetentionSummary {
+    dryRun: boolean;
+    archived: number;
+    deleted: number;
+    /** Messages removed along with the deleted conversations */
+    deletedMessages: number;
+    restored: number;
+    errors: number;
+    /** Affected conversations (dry runs only, capped per step) */
+    candidates: RetentionCandidate[];
+}
+
+export interface PendingDeletion {
+    id: string;
+    title: string;
+    archivedAt: Date | null;
+    deleteAfter: Date;
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RETENTION_BATCH_SIZE = 500;
+
+/** Candidates listed per step and plan in a dry run */
+const PREVIEW_LIMIT = 100;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Conversations with no message (and not created) since the cutoff
+ */
+function inactiveSince(cutoff: Date): Prisma.ConversationWhereInput {
+    return {
+        createdAt: { lt: cutoff },
+        messages: { none: { createdAt: { gte: cutoff } } },
+    };
+}
+
+/**
+ * Run one retention step: each batch leaves the `where` set once processed
+ */
+async function applyStep(
+    action: RetentionAction,
+    where: Prisma.ConversationWhereInput,
+    now: Date,
+    dryRun: boolean,
+    summary: RetentionSummary
+): Promise<void> {
+    if (dryRun) {
+        const [count, preview] = await Promise.all([
+            prisma.conversation.count({ where }),
+            prisma.conversation.findMany({
+                where,
+                orderBy: { updatedAt: 'asc' },
+                take: PREVIEW_LIMIT,
+                select: {
+                    id: true,
+                    userId: true,
+                    title: true,
+                    messageCount: true,
+                    updatedAt: true,
+                    deleteAfter: true,
+                },
+            }),
+        ]);
+
+        if (action === 'delete') {
+            const messages = await prisma.conversation.aggregate({ where, _sum: { messageCount: true } });
+            summary.deletedMessages += messages._sum.messageCount ?? 0;
+        }
+
+        addCount(summary, action, count);
+        summary.candidates.push(
+            ...preview.map(({ id, ...conversation }) => ({ action, conversationId: id, ...conversation }))
+        );
+        return;
+    }
+
+    while (true) {
+        const batch = await prisma.conversation.findMany({
+            where,
+            take: RETENTION_BATCH_SIZE,
+            select: { id: true },
+        });
+
+        if (batch.length === 0) break;
+
+        // Repeat the filter so a conversation that changed meanwhile is left alone
+        const batchWhere = { AND: [where, { id: { in: batch.map((c) => c.id) } }] };
+
+        if (action === 'delete') {
+            const messages = await prisma.conversation.aggregate({
+                where: batchWhere,
+                _sum: { messageCount: true },
+            });
+            const { count } = await prisma.conversation.deleteMany({ where: batchWhere });
+            summary.deletedMessages += messages._sum.messageCount ?? 0;
+            addCount(summary, action, count);
+        } else {
+            const { count } = await prisma.conversation.updateMany({
+                where: batchWhere,
+                data: action === 'archive'
+                    ? {
+                        status: 'ARCHIVED',
+                        archivedAt: now,
+                        deleteAfter: new Date(now.getTime() + CONVERSATION_ARCHIVE_GRACE_DAYS * DAY_MS),
+                    }
+                    : { status: 'ACTIVE', archivedAt: null, deleteAfter: null },
+            });
+            addCount(summary, action, count);
+        }
+
+        if (batch.length < RETENTION_BATCH_SIZE) break;
+    }
+}
+
+function addCount(summary: RetentionSummary, action: RetentionAction, count: number): void {
+    if (action === 'archive') summary.archived += count;
+    else if (action === 'delete') summary.deleted += count;
+    else summary.restored += count;
+}
+
+// =============================================================================
+// RETENTION JOB
+// =============================================================================
+
+/**
+ * Archive, delete and restore conversations according to each plan's window.
+ * Safe to run repeatedly; admins are never affected.
+ */
+export async function runConversationRetention(options: RetentionOptions = {}): Promise<RetentionSummary> {
+    const { dryRun = false, userIds, now = new Date() } = options;
+
+    const summary: RetentionSummary = {
+        dryRun,
+        archived: 0,
+        deleted: 0,
+        deletedMessages: 0,
+        restored: 0,
+        errors: 0,
+        candidates: [],
+    };
+
+    const userFilter: Prisma.UserWhereInput = userIds ? { id: { in: userIds } } : {};
+    const unlimitedPlanIds = PLANS
+        .filter((plan) => !Number.isFinite(plan.conversationRetentionDays))
+        .map((plan) => plan.id);
+
+    // Users whose plan (or admin role) keeps history forever get everything back
+    try {
+        await applyStep(
+            'restore',
+            {
+                status: 'ARCHIVED',
+                deleteAfter: { not: null },
+                user: { ...userFilter, OR: [{ planId: { in: unlimitedPlanIds } }, { role: 'ADMIN' }] },
+            },
+            now,
+            dryRun,
+            summary
+        );
+    } catch (error) {
+        summary.errors++;
+        console.error('[Retention] Error restoring unlimited plans:', error);
+    }
+
+    for (const plan of PLANS) {
+        if (!Number.isFinite(plan.conversationRetentionDays)) continue;
+
+        const cutoff = new Date(now.getTime() - plan.conversationRetentionDays * DAY_MS);
+        const user: Prisma.UserWhereInput = { ...userFilter, planId: plan.id, role: { not: 'ADMIN' } };
+        const inactive = inactiveSince(cutoff);
+
+        const steps: Array<[RetentionAction, Prisma.ConversationWhereInput]> = [
+            // Back inside the window after an upgrade to a longer one
+            ['restore', { status: 'ARCHIVED', deleteAfter: { not: null }, user, NOT: inactive }],
+            ['archive', { status: 'ACTIVE', user, ...inactive }],
+            ['delete', { status: 'ARCHIVED', deleteAfter: { lte: now }, user, ...inactive }],
+        ];
+
+        for (const [action, where] of steps) {
+            try {
+                await applyStep(action, where, now, dryRun, summary);
+            } catch (error) {
+                summary.errors++;
+                console.error(`[Retention] Error running ${action} for plan ${plan.id}:`, error);
+            }
+        }
+    }
+
+    return summary;
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Archived conversations of a user that are scheduled for deletion
+ */
+export async function getPendingDeletions(userId: string): Promise<PendingDeletion[]> {
+    const conversations = await prisma.conversation.findMany({
+        where: { userId, status: 'ARCHIVED', deleteAfter: { not: null } },
+        orderBy: { deleteAfter: 'asc' },
+        select: { id: true, title: true, archivedAt: true, deleteAfter: true },
+    });
+
+    return conversations.map((conversation) => ({
+        ...conversation,
+        deleteAfter: conversation.deleteAfter as Date,
+    }));
+}
@@ -54,6 +54,14 @@ export const slugSchema = z
     .max(50, 'Slug deve ter no máximo 50 caracteres')
     .regex(/^[a-z0-9-]+$/, 'Slug deve conter apenas letras minúsculas, números e hífens');
 
+/**
+ * CPF or CNPJ with check digits; accepts punctuation, outputs digits only
+ */
+export const taxIdSchema = z
+    .string()
+    .transform((value) => value.replace(/\D/g, ''))
+    .refine((value) => isValidCpf(value) || isValidCnpj(value), 'CPF ou CNPJ inválido');
+
 // =============================================================================
 // AUTH SCHEMAS
 // =============================================================================
@@ -170,6 +178,121 @@ export const updateProjectSchema = z.object({
 
 export type UpdateProjectFormData = z.infer<typeof updateProjectSchema>;
 
+/**
+ * Project list query (GET /api/projects)
+ */
+export const projectListQuerySchema = z.object({
+    view: z.enum(['active', 'trash']).default('active'),
+    status: z.enum(['DRAFT', 'GENERATING', 'READY', 'DEPLOYED', 'ARCHIVED', 'FAILED']).optional(),
+    search: z.string().trim().max(100).optional(),
+    sort: z.enum(['updatedAt', 'createdAt', 'name']).default('updatedAt'),
+    order: z.enum(['asc', 'desc']).default('desc'),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ProjectListQuery = z.infer<typeof projectListQuerySchema>;
+
+/**
+ * Project duplication (the copy's name defaults to "<name> (cópia)")
+ */
+export const duplicateProjectSchema = z.object({
+    name: z
+        .string()
+        .min(3, 'Nome deve ter pelo menos 3 caracteres')
+        .max(100, 'Nome deve ter no máximo 100 caracteres')
+        .optional(),
+});
+
+/**
+ * Project iteration request ("modify my project")
+ */
+export const iterateProjectSchema = z.object({
+    instruction: z
+        .string()
+        .min(3, 'Instrução deve ter pelo menos 3 caracteres')
+        .max(5000, 'Instrução deve ter no máximo 5000 caracteres'),
+    model: z.string().max(100).optional(),
+});
+
+export type IterateProjectData = z.infer<typeof iterateProjectSchema>;
+
+/**
+ * Review decision on a proposed iteration
+ */
+export const iterationActionSchema = z.object({
+    action: z.enum(['apply', 'discard']),
+});
+
+/**
+ * File change proposed by the AI; create/update carry the whole file
+ */
+export const fileChangeSchema = z.discriminatedUnion('action', [
+    z.object({ action: z.literal('create'), path: z.string().min(1).max(255), content: z.string() }),
+    z.object({ action: z.literal('update'), path: z.string().min(1).max(255), content: z.string() }),
+    z.object({ action: z.literal('delete'), path: z.string().min(1).max(255) }),
+]);
+
+export type FileChange = z.infer<typeof fileChangeSchema>;
+
+/**
+ * Patch returned by the AI for an iteration
+ */
+export const projectPatchSchema = z.object({
+    summary: z.string().max(2000).default(''),
+    changes: z.array(fileChangeSchema).max(100),
+});
+
+export type ProjectPatch = z.infer<typeof projectPatchSchema>;
+
+/**
+ * Reviewed change stored with an iteration (see ReviewableChange): the file
+ * before and after, null when it did not exist or was deleted
+ */
+export const reviewableChangeSchema = z.object({
+    action: z.enum(['create', 'update', 'delete']),
+    path: z.string().min(1).max(255),
+    previous: z.string().nullable(),
+    content: z.string().nullable(),
+});
+
+/**
+ * Operation on one project file (files API)
+ */
+export const fileOperationSchema = z.discriminatedUnion('action', [
+    z.object({ action: z.literal('create'), path: z.string().min(1).max(255), content: z.string() }),
+    z.object({ action: z.literal('update'), path: z.string().min(1).max(255), content: z.string() }),
+    z.object({
+        action: z.literal('rename'),
+        path: z.string().min(1).max(255),
+        newPath: z.string().min(1).max(255),
+    }),
+    z.object({ action: z.literal('delete'), path: z.string().min(1).max(255) }),
+]);
+
+export type FileOperation = z.infer<typeof fileOperationSchema>;
+
+/**
+ * Files API request: operations applied in order as the next version.
+ * `baseVersion` may be sent instead of an If-Match header.
+ */
+export const updateProjectFilesSchema = z.object({
+    operations: z.array(fileOperationSchema).min(1).max(100),
+    baseVersion: z.number().int().positive().optional(),
+    message: z.string().max(500, 'Mensagem deve ter no máximo 500 caracteres').optional(),
+});
+
+export type UpdateProjectFilesData = z.infer<typeof updateProjectFilesSchema>;
+
+/**
+ * Restore a version, or branch it into a new project
+ */
+export const versionActionSchema = z.object({
+    action: z.enum(['restore', 'branch']),
+    /** Project.version the user is looking at (restore fails if it changed) */
+    expectedVersion: z.number().int().positive().optional(),
+});
+
 // =============================================================================
 // CHAT SCHEMAS
 // =============================================================================
@@ -219,6 +342,7 @@ export const generateRequestSchema = z.object({
         styling: z.string().optional(),
         features: z.array(z.string()).optional(),
         theme: z.enum(['light', 'dark']).optional(),
+        model: z.string().max(100).optional(),
     }).optional(),
 });
 
@@ -278,6 +402,156 @@ export const creditAdjustmentSchema = z.object({
 
 export type CreditAdjustmentData = z.infer<typeof creditAdjustmentSchema>;
 
+/**
+ * Admin credit refill run schema (dry run unless explicitly disabled)
+ */
+export const creditRefillSchema = z.object({
+    period: z.enum(['daily', 'monthly']),
+    dryRun: z.boolean().default(true),
+    userIds: z.array(z.string().cuid()).max(1000).optional(),
+});
+
+export type CreditRefillData = z.infer<typeof creditRefillSchema>;
+
+/**
+ * Admin conversation retention run schema (dry run unless explicitly disabled)
+ */
+export const conversationRetentionSchema = z.object({
+    dryRun: z.boolean().default(true),
+    userIds: z.array(z.string().cuid()).max(1000).optional(),
+});
+
+export type ConversationRetentionData = z.infer<typeof conversationRetentionSchema>;
+
+/**
+ * Admin trash purge run (preview by default)
+ */
+export const projectPurgeSchema = z.object({
+    dryRun: z.boolean().default(true),
+});
+
+const aiIdSchema = z.string().regex(/^[a-zA-Z0-9._:-]{1,100}$/, 'Identificador inválido');
+
+/**
+ * AI providers and models (SystemSetting `ai`, see lib/aiModels).
+ * API keys are read from the environment variable named by apiKeyEnv, which
+ * must start with AI_PROVIDER_ so settings cannot expose other secrets.
+ * Without it, only an emergent provider on the default base URL gets a key.
+ */
+export const aiSettingsSchema = z.object({
+    providers: z.record(aiIdSchema, z.object({
+        type: z.enum(['emergent', 'openai', 'fake']),
+        baseUrl: z.string().url().optional(),
+        apiKeyEnv: z
+            .string()
+            .regex(/^AI_PROVIDER_[A-Z0-9_]+$/, 'A variável deve começar com AI_PROVIDER_')
+            .optional(),
+        timeoutMs: z.number().int().min(1000).max(600000).optional(),
+        headers: z.record(z.string(), z.string()).optional(),
+    })).default({}),
+    models: z.record(aiIdSchema, z.object({
+        provider: aiIdSchema,
+        upstreamModel: z.string().max(200).optional(),
+        label: z.string().max(100).optional(),
+        capabilities: z.array(z.enum(['chat', 'generate', 'embed'])).min(1).default(['chat']),
+        pricing: z.object({
+            prompt: z.number().min(0),
+            completion: z.number().min(0),
+        }).optional(),
+        enabled: z.boolean().default(true),
+    })).default({}),
+    defaults: z.object({
+        chat: aiIdSchema.optional(),
+        generate: aiIdSchema.optional(),
+        embed: aiIdSchema.optional(),
+    }).default({}),
+});
+
+export type AiSettingsData = z.infer<typeof aiSettingsSchema>;
+
+// =============================================================================
+// BILLING SCHEMAS
+// =============================================================================
+
+/**
+ * Subscription checkout schema
+ */
+export const checkoutSchema = z.object({
+    planId: z.string().min(1, 'Plano é obrigatório'),
+});
+
+export type CheckoutData = z.infer<typeof checkoutSchema>;
+
+/**
+ * Credit pack checkout schema
+ */
+export const creditPackCheckoutSchema = z.object({
+    packId: z.string().min(1, 'Pacote é obrigatório'),
+});
+
+export type CreditPackCheckoutData = z.infer<typeof creditPackCheckoutSchema>;
+
+/**
+ * Pix / boleto payment schema (boleto requires the payer's CPF/CNPJ and address)
+ */
+export const paymentSchema = z
+    .object({
+        method: z.enum(['PIX', 'BOLETO']),
+        productType: z.enum(['pack', 'plan']),
+        productId: z.string().min(1, 'Produto é obrigatório'),
+        taxId: taxIdSchema.optional(),
+        address: z
+            .object({
+                line1: z.string().min(1, 'Endereço é obrigatório').max(200),
+                city: z.string().min(1, 'Cidade é obrigatória').max(100),
+                state: z.string().length(2, 'UF inválida').toUpperCase(),
+                postalCode: z.string().regex(/^\d{5}-?\d{3}$/, 'CEP inválido'),
+            })
+            .optional(),
+    })
+    .refine((data) => data.method !== 'BOLETO' || Boolean(data.taxId && data.address), {
+        message: 'Boleto requer CPF/CNPJ e endereço',
+        path: ['taxId'],
+    });
+
+export type PaymentData = z.infer<typeof paymentSchema>;
+
+/**
+ * Fiscal data printed on invoices (and sent for NFS-e issuance)
+ */
+export const taxInfoSchema = z.object({
+    legalName: z
+        .string()
+        .trim()
+        .min(2, 'Nome ou razão social é obrigatório')
+        .max(150, 'Nome ou razão social deve ter no máximo 150 caracteres'),
+    taxId: taxIdSchema,
+});
+
+export type TaxInfoFormData = z.infer<typeof taxInfoSchema>;
+
+/**
+ * Admin NFS-e export schema
+ */
+export const nfseExportSchema = z.object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    format: z.enum(['json', 'csv']).default('json'),
+    /** Preview without marking invoices as exported */
+    dryRun: z.boolean().default(true),
+});
+
+export type NfseExportData = z.infer<typeof nfseExportSchema>;
+
+/**
+ * Admin NFS-e issuance result for an invoice
+ */
+export const nfseUpdateSchema = z.object({
+    nfseNumber: z.string().trim().min(1, 'Número da NFS-e é obrigatório').max(50),
+});
+
+export type NfseUpdateData = z.infer<typeof nfseUpdateSchema>;
+
 // =============================================================================
 // SETTINGS SCHEMAS
 // =============================================================================
@@ -291,7 +565,10 @@ export const createApiKeySchema = z.object({
         .min(3, 'Nome deve ter pelo menos 3 caracteres')
         .max(50, 'Nome deve ter no máximo 50 caracteres'),
     scopes: z.array(z.enum(['read', 'write', 'admin'])).min(1, 'Selecione ao menos um escopo'),
-    expiresAt: z.date().optional(),
+    expiresAt: z.coerce
+        .date()
+        .refine((date) => date.getTime() > Date.now(), 'Data de expiração deve ser no futuro')
+        .optional(),
 });
 
 export type CreateApiKeyFormData = z.infer<typeof createApiKeySchema>;
@@ -323,6 +600,56 @@ export function parse<T extends z.ZodSchema>(
     return schema.parse(data);
 }
 
+/**
+ * Validate a CPF (11 digits) by its two check digits
+ */
+export function isValidCpf(cpf: string): boolean {
+    if (!/^\d{11}$/.test(cpf) || /^(\d)\1{10}$/.test(cpf)) {
+        return false;
+    }
+
+    const digits = cpf.split('').map(Number);
+
+    for (const length of [9, 10]) {
+        const sum = digits
+            .slice(0, length)
+            .reduce((acc, digit, i) => acc + digit * (length + 1 - i), 0);
+        const check = ((sum * 10) % 11) % 10;
+
+        if (check !== digits[length]) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Validate a CNPJ (14 digits) by its two check digits
+ */
+export function isValidCnpj(cnpj: string): boolean {
+    if (!/^\d{14}$/.test(cnpj) || /^(\d)\1{13}$/.test(cnpj)) {
+        return false;
+    }
+
+    const digits = cnpj.split('').map(Number);
+
+    for (const length of [12, 13]) {
+        // Weights cycle 2..9 from the rightmost digit
+        const sum = digits
+            .slice(0, length)
+            .reduce((acc, digit, i) => acc + digit * (((length - 1 - i) % 8) + 2), 0);
+        const remainder = sum % 11;
+        const check = remainder < 2 ? 0 : 11 - remainder;
+
+        if (check !== digits[length]) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
 /**
  * Get formatted validation errors from a ZodError
  */
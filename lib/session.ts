@@ -0,0 +1,306 @@
+/**
+ * Session Cookies
+ * Sealed (AES-GCM encrypted + authenticated) cookies keyed from AUTH0_SECRET
+ * Uses Web Crypto only, so it runs in both the Node and Edge runtimes
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SessionUser {
+    sub: string;
+    email: string;
+    name: string;
+    picture?: string;
+}
+
+/**
+ * Role claim carried in the session (mirrors the Prisma `Role` enum)
+ */
+export type SessionRole = 'USER' | 'MODERATOR' | 'ADMIN';
+
+export interface Session {
+    /** Unique session id, used for server-side revocation */
+    sid: string;
+    user: SessionUser;
+    /** Role at login/renewal time, checked by the middleware for /admin */
+    role?: SessionRole;
+    accessToken: string;
+    /** Issue time (ms since epoch) */
+    issuedAt: number;
+    /** Access token expiry (ms since epoch) */
+    expiresAt: number;
+    /** A refresh token is stored server-side, so an expired access token can be renewed */
+    refreshable?: boolean;
+}
+
+/**
+ * Result of opening a sealed session cookie
+ */
+export interface UnsealedSession {
+    session: Session;
+    /** True when the cookie was sealed with a previous secret and should be re-sealed */
+    needsRotation: boolean;
+}
+
+interface SessionKey {
+    id: string;
+    key: CryptoKey;
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const SESSION_COOKIE_NAME = 'appSession';
+
+/**
+ * Absolute session lifetime, independent of the access token expiry
+ */
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7; // 7 days
+
+const SEAL_VERSION = 'v1';
+const MIN_SECRET_LENGTH = 32;
+const HKDF_INFO = 'plataforma-ia:session:v1';
+
+/**
+ * Cookie options shared by every route that writes the session cookie
+ */
+export const SESSION_COOKIE_OPTIONS = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    maxAge: SESSION_MAX_AGE_SECONDS,
+    path: '/',
+};
+
+// =============================================================================
+// ENCODING HELPERS
+// =============================================================================
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    const binary = atob(padded);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+// =============================================================================
+// KEY MANAGEMENT
+// =============================================================================
+
+/**
+ * Read the configured secrets: AUTH0_SECRET seals new cookies,
+ * AUTH0_PREVIOUS_SECRETS (comma-separated) are accepted for opening only
+ */
+function getConfiguredSecrets(): string[] {
+    const current = process.env.AUTH0_SECRET ?? '';
+    const previous = (process.env.AUTH0_PREVIOUS_SECRETS ?? '')
+        .split(',')
+        .map((secret) => secret.trim())
+        .filter(Boolean);
+
+    if (current.length < MIN_SECRET_LENGTH) {
+        throw new Error(`AUTH0_SECRET must be at least ${MIN_SECRET_LENGTH} characters`);
+    }
+
+    return [current, ...previous.filter((secret) => secret.length >= MIN_SECRET_LENGTH)];
+}
+
+let keyCache: { fingerprint: string; keys: Promise<SessionKey[]> } | null = null;
+
+/**
+ * Derive an AES-GCM key and a short key id from a secret
+ */
+async function deriveKey(secret: string): Promise<SessionKey> {
+    const material = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        'HKDF',
+        false,
+        ['deriveKey']
+    );
+
+    const key = await crypto.subtle.deriveKey(
+        {
+            name: 'HKDF',
+            hash: 'SHA-256',
+            salt: new Uint8Array(0),
+            info: encoder.encode(HKDF_INFO),
+        },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(secret)));
+
+    return { id: toBase64Url(digest.slice(0, 6)), key };
+}
+
+/**
+ * Get derived keys, current key first. Cached until the secrets change.
+ */
+async function getSessionKeys(): Promise<SessionKey[]> {
+    const secrets = getConfiguredSecrets();
+    const fingerprint = secrets.join('\n');
+
+    if (keyCache?.fingerprint !== fingerprint) {
+        keyCache = { fingerprint, keys: Promise.all(secrets.map(deriveKey)) };
+    }
+
+    return keyCache.keys;
+}
+
+// =============================================================================
+// SEAL / UNSEAL
+// =============================================================================
+
+/**
+ * Generate a URL-safe random string from `bytes` random bytes
+ */
+export function randomToken(bytes: number = 32): string {
+    return toBase64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+/**
+ * Generate a random session id
+ */
+export function createSessionId(): string {
+    return randomToken(18);
+}
+
+/**
+ * SHA-256 digest as base64url (used for PKCE code challenges)
+ */
+export async function sha256Base64Url(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(value));
+    return toBase64Url(new Uint8Array(digest));
+}
+
+/**
+ * Encrypt and authenticate any JSON value with the current secret.
+ * Format: v1.<keyId>.<iv>.<ciphertext>
+ */
+export async function seal(value: unknown): Promise<string> {
+    const [current] = await getSessionKeys();
+    if (!current) {
+        throw new Error('No session key configured');
+    }
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: encoder.encode(SEAL_VERSION) },
+        current.key,
+        encoder.encode(JSON.stringify(value))
+    );
+
+    return [SEAL_VERSION, current.id, toBase64Url(iv), toBase64Url(new Uint8Array(ciphertext))].join('.');
+}
+
+/**
+ * Decrypt a sealed value. Returns null for malformed, tampered or unknown-key tokens.
+ */
+export async function unseal<T>(
+    token: string
+): Promise<{ value: T; needsRotation: boolean } | null> {
+    const [version, keyId, ivPart, dataPart, ...rest] = token.split('.');
+
+    if (version !== SEAL_VERSION || !keyId || !ivPart || !dataPart || rest.length > 0) {
+        return null;
+    }
+
+    try {
+        const keys = await getSessionKeys();
+        const index = keys.findIndex((candidate) => candidate.id === keyId);
+        const sessionKey = keys[index];
+
+        if (!sessionKey) {
+            return null;
+        }
+
+        const plaintext = await crypto.subtle.decrypt(
+            {
+                name: 'AES-GCM',
+                iv: fromBase64Url(ivPart),
+                additionalData: encoder.encode(SEAL_VERSION),
+            },
+            sessionKey.key,
+            fromBase64Url(dataPart)
+        );
+
+        return {
+            value: JSON.parse(decoder.decode(plaintext)) as T,
+            needsRotation: index > 0,
+        };
+    } catch {
+        // Authentication tag mismatch, bad base64 or bad JSON
+        return null;
+    }
+}
+
+/**
+ * Seal a session for the session cookie
+ */
+export async function sealSession(session: Session): Promise<string> {
+    return seal(session);
+}
+
+/**
+ * Open and validate a sealed session cookie.
+ * Returns null for malformed, tampered, expired or unknown-key cookies.
+ */
+export async function unsealSession(
+    token: string,
+    now: number = Date.now()
+): Promise<UnsealedSession | null> {
+    const unsealed = await unseal<Session>(token);
+
+    if (!unsealed || !isSessionShape(unsealed.value) || isSessionExpired(unsealed.value, now)) {
+        return null;
+    }
+
+    return { session: unsealed.value, needsRotation: unsealed.needsRotation };
+}
+
+/**
+ * Check the absolute session lifetime, and the access token expiry for
+ * sessions that cannot be renewed with a refresh token
+ */
+export function isSessionExpired(session: Session, now: number = Date.now()): boolean {
+    return (
+        session.issuedAt + SESSION_MAX_AGE_SECONDS * 1000 < now ||
+        (!session.refreshable && session.expiresAt < now)
+    );
+}
+
+function isSessionShape(value: unknown): value is Session {
+    if (!value || typeof value !== 'object') return false;
+
+    const session = value as Partial<Session>;
+    return (
+        typeof session.sid === 'string' &&
+        typeof session.issuedAt === 'number' &&
+        typeof session.expiresAt === 'number' &&
+        typeof session.accessToken === 'string' &&
+        typeof session.user?.sub === 'string' &&
+        typeof session.user?.email === 'string'
+    );
+}
@@ -0,0 +1,460 @@
+/**
+ * Stripe Client
+ * Minimal REST client for Checkout, Pix/boleto PaymentIntents, the customer
+ * portal and webhook verification
+ * Uses fetch + Web Crypto only (no SDK)
+ */
+
+import { timingSafeEqual } from './oauth';
+import { PLANS, type CreditPack, type PlanDefinition } from './constants';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Webhook event envelope
+ */
+export interface StripeEvent<T = Record<string, unknown>> {
+    id: string;
+    type: string;
+    created: number;
+    livemode: boolean;
+    data: {
+        object: T;
+    };
+}
+
+export interface StripeCustomer {
+    id: string;
+    email: string | null;
+}
+
+export interface StripeCheckoutSession {
+    id: string;
+    url: string | null;
+    mode: 'payment' | 'subscription' | 'setup';
+    customer: string | null;
+    subscription: string | null;
+    client_reference_id: string | null;
+    payment_intent: string | null;
+    payment_status: 'paid' | 'unpaid' | 'no_payment_required';
+    /** Amount in the smallest currency unit (centavos) */
+    amount_total: number | null;
+    currency: string | null;
+    metadata: Record<string, string>;
+}
+
+export interface StripeInvoice {
+    id: string;
+    customer: string;
+    subscription: string | null;
+    /** Amount in the smallest currency unit (centavos) */
+    amount_paid: number;
+    currency: string;
+    status_transitions: {
+        paid_at: number | null;
+    };
+    lines: {
+        data: Array<{ price: { id: string } | null }>;
+    };
+}
+
+export interface StripeCharge {
+    id: string;
+    payment_intent: string | null;
+    /** Amounts in the smallest currency unit (centavos) */
+    amount: number;
+    amount_refunded: number;
+    refunded: boolean;
+}
+
+export interface StripePaymentIntent {
+    id: string;
+    status:
+        | 'requires_payment_method'
+        | 'requires_confirmation'
+        | 'requires_action'
+        | 'processing'
+        | 'succeeded'
+        | 'canceled';
+    amount: number;
+    currency: string;
+    metadata: Record<string, string>;
+    next_action: {
+        type: string;
+        pix_display_qr_code?: {
+            data: string;
+            image_url_png: string;
+            expires_at: number;
+        };
+        boleto_display_details?: {
+            number: string;
+            hosted_voucher_url: string;
+            pdf: string;
+            expires_at: number;
+        };
+    } | null;
+}
+
+export interface StripeSubscription {
+    id: string;
+    customer: string;
+    status:
+        | 'incomplete'
+        | 'incomplete_expired'
+        | 'trialing'
+        | 'active'
+        | 'past_due'
+        | 'canceled'
+        | 'unpaid'
+        | 'paused';
+    current_period_start: number;
+    current_period_end: number;
+    cancel_at_period_end: boolean;
+    items: {
+        data: Array<{ price: { id: string } }>;
+    };
+    metadata: Record<string, string>;
+}
+
+export interface StripePortalSession {
+    id: string;
+    url: string;
+}
+
+type FormValue = string | number | boolean | null | undefined | FormParams | FormValue[];
+interface FormParams {
+    [key: string]: FormValue;
+}
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+
+/**
+ * Maximum age of a webhook signature timestamp (Stripe's default tolerance)
+ */
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+/**
+ * Error returned by the Stripe API
+ */
+export class StripeApiError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number,
+        public readonly code: string | null
+    ) {
+        super(message);
+        this.name = 'StripeApiError';
+    }
+}
+
+// =============================================================================
+// PRICES
+// =============================================================================
+
+/**
+ * Stripe price id of a plan: STRIPE_PRICE_<PLAN>_MONTHLY, falling back to PLANS
+ */
+export function getPlanPriceId(plan: PlanDefinition): string | null {
+    return process.env[`STRIPE_PRICE_${plan.id.toUpperCase()}_MONTHLY`] ?? plan.stripePriceId ?? null;
+}
+
+/**
+ * Find the plan a Stripe price belongs to
+ */
+export function getPlanByPriceId(priceId: string): PlanDefinition | null {
+    return PLANS.find((plan) => getPlanPriceId(plan) === priceId) ?? null;
+}
+
+// =============================================================================
+// API CLIENT
+// =============================================================================
+
+/**
+ * Encode params the way Stripe expects: a[b][0][c]=value
+ */
+function encodeForm(params: FormParams, prefix?: string, body = new URLSearchParams()): URLSearchParams {
+    for (const [key, value] of Object.entries(params)) {
+        const name = prefix ? `${prefix}[${key}]` : key;
+
+        if (value === undefined || value === null) {
+            continue;
+        }
+
+        if (Array.isArray(value)) {
+            value.forEach((item, index) => {
+                if (item !== null && typeof item === 'object' && !Array.isArray(item)) {
+                    encodeForm(item, `${name}[${index}]`, body);
+                } else if (item !== undefined && item !== null) {
+                    body.append(`${name}[${index}]`, String(item));
+                }
+            });
+        } else if (typeof value === 'object') {
+            encodeForm(value, name, body);
+        } else {
+            body.append(name, String(value));
+        }
+    }
+
+    return body;
+}
+
+async function stripeRequest<T>(
+    path: string,
+    params: FormParams = {},
+    options: { method?: 'GET' | 'POST'; idempotencyKey?: string } = {}
+): Promise<T> {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    if (!secretKey) {
+        throw new StripeApiError('STRIPE_SECRET_KEY is not configured', 500, null);
+    }
+
+    const { method = 'POST', idempotencyKey } = options;
+    const body = encodeForm(params).toString();
+
+    const response = await fetch(
+        method === 'GET' && body ? `${STRIPE_API_URL}${path}?${body}` : `${STRIPE_API_URL}${path}`,
+        {
+            method,
+            headers: {
+                Authorization: `Bearer ${secretKey}`,
+                'Content-Type': 'application/x-www-form-urlencoded',
+                ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+            },
+            body: method === 'POST' ? body : undefined,
+        }
+    );
+
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok) {
+        const error = (data as { error?: { message?: string; code?: string } } | null)?.error;
+        throw new StripeApiError(
+            error?.message ?? `HTTP ${response.status}`,
+            response.status,
+            error?.code ?? null
+        );
+    }
+
+    return data as T;
+}
+
+/**
+ * Create a customer for a user
+ */
+export async function createCustomer(data: {
+    userId: string;
+    email: string;
+    name?: string | null;
+}): Promise<StripeCustomer> {
+    return stripeRequest<StripeCustomer>(
+        '/customers',
+        {
+            email: data.email,
+            name: data.name ?? undefined,
+            metadata: { userId: data.userId },
+        },
+        { idempotencyKey: `customer:${data.userId}` }
+    );
+}
+
+/**
+ * Create a hosted Checkout session for a plan subscription
+ */
+export async function createSubscriptionCheckout(data: {
+    userId: string;
+    customerId: string;
+    priceId: string;
+    successUrl: string;
+    cancelUrl: string;
+}): Promise<StripeCheckoutSession> {
+    return stripeRequest<StripeCheckoutSession>('/checkout/sessions', {
+        mode: 'subscription',
+        customer: data.customerId,
+        client_reference_id: data.userId,
+        line_items: [{ price: data.priceId, quantity: 1 }],
+        success_url: data.successUrl,
+        cancel_url: data.cancelUrl,
+        allow_promotion_codes: true,
+        metadata: { userId: data.userId },
+        subscription_data: { metadata: { userId: data.userId } },
+    });
+}
+
+/**
+ * Create a hosted Checkout session for a one-off credit pack purchase
+ */
+export async function createCreditPackCheckout(data: {
+    userId: string;
+    customerId: string;
+    pack: CreditPack;
+    successUrl: string;
+    cancelUrl: string;
+}): Promise<StripeCheckoutSession> {
+    const metadata = { userId: data.userId, packId: data.pack.id, credits: data.pack.credits };
+
+    return stripeRequest<StripeCheckoutSession>('/checkout/sessions', {
+        mode: 'payment',
+        customer: data.customerId,
+        client_reference_id: data.userId,
+        line_items: [
+            {
+                quantity: 1,
+                price_data: {
+                    currency: data.pack.currency.toLowerCase(),
+                    unit_amount: Math.round(data.pack.price * 100),
+                    product_data: { name: `${data.pack.name} (${data.pack.credits} créditos)` },
+                },
+            },
+        ],
+        success_url: data.successUrl,
+        cancel_url: data.cancelUrl,
+        metadata,
+        payment_intent_data: { metadata },
+    });
+}
+
+/**
+ * Create and confirm a Pix or boleto PaymentIntent. The voucher (QR code or
+ * boleto line) comes back in next_action; payment is confirmed by webhook.
+ */
+export async function createPaymentIntent(data: {
+    method: 'pix' | 'boleto';
+    amount: number;
+    currency: string;
+    expiresInSeconds: number;
+    billingDetails: {
+        name: string;
+        email: string;
+        taxId?: string;
+        address?: {
+            line1: string;
+            city: string;
+            state: string;
+            postalCode: string;
+        };
+    };
+    metadata: Record<string, string>;
+    idempotencyKey: string;
+}): Promise<StripePaymentIntent> {
+    const { billingDetails } = data;
+    const expiresInDays = Math.max(1, Math.ceil(data.expiresInSeconds / 86400));
+
+    return stripeRequest<StripePaymentIntent>(
+        '/payment_intents',
+        {
+            amount: Math.round(data.amount * 100),
+            currency: data.currency.toLowerCase(),
+            confirm: true,
+            payment_method_types: [data.method],
+            payment_method_data: {
+                type: data.method,
+                billing_details: {
+                    name: billingDetails.name,
+                    email: billingDetails.email,
+                    address: billingDetails.address && {
+                        line1: billingDetails.address.line1,
+                        city: billingDetails.address.city,
+                        state: billingDetails.address.state,
+                        postal_code: billingDetails.address.postalCode,
+                        country: 'BR',
+                    },
+                },
+                ...(data.method === 'boleto' && { boleto: { tax_id: billingDetails.taxId } }),
+            },
+            payment_method_options:
+                data.method === 'pix'
+                    ? { pix: { expires_after_seconds: data.expiresInSeconds } }
+                    : { boleto: { expires_after_days: expiresInDays } },
+            metadata: data.metadata,
+        },
+        { idempotencyKey: data.idempotencyKey }
+    );
+}
+
+/**
+ * Fetch a PaymentIntent (status polling)
+ */
+export async function retrievePaymentIntent(id: string): Promise<StripePaymentIntent> {
+    return stripeRequest<StripePaymentIntent>(`/payment_intents/${encodeURIComponent(id)}`, {}, { method: 'GET' });
+}
+
+/**
+ * Create a customer portal session (manage card, cancel, switch plan)
+ */
+export async function createPortalSession(data: {
+    customerId: string;
+    returnUrl: string;
+}): Promise<StripePortalSession> {
+    return stripeRequest<StripePortalSession>('/billing_portal/sessions', {
+        customer: data.customerId,
+        return_url: data.returnUrl,
+    });
+}
+
+// =============================================================================
+// WEBHOOKS
+// =============================================================================
+
+async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+
+    return Array.from(new Uint8Array(signature))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+/**
+ * Verify a `Stripe-Signature` header against the raw request body and parse the event.
+ * Returns null for missing, malformed, stale or forged signatures.
+ */
+export async function verifyWebhookEvent(
+    payload: string,
+    signatureHeader: string | null,
+    secret: string,
+    now: number = Date.now()
+): Promise<StripeEvent | null> {
+    if (!signatureHeader || !secret) {
+        return null;
+    }
+
+    const parts = signatureHeader.split(',').map((part) => part.trim().split('='));
+    const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value ?? '');
+
+    if (!Number.isFinite(timestamp) || signatures.length === 0) {
+        return null;
+    }
+
+    if (Math.abs(now / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+        return null;
+    }
+
+    const expected = await hmacSha256Hex(secret, `${timestamp}.${payload}`);
+    if (!signatures.some((signature) => timingSafeEqual(signature, expected))) {
+        return null;
+    }
+
+    try {
+        return JSON.parse(payload) as StripeEvent;
+    } catch {
+        return null;
+    }
+}
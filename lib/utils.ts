@@ -129,6 +129,24 @@ export function formatCredits(credits: number): string {
     return credits.toFixed(2);
 }
 
+/**
+ * Format a CPF (000.000.000-00) or CNPJ (00.000.000/0000-00) from its digits
+ * 
+ * @param taxId - CPF or CNPJ digits
+ * @returns Formatted document, or the input when it is neither length
+ */
+export function formatTaxId(taxId: string): string {
+    const digits = taxId.replace(/\D/g, '');
+
+    if (digits.length === 11) {
+        return digits.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
+    }
+    if (digits.length === 14) {
+        return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+    }
+    return taxId;
+}
+
 /**
  * Clamp a number between min and max values
  * 
@@ -5,6 +5,8 @@
 
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { ADMIN_NAV_ITEMS } from '@/lib/constants';
+import { SESSION_COOKIE_NAME, unsealSession, type Session } from '@/lib/session';
 
 // =============================================================================
 // CONFIGURATION
@@ -19,46 +21,118 @@ const PROTECTED_ROUTES = [
     '/editor',
     '/settings',
     '/admin',
+    '/api',
 ];
 
+/**
+ * Routes that require the ADMIN role claim
+ */
+const ADMIN_ROUTES = [
+    '/api/admin',
+    ...ADMIN_NAV_ITEMS.map((item) => item.href),
+];
+
+/**
+ * API routes reachable without a session
+ */
+const PUBLIC_API_ROUTES = [
+    '/api/auth',
+    '/api/webhooks', // Verified by provider signature
+];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function matchesRoute(pathname: string, routes: string[]): boolean {
+    return routes.some((route) => pathname === route || pathname.startsWith(`${route}/`));
+}
+
+/**
+ * Requests carrying their own credentials (webhook secret, API key)
+ * are verified by the route handler
+ */
+function hasDelegatedCredentials(request: NextRequest): boolean {
+    return (
+        request.headers.has('x-webhook-secret') ||
+        /^Bearer\s+\S+$/i.test(request.headers.get('authorization') ?? '')
+    );
+}
+
+/**
+ * Verify the sealed session cookie (signature + expiry).
+ * Revocation needs the database and is checked again by getSession() on the server.
+ */
+async function verifySession(request: NextRequest): Promise<Session | null> {
+    const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME);
+
+    if (!sessionCookie) {
+        return null;
+    }
+
+    const unsealed = await unsealSession(sessionCookie.value);
+    return unsealed?.session ?? null;
+}
+
 // =============================================================================
 // MIDDLEWARE
 // =============================================================================
 
 export async function middleware(request: NextRequest) {
     const { pathname } = request.nextUrl;
+    const isApiRoute = matchesRoute(pathname, ['/api']);
 
-    // Skip middleware for static files and API auth routes
+    // Skip middleware for static files and public API routes
     if (
         pathname.startsWith('/_next') ||
         pathname.startsWith('/static') ||
-        pathname.includes('.') ||
-        pathname.startsWith('/api/auth')
+        (!isApiRoute && pathname.includes('.')) ||
+        matchesRoute(pathname, PUBLIC_API_ROUTES)
     ) {
         return NextResponse.next();
     }
 
     // Check if route is protected
-    const isProtectedRoute = PROTECTED_ROUTES.some((route) =>
-        pathname.startsWith(route)
-    );
-
-    if (!isProtectedRoute) {
+    if (!matchesRoute(pathname, PROTECTED_ROUTES)) {
         return NextResponse.next();
     }
 
-    // For protected routes, check for auth cookie
-    const authCookie = request.cookies.get('appSession');
+    const session = await verifySession(request);
+
+    if (!session) {
+        if (isApiRoute) {
+            if (hasDelegatedCredentials(request)) {
+                return NextResponse.next();
+            }
 
-    if (!authCookie) {
-        // No auth cookie - redirect to login
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        // No valid session - redirect to login and drop any bad cookie
         const loginUrl = new URL('/api/auth/login', request.url);
-        loginUrl.searchParams.set('returnTo', pathname);
-        return NextResponse.redirect(loginUrl);
+        loginUrl.searchParams.set('returnTo', `${pathname}${request.nextUrl.search}`);
+
+        const response = NextResponse.redirect(loginUrl);
+        if (request.cookies.has(SESSION_COOKIE_NAME)) {
+            response.cookies.delete(SESSION_COOKIE_NAME);
+        }
+        return response;
     }
 
-    // For admin routes, we'll check admin status in the page/layout itself
-    // since we can't decode the session here without the edge runtime
+    // Admin routes require the role claim sealed into the session
+    if (matchesRoute(pathname, ADMIN_ROUTES) && session.role !== 'ADMIN') {
+        if (isApiRoute) {
+            return NextResponse.json(
+                { error: 'Admin access required' },
+                { status: 403 }
+            );
+        }
+
+        return NextResponse.redirect(new URL('/dashboard', request.url));
+    }
 
     return NextResponse.next();
 }
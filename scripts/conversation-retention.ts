@@ -0,0 +1,52 @@
+/**
+ * Conversation Retention CLI
+ * Usage: npm run conversations:retention -- [--dry-run] [--user <id>]...
+ */
+
+import { prisma } from '../lib/prisma';
+import { runConversationRetention, type RetentionOptions } from '../lib/retention';
+
+// =============================================================================
+// ARGUMENTS
+// =============================================================================
+
+function parseArgs(argv: string[]): RetentionOptions {
+    const userIds: string[] = [];
+    let dryRun = false;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+
+        if (arg === '--dry-run') {
+            dryRun = true;
+        } else if (arg === '--user' && argv[i + 1]) {
+            userIds.push(argv[++i] as string);
+        } else {
+            throw new Error(`Unknown argument: ${arg}. Usage: conversation-retention [--dry-run] [--user <id>]...`);
+        }
+    }
+
+    return { dryRun, userIds: userIds.length > 0 ? userIds : undefined };
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main() {
+    const options = parseArgs(process.argv.slice(2));
+    const summary = await runConversationRetention(options);
+
+    console.log(JSON.stringify(summary, null, 2));
+
+    if (summary.errors > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main()
+    .catch((error) => {
+        console.error('[Retention] Error:', error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
@@ -0,0 +1,58 @@
+/**
+ * Credit Refill CLI
+ * Usage: npm run credits:refill -- <daily|monthly> [--dry-run] [--user <id>]...
+ */
+
+import { prisma } from '../lib/prisma';
+import { runCreditRefill, type RefillPeriod } from '../lib/refills';
+
+// =============================================================================
+// ARGUMENTS
+// =============================================================================
+
+function parseArgs(argv: string[]): { period: RefillPeriod; dryRun: boolean; userIds?: string[] } {
+    const [period, ...rest] = argv;
+
+    if (period !== 'daily' && period !== 'monthly') {
+        throw new Error('Usage: refill-credits <daily|monthly> [--dry-run] [--user <id>]...');
+    }
+
+    const userIds: string[] = [];
+    let dryRun = false;
+
+    for (let i = 0; i < rest.length; i++) {
+        const arg = rest[i];
+
+        if (arg === '--dry-run') {
+            dryRun = true;
+        } else if (arg === '--user' && rest[i + 1]) {
+            userIds.push(rest[++i] as string);
+        } else {
+            throw new Error(`Unknown argument: ${arg}`);
+        }
+    }
+
+    return { period, dryRun, userIds: userIds.length > 0 ? userIds : undefined };
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main() {
+    const options = parseArgs(process.argv.slice(2));
+    const summary = await runCreditRefill(options);
+
+    console.log(JSON.stringify(summary, null, 2));
+
+    if (summary.errors > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main()
+    .catch((error) => {
+        console.error('[Refills] Error:', error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());